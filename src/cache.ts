@@ -0,0 +1,101 @@
+// src/cache.ts - In-process TTL cache with request coalescing and stale-if-error for upstream lookups
+import { recordCacheLookup, setCacheEntries } from "./metrics.js";
+
+export type CacheStatus = "hit" | "miss" | "coalesced" | "stale";
+
+export interface CacheOptions {
+    name: string;
+    // Entries are fresh for ttlMs; 0 disables storage (concurrent calls are still coalesced)
+    ttlMs: number;
+    // Expired entries are kept this much longer and served if the upstream fails
+    staleMs: number;
+    maxEntries: number;
+}
+
+export interface CacheResult<T> {
+    value: T;
+    status: CacheStatus;
+    ageSeconds: number;
+    // Upstream failure that caused a stale value to be served
+    staleReason?: string;
+}
+
+interface CacheEntry<T> {
+    value: T;
+    storedAt: number;
+}
+
+/**
+ * Create a cache whose getOrLoad shares one in-flight load per key among concurrent callers
+ */
+export const createCache = <T>(options: CacheOptions) => {
+    const entries = new Map<string, CacheEntry<T>>();
+    const inFlight = new Map<string, Promise<T>>();
+
+    const ageSeconds = (entry: CacheEntry<T>) => Math.round((Date.now() - entry.storedAt) / 1000);
+
+    const store = (key: string, value: T) => {
+        if (options.ttlMs <= 0) return;
+
+        // Map preserves insertion order, so re-inserting keeps the most recently used last
+        entries.delete(key);
+        entries.set(key, { value, storedAt: Date.now() });
+        while (entries.size > options.maxEntries) {
+            entries.delete(entries.keys().next().value as string);
+        }
+        setCacheEntries(options.name, entries.size);
+    };
+
+    const result = (value: T, status: CacheStatus, age = 0, staleReason?: string): CacheResult<T> => {
+        recordCacheLookup(options.name, status);
+        return staleReason ? { value, status, ageSeconds: age, staleReason } : { value, status, ageSeconds: age };
+    };
+
+    const getOrLoad = async (key: string, load: () => Promise<T>): Promise<CacheResult<T>> => {
+        const entry = entries.get(key);
+        const now = Date.now();
+
+        if (entry && now - entry.storedAt < options.ttlMs) {
+            entries.delete(key);
+            entries.set(key, entry);
+            return result(entry.value, "hit", ageSeconds(entry));
+        }
+
+        // Upstream failed: fall back to the expired entry while it is within the stale window
+        const staleOrThrow = (err: unknown): CacheResult<T> => {
+            if (entry && now - entry.storedAt < options.ttlMs + options.staleMs) {
+                return result(entry.value, "stale", ageSeconds(entry), String(err));
+            }
+            throw err;
+        };
+
+        const pending = inFlight.get(key);
+        if (pending) {
+            try {
+                return result(await pending, "coalesced");
+            } catch (err) {
+                return staleOrThrow(err);
+            }
+        }
+
+        const loading = load();
+        inFlight.set(key, loading);
+
+        try {
+            const value = await loading;
+            store(key, value);
+            return result(value, "miss");
+        } catch (err) {
+            return staleOrThrow(err);
+        } finally {
+            inFlight.delete(key);
+        }
+    };
+
+    const clear = () => {
+        entries.clear();
+        setCacheEntries(options.name, 0);
+    };
+
+    return { getOrLoad, clear, size: () => entries.size };
+};
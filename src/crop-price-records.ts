@@ -0,0 +1,120 @@
+// src/crop-price-records.ts - Normalization layer turning raw data.gov.in rows into typed crop-price records
+
+/**
+ * One market price observation, prices in ₹ per quintal
+ */
+export interface CropPriceRecord {
+    state: string;
+    state_id: string;
+    district: string;
+    district_id: string;
+    market: string;
+    market_id: string;
+    commodity: string;
+    commodity_id: string;
+    variety: string | null;
+    grade: string | null;
+    // ISO yyyy-mm-dd
+    arrival_date: string | null;
+    min_price: number | null;
+    max_price: number | null;
+    modal_price: number | null;
+    price_unit: "INR/quintal";
+    raw?: Record<string, unknown>;
+}
+
+// data.gov.in resources differ in field casing and spacing (Modal_Price, modal_price, Modal_x0020_Price)
+const field = (row: Record<string, any>, name: string): unknown => {
+    if (name in row) return row[name];
+
+    const wanted = name.replace(/_/g, "");
+    const key = Object.keys(row).find(k => k.toLowerCase().replace(/_x0020_|[\s_]/g, "") === wanted);
+    return key === undefined ? undefined : row[key];
+};
+
+const cleanText = (value: unknown): string => String(value ?? "").trim().replace(/\s+/g, " ");
+
+/**
+ * "UTTAR PRADESH" / "uttar pradesh" -> "Uttar Pradesh"; words inside brackets are cased the same way
+ */
+export const canonicalName = (value: unknown): string =>
+    cleanText(value).toLowerCase().replace(/(^|[\s(/-])([a-z])/g, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+
+/**
+ * Stable identifier for matching names regardless of casing and punctuation: "Paddy(Dhan)(Common)" -> "paddy-dhan-common"
+ */
+export const canonicalId = (value: unknown): string =>
+    cleanText(value).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+/**
+ * Numeric price from strings like "2125", "2,125" or "2125.00"; blank or non-numeric values give null
+ */
+export const parsePrice = (value: unknown): number | null => {
+    const raw = String(value ?? "").replace(/,/g, "").trim();
+    if (raw === "") return null;
+
+    const parsed = Number(raw);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+/**
+ * dd/mm/yyyy (or ISO) arrival date to yyyy-mm-dd; impossible dates give null
+ */
+export const parseArrivalDate = (value: unknown): string | null => {
+    const raw = cleanText(value);
+
+    let year: number, month: number, day: number;
+    const dmy = raw.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (dmy) {
+        [day, month, year] = [Number(dmy[1]), Number(dmy[2]), Number(dmy[3])];
+    } else if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else {
+        return null;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+    return date.toISOString().slice(0, 10);
+};
+
+const optionalName = (value: unknown): string | null => {
+    const name = canonicalName(value);
+    return name === "" ? null : name;
+};
+
+/**
+ * Normalize a raw data.gov.in row; the raw row is attached only when asked for
+ */
+export const normalizeCropPriceRow = (row: Record<string, any>, includeRaw = false): CropPriceRecord => {
+    const state = canonicalName(field(row, "state"));
+    const district = canonicalName(field(row, "district"));
+    const market = canonicalName(field(row, "market"));
+    const commodity = canonicalName(field(row, "commodity"));
+
+    const record: CropPriceRecord = {
+        state,
+        state_id: canonicalId(state),
+        district,
+        district_id: canonicalId(district),
+        market,
+        market_id: canonicalId(market),
+        commodity,
+        commodity_id: canonicalId(commodity),
+        variety: optionalName(field(row, "variety")),
+        grade: optionalName(field(row, "grade")),
+        arrival_date: parseArrivalDate(field(row, "arrival_date")),
+        min_price: parsePrice(field(row, "min_price")),
+        max_price: parsePrice(field(row, "max_price")),
+        modal_price: parsePrice(field(row, "modal_price")),
+        price_unit: "INR/quintal"
+    };
+
+    return includeRaw ? { ...record, raw: row } : record;
+};
+
+export const normalizeCropPriceRows = (rows: Record<string, any>[], includeRaw = false): CropPriceRecord[] =>
+    rows.map(row => normalizeCropPriceRow(row, includeRaw));
@@ -0,0 +1,140 @@
+// src/crop-stage.ts - Growing degree day accumulation and phenological stage estimates from daily temperatures
+import { CropPhenology, PhenologyStage } from "./reference-data.js";
+import { WeatherDay } from "./weather.js";
+
+export interface GddDay {
+    date: string;
+    gdd: number;
+    cumulative_gdd: number;
+    forecast: boolean;
+}
+
+export interface StageTimelineEntry {
+    name: string;
+    label: string;
+    gdd: number;
+    status: "completed" | "current" | "upcoming";
+    // Date the stage was reached, or the projected date for upcoming stages
+    date: string | null;
+    projected: boolean;
+}
+
+export interface CropStageEstimate {
+    days_after_sowing: number;
+    accumulated_gdd: number;
+    maturity_gdd: number;
+    percent_to_maturity: number;
+    observed_days: number;
+    missing_days: number;
+    // Average GDD per day used to project beyond the forecast
+    projection_rate: number;
+    current_stage: PhenologyStage & { started_on: string | null };
+    next_stage: (PhenologyStage & { gdd_remaining: number; expected_date: string | null }) | null;
+    timeline: StageTimelineEntry[];
+    harvest_window: { status: "upcoming" | "ready"; earliest: string | null; expected: string | null; latest: string | null };
+    daily: GddDay[];
+}
+
+export interface CropStageOptions {
+    sowingDate: string;
+    // First day not yet observed; days from here on come from the forecast
+    today: string;
+    // Variety duration factor applied to every stage threshold
+    gddFactor: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days of observations and forecast averaged to project stages beyond the forecast
+const PROJECTION_WINDOW_DAYS = 14;
+// No crop develops at zero thermal time, so projections never assume less than this
+const MIN_PROJECTION_RATE = 1;
+// Once mature, grain is best harvested within about a week before shattering and weather losses mount
+const READY_HARVEST_DAYS = 7;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Daily degree days by the modified averaging method: Tmax is capped at the upper threshold and Tmin floored at the base
+ */
+export const dailyGdd = (day: WeatherDay, baseTemp: number, upperTemp: number) => {
+    const max = Math.min(day.temperature.max, upperTemp);
+    const min = Math.max(Math.min(day.temperature.min, upperTemp), baseTemp);
+    return Math.max(0, (Math.max(max, min) + min) / 2 - baseTemp);
+};
+
+/**
+ * Accumulate GDD from sowing over observed and forecast days, place the crop in its stage, and project
+ * upcoming stages and the harvest window from the forecast and then the recent average rate.
+ */
+export const estimateCropStage = (days: WeatherDay[], phenology: CropPhenology, options: CropStageOptions): CropStageEstimate => {
+    const stages = phenology.stages.map(stage => ({ ...stage, gdd: Math.round(stage.gdd * options.gddFactor) }));
+    const maturity = stages[stages.length - 1];
+
+    const daily: GddDay[] = [];
+    let cumulative = 0;
+    for (const day of days.filter(d => d.date >= options.sowingDate).sort((a, b) => a.date.localeCompare(b.date))) {
+        const gdd = dailyGdd(day, phenology.base_temp_c, phenology.upper_temp_c);
+        cumulative += gdd;
+        daily.push({ date: day.date, gdd: round1(gdd), cumulative_gdd: round1(cumulative), forecast: day.date >= options.today });
+    }
+
+    const observed = daily.filter(d => !d.forecast);
+    const accumulated = observed[observed.length - 1]?.cumulative_gdd ?? 0;
+    const daysAfterSowing = Math.max(0, daysBetween(options.sowingDate, options.today));
+
+    const recent = daily.filter(d => d.date >= addDays(options.today, -PROJECTION_WINDOW_DAYS));
+    const rate = Math.max(MIN_PROJECTION_RATE, recent.length > 0 ? recent.reduce((sum, d) => sum + d.gdd, 0) / recent.length : 0);
+    const last = daily[daily.length - 1];
+
+    // Date a cumulative GDD total is (or is expected to be) reached
+    const dateAt = (target: number): { date: string | null; projected: boolean } => {
+        if (target <= 0) return { date: options.sowingDate, projected: false };
+        const hit = daily.find(d => d.cumulative_gdd >= target);
+        if (hit) return { date: hit.date, projected: hit.forecast };
+        if (!last) return { date: null, projected: true };
+        return { date: addDays(last.date, Math.ceil((target - last.cumulative_gdd) / rate)), projected: true };
+    };
+
+    const currentIndex = stages.reduce((found, stage, i) => (accumulated >= stage.gdd ? i : found), 0);
+    const timeline: StageTimelineEntry[] = stages.map((stage, i) => ({
+        name: stage.name,
+        label: stage.label,
+        gdd: stage.gdd,
+        status: i < currentIndex ? "completed" : i === currentIndex ? "current" : "upcoming",
+        ...dateAt(stage.gdd)
+    }));
+
+    const current = stages[currentIndex];
+    const next = stages[currentIndex + 1];
+    const ready = accumulated >= maturity.gdd;
+
+    // Harvest window: the projected maturity date, widened by a tenth of the days still to go (at least three days)
+    const maturityDate = dateAt(maturity.gdd).date;
+    const spread = maturityDate ? Math.max(3, Math.round(daysBetween(options.today, maturityDate) * 0.1)) : 0;
+
+    return {
+        days_after_sowing: daysAfterSowing,
+        accumulated_gdd: round1(accumulated),
+        maturity_gdd: maturity.gdd,
+        percent_to_maturity: Math.min(100, Math.round((accumulated / maturity.gdd) * 100)),
+        observed_days: observed.length,
+        missing_days: Math.max(0, daysAfterSowing - observed.length),
+        projection_rate: round1(rate),
+        current_stage: { ...current, started_on: timeline[currentIndex].date },
+        next_stage: next ? { ...next, gdd_remaining: round1(next.gdd - accumulated), expected_date: timeline[currentIndex + 1].date } : null,
+        timeline,
+        harvest_window: ready
+            ? { status: "ready", earliest: maturityDate, expected: maturityDate, latest: maturityDate ? addDays(maturityDate, READY_HARVEST_DAYS) : null }
+            : {
+                status: "upcoming",
+                earliest: maturityDate ? addDays(maturityDate, -spread) : null,
+                expected: maturityDate,
+                latest: maturityDate ? addDays(maturityDate, spread) : null
+            },
+        daily
+    };
+};
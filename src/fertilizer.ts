@@ -0,0 +1,145 @@
+// src/fertilizer.ts - Soil test crop response (STCR) nutrient doses and their conversion to fertilizer products
+import { translator, Translate } from "./messages.js";
+import {
+    CropFertilizerProfile,
+    FertilizerProduct,
+    PlantNutrient,
+    FERTILIZER_PRODUCTS,
+    FYM_NUTRIENT_CREDIT
+} from "./reference-data.js";
+
+export type ProductKey = keyof typeof FERTILIZER_PRODUCTS;
+
+export interface NutrientRequirement {
+    nutrient: PlantNutrient;
+    // Soil test value used in the equation, kg/ha
+    soil_test: number | null;
+    basis: "stcr_equation" | "general_recommendation";
+    equation_dose: number;
+    fym_credit: number;
+    // Final dose to apply, kg/ha
+    dose: number;
+    note?: string;
+}
+
+export interface ProductDose {
+    product: ProductKey;
+    name: string;
+    kg_per_ha: number;
+}
+
+export interface SplitDose {
+    timing: string;
+    stage?: string;
+    products: ProductDose[];
+}
+
+const NUTRIENTS: PlantNutrient[] = ["n", "p2o5", "k2o"];
+const NUTRIENT_LABELS: Record<PlantNutrient, string> = { n: "N", p2o5: "P2O5", k2o: "K2O" };
+// Equation doses are capped at this multiple of the general recommendation; beyond it the soil test is usually suspect
+const MAX_DOSE_FACTOR = 1.5;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Nutrient doses (kg/ha) for a target yield (q/ha) from the STCR equations, less the farmyard manure credit.
+ * A missing soil test falls back to the general recommended dose for that nutrient.
+ */
+export const nutrientRequirements = (
+    profile: CropFertilizerProfile,
+    soilTests: Partial<Record<PlantNutrient, number>>,
+    targetYield: number,
+    fymTonnesPerHa: number,
+    t: Translate = translator("en")
+): NutrientRequirement[] => NUTRIENTS.map(nutrient => {
+    const soilTest = soilTests[nutrient];
+    const recommended = profile.recommended_dose[nutrient];
+    const fymCredit = round1(FYM_NUTRIENT_CREDIT[nutrient] * fymTonnesPerHa);
+    const minimum = profile.minimum_dose?.[nutrient] ?? 0;
+    const label = NUTRIENT_LABELS[nutrient];
+
+    if (soilTest === undefined) {
+        return {
+            nutrient,
+            soil_test: null,
+            basis: "general_recommendation",
+            equation_dose: recommended,
+            fym_credit: fymCredit,
+            dose: Math.max(minimum, round1(recommended - fymCredit)),
+            note: t("fertilizer.no_soil_test", { nutrient: label, dose: recommended })
+        };
+    }
+
+    const { per_quintal, soil_factor } = profile.equations[nutrient];
+    const equationDose = round1(per_quintal * targetYield - soil_factor * soilTest);
+    const ceiling = recommended * MAX_DOSE_FACTOR;
+    let dose = Math.max(0, equationDose - fymCredit);
+    let note: string | undefined;
+
+    if (dose > ceiling) {
+        dose = ceiling;
+        note = t("fertilizer.dose_capped", { nutrient: label, factor: MAX_DOSE_FACTOR });
+    } else if (dose < minimum) {
+        dose = minimum;
+        note = t("fertilizer.starter_dose", { nutrient: label, dose: minimum });
+    } else if (dose === 0) {
+        note = t("fertilizer.sufficient", { nutrient: label });
+    }
+
+    return {
+        nutrient,
+        soil_test: soilTest,
+        basis: "stcr_equation",
+        equation_dose: equationDose,
+        fym_credit: fymCredit,
+        dose: round1(dose),
+        ...(note ? { note } : {})
+    };
+});
+
+const productDose = (product: ProductKey, kgPerHa: number): ProductDose => ({
+    product,
+    name: FERTILIZER_PRODUCTS[product].name,
+    kg_per_ha: round1(kgPerHa)
+});
+
+/**
+ * Product quantities (kg/ha) supplying the nutrient doses: phosphate from DAP or SSP, potash from MOP,
+ * and the remaining nitrogen (after DAP's share) from urea
+ */
+export const productQuantities = (doses: Record<PlantNutrient, number>, phosphate: "dap" | "ssp"): ProductDose[] => {
+    const phosphateProduct: FertilizerProduct = FERTILIZER_PRODUCTS[phosphate];
+    const phosphateKg = doses.p2o5 / phosphateProduct.content.p2o5!;
+    const nitrogenFromPhosphate = phosphateKg * (phosphateProduct.content.n ?? 0);
+    const ureaKg = Math.max(0, doses.n - nitrogenFromPhosphate) / FERTILIZER_PRODUCTS.urea.content.n!;
+    const mopKg = doses.k2o / FERTILIZER_PRODUCTS.mop.content.k2o!;
+
+    return [productDose("urea", ureaKg), productDose(phosphate, phosphateKg), productDose("mop", mopKg)]
+        .filter(p => p.kg_per_ha > 0);
+};
+
+/**
+ * Spread the season's doses over the crop's split schedule. DAP goes in with the basal dose, so its
+ * nitrogen is taken out of the urea planned for the earliest splits.
+ */
+export const splitSchedule = (profile: CropFertilizerProfile, doses: Record<PlantNutrient, number>, phosphate: "dap" | "ssp"): SplitDose[] => {
+    const phosphateProduct = FERTILIZER_PRODUCTS[phosphate];
+    let dapNitrogen = (doses.p2o5 / phosphateProduct.content.p2o5!) * (phosphateProduct.content.n ?? 0);
+
+    return profile.splits.map(split => {
+        const n = doses.n * (split.share.n ?? 0);
+        const p2o5 = doses.p2o5 * (split.share.p2o5 ?? 0);
+        const k2o = doses.k2o * (split.share.k2o ?? 0);
+
+        const fromDap = Math.min(n, dapNitrogen);
+        dapNitrogen -= fromDap;
+
+        const products = [
+            productDose("urea", (n - fromDap) / FERTILIZER_PRODUCTS.urea.content.n!),
+            productDose(phosphate, p2o5 / phosphateProduct.content.p2o5!),
+            productDose("mop", k2o / FERTILIZER_PRODUCTS.mop.content.k2o!)
+        ].filter(p => p.kg_per_ha > 0);
+
+        return { timing: split.timing, ...(split.stage ? { stage: split.stage } : {}), products };
+    });
+};
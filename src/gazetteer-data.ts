@@ -0,0 +1,994 @@
+// src/gazetteer-data.ts - States, districts, mandis and commodities of the built-in gazetteer
+//
+// Canonical names follow the spelling of data.gov.in mandi records (e.g. "Chattisgarh", "Gurgaon", "Soyabean") so they
+// can be used as filters directly; official, renamed and local-language names are listed as aliases.
+
+export interface GazetteerDistrict {
+    name: string;
+    // District headquarters, decimal degrees
+    lat: number;
+    lon: number;
+    aliases?: string[];
+}
+
+export interface GazetteerState {
+    name: string;
+    // Vehicle registration / ISO 3166-2:IN subdivision code
+    code: string;
+    aliases: string[];
+    districts: GazetteerDistrict[];
+    // True when only some districts are listed, so an unlisted district is passed through rather than rejected
+    partial?: boolean;
+}
+
+export interface GazetteerMandi {
+    name: string;
+    district: string;
+    state: string;
+    lat: number;
+    lon: number;
+    aliases?: string[];
+}
+
+export interface CommodityEntry {
+    // data.gov.in commodity name
+    name: string;
+    // Key into the reference tables (BASE_PRICES, LOCAL_CROP_NAMES)
+    key: string;
+    aliases: string[];
+}
+
+export const GAZETTEER_STATES: GazetteerState[] = [
+    {
+        name: "Andhra Pradesh", code: "AP", aliases: ["andhra", "आंध्र प्रदेश"],
+        districts: [
+            { name: "Alluri Sitharama Raju", lat: 18.08, lon: 82.67, aliases: ["ASR"] },
+            { name: "Anakapalli", lat: 17.69, lon: 83.00 },
+            { name: "Anantapur", lat: 14.68, lon: 77.60, aliases: ["Ananthapuramu", "Anantapuramu"] },
+            { name: "Annamayya", lat: 14.06, lon: 78.75 },
+            { name: "Bapatla", lat: 15.90, lon: 80.47 },
+            { name: "Chittoor", lat: 13.22, lon: 79.10 },
+            { name: "Dr. B.R. Ambedkar Konaseema", lat: 16.58, lon: 82.01, aliases: ["Konaseema"] },
+            { name: "East Godavari", lat: 17.00, lon: 81.80 },
+            { name: "Eluru", lat: 16.71, lon: 81.10 },
+            { name: "Guntur", lat: 16.31, lon: 80.44 },
+            { name: "Kakinada", lat: 16.99, lon: 82.25 },
+            { name: "Krishna", lat: 16.19, lon: 81.14 },
+            { name: "Kurnool", lat: 15.83, lon: 78.04 },
+            { name: "Nandyal", lat: 15.48, lon: 78.48 },
+            { name: "NTR", lat: 16.51, lon: 80.65, aliases: ["Vijayawada"] },
+            { name: "Palnadu", lat: 16.23, lon: 80.05 },
+            { name: "Parvathipuram Manyam", lat: 18.78, lon: 83.43 },
+            { name: "Prakasam", lat: 15.51, lon: 80.05, aliases: ["Ongole"] },
+            { name: "Nellore", lat: 14.44, lon: 79.99, aliases: ["Sri Potti Sriramulu Nellore", "SPSR Nellore"] },
+            { name: "Sri Sathya Sai", lat: 14.17, lon: 77.81 },
+            { name: "Srikakulam", lat: 18.30, lon: 83.90 },
+            { name: "Tirupati", lat: 13.63, lon: 79.42 },
+            { name: "Visakhapatnam", lat: 17.69, lon: 83.22, aliases: ["Vizag"] },
+            { name: "Vizianagaram", lat: 18.11, lon: 83.40 },
+            { name: "West Godavari", lat: 16.54, lon: 81.52 },
+            { name: "Cuddapah", lat: 14.47, lon: 78.82, aliases: ["Kadapa", "YSR Kadapa", "YSR"] }
+        ]
+    },
+    { name: "Arunachal Pradesh", code: "AR", aliases: ["arunachal"], districts: [], partial: true },
+    {
+        name: "Assam", code: "AS", aliases: ["असम"], partial: true,
+        districts: [
+            { name: "Kamrup Metro", lat: 26.14, lon: 91.74, aliases: ["Guwahati", "Kamrup Metropolitan"] },
+            { name: "Nagaon", lat: 26.35, lon: 92.68 },
+            { name: "Barpeta", lat: 26.32, lon: 91.00 },
+            { name: "Jorhat", lat: 26.75, lon: 94.22 },
+            { name: "Dibrugarh", lat: 27.47, lon: 94.91 }
+        ]
+    },
+    {
+        name: "Bihar", code: "BR", aliases: ["बिहार"],
+        districts: [
+            { name: "Araria", lat: 26.15, lon: 87.47 },
+            { name: "Arwal", lat: 25.25, lon: 84.68 },
+            { name: "Aurangabad", lat: 24.75, lon: 84.37 },
+            { name: "Banka", lat: 24.89, lon: 86.92 },
+            { name: "Begusarai", lat: 25.42, lon: 86.13 },
+            { name: "Bhagalpur", lat: 25.24, lon: 86.97 },
+            { name: "Bhojpur", lat: 25.56, lon: 84.66, aliases: ["Arrah", "Ara"] },
+            { name: "Buxar", lat: 25.56, lon: 83.98 },
+            { name: "Darbhanga", lat: 26.15, lon: 85.90 },
+            { name: "East Champaran", lat: 26.65, lon: 84.92, aliases: ["Purbi Champaran", "Motihari"] },
+            { name: "Gaya", lat: 24.79, lon: 85.00 },
+            { name: "Gopalganj", lat: 26.47, lon: 84.44 },
+            { name: "Jamui", lat: 24.92, lon: 86.22 },
+            { name: "Jehanabad", lat: 25.21, lon: 84.99 },
+            { name: "Kaimur", lat: 25.04, lon: 83.61, aliases: ["Bhabua", "Kaimur (Bhabua)"] },
+            { name: "Katihar", lat: 25.54, lon: 87.57 },
+            { name: "Khagaria", lat: 25.50, lon: 86.48 },
+            { name: "Kishanganj", lat: 26.10, lon: 87.95 },
+            { name: "Lakhisarai", lat: 25.17, lon: 86.09 },
+            { name: "Madhepura", lat: 25.92, lon: 86.79 },
+            { name: "Madhubani", lat: 26.35, lon: 86.07 },
+            { name: "Munger", lat: 25.37, lon: 86.47, aliases: ["Monghyr"] },
+            { name: "Muzaffarpur", lat: 26.12, lon: 85.39 },
+            { name: "Nalanda", lat: 25.20, lon: 85.52, aliases: ["Bihar Sharif"] },
+            { name: "Nawada", lat: 24.89, lon: 85.54 },
+            { name: "Patna", lat: 25.59, lon: 85.14 },
+            { name: "Purnia", lat: 25.78, lon: 87.47, aliases: ["Purnea"] },
+            { name: "Rohtas", lat: 24.95, lon: 84.03, aliases: ["Sasaram"] },
+            { name: "Saharsa", lat: 25.88, lon: 86.60 },
+            { name: "Samastipur", lat: 25.86, lon: 85.78 },
+            { name: "Saran", lat: 25.78, lon: 84.73, aliases: ["Chhapra"] },
+            { name: "Sheikhpura", lat: 25.14, lon: 85.85 },
+            { name: "Sheohar", lat: 26.51, lon: 85.29 },
+            { name: "Sitamarhi", lat: 26.59, lon: 85.49 },
+            { name: "Siwan", lat: 26.22, lon: 84.36 },
+            { name: "Supaul", lat: 26.12, lon: 86.60 },
+            { name: "Vaishali", lat: 25.69, lon: 85.21, aliases: ["Hajipur"] },
+            { name: "West Champaran", lat: 26.80, lon: 84.50, aliases: ["Pashchim Champaran", "Bettiah"] }
+        ]
+    },
+    {
+        name: "Chandigarh", code: "CH", aliases: ["चंडीगढ़", "ਚੰਡੀਗੜ੍ਹ"],
+        districts: [{ name: "Chandigarh", lat: 30.73, lon: 76.78 }]
+    },
+    {
+        name: "Chattisgarh", code: "CG", aliases: ["Chhattisgarh", "Chhatisgarh", "छत्तीसगढ़"],
+        districts: [
+            { name: "Balod", lat: 20.73, lon: 81.20 },
+            { name: "Baloda Bazar", lat: 21.66, lon: 82.16, aliases: ["Balodabazar", "Baloda Bazar-Bhatapara"] },
+            { name: "Balrampur", lat: 23.61, lon: 83.61, aliases: ["Balrampur-Ramanujganj"] },
+            { name: "Bastar", lat: 19.08, lon: 82.02, aliases: ["Jagdalpur"] },
+            { name: "Bemetara", lat: 21.71, lon: 81.53 },
+            { name: "Bijapur", lat: 18.80, lon: 80.82 },
+            { name: "Bilaspur", lat: 22.08, lon: 82.15 },
+            { name: "Dantewada", lat: 18.90, lon: 81.35, aliases: ["Dakshin Bastar Dantewada"] },
+            { name: "Dhamtari", lat: 20.71, lon: 81.55 },
+            { name: "Durg", lat: 21.19, lon: 81.28 },
+            { name: "Gariaband", lat: 20.63, lon: 82.06 },
+            { name: "Gaurela-Pendra-Marwahi", lat: 22.75, lon: 81.90, aliases: ["Gaurela Pendra Marwahi", "GPM"] },
+            { name: "Janjgir-Champa", lat: 22.01, lon: 82.58, aliases: ["Janjgir"] },
+            { name: "Jashpur", lat: 22.89, lon: 84.14 },
+            { name: "Kawardha", lat: 22.01, lon: 81.23, aliases: ["Kabirdham"] },
+            { name: "Kanker", lat: 20.27, lon: 81.49, aliases: ["Uttar Bastar Kanker"] },
+            { name: "Khairagarh-Chhuikhadan-Gandai", lat: 21.42, lon: 80.98, aliases: ["Khairagarh"] },
+            { name: "Kondagaon", lat: 19.59, lon: 81.66 },
+            { name: "Korba", lat: 22.35, lon: 82.68 },
+            { name: "Koriya", lat: 23.26, lon: 82.56, aliases: ["Korea"] },
+            { name: "Mahasamund", lat: 21.11, lon: 82.10 },
+            { name: "Manendragarh-Chirmiri-Bharatpur", lat: 23.20, lon: 82.20, aliases: ["Manendragarh"] },
+            { name: "Mohla-Manpur-Ambagarh Chowki", lat: 20.58, lon: 80.74, aliases: ["Mohla"] },
+            { name: "Mungeli", lat: 22.07, lon: 81.69 },
+            { name: "Narayanpur", lat: 19.72, lon: 81.25 },
+            { name: "Raigarh", lat: 21.90, lon: 83.40 },
+            { name: "Raipur", lat: 21.25, lon: 81.63 },
+            { name: "Rajnandgaon", lat: 21.10, lon: 81.03 },
+            { name: "Sakti", lat: 22.03, lon: 82.96 },
+            { name: "Sarangarh-Bilaigarh", lat: 21.59, lon: 83.08, aliases: ["Sarangarh"] },
+            { name: "Sukma", lat: 18.39, lon: 81.66 },
+            { name: "Surajpur", lat: 23.22, lon: 82.87 },
+            { name: "Surguja", lat: 23.12, lon: 83.20, aliases: ["Ambikapur"] }
+        ]
+    },
+    { name: "Dadra and Nagar Haveli and Daman and Diu", code: "DH", aliases: ["Dadra and Nagar Haveli", "Daman and Diu"], districts: [], partial: true },
+    {
+        name: "Goa", code: "GA", aliases: ["गोवा"],
+        districts: [
+            { name: "North Goa", lat: 15.49, lon: 73.83, aliases: ["Panaji"] },
+            { name: "South Goa", lat: 15.27, lon: 73.96, aliases: ["Margao"] }
+        ]
+    },
+    {
+        name: "Gujarat", code: "GJ", aliases: ["गुजरात", "ગુજરાત"],
+        districts: [
+            { name: "Ahmedabad", lat: 23.02, lon: 72.57, aliases: ["Ahmadabad", "Amdavad"] },
+            { name: "Amreli", lat: 21.60, lon: 71.22 },
+            { name: "Anand", lat: 22.56, lon: 72.95 },
+            { name: "Aravalli", lat: 23.46, lon: 73.30, aliases: ["Modasa"] },
+            { name: "Banaskanth", lat: 24.17, lon: 72.43, aliases: ["Banaskantha", "Palanpur"] },
+            { name: "Bharuch", lat: 21.70, lon: 72.98 },
+            { name: "Bhavnagar", lat: 21.76, lon: 72.15 },
+            { name: "Botad", lat: 22.17, lon: 71.67 },
+            { name: "Chhota Udaipur", lat: 22.30, lon: 74.01, aliases: ["Chhotaudepur"] },
+            { name: "Dahod", lat: 22.83, lon: 74.26 },
+            { name: "Dang", lat: 20.76, lon: 73.69, aliases: ["Dangs", "Ahwa"] },
+            { name: "Devbhumi Dwarka", lat: 22.20, lon: 69.65, aliases: ["Dwarka"] },
+            { name: "Gandhinagar", lat: 23.22, lon: 72.65 },
+            { name: "Gir Somnath", lat: 20.91, lon: 70.37, aliases: ["Veraval"] },
+            { name: "Jamnagar", lat: 22.47, lon: 70.06 },
+            { name: "Junagarh", lat: 21.52, lon: 70.46, aliases: ["Junagadh"] },
+            { name: "Kheda", lat: 22.69, lon: 72.86, aliases: ["Nadiad"] },
+            { name: "Kachchh", lat: 23.24, lon: 69.67, aliases: ["Kutch", "Bhuj"] },
+            { name: "Mahisagar", lat: 23.13, lon: 73.61, aliases: ["Lunawada"] },
+            { name: "Mehsana", lat: 23.59, lon: 72.37, aliases: ["Mahesana"] },
+            { name: "Morbi", lat: 22.82, lon: 70.84, aliases: ["Morvi"] },
+            { name: "Narmada", lat: 21.87, lon: 73.50, aliases: ["Rajpipla"] },
+            { name: "Navsari", lat: 20.95, lon: 72.92 },
+            { name: "Panchmahals", lat: 22.78, lon: 73.61, aliases: ["Panchmahal", "Godhra"] },
+            { name: "Patan", lat: 23.85, lon: 72.13 },
+            { name: "Porbandar", lat: 21.64, lon: 69.61 },
+            { name: "Rajkot", lat: 22.30, lon: 70.80 },
+            { name: "Sabarkantha", lat: 23.60, lon: 72.97, aliases: ["Himmatnagar"] },
+            { name: "Surat", lat: 21.17, lon: 72.83 },
+            { name: "Surendranagar", lat: 22.73, lon: 71.64 },
+            { name: "Tapi", lat: 21.11, lon: 73.39, aliases: ["Vyara"] },
+            { name: "Vadodara", lat: 22.31, lon: 73.18, aliases: ["Baroda"] },
+            { name: "Valsad", lat: 20.59, lon: 72.93 }
+        ]
+    },
+    {
+        name: "Haryana", code: "HR", aliases: ["हरियाणा", "ਹਰਿਆਣਾ"],
+        districts: [
+            { name: "Ambala", lat: 30.38, lon: 76.78 },
+            { name: "Bhiwani", lat: 28.79, lon: 76.13 },
+            { name: "Charkhi Dadri", lat: 28.59, lon: 76.27, aliases: ["Dadri"] },
+            { name: "Faridabad", lat: 28.41, lon: 77.32 },
+            { name: "Fatehabad", lat: 29.52, lon: 75.45 },
+            { name: "Gurgaon", lat: 28.46, lon: 77.03, aliases: ["Gurugram"] },
+            { name: "Hissar", lat: 29.15, lon: 75.72, aliases: ["Hisar"] },
+            { name: "Jhajar", lat: 28.61, lon: 76.66, aliases: ["Jhajjar"] },
+            { name: "Jind", lat: 29.32, lon: 76.31 },
+            { name: "Kaithal", lat: 29.80, lon: 76.40 },
+            { name: "Karnal", lat: 29.69, lon: 76.99 },
+            { name: "Kurukshetra", lat: 29.97, lon: 76.85, aliases: ["Thanesar"] },
+            { name: "Mahendragarh-Narnaul", lat: 28.04, lon: 76.11, aliases: ["Mahendragarh", "Narnaul"] },
+            { name: "Mewat", lat: 28.10, lon: 77.00, aliases: ["Nuh"] },
+            { name: "Palwal", lat: 28.14, lon: 77.33 },
+            { name: "Panchkula", lat: 30.69, lon: 76.86 },
+            { name: "Panipat", lat: 29.39, lon: 76.97 },
+            { name: "Rewari", lat: 28.20, lon: 76.62 },
+            { name: "Rohtak", lat: 28.89, lon: 76.61 },
+            { name: "Sirsa", lat: 29.53, lon: 75.03 },
+            { name: "Sonipat", lat: 29.00, lon: 77.02, aliases: ["Sonepat"] },
+            { name: "Yamuna Nagar", lat: 30.13, lon: 77.29, aliases: ["Yamunanagar", "Jagadhri"] }
+        ]
+    },
+    {
+        name: "Himachal Pradesh", code: "HP", aliases: ["himachal", "हिमाचल प्रदेश"],
+        districts: [
+            { name: "Bilaspur", lat: 31.34, lon: 76.76 },
+            { name: "Chamba", lat: 32.55, lon: 76.13 },
+            { name: "Hamirpur", lat: 31.69, lon: 76.52 },
+            { name: "Kangra", lat: 32.22, lon: 76.32, aliases: ["Dharamshala", "Dharamsala"] },
+            { name: "Kinnaur", lat: 31.54, lon: 78.27 },
+            { name: "Kullu", lat: 31.96, lon: 77.11, aliases: ["Kulu"] },
+            { name: "Lahaul and Spiti", lat: 32.57, lon: 77.03, aliases: ["Lahul and Spiti", "Lahaul & Spiti"] },
+            { name: "Mandi", lat: 31.71, lon: 76.93 },
+            { name: "Shimla", lat: 31.10, lon: 77.17, aliases: ["Simla"] },
+            { name: "Sirmaur", lat: 30.56, lon: 77.30, aliases: ["Sirmour", "Nahan"] },
+            { name: "Solan", lat: 30.91, lon: 77.10 },
+            { name: "Una", lat: 31.47, lon: 76.27 }
+        ]
+    },
+    {
+        name: "Jammu and Kashmir", code: "JK", aliases: ["J&K", "Jammu & Kashmir", "Jammu Kashmir"],
+        districts: [
+            { name: "Anantnag", lat: 33.73, lon: 75.15, aliases: ["Islamabad"] },
+            { name: "Bandipora", lat: 34.42, lon: 74.65 },
+            { name: "Baramulla", lat: 34.20, lon: 74.34 },
+            { name: "Budgam", lat: 34.02, lon: 74.72, aliases: ["Badgam"] },
+            { name: "Doda", lat: 33.15, lon: 75.55 },
+            { name: "Ganderbal", lat: 34.23, lon: 74.78 },
+            { name: "Jammu", lat: 32.73, lon: 74.86 },
+            { name: "Kathua", lat: 32.37, lon: 75.52 },
+            { name: "Kishtwar", lat: 33.31, lon: 75.77 },
+            { name: "Kulgam", lat: 33.64, lon: 75.02 },
+            { name: "Kupwara", lat: 34.53, lon: 74.26 },
+            { name: "Poonch", lat: 33.77, lon: 74.09 },
+            { name: "Pulwama", lat: 33.87, lon: 74.90 },
+            { name: "Rajouri", lat: 33.38, lon: 74.31 },
+            { name: "Ramban", lat: 33.24, lon: 75.19 },
+            { name: "Reasi", lat: 33.08, lon: 74.83 },
+            { name: "Samba", lat: 32.56, lon: 75.12 },
+            { name: "Shopian", lat: 33.72, lon: 74.83 },
+            { name: "Srinagar", lat: 34.08, lon: 74.80 },
+            { name: "Udhampur", lat: 32.92, lon: 75.14 }
+        ]
+    },
+    {
+        name: "Jharkhand", code: "JH", aliases: ["झारखंड"],
+        districts: [
+            { name: "Bokaro", lat: 23.67, lon: 86.15 },
+            { name: "Chatra", lat: 24.21, lon: 84.87 },
+            { name: "Deoghar", lat: 24.48, lon: 86.70 },
+            { name: "Dhanbad", lat: 23.80, lon: 86.43 },
+            { name: "Dumka", lat: 24.27, lon: 87.25 },
+            { name: "East Singhbhum", lat: 22.80, lon: 86.18, aliases: ["Purbi Singhbhum", "Jamshedpur"] },
+            { name: "Garhwa", lat: 24.16, lon: 83.81 },
+            { name: "Giridih", lat: 24.19, lon: 86.30 },
+            { name: "Godda", lat: 24.83, lon: 87.21 },
+            { name: "Gumla", lat: 23.04, lon: 84.54 },
+            { name: "Hazaribagh", lat: 23.99, lon: 85.36 },
+            { name: "Jamtara", lat: 23.96, lon: 86.80 },
+            { name: "Khunti", lat: 23.07, lon: 85.28 },
+            { name: "Koderma", lat: 24.47, lon: 85.60 },
+            { name: "Latehar", lat: 23.74, lon: 84.50 },
+            { name: "Lohardaga", lat: 23.43, lon: 84.68 },
+            { name: "Pakur", lat: 24.64, lon: 87.85 },
+            { name: "Palamu", lat: 24.03, lon: 84.07, aliases: ["Palamau", "Medininagar", "Daltonganj"] },
+            { name: "Ramgarh", lat: 23.63, lon: 85.52 },
+            { name: "Ranchi", lat: 23.34, lon: 85.31 },
+            { name: "Sahebganj", lat: 25.24, lon: 87.63, aliases: ["Sahibganj"] },
+            { name: "Seraikela Kharsawan", lat: 22.70, lon: 85.93, aliases: ["Saraikela Kharsawan", "Seraikela"] },
+            { name: "Simdega", lat: 22.61, lon: 84.50 },
+            { name: "West Singhbhum", lat: 22.55, lon: 85.81, aliases: ["Pashchimi Singhbhum", "Chaibasa"] }
+        ]
+    },
+    {
+        name: "Karnataka", code: "KA", aliases: ["ಕರ್ನಾಟಕ", "कर्नाटक"],
+        districts: [
+            { name: "Bagalkot", lat: 16.18, lon: 75.70 },
+            { name: "Bellary", lat: 15.14, lon: 76.92, aliases: ["Ballari"] },
+            { name: "Belgaum", lat: 15.85, lon: 74.50, aliases: ["Belagavi"] },
+            { name: "Bangalore Rural", lat: 13.23, lon: 77.71, aliases: ["Bengaluru Rural"] },
+            { name: "Bangalore", lat: 12.97, lon: 77.59, aliases: ["Bengaluru", "Bengaluru Urban", "Bangalore Urban"] },
+            { name: "Bidar", lat: 17.91, lon: 77.52 },
+            { name: "Chamrajnagar", lat: 11.92, lon: 76.94, aliases: ["Chamarajanagar"] },
+            { name: "Chikkaballapur", lat: 13.43, lon: 77.73, aliases: ["Chikballapur"] },
+            { name: "Chikmagalur", lat: 13.32, lon: 75.77, aliases: ["Chikkamagaluru"] },
+            { name: "Chitradurga", lat: 14.23, lon: 76.40 },
+            { name: "Mangalore(Dakshin Kannad)", lat: 12.87, lon: 74.88, aliases: ["Dakshina Kannada", "Mangalore", "Mangaluru"] },
+            { name: "Davangere", lat: 14.46, lon: 75.92, aliases: ["Davanagere"] },
+            { name: "Dharwad", lat: 15.46, lon: 75.01, aliases: ["Hubli", "Hubballi"] },
+            { name: "Gadag", lat: 15.43, lon: 75.63 },
+            { name: "Hassan", lat: 13.00, lon: 76.10 },
+            { name: "Haveri", lat: 14.79, lon: 75.40 },
+            { name: "Gulbarga", lat: 17.33, lon: 76.83, aliases: ["Kalaburagi"] },
+            { name: "Kodagu", lat: 12.42, lon: 75.74, aliases: ["Coorg", "Madikeri"] },
+            { name: "Kolar", lat: 13.14, lon: 78.13 },
+            { name: "Koppal", lat: 15.35, lon: 76.15 },
+            { name: "Mandya", lat: 12.52, lon: 76.90 },
+            { name: "Mysore", lat: 12.30, lon: 76.64, aliases: ["Mysuru"] },
+            { name: "Raichur", lat: 16.20, lon: 77.36 },
+            { name: "Ramanagar", lat: 12.72, lon: 77.28, aliases: ["Ramanagara", "Bengaluru South"] },
+            { name: "Shimoga", lat: 13.93, lon: 75.57, aliases: ["Shivamogga"] },
+            { name: "Tumkur", lat: 13.34, lon: 77.10, aliases: ["Tumakuru"] },
+            { name: "Udupi", lat: 13.34, lon: 74.75 },
+            { name: "Karwar(Uttar Kannad)", lat: 14.81, lon: 74.13, aliases: ["Uttara Kannada", "Karwar"] },
+            { name: "Vijayanagara", lat: 15.27, lon: 76.39, aliases: ["Hosapete", "Hospet"] },
+            { name: "Bijapur", lat: 16.83, lon: 75.71, aliases: ["Vijayapura"] },
+            { name: "Yadgir", lat: 16.77, lon: 77.14, aliases: ["Yadagiri"] }
+        ]
+    },
+    {
+        name: "Kerala", code: "KL", aliases: ["केरल", "കേരളം"],
+        districts: [
+            { name: "Alappuzha", lat: 9.50, lon: 76.34, aliases: ["Alleppey"] },
+            { name: "Ernakulam", lat: 9.98, lon: 76.28, aliases: ["Kochi", "Cochin"] },
+            { name: "Idukki", lat: 9.85, lon: 76.97 },
+            { name: "Kannur", lat: 11.87, lon: 75.37, aliases: ["Cannanore"] },
+            { name: "Kasargod", lat: 12.50, lon: 74.99, aliases: ["Kasaragod"] },
+            { name: "Kollam", lat: 8.89, lon: 76.61, aliases: ["Quilon"] },
+            { name: "Kottayam", lat: 9.59, lon: 76.52 },
+            { name: "Kozhikode", lat: 11.26, lon: 75.78, aliases: ["Calicut", "Kozhikode(Calicut)"] },
+            { name: "Malappuram", lat: 11.07, lon: 76.07 },
+            { name: "Palakad", lat: 10.78, lon: 76.65, aliases: ["Palakkad", "Palghat"] },
+            { name: "Pathanamthitta", lat: 9.26, lon: 76.78 },
+            { name: "Thiruvananthapuram", lat: 8.52, lon: 76.94, aliases: ["Trivandrum"] },
+            { name: "Thrissur", lat: 10.53, lon: 76.21, aliases: ["Trichur"] },
+            { name: "Wayanad", lat: 11.61, lon: 76.08 }
+        ]
+    },
+    {
+        name: "Ladakh", code: "LA", aliases: ["लद्दाख"], partial: true,
+        districts: [
+            { name: "Leh", lat: 34.16, lon: 77.58 },
+            { name: "Kargil", lat: 34.56, lon: 76.13 }
+        ]
+    },
+    {
+        name: "Madhya Pradesh", code: "MP", aliases: ["मध्य प्रदेश", "madhyapradesh"],
+        districts: [
+            { name: "Agar Malwa", lat: 23.71, lon: 76.02, aliases: ["Agar"] },
+            { name: "Alirajpur", lat: 22.30, lon: 74.35 },
+            { name: "Anupur", lat: 23.10, lon: 81.69, aliases: ["Anuppur"] },
+            { name: "Ashoknagar", lat: 24.58, lon: 77.73 },
+            { name: "Balaghat", lat: 21.81, lon: 80.18 },
+            { name: "Badwani", lat: 22.03, lon: 74.90, aliases: ["Barwani"] },
+            { name: "Betul", lat: 21.90, lon: 77.90 },
+            { name: "Bhind", lat: 26.56, lon: 78.78 },
+            { name: "Bhopal", lat: 23.26, lon: 77.41 },
+            { name: "Burhanpur", lat: 21.31, lon: 76.23 },
+            { name: "Chhatarpur", lat: 24.92, lon: 79.58 },
+            { name: "Chhindwara", lat: 22.06, lon: 78.94 },
+            { name: "Damoh", lat: 23.83, lon: 79.44 },
+            { name: "Datia", lat: 25.67, lon: 78.46 },
+            { name: "Dewas", lat: 22.97, lon: 76.05 },
+            { name: "Dhar", lat: 22.60, lon: 75.30 },
+            { name: "Dindori", lat: 22.94, lon: 81.08 },
+            { name: "Guna", lat: 24.65, lon: 77.31 },
+            { name: "Gwalior", lat: 26.22, lon: 78.18 },
+            { name: "Harda", lat: 22.34, lon: 77.09 },
+            { name: "Hoshangabad", lat: 22.75, lon: 77.72, aliases: ["Narmadapuram"] },
+            { name: "Indore", lat: 22.72, lon: 75.86 },
+            { name: "Jabalpur", lat: 23.18, lon: 79.95 },
+            { name: "Jhabua", lat: 22.77, lon: 74.59 },
+            { name: "Katni", lat: 23.83, lon: 80.39 },
+            { name: "Khandwa", lat: 21.82, lon: 76.35, aliases: ["East Nimar"] },
+            { name: "Khargone", lat: 21.82, lon: 75.61, aliases: ["West Nimar"] },
+            { name: "Maihar", lat: 24.27, lon: 80.76 },
+            { name: "Mandla", lat: 22.60, lon: 80.37 },
+            { name: "Mandsaur", lat: 24.07, lon: 75.07 },
+            { name: "Mauganj", lat: 24.67, lon: 81.88 },
+            { name: "Morena", lat: 26.50, lon: 78.00 },
+            { name: "Narsinghpur", lat: 22.95, lon: 79.19 },
+            { name: "Neemuch", lat: 24.47, lon: 74.87 },
+            { name: "Niwari", lat: 25.36, lon: 78.80 },
+            { name: "Pandhurna", lat: 21.60, lon: 78.52 },
+            { name: "Panna", lat: 24.72, lon: 80.19 },
+            { name: "Raisen", lat: 23.33, lon: 77.78 },
+            { name: "Rajgarh", lat: 24.01, lon: 76.73 },
+            { name: "Ratlam", lat: 23.33, lon: 75.04 },
+            { name: "Rewa", lat: 24.53, lon: 81.30 },
+            { name: "Sagar", lat: 23.84, lon: 78.74 },
+            { name: "Satna", lat: 24.58, lon: 80.83 },
+            { name: "Sehore", lat: 23.20, lon: 77.08 },
+            { name: "Seoni", lat: 22.09, lon: 79.54 },
+            { name: "Shahdol", lat: 23.30, lon: 81.36 },
+            { name: "Shajapur", lat: 23.43, lon: 76.27 },
+            { name: "Sheopur", lat: 25.67, lon: 76.70 },
+            { name: "Shivpuri", lat: 25.42, lon: 77.66 },
+            { name: "Sidhi", lat: 24.40, lon: 81.88 },
+            { name: "Singroli", lat: 24.20, lon: 82.67, aliases: ["Singrauli", "Waidhan"] },
+            { name: "Tikamgarh", lat: 24.74, lon: 78.83 },
+            { name: "Ujjain", lat: 23.18, lon: 75.78 },
+            { name: "Umariya", lat: 23.52, lon: 80.84, aliases: ["Umaria"] },
+            { name: "Vidisha", lat: 23.52, lon: 77.81 }
+        ]
+    },
+    {
+        name: "Maharashtra", code: "MH", aliases: ["महाराष्ट्र"],
+        districts: [
+            { name: "Ahmednagar", lat: 19.09, lon: 74.74, aliases: ["Ahilyanagar", "Ahmadnagar"] },
+            { name: "Akola", lat: 20.70, lon: 77.00 },
+            { name: "Amarawati", lat: 20.93, lon: 77.75, aliases: ["Amravati"] },
+            { name: "Beed", lat: 18.99, lon: 75.76, aliases: ["Bid"] },
+            { name: "Bhandara", lat: 21.17, lon: 79.65 },
+            { name: "Buldhana", lat: 20.53, lon: 76.18, aliases: ["Buldana"] },
+            { name: "Chandrapur", lat: 19.96, lon: 79.30 },
+            { name: "Aurangabad", lat: 19.88, lon: 75.34, aliases: ["Chhatrapati Sambhajinagar", "Sambhajinagar"] },
+            { name: "Osmanabad", lat: 18.18, lon: 76.04, aliases: ["Dharashiv"] },
+            { name: "Dhule", lat: 20.90, lon: 74.77 },
+            { name: "Gadchiroli", lat: 20.18, lon: 80.00 },
+            { name: "Gondiya", lat: 21.46, lon: 80.20, aliases: ["Gondia"] },
+            { name: "Hingoli", lat: 19.72, lon: 77.15 },
+            { name: "Jalgaon", lat: 21.01, lon: 75.56 },
+            { name: "Jalna", lat: 19.84, lon: 75.89 },
+            { name: "Kolhapur", lat: 16.70, lon: 74.24 },
+            { name: "Latur", lat: 18.40, lon: 76.56 },
+            { name: "Mumbai", lat: 18.94, lon: 72.83, aliases: ["Mumbai City", "Bombay"] },
+            { name: "Mumbai Suburban", lat: 19.08, lon: 72.88 },
+            { name: "Nagpur", lat: 21.15, lon: 79.09 },
+            { name: "Nanded", lat: 19.15, lon: 77.32 },
+            { name: "Nandurbar", lat: 21.37, lon: 74.24 },
+            { name: "Nashik", lat: 20.00, lon: 73.79, aliases: ["Nasik"] },
+            { name: "Palghar", lat: 19.70, lon: 72.77 },
+            { name: "Parbhani", lat: 19.27, lon: 76.77 },
+            { name: "Pune", lat: 18.52, lon: 73.86, aliases: ["Poona"] },
+            { name: "Raigad", lat: 18.64, lon: 72.87, aliases: ["Alibag"] },
+            { name: "Ratnagiri", lat: 16.99, lon: 73.31 },
+            { name: "Sangli", lat: 16.85, lon: 74.58 },
+            { name: "Satara", lat: 17.68, lon: 74.02 },
+            { name: "Sindhudurg", lat: 16.12, lon: 73.69 },
+            { name: "Solapur", lat: 17.66, lon: 75.91, aliases: ["Sholapur"] },
+            { name: "Thane", lat: 19.22, lon: 72.98 },
+            { name: "Wardha", lat: 20.74, lon: 78.60 },
+            { name: "Washim", lat: 20.11, lon: 77.13 },
+            { name: "Yavatmal", lat: 20.39, lon: 78.12 }
+        ]
+    },
+    { name: "Manipur", code: "MN", aliases: [], districts: [], partial: true },
+    { name: "Meghalaya", code: "ML", aliases: [], districts: [], partial: true },
+    { name: "Mizoram", code: "MZ", aliases: [], districts: [], partial: true },
+    { name: "Nagaland", code: "NL", aliases: [], districts: [], partial: true },
+    {
+        name: "NCT of Delhi", code: "DL", aliases: ["Delhi", "New Delhi", "दिल्ली"], partial: true,
+        districts: [{ name: "Delhi", lat: 28.65, lon: 77.23, aliases: ["New Delhi"] }]
+    },
+    {
+        name: "Odisha", code: "OD", aliases: ["Orissa", "ओडिशा", "ଓଡ଼ିଶା"],
+        districts: [
+            { name: "Angul", lat: 20.84, lon: 85.10 },
+            { name: "Balangir", lat: 20.71, lon: 83.49, aliases: ["Bolangir"] },
+            { name: "Balasore", lat: 21.49, lon: 86.93, aliases: ["Baleswar", "Baleshwar"] },
+            { name: "Bargarh", lat: 21.33, lon: 83.62 },
+            { name: "Bhadrak", lat: 21.05, lon: 86.50 },
+            { name: "Boudh", lat: 20.84, lon: 84.32, aliases: ["Baudh"] },
+            { name: "Cuttack", lat: 20.46, lon: 85.88 },
+            { name: "Deogarh", lat: 21.54, lon: 84.73, aliases: ["Debagarh"] },
+            { name: "Dhenkanal", lat: 20.66, lon: 85.60 },
+            { name: "Gajapati", lat: 18.78, lon: 84.09 },
+            { name: "Ganjam", lat: 19.36, lon: 84.98 },
+            { name: "Jagatsinghpur", lat: 20.26, lon: 86.17 },
+            { name: "Jajpur", lat: 20.85, lon: 86.33 },
+            { name: "Jharsuguda", lat: 21.86, lon: 84.01 },
+            { name: "Kalahandi", lat: 19.91, lon: 83.17 },
+            { name: "Kandhamal", lat: 20.47, lon: 84.23, aliases: ["Phulbani"] },
+            { name: "Kendrapara", lat: 20.50, lon: 86.42 },
+            { name: "Keonjhar", lat: 21.63, lon: 85.58, aliases: ["Kendujhar"] },
+            { name: "Khurda", lat: 20.18, lon: 85.62, aliases: ["Khordha", "Bhubaneswar"] },
+            { name: "Koraput", lat: 18.81, lon: 82.71 },
+            { name: "Malkangiri", lat: 18.35, lon: 81.89 },
+            { name: "Mayurbhanja", lat: 21.93, lon: 86.73, aliases: ["Mayurbhanj", "Baripada"] },
+            { name: "Nawarangpur", lat: 19.23, lon: 82.55, aliases: ["Nabarangpur"] },
+            { name: "Nayagarh", lat: 20.13, lon: 85.10 },
+            { name: "Nuapada", lat: 20.82, lon: 82.53 },
+            { name: "Puri", lat: 19.81, lon: 85.83 },
+            { name: "Rayagada", lat: 19.17, lon: 83.42 },
+            { name: "Sambalpur", lat: 21.47, lon: 83.97 },
+            { name: "Sonepur", lat: 20.83, lon: 83.92, aliases: ["Subarnapur"] },
+            { name: "Sundergarh", lat: 22.12, lon: 84.03, aliases: ["Sundargarh"] }
+        ]
+    },
+    {
+        name: "Pondicherry", code: "PY", aliases: ["Puducherry"],
+        districts: [
+            { name: "Pondicherry", lat: 11.93, lon: 79.83, aliases: ["Puducherry"] },
+            { name: "Karaikal", lat: 10.93, lon: 79.83 },
+            { name: "Mahe", lat: 11.70, lon: 75.54 },
+            { name: "Yanam", lat: 16.73, lon: 82.21 }
+        ]
+    },
+    {
+        name: "Punjab", code: "PB", aliases: ["पंजाब", "ਪੰਜਾਬ"],
+        districts: [
+            { name: "Amritsar", lat: 31.63, lon: 74.87, aliases: ["ਅੰਮ੍ਰਿਤਸਰ"] },
+            { name: "Barnala", lat: 30.38, lon: 75.55 },
+            { name: "Bhatinda", lat: 30.21, lon: 74.95, aliases: ["Bathinda", "ਬਠਿੰਡਾ"] },
+            { name: "Faridkot", lat: 30.67, lon: 74.76 },
+            { name: "Fatehgarh", lat: 30.65, lon: 76.39, aliases: ["Fatehgarh Sahib"] },
+            { name: "Fazilka", lat: 30.40, lon: 74.03 },
+            { name: "Ferozpur", lat: 30.93, lon: 74.61, aliases: ["Firozpur", "Ferozepur"] },
+            { name: "Gurdaspur", lat: 32.04, lon: 75.40 },
+            { name: "Hoshiarpur", lat: 31.53, lon: 75.91 },
+            { name: "Jalandhar", lat: 31.33, lon: 75.58, aliases: ["Jullundur"] },
+            { name: "Kapurthala", lat: 31.38, lon: 75.38 },
+            { name: "Ludhiana", lat: 30.90, lon: 75.85, aliases: ["ਲੁਧਿਆਣਾ", "लुधियाना"] },
+            { name: "Malerkotla", lat: 30.53, lon: 75.88 },
+            { name: "Mansa", lat: 29.99, lon: 75.40 },
+            { name: "Moga", lat: 30.82, lon: 75.17 },
+            { name: "Pathankot", lat: 32.27, lon: 75.65 },
+            { name: "Patiala", lat: 30.34, lon: 76.39, aliases: ["ਪਟਿਆਲਾ"] },
+            { name: "Ropar", lat: 30.97, lon: 76.53, aliases: ["Rupnagar"] },
+            { name: "Mohali", lat: 30.70, lon: 76.72, aliases: ["SAS Nagar", "Sahibzada Ajit Singh Nagar"] },
+            { name: "Sangrur", lat: 30.25, lon: 75.84 },
+            { name: "Nawanshahr", lat: 31.12, lon: 76.12, aliases: ["Shaheed Bhagat Singh Nagar", "SBS Nagar"] },
+            { name: "Muktsar", lat: 30.47, lon: 74.52, aliases: ["Sri Muktsar Sahib"] },
+            { name: "Tarntaran", lat: 31.45, lon: 74.93, aliases: ["Tarn Taran"] }
+        ]
+    },
+    {
+        name: "Rajasthan", code: "RJ", aliases: ["राजस्थान"],
+        districts: [
+            { name: "Ajmer", lat: 26.45, lon: 74.64 },
+            { name: "Alwar", lat: 27.55, lon: 76.60 },
+            { name: "Balotra", lat: 25.83, lon: 72.24 },
+            { name: "Banswara", lat: 23.55, lon: 74.44 },
+            { name: "Baran", lat: 25.10, lon: 76.51 },
+            { name: "Barmer", lat: 25.75, lon: 71.39 },
+            { name: "Beawar", lat: 26.10, lon: 74.32 },
+            { name: "Bharatpur", lat: 27.22, lon: 77.49 },
+            { name: "Bhilwara", lat: 25.35, lon: 74.63 },
+            { name: "Bikaner", lat: 28.02, lon: 73.31 },
+            { name: "Bundi", lat: 25.44, lon: 75.64 },
+            { name: "Chittorgarh", lat: 24.88, lon: 74.62, aliases: ["Chittaurgarh"] },
+            { name: "Churu", lat: 28.30, lon: 74.95 },
+            { name: "Dausa", lat: 26.89, lon: 76.34 },
+            { name: "Deeg", lat: 27.47, lon: 77.33 },
+            { name: "Dholpur", lat: 26.70, lon: 77.89 },
+            { name: "Didwana-Kuchaman", lat: 27.40, lon: 74.57, aliases: ["Didwana"] },
+            { name: "Dungarpur", lat: 23.84, lon: 73.71 },
+            { name: "Hanumangarh", lat: 29.58, lon: 74.33 },
+            { name: "Jaipur", lat: 26.91, lon: 75.79 },
+            { name: "Jaisalmer", lat: 26.92, lon: 70.91 },
+            { name: "Jalore", lat: 25.35, lon: 72.62, aliases: ["Jalor"] },
+            { name: "Jhalawar", lat: 24.60, lon: 76.16 },
+            { name: "Jhunjhunu", lat: 28.13, lon: 75.40, aliases: ["Jhunjhunun"] },
+            { name: "Jodhpur", lat: 26.24, lon: 73.02 },
+            { name: "Karauli", lat: 26.50, lon: 77.02 },
+            { name: "Khairthal-Tijara", lat: 27.80, lon: 76.64, aliases: ["Khairthal"] },
+            { name: "Kota", lat: 25.18, lon: 75.83 },
+            { name: "Kotputli-Behror", lat: 27.70, lon: 76.20, aliases: ["Kotputli"] },
+            { name: "Nagaur", lat: 27.20, lon: 73.73 },
+            { name: "Pali", lat: 25.77, lon: 73.32 },
+            { name: "Phalodi", lat: 27.13, lon: 72.36 },
+            { name: "Pratapgarh", lat: 24.03, lon: 74.78 },
+            { name: "Rajsamand", lat: 25.07, lon: 73.88 },
+            { name: "Salumbar", lat: 24.14, lon: 74.04 },
+            { name: "Sawai Madhopur", lat: 26.02, lon: 76.35 },
+            { name: "Sikar", lat: 27.61, lon: 75.14 },
+            { name: "Sirohi", lat: 24.89, lon: 72.86 },
+            { name: "Sriganganagar", lat: 29.90, lon: 73.88, aliases: ["Sri Ganganagar", "Ganganagar"] },
+            { name: "Tonk", lat: 26.17, lon: 75.79 },
+            { name: "Udaipur", lat: 24.58, lon: 73.71 }
+        ]
+    },
+    { name: "Sikkim", code: "SK", aliases: [], districts: [], partial: true },
+    {
+        name: "Tamil Nadu", code: "TN", aliases: ["tamilnadu", "தமிழ்நாடு"],
+        districts: [
+            { name: "Ariyalur", lat: 11.14, lon: 79.08 },
+            { name: "Chengalpattu", lat: 12.69, lon: 79.98 },
+            { name: "Chennai", lat: 13.08, lon: 80.27, aliases: ["Madras"] },
+            { name: "Coimbatore", lat: 11.02, lon: 76.96 },
+            { name: "Cuddalore", lat: 11.75, lon: 79.75 },
+            { name: "Dharmapuri", lat: 12.13, lon: 78.16 },
+            { name: "Dindigul", lat: 10.36, lon: 77.98 },
+            { name: "Erode", lat: 11.34, lon: 77.72 },
+            { name: "Kallakuruchi", lat: 11.74, lon: 78.96, aliases: ["Kallakurichi"] },
+            { name: "Kancheepuram", lat: 12.83, lon: 79.70, aliases: ["Kanchipuram"] },
+            { name: "Nagercoil (Kannyiakumari)", lat: 8.18, lon: 77.41, aliases: ["Kanniyakumari", "Kanyakumari", "Nagercoil"] },
+            { name: "Karur", lat: 10.96, lon: 78.08 },
+            { name: "Krishnagiri", lat: 12.52, lon: 78.21 },
+            { name: "Madurai", lat: 9.93, lon: 78.12 },
+            { name: "Mayiladuthurai", lat: 11.10, lon: 79.65 },
+            { name: "Nagapattinam", lat: 10.77, lon: 79.84 },
+            { name: "Namakkal", lat: 11.22, lon: 78.17 },
+            { name: "Nilgiris", lat: 11.41, lon: 76.70, aliases: ["The Nilgiris", "Ooty", "Udhagamandalam"] },
+            { name: "Perambalur", lat: 11.23, lon: 78.88 },
+            { name: "Pudukkottai", lat: 10.38, lon: 78.82, aliases: ["Pudukottai"] },
+            { name: "Ramanathapuram", lat: 9.37, lon: 78.83 },
+            { name: "Ranipet", lat: 12.93, lon: 79.33 },
+            { name: "Salem", lat: 11.66, lon: 78.15 },
+            { name: "Sivaganga", lat: 9.85, lon: 78.48 },
+            { name: "Tenkasi", lat: 8.96, lon: 77.30 },
+            { name: "Thanjavur", lat: 10.79, lon: 79.14, aliases: ["Tanjore"] },
+            { name: "Theni", lat: 10.01, lon: 77.48 },
+            { name: "Thoothukudi", lat: 8.76, lon: 78.13, aliases: ["Tuticorin"] },
+            { name: "Trichy", lat: 10.79, lon: 78.70, aliases: ["Tiruchirappalli", "Tiruchirapalli"] },
+            { name: "Tirunelveli", lat: 8.71, lon: 77.76 },
+            { name: "Tirupathur", lat: 12.50, lon: 78.57 },
+            { name: "Tiruppur", lat: 11.11, lon: 77.34, aliases: ["Tirupur"] },
+            { name: "Thiruvellore", lat: 13.14, lon: 79.91, aliases: ["Tiruvallur", "Thiruvallur"] },
+            { name: "Thiruvannamalai", lat: 12.23, lon: 79.07, aliases: ["Tiruvannamalai"] },
+            { name: "Thiruvarur", lat: 10.77, lon: 79.64, aliases: ["Tiruvarur"] },
+            { name: "Vellore", lat: 12.92, lon: 79.13 },
+            { name: "Villupuram", lat: 11.94, lon: 79.49, aliases: ["Viluppuram"] },
+            { name: "Virudhunagar", lat: 9.58, lon: 77.96 }
+        ]
+    },
+    {
+        name: "Telangana", code: "TS", aliases: ["TG", "तेलंगाना", "తెలంగాణ"],
+        districts: [
+            { name: "Adilabad", lat: 19.67, lon: 78.53 },
+            { name: "Bhadradri Kothagudem", lat: 17.55, lon: 80.62, aliases: ["Kothagudem"] },
+            { name: "Hanumakonda", lat: 18.01, lon: 79.56, aliases: ["Hanamkonda", "Warangal Urban"] },
+            { name: "Hyderabad", lat: 17.39, lon: 78.49 },
+            { name: "Jagtial", lat: 18.79, lon: 78.91, aliases: ["Jagityal"] },
+            { name: "Jangaon", lat: 17.72, lon: 79.15 },
+            { name: "Jayashankar Bhupalpally", lat: 18.43, lon: 79.86, aliases: ["Bhupalpally"] },
+            { name: "Jogulamba Gadwal", lat: 16.23, lon: 77.80, aliases: ["Gadwal"] },
+            { name: "Kamareddy", lat: 18.32, lon: 78.34 },
+            { name: "Karimnagar", lat: 18.44, lon: 79.13 },
+            { name: "Khammam", lat: 17.25, lon: 80.15 },
+            { name: "Kumuram Bheem Asifabad", lat: 19.36, lon: 79.28, aliases: ["Asifabad", "Komaram Bheem"] },
+            { name: "Mahabubabad", lat: 17.60, lon: 80.00 },
+            { name: "Mahbubnagar", lat: 16.74, lon: 78.00, aliases: ["Mahabubnagar"] },
+            { name: "Mancherial", lat: 18.87, lon: 79.44 },
+            { name: "Medak", lat: 18.05, lon: 78.26 },
+            { name: "Medchal-Malkajgiri", lat: 17.63, lon: 78.48, aliases: ["Medchal"] },
+            { name: "Mulugu", lat: 18.19, lon: 79.94 },
+            { name: "Nagarkurnool", lat: 16.48, lon: 78.31 },
+            { name: "Nalgonda", lat: 17.05, lon: 79.27 },
+            { name: "Narayanpet", lat: 16.74, lon: 77.50 },
+            { name: "Nirmal", lat: 19.10, lon: 78.34 },
+            { name: "Nizamabad", lat: 18.67, lon: 78.09 },
+            { name: "Peddapalli", lat: 18.61, lon: 79.37 },
+            { name: "Rajanna Sircilla", lat: 18.39, lon: 78.81, aliases: ["Sircilla"] },
+            { name: "Ranga Reddy", lat: 17.26, lon: 78.39, aliases: ["Rangareddy", "Rangareddi"] },
+            { name: "Sangareddy", lat: 17.62, lon: 78.09 },
+            { name: "Siddipet", lat: 18.10, lon: 78.85 },
+            { name: "Suryapet", lat: 17.14, lon: 79.62 },
+            { name: "Vikarabad", lat: 17.34, lon: 77.90 },
+            { name: "Wanaparthy", lat: 16.36, lon: 78.06 },
+            { name: "Warangal", lat: 17.97, lon: 79.59, aliases: ["Warangal Rural"] },
+            { name: "Yadadri Bhuvanagiri", lat: 17.51, lon: 78.89, aliases: ["Bhongir", "Yadadri"] }
+        ]
+    },
+    { name: "Tripura", code: "TR", aliases: [], partial: true, districts: [{ name: "West Tripura", lat: 23.83, lon: 91.28, aliases: ["Agartala"] }] },
+    {
+        name: "Uttar Pradesh", code: "UP", aliases: ["उत्तर प्रदेश", "uttarpradesh"],
+        districts: [
+            { name: "Agra", lat: 27.18, lon: 78.01 },
+            { name: "Aligarh", lat: 27.88, lon: 78.08 },
+            { name: "Ambedkarnagar", lat: 26.43, lon: 82.54, aliases: ["Ambedkar Nagar"] },
+            { name: "Amethi", lat: 26.15, lon: 81.81 },
+            { name: "Amroha", lat: 28.90, lon: 78.47, aliases: ["Jyotiba Phule Nagar"] },
+            { name: "Auraiya", lat: 26.47, lon: 79.51 },
+            { name: "Faizabad", lat: 26.78, lon: 82.13, aliases: ["Ayodhya"] },
+            { name: "Azamgarh", lat: 26.07, lon: 83.18 },
+            { name: "Baghpat", lat: 28.94, lon: 77.22, aliases: ["Bagpat"] },
+            { name: "Bahraich", lat: 27.57, lon: 81.60 },
+            { name: "Ballia", lat: 25.76, lon: 84.15 },
+            { name: "Balrampur", lat: 27.43, lon: 82.18 },
+            { name: "Banda", lat: 25.48, lon: 80.34 },
+            { name: "Barabanki", lat: 26.93, lon: 81.19 },
+            { name: "Bareilly", lat: 28.37, lon: 79.43 },
+            { name: "Basti", lat: 26.80, lon: 82.73 },
+            { name: "Bhadohi", lat: 25.40, lon: 82.57, aliases: ["Sant Ravidas Nagar"] },
+            { name: "Bijnor", lat: 29.37, lon: 78.14 },
+            { name: "Badaun", lat: 28.04, lon: 79.13, aliases: ["Budaun"] },
+            { name: "Bulandshahar", lat: 28.41, lon: 77.85, aliases: ["Bulandshahr"] },
+            { name: "Chandauli", lat: 25.26, lon: 83.27 },
+            { name: "Chitrakut", lat: 25.20, lon: 80.90, aliases: ["Chitrakoot"] },
+            { name: "Deoria", lat: 26.50, lon: 83.78 },
+            { name: "Etah", lat: 27.56, lon: 78.66 },
+            { name: "Etawah", lat: 26.78, lon: 79.02 },
+            { name: "Farukhabad", lat: 27.39, lon: 79.58, aliases: ["Farrukhabad"] },
+            { name: "Fatehpur", lat: 25.93, lon: 80.81 },
+            { name: "Firozabad", lat: 27.15, lon: 78.40 },
+            { name: "Gautam Buddh Nagar", lat: 28.47, lon: 77.51, aliases: ["Gautam Buddha Nagar", "Noida", "Greater Noida"] },
+            { name: "Ghaziabad", lat: 28.67, lon: 77.44 },
+            { name: "Ghazipur", lat: 25.58, lon: 83.58 },
+            { name: "Gonda", lat: 27.13, lon: 81.96 },
+            { name: "Gorakhpur", lat: 26.76, lon: 83.37 },
+            { name: "Hamirpur", lat: 25.95, lon: 80.15 },
+            { name: "Hapur", lat: 28.73, lon: 77.78 },
+            { name: "Hardoi", lat: 27.40, lon: 80.13 },
+            { name: "Hathras", lat: 27.60, lon: 78.05, aliases: ["Mahamaya Nagar"] },
+            { name: "Jalaun (Orai)", lat: 25.99, lon: 79.45, aliases: ["Jalaun", "Orai"] },
+            { name: "Jaunpur", lat: 25.75, lon: 82.69 },
+            { name: "Jhansi", lat: 25.45, lon: 78.57 },
+            { name: "Kannuj", lat: 27.06, lon: 79.92, aliases: ["Kannauj"] },
+            { name: "Kanpur Dehat", lat: 26.42, lon: 79.96 },
+            { name: "Kanpur", lat: 26.45, lon: 80.33, aliases: ["Kanpur Nagar"] },
+            { name: "Kasganj", lat: 27.81, lon: 78.65, aliases: ["Kanshiram Nagar"] },
+            { name: "Kaushambi", lat: 25.53, lon: 81.38 },
+            { name: "Lakhimpur", lat: 27.95, lon: 80.78, aliases: ["Kheri", "Lakhimpur Kheri"] },
+            { name: "Kushinagar", lat: 26.90, lon: 83.98, aliases: ["Padrauna"] },
+            { name: "Lalitpur", lat: 24.69, lon: 78.41 },
+            { name: "Lucknow", lat: 26.85, lon: 80.95 },
+            { name: "Maharajganj", lat: 27.13, lon: 83.56, aliases: ["Mahrajganj"] },
+            { name: "Mahoba", lat: 25.29, lon: 79.87 },
+            { name: "Mainpuri", lat: 27.23, lon: 79.02 },
+            { name: "Mathura", lat: 27.49, lon: 77.67 },
+            { name: "Mau", lat: 25.94, lon: 83.56, aliases: ["Maunathbhanjan"] },
+            { name: "Meerut", lat: 28.98, lon: 77.71 },
+            { name: "Mirzapur", lat: 25.15, lon: 82.57 },
+            { name: "Moradabad", lat: 28.84, lon: 78.77 },
+            { name: "Muzaffarnagar", lat: 29.47, lon: 77.70 },
+            { name: "Pilibhit", lat: 28.63, lon: 79.80 },
+            { name: "Pratapgarh", lat: 25.90, lon: 81.94 },
+            { name: "Allahabad", lat: 25.44, lon: 81.85, aliases: ["Prayagraj"] },
+            { name: "Raebarelli", lat: 26.23, lon: 81.23, aliases: ["Rae Bareli", "Raebareli"] },
+            { name: "Rampur", lat: 28.81, lon: 79.03 },
+            { name: "Saharanpur", lat: 29.96, lon: 77.55 },
+            { name: "Sambhal", lat: 28.58, lon: 78.57, aliases: ["Bhim Nagar"] },
+            { name: "Sant Kabir Nagar", lat: 26.77, lon: 83.07, aliases: ["Khalilabad"] },
+            { name: "Shahjahanpur", lat: 27.88, lon: 79.91 },
+            { name: "Shamli", lat: 29.45, lon: 77.31 },
+            { name: "Shravasti", lat: 27.51, lon: 81.93, aliases: ["Sravasti"] },
+            { name: "Siddharth Nagar", lat: 27.28, lon: 83.09, aliases: ["Siddharthnagar"] },
+            { name: "Sitapur", lat: 27.57, lon: 80.68 },
+            { name: "Sonbhadra", lat: 24.69, lon: 83.07, aliases: ["Robertsganj"] },
+            { name: "Sultanpur", lat: 26.26, lon: 82.07 },
+            { name: "Unnao", lat: 26.55, lon: 80.49 },
+            { name: "Varanasi", lat: 25.32, lon: 82.97, aliases: ["Banaras", "Benares", "Kashi"] }
+        ]
+    },
+    {
+        name: "Uttrakhand", code: "UK", aliases: ["Uttarakhand", "Uttaranchal", "उत्तराखंड"],
+        districts: [
+            { name: "Almora", lat: 29.60, lon: 79.66 },
+            { name: "Bageshwar", lat: 29.84, lon: 79.77 },
+            { name: "Chamoli", lat: 30.41, lon: 79.32, aliases: ["Gopeshwar"] },
+            { name: "Champawat", lat: 29.34, lon: 80.09 },
+            { name: "Dehradoon", lat: 30.32, lon: 78.03, aliases: ["Dehradun", "Dehra Dun"] },
+            { name: "Haridwar", lat: 29.95, lon: 78.16, aliases: ["Hardwar"] },
+            { name: "Nainital", lat: 29.38, lon: 79.46, aliases: ["Haldwani"] },
+            { name: "Pauri Garhwal", lat: 30.15, lon: 78.78, aliases: ["Garhwal", "Pauri"] },
+            { name: "Pithoragarh", lat: 29.58, lon: 80.22 },
+            { name: "Rudraprayag", lat: 30.28, lon: 78.98 },
+            { name: "Tehri Garhwal", lat: 30.38, lon: 78.43, aliases: ["Tehri", "New Tehri"] },
+            { name: "UdhamSinghNagar", lat: 28.98, lon: 79.40, aliases: ["Udham Singh Nagar", "Rudrapur"] },
+            { name: "Uttarkashi", lat: 30.73, lon: 78.44 }
+        ]
+    },
+    {
+        name: "West Bengal", code: "WB", aliases: ["bengal", "पश्चिम बंगाल", "পশ্চিমবঙ্গ"],
+        districts: [
+            { name: "Alipurduar", lat: 26.49, lon: 89.53 },
+            { name: "Bankura", lat: 23.23, lon: 87.07 },
+            { name: "Birbhum", lat: 23.91, lon: 87.53, aliases: ["Suri"] },
+            { name: "Coochbehar", lat: 26.32, lon: 89.45, aliases: ["Cooch Behar", "Koch Bihar"] },
+            { name: "Dakshin Dinajpur", lat: 25.22, lon: 88.77, aliases: ["South Dinajpur", "Balurghat"] },
+            { name: "Darjeeling", lat: 27.04, lon: 88.26, aliases: ["Darjiling", "Siliguri"] },
+            { name: "Hooghly", lat: 22.90, lon: 88.39, aliases: ["Hugli", "Chinsurah"] },
+            { name: "Howrah", lat: 22.59, lon: 88.31, aliases: ["Haora"] },
+            { name: "Jalpaiguri", lat: 26.52, lon: 88.72 },
+            { name: "Jhargram", lat: 22.45, lon: 86.99 },
+            { name: "Kalimpong", lat: 27.06, lon: 88.47 },
+            { name: "Kolkata", lat: 22.57, lon: 88.36, aliases: ["Calcutta"] },
+            { name: "Malda", lat: 25.01, lon: 88.14, aliases: ["Maldah", "English Bazar"] },
+            { name: "Murshidabad", lat: 24.10, lon: 88.25, aliases: ["Baharampur", "Berhampore"] },
+            { name: "Nadia", lat: 23.40, lon: 88.50, aliases: ["Krishnanagar"] },
+            { name: "North 24 Parganas", lat: 22.72, lon: 88.48, aliases: ["24 Parganas North", "Barasat"] },
+            { name: "Paschim Bardhaman", lat: 23.68, lon: 86.98, aliases: ["West Bardhaman", "Asansol"] },
+            { name: "Medinipur(W)", lat: 22.42, lon: 87.32, aliases: ["Paschim Medinipur", "West Medinipur", "Midnapore"] },
+            { name: "Burdwan", lat: 23.23, lon: 87.86, aliases: ["Purba Bardhaman", "Bardhaman", "East Bardhaman"] },
+            { name: "Medinipur(E)", lat: 22.30, lon: 87.92, aliases: ["Purba Medinipur", "East Medinipur", "Tamluk"] },
+            { name: "Puruliya", lat: 23.33, lon: 86.36, aliases: ["Purulia"] },
+            { name: "South 24 Parganas", lat: 22.53, lon: 88.33, aliases: ["24 Parganas South", "Alipore"] },
+            { name: "Uttar Dinajpur", lat: 25.62, lon: 88.12, aliases: ["North Dinajpur", "Raiganj"] }
+        ]
+    },
+    { name: "Andaman and Nicobar", code: "AN", aliases: ["Andaman and Nicobar Islands", "Andaman"], districts: [], partial: true },
+    { name: "Lakshadweep", code: "LD", aliases: [], districts: [], partial: true }
+];
+
+/**
+ * Principal regulated markets (APMC mandis) with their locations
+ */
+export const GAZETTEER_MANDIS: GazetteerMandi[] = [
+    { name: "Khanna", district: "Ludhiana", state: "Punjab", lat: 30.70, lon: 76.22 },
+    { name: "Jagraon", district: "Ludhiana", state: "Punjab", lat: 30.79, lon: 75.47 },
+    { name: "Ludhiana", district: "Ludhiana", state: "Punjab", lat: 30.90, lon: 75.85 },
+    { name: "Rajpura", district: "Patiala", state: "Punjab", lat: 30.48, lon: 76.59 },
+    { name: "Moga", district: "Moga", state: "Punjab", lat: 30.82, lon: 75.17 },
+    { name: "Bhatinda", district: "Bhatinda", state: "Punjab", lat: 30.21, lon: 74.95, aliases: ["Bathinda"] },
+    { name: "Amritsar", district: "Amritsar", state: "Punjab", lat: 31.63, lon: 74.87 },
+    { name: "Abohar", district: "Fazilka", state: "Punjab", lat: 30.14, lon: 74.20 },
+    { name: "Sangrur", district: "Sangrur", state: "Punjab", lat: 30.25, lon: 75.84 },
+    { name: "Sunam", district: "Sangrur", state: "Punjab", lat: 30.13, lon: 75.80 },
+    { name: "Karnal", district: "Karnal", state: "Haryana", lat: 29.69, lon: 76.99 },
+    { name: "Kaithal", district: "Kaithal", state: "Haryana", lat: 29.80, lon: 76.40 },
+    { name: "Sirsa", district: "Sirsa", state: "Haryana", lat: 29.53, lon: 75.03 },
+    { name: "Ellenabad", district: "Sirsa", state: "Haryana", lat: 29.45, lon: 74.66 },
+    { name: "Hissar", district: "Hissar", state: "Haryana", lat: 29.15, lon: 75.72, aliases: ["Hisar"] },
+    { name: "Fatehabad", district: "Fatehabad", state: "Haryana", lat: 29.52, lon: 75.45 },
+    { name: "Tohana", district: "Fatehabad", state: "Haryana", lat: 29.71, lon: 75.90 },
+    { name: "Rewari", district: "Rewari", state: "Haryana", lat: 28.20, lon: 76.62 },
+    { name: "Azadpur", district: "Delhi", state: "NCT of Delhi", lat: 28.71, lon: 77.18 },
+    { name: "Narela", district: "Delhi", state: "NCT of Delhi", lat: 28.85, lon: 77.09 },
+    { name: "Najafgarh", district: "Delhi", state: "NCT of Delhi", lat: 28.61, lon: 76.98 },
+    { name: "Agra", district: "Agra", state: "Uttar Pradesh", lat: 27.18, lon: 78.01 },
+    { name: "Kanpur(Grain)", district: "Kanpur", state: "Uttar Pradesh", lat: 26.45, lon: 80.33, aliases: ["Kanpur"] },
+    { name: "Lucknow", district: "Lucknow", state: "Uttar Pradesh", lat: 26.85, lon: 80.95 },
+    { name: "Hapur", district: "Hapur", state: "Uttar Pradesh", lat: 28.73, lon: 77.78 },
+    { name: "Bareilly", district: "Bareilly", state: "Uttar Pradesh", lat: 28.37, lon: 79.43 },
+    { name: "Shahjahanpur", district: "Shahjahanpur", state: "Uttar Pradesh", lat: 27.88, lon: 79.91 },
+    { name: "Etawah", district: "Etawah", state: "Uttar Pradesh", lat: 26.78, lon: 79.02 },
+    { name: "Farukhabad", district: "Farukhabad", state: "Uttar Pradesh", lat: 27.39, lon: 79.58, aliases: ["Farrukhabad"] },
+    { name: "Varanasi", district: "Varanasi", state: "Uttar Pradesh", lat: 25.32, lon: 82.97 },
+    { name: "Gorakhpur", district: "Gorakhpur", state: "Uttar Pradesh", lat: 26.76, lon: 83.37 },
+    { name: "Indore", district: "Indore", state: "Madhya Pradesh", lat: 22.72, lon: 75.86 },
+    { name: "Ujjain", district: "Ujjain", state: "Madhya Pradesh", lat: 23.18, lon: 75.78 },
+    { name: "Dewas", district: "Dewas", state: "Madhya Pradesh", lat: 22.97, lon: 76.05 },
+    { name: "Mandsaur", district: "Mandsaur", state: "Madhya Pradesh", lat: 24.07, lon: 75.07 },
+    { name: "Neemuch", district: "Neemuch", state: "Madhya Pradesh", lat: 24.47, lon: 74.87 },
+    { name: "Bhopal", district: "Bhopal", state: "Madhya Pradesh", lat: 23.26, lon: 77.41, aliases: ["Karond"] },
+    { name: "Vidisha", district: "Vidisha", state: "Madhya Pradesh", lat: 23.52, lon: 77.81 },
+    { name: "Harda", district: "Harda", state: "Madhya Pradesh", lat: 22.34, lon: 77.09 },
+    { name: "Itarsi", district: "Hoshangabad", state: "Madhya Pradesh", lat: 22.61, lon: 77.76 },
+    { name: "Sagar", district: "Sagar", state: "Madhya Pradesh", lat: 23.84, lon: 78.74 },
+    { name: "Lashkar", district: "Gwalior", state: "Madhya Pradesh", lat: 26.22, lon: 78.18, aliases: ["Gwalior"] },
+    { name: "Jabalpur", district: "Jabalpur", state: "Madhya Pradesh", lat: 23.18, lon: 79.95 },
+    { name: "Lasalgaon", district: "Nashik", state: "Maharashtra", lat: 20.15, lon: 74.23 },
+    { name: "Pimpalgaon", district: "Nashik", state: "Maharashtra", lat: 20.17, lon: 73.99, aliases: ["Pimpalgaon Baswant"] },
+    { name: "Nashik", district: "Nashik", state: "Maharashtra", lat: 20.00, lon: 73.79, aliases: ["Nasik"] },
+    { name: "Pune", district: "Pune", state: "Maharashtra", lat: 18.50, lon: 73.87, aliases: ["Gultekdi", "Market Yard Pune"] },
+    { name: "Solapur", district: "Solapur", state: "Maharashtra", lat: 17.66, lon: 75.91 },
+    { name: "Latur", district: "Latur", state: "Maharashtra", lat: 18.40, lon: 76.56 },
+    { name: "Akola", district: "Akola", state: "Maharashtra", lat: 20.70, lon: 77.00 },
+    { name: "Amarawati", district: "Amarawati", state: "Maharashtra", lat: 20.93, lon: 77.75, aliases: ["Amravati"] },
+    { name: "Nagpur", district: "Nagpur", state: "Maharashtra", lat: 21.18, lon: 79.14, aliases: ["Kalamna"] },
+    { name: "Jalgaon", district: "Jalgaon", state: "Maharashtra", lat: 21.01, lon: 75.56 },
+    { name: "Mumbai", district: "Thane", state: "Maharashtra", lat: 19.08, lon: 73.00, aliases: ["Vashi", "Navi Mumbai", "APMC Vashi"] },
+    { name: "Ahmednagar", district: "Ahmednagar", state: "Maharashtra", lat: 19.09, lon: 74.74 },
+    { name: "Kolhapur", district: "Kolhapur", state: "Maharashtra", lat: 16.70, lon: 74.24 },
+    { name: "Sangli", district: "Sangli", state: "Maharashtra", lat: 16.85, lon: 74.58 },
+    { name: "Unjha", district: "Mehsana", state: "Gujarat", lat: 23.80, lon: 72.39 },
+    { name: "Kadi", district: "Mehsana", state: "Gujarat", lat: 23.30, lon: 72.33 },
+    { name: "Gondal", district: "Rajkot", state: "Gujarat", lat: 21.96, lon: 70.80 },
+    { name: "Rajkot", district: "Rajkot", state: "Gujarat", lat: 22.30, lon: 70.80 },
+    { name: "Jamnagar", district: "Jamnagar", state: "Gujarat", lat: 22.47, lon: 70.06 },
+    { name: "Junagarh", district: "Junagarh", state: "Gujarat", lat: 21.52, lon: 70.46, aliases: ["Junagadh"] },
+    { name: "Amreli", district: "Amreli", state: "Gujarat", lat: 21.60, lon: 71.22 },
+    { name: "Mahuva(Station Road)", district: "Bhavnagar", state: "Gujarat", lat: 21.09, lon: 71.76, aliases: ["Mahuva"] },
+    { name: "Deesa", district: "Banaskanth", state: "Gujarat", lat: 24.26, lon: 72.19, aliases: ["Disa"] },
+    { name: "Ahmedabad", district: "Ahmedabad", state: "Gujarat", lat: 23.02, lon: 72.57 },
+    { name: "Surat", district: "Surat", state: "Gujarat", lat: 21.17, lon: 72.83 },
+    { name: "Patan", district: "Patan", state: "Gujarat", lat: 23.85, lon: 72.13 },
+    { name: "Kota", district: "Kota", state: "Rajasthan", lat: 25.18, lon: 75.83 },
+    { name: "Ramganj Mandi", district: "Kota", state: "Rajasthan", lat: 24.65, lon: 75.94 },
+    { name: "Jaipur (Grain)", district: "Jaipur", state: "Rajasthan", lat: 26.91, lon: 75.79, aliases: ["Jaipur"] },
+    { name: "Bikaner (Grain)", district: "Bikaner", state: "Rajasthan", lat: 28.02, lon: 73.31, aliases: ["Bikaner"] },
+    { name: "Sriganganagar", district: "Sriganganagar", state: "Rajasthan", lat: 29.90, lon: 73.88, aliases: ["Sri Ganganagar"] },
+    { name: "Jodhpur (Grain)", district: "Jodhpur", state: "Rajasthan", lat: 26.24, lon: 73.02, aliases: ["Jodhpur"] },
+    { name: "Alwar", district: "Alwar", state: "Rajasthan", lat: 27.55, lon: 76.60 },
+    { name: "Baran", district: "Baran", state: "Rajasthan", lat: 25.10, lon: 76.51 },
+    { name: "Nagaur", district: "Nagaur", state: "Rajasthan", lat: 27.20, lon: 73.73 },
+    { name: "Merta City", district: "Nagaur", state: "Rajasthan", lat: 26.65, lon: 74.03 },
+    { name: "Hubli (Amaragol)", district: "Dharwad", state: "Karnataka", lat: 15.36, lon: 75.12, aliases: ["Hubli", "Amargol"] },
+    { name: "Bangalore", district: "Bangalore", state: "Karnataka", lat: 12.97, lon: 77.59, aliases: ["Bengaluru", "Yeshwanthpur"] },
+    { name: "Davangere", district: "Davangere", state: "Karnataka", lat: 14.46, lon: 75.92 },
+    { name: "Gadag", district: "Gadag", state: "Karnataka", lat: 15.43, lon: 75.63 },
+    { name: "Raichur", district: "Raichur", state: "Karnataka", lat: 16.20, lon: 77.36 },
+    { name: "Bellary", district: "Bellary", state: "Karnataka", lat: 15.14, lon: 76.92 },
+    { name: "Mysore (Bandipalya)", district: "Mysore", state: "Karnataka", lat: 12.30, lon: 76.64, aliases: ["Mysore", "Mysuru"] },
+    { name: "Gulbarga", district: "Gulbarga", state: "Karnataka", lat: 17.33, lon: 76.83, aliases: ["Kalaburagi"] },
+    { name: "Shimoga", district: "Shimoga", state: "Karnataka", lat: 13.93, lon: 75.57 },
+    { name: "Bijapur", district: "Bijapur", state: "Karnataka", lat: 16.83, lon: 75.71 },
+    { name: "Kolar", district: "Kolar", state: "Karnataka", lat: 13.14, lon: 78.13 },
+    { name: "Warangal", district: "Warangal", state: "Telangana", lat: 17.97, lon: 79.59, aliases: ["Enumamula"] },
+    { name: "Nizamabad", district: "Nizamabad", state: "Telangana", lat: 18.67, lon: 78.09 },
+    { name: "Khammam", district: "Khammam", state: "Telangana", lat: 17.25, lon: 80.15 },
+    { name: "Bowenpally", district: "Hyderabad", state: "Telangana", lat: 17.47, lon: 78.48 },
+    { name: "Karimnagar", district: "Karimnagar", state: "Telangana", lat: 18.44, lon: 79.13 },
+    { name: "Adilabad", district: "Adilabad", state: "Telangana", lat: 19.67, lon: 78.53 },
+    { name: "Guntur", district: "Guntur", state: "Andhra Pradesh", lat: 16.31, lon: 80.44 },
+    { name: "Duggirala", district: "Guntur", state: "Andhra Pradesh", lat: 16.33, lon: 80.63 },
+    { name: "Kurnool", district: "Kurnool", state: "Andhra Pradesh", lat: 15.83, lon: 78.04 },
+    { name: "Adoni", district: "Kurnool", state: "Andhra Pradesh", lat: 15.63, lon: 77.27 },
+    { name: "Vijayawada", district: "NTR", state: "Andhra Pradesh", lat: 16.51, lon: 80.65 },
+    { name: "Madanapalli", district: "Annamayya", state: "Andhra Pradesh", lat: 13.55, lon: 78.50, aliases: ["Madanapalle"] },
+    { name: "Koyambedu", district: "Chennai", state: "Tamil Nadu", lat: 13.07, lon: 80.19 },
+    { name: "Oddanchatram", district: "Dindigul", state: "Tamil Nadu", lat: 10.49, lon: 77.75 },
+    { name: "Coimbatore", district: "Coimbatore", state: "Tamil Nadu", lat: 11.02, lon: 76.96 },
+    { name: "Madurai", district: "Madurai", state: "Tamil Nadu", lat: 9.93, lon: 78.12 },
+    { name: "Erode", district: "Erode", state: "Tamil Nadu", lat: 11.34, lon: 77.72 },
+    { name: "Salem", district: "Salem", state: "Tamil Nadu", lat: 11.66, lon: 78.15 },
+    { name: "Sealdah Koley Market", district: "Kolkata", state: "West Bengal", lat: 22.56, lon: 88.37, aliases: ["Koley Market"] },
+    { name: "Burdwan", district: "Burdwan", state: "West Bengal", lat: 23.23, lon: 87.86, aliases: ["Bardhaman"] },
+    { name: "Siliguri", district: "Darjeeling", state: "West Bengal", lat: 26.73, lon: 88.40 },
+    { name: "Patna", district: "Patna", state: "Bihar", lat: 25.59, lon: 85.14, aliases: ["Bazar Samiti Patna"] },
+    { name: "Gulabbagh", district: "Purnia", state: "Bihar", lat: 25.78, lon: 87.47 },
+    { name: "Muzaffarpur", district: "Muzaffarpur", state: "Bihar", lat: 26.12, lon: 85.39 },
+    { name: "Bargarh", district: "Bargarh", state: "Odisha", lat: 21.33, lon: 83.62 },
+    { name: "Cuttack", district: "Cuttack", state: "Odisha", lat: 20.46, lon: 85.88 },
+    { name: "Ernakulam", district: "Ernakulam", state: "Kerala", lat: 9.98, lon: 76.28 },
+    { name: "Thiruvananthapuram", district: "Thiruvananthapuram", state: "Kerala", lat: 8.52, lon: 76.94 },
+    { name: "Raipur", district: "Raipur", state: "Chattisgarh", lat: 21.25, lon: 81.63 },
+    { name: "Durg", district: "Durg", state: "Chattisgarh", lat: 21.19, lon: 81.28 },
+    { name: "Rajnandgaon", district: "Rajnandgaon", state: "Chattisgarh", lat: 21.10, lon: 81.03 },
+    { name: "Haldwani", district: "Nainital", state: "Uttrakhand", lat: 29.22, lon: 79.51 },
+    { name: "Rudrapur", district: "UdhamSinghNagar", state: "Uttrakhand", lat: 28.98, lon: 79.40 },
+    { name: "Dehradoon", district: "Dehradoon", state: "Uttrakhand", lat: 30.32, lon: 78.03, aliases: ["Dehradun"] },
+    { name: "Solan", district: "Solan", state: "Himachal Pradesh", lat: 30.91, lon: 77.10 },
+    { name: "Shimla", district: "Shimla", state: "Himachal Pradesh", lat: 31.10, lon: 77.17, aliases: ["Bhattakuffer", "Dhalli"] },
+    { name: "Parwanoo", district: "Solan", state: "Himachal Pradesh", lat: 30.84, lon: 76.96 },
+    { name: "Narwal Jammu (F&V)", district: "Jammu", state: "Jammu and Kashmir", lat: 32.70, lon: 74.86, aliases: ["Narwal", "Jammu"] },
+    { name: "Parimpore", district: "Srinagar", state: "Jammu and Kashmir", lat: 34.11, lon: 74.80, aliases: ["Srinagar"] },
+    { name: "Sopore", district: "Baramulla", state: "Jammu and Kashmir", lat: 34.30, lon: 74.47 }
+];
+
+/**
+ * Commodities as data.gov.in names them, with common English, trade and local-language aliases
+ */
+export const COMMODITY_CATALOG: CommodityEntry[] = [
+    { name: "Wheat", key: "wheat", aliases: ["wheat grain"] },
+    { name: "Paddy(Dhan)(Common)", key: "paddy", aliases: ["paddy", "dhan", "paddy common", "धान", "ਝੋਨਾ", "ડાંગર", "ধান", "jhona"] },
+    { name: "Rice", key: "rice", aliases: ["chawal", "चावल", "ਚੌਲ", "तांदूळ", "ચોખા", "চাল"] },
+    { name: "Maize", key: "maize", aliases: ["corn", "makka"] },
+    { name: "Cotton", key: "cotton", aliases: ["kapas", "narma", "seed cotton"] },
+    { name: "Soyabean", key: "soybean", aliases: ["soybean", "soya bean", "soy"] },
+    { name: "Bengal Gram(Gram)(Whole)", key: "chickpea", aliases: ["gram", "chickpea", "chana", "bengal gram", "kabuli chana"] },
+    { name: "Mustard", key: "mustard", aliases: ["rapeseed", "rapeseed-mustard", "sarson"] },
+    { name: "Groundnut", key: "groundnut", aliases: ["peanut", "moongphali"] },
+    { name: "Sugarcane", key: "sugarcane", aliases: ["cane"] },
+    { name: "Onion", key: "onion", aliases: ["pyaz"] },
+    { name: "Potato", key: "potato", aliases: ["aloo"] },
+    { name: "Tomato", key: "tomato", aliases: ["tamatar"] },
+    { name: "Bajra(Pearl Millet/Cumbu)", key: "bajra", aliases: ["bajra", "pearl millet", "cumbu"] },
+    { name: "Jowar(Sorghum)", key: "jowar", aliases: ["jowar", "sorghum", "jwari"] },
+    { name: "Barley (Jau)", key: "barley", aliases: ["barley", "jau"] },
+    { name: "Ragi (Finger Millet)", key: "ragi", aliases: ["ragi", "finger millet", "nachni", "नाचणी", "मंडुआ"] },
+    { name: "Arhar (Tur/Red Gram)(Whole)", key: "arhar", aliases: ["arhar", "tur", "toor", "red gram", "pigeon pea", "अरहर", "तूर", "ਅਰਹਰ", "તુવેર"] },
+    { name: "Green Gram (Moong)(Whole)", key: "moong", aliases: ["moong", "mung", "green gram", "मूंग", "ਮੂੰਗੀ", "मूग", "મગ"] },
+    { name: "Black Gram (Urd Beans)(Whole)", key: "urad", aliases: ["urad", "urd", "black gram", "उड़द", "ਮਾਂਹ", "उडीद", "અડદ"] },
+    { name: "Lentil (Masur)(Whole)", key: "lentil", aliases: ["lentil", "masoor", "masur", "मसूर", "ਮਸਰ"] },
+    { name: "Cumin Seed(Jeera)", key: "cumin", aliases: ["cumin", "jeera", "jira", "जीरा", "જીરું"] },
+    { name: "Turmeric", key: "turmeric", aliases: ["haldi", "हल्दी", "ਹਲਦੀ", "हळद"] },
+    { name: "Dry Chillies", key: "dry chilli", aliases: ["dry chilli", "red chilli", "lal mirch", "लाल मिर्च"] },
+    { name: "Green Chilli", key: "green chilli", aliases: ["hari mirch", "हरी मिर्च", "ਹਰੀ ਮਿਰਚ", "हिरवी मिरची"] },
+    { name: "Garlic", key: "garlic", aliases: ["lahsun", "लहसुन", "ਲਸਣ", "लसूण"] },
+    { name: "Ginger(Green)", key: "ginger", aliases: ["ginger", "adrak", "अदरक", "ਅਦਰਕ", "आले"] },
+    { name: "Cauliflower", key: "cauliflower", aliases: ["phool gobhi", "फूलगोभी", "ਫੁੱਲ ਗੋਭੀ", "फुलकोबी"] },
+    { name: "Cabbage", key: "cabbage", aliases: ["patta gobhi", "पत्तागोभी", "ਬੰਦ ਗੋਭੀ", "कोबी"] },
+    { name: "Brinjal", key: "brinjal", aliases: ["eggplant", "baingan", "बैंगन", "ਬੈਂਗਣ", "वांगी"] },
+    { name: "Bhindi(Ladies Finger)", key: "okra", aliases: ["okra", "bhindi", "ladies finger", "भिंडी", "ਭਿੰਡੀ"] },
+    { name: "Banana", key: "banana", aliases: ["kela", "केला", "ਕੇਲਾ", "केळी"] },
+    { name: "Apple", key: "apple", aliases: ["seb", "सेब", "ਸੇਬ"] },
+    { name: "Mango", key: "mango", aliases: ["aam", "आम", "ਅੰਬ", "आंबा"] },
+    { name: "Castor Seed", key: "castor", aliases: ["castor", "arandi", "एरंड"] },
+    { name: "Sesamum(Sesame,Gingelly,Til)", key: "sesame", aliases: ["sesame", "til", "gingelly", "तिल", "ਤਿਲ", "तीळ"] },
+    { name: "Sunflower", key: "sunflower", aliases: ["surajmukhi", "सूरजमुखी"] },
+    { name: "Copra", key: "copra", aliases: ["khopra"] },
+    { name: "Jaggery", key: "jaggery", aliases: ["gur", "gud", "गुड़", "ਗੁੜ", "गूळ"] }
+];
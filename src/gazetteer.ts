@@ -0,0 +1,286 @@
+// src/gazetteer.ts - Resolve free-text state, district and commodity arguments against the built-in gazetteer
+import {
+    COMMODITY_CATALOG,
+    GAZETTEER_MANDIS,
+    GAZETTEER_STATES,
+    CommodityEntry,
+    GazetteerDistrict,
+    GazetteerMandi,
+    GazetteerState
+} from "./gazetteer-data.js";
+import { LOCAL_CROP_NAMES } from "./i18n.js";
+import { ValidationIssue } from "./schemas.js";
+
+export type GazetteerField = "state" | "district" | "commodity";
+
+/**
+ * How a free-text argument was resolved, echoed back to the caller as resolved_input
+ */
+export interface ResolvedTerm {
+    field: GazetteerField;
+    input: string;
+    canonical: string;
+    // exact: the canonical name in any case or spacing; alias: an official, older or local-language name;
+    // unverified: not in the gazetteer and passed through unchanged
+    match: "exact" | "alias" | "unverified";
+    // State of a resolved district
+    state?: string;
+}
+
+export interface DistrictMatch {
+    district: GazetteerDistrict;
+    state: GazetteerState;
+}
+
+export type GazetteerResolution =
+    | { success: true; params: Record<string, unknown>; resolved: ResolvedTerm[] }
+    | { success: false; issues: ValidationIssue[] };
+
+const MAX_SUGGESTIONS = 3;
+
+// Case, spacing and punctuation never distinguish two places or commodities ("Yamuna Nagar" = "yamunanagar")
+const normalizeName = (value: string) => value.normalize("NFC").toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, "");
+
+const stateIndex = new Map<string, GazetteerState>();
+for (const state of GAZETTEER_STATES) {
+    for (const name of [state.name, state.code, ...state.aliases]) {
+        stateIndex.set(normalizeName(name), state);
+    }
+}
+
+// District names repeat across states (Aurangabad, Bilaspur, Hamirpur), so each key holds every match
+const districtIndex = new Map<string, DistrictMatch[]>();
+for (const state of GAZETTEER_STATES) {
+    for (const district of state.districts) {
+        for (const name of [district.name, ...(district.aliases ?? [])]) {
+            const key = normalizeName(name);
+            const matches = districtIndex.get(key) ?? [];
+            if (!matches.some(match => match.district === district)) {
+                districtIndex.set(key, [...matches, { district, state }]);
+            }
+        }
+    }
+}
+
+const mandiIndex = new Map<string, GazetteerMandi[]>();
+for (const mandi of GAZETTEER_MANDIS) {
+    for (const name of [mandi.name, ...(mandi.aliases ?? [])]) {
+        const key = normalizeName(name);
+        mandiIndex.set(key, [...(mandiIndex.get(key) ?? []), mandi]);
+    }
+}
+
+// Local crop names first, so the catalog's own aliases win where they differ (dhan is Paddy, not Rice)
+const commodityIndex = new Map<string, CommodityEntry>();
+for (const entry of COMMODITY_CATALOG) {
+    for (const name of LOCAL_CROP_NAMES[entry.key] ?? []) {
+        commodityIndex.set(normalizeName(name), entry);
+    }
+}
+for (const entry of COMMODITY_CATALOG) {
+    for (const name of [entry.name, entry.key, ...entry.aliases]) {
+        commodityIndex.set(normalizeName(name), entry);
+    }
+}
+
+/**
+ * Optimal string alignment distance: edits, with a swap of adjacent letters counted once ("whaet" -> "wheat" is 1)
+ */
+const editDistance = (a: string, b: string): number => {
+    const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return rows[a.length][b.length];
+};
+
+/**
+ * Closest canonical names to an unknown input, allowing roughly one typo per three characters
+ */
+const suggest = (input: string, candidates: Iterable<[string, string]>): string[] => {
+    const key = normalizeName(input);
+    const limit = Math.max(1, Math.floor(key.length / 3));
+    const best = new Map<string, number>();
+
+    for (const [candidateKey, canonical] of candidates) {
+        const distance = editDistance(key, candidateKey);
+        if (distance <= limit && distance < (best.get(canonical) ?? Infinity)) {
+            best.set(canonical, distance);
+        }
+    }
+
+    return [...best.entries()]
+        .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+        .slice(0, MAX_SUGGESTIONS)
+        .map(([canonical]) => canonical);
+};
+
+const didYouMean = (suggestions: string[]) =>
+    suggestions.length > 0 ? ` Did you mean ${suggestions.map(name => `'${name}'`).join(", ")}?` : "";
+
+const resolvedTerm = (field: GazetteerField, input: string, canonical: string, state?: string): ResolvedTerm => ({
+    field,
+    input,
+    canonical,
+    match: normalizeName(input) === normalizeName(canonical) ? "exact" : "alias",
+    ...(state ? { state } : {})
+});
+
+const unverifiedTerm = (field: GazetteerField, input: string): ResolvedTerm => ({ field, input, canonical: input, match: "unverified" });
+
+const issue = (field: GazetteerField, code: string, message: string, suggestions: string[]): ValidationIssue => ({
+    path: field,
+    message: message + didYouMean(suggestions),
+    code,
+    suggestions
+});
+
+const districtKeys = (states: GazetteerState[]) =>
+    [...districtIndex.entries()].flatMap(([key, matches]) =>
+        matches.filter(match => states.includes(match.state)).map(match => [key, match.district.name] as [string, string])
+    );
+
+/**
+ * State for a name, code or alias (e.g. "punjab", "PB", "ਪੰਜਾਬ")
+ */
+export const findState = (name: string) => stateIndex.get(normalizeName(name));
+
+/**
+ * Districts matching a name or alias, optionally limited to one state
+ */
+export const findDistricts = (name: string, state?: string): DistrictMatch[] => {
+    const matches = districtIndex.get(normalizeName(name)) ?? [];
+    const stateEntry = state ? findState(state) : undefined;
+    return stateEntry ? matches.filter(match => match.state === stateEntry) : matches;
+};
+
+/**
+ * Mandis matching a name or alias (e.g. "Vashi" -> Mumbai APMC)
+ */
+export const findMandis = (name: string): GazetteerMandi[] => mandiIndex.get(normalizeName(name)) ?? [];
+
+/**
+ * Catalog entry for a commodity name, alias or local name (e.g. "gehun" -> Wheat)
+ */
+export const findCommodity = (name: string) => commodityIndex.get(normalizeName(name));
+
+/**
+ * Key into the reference tables for a commodity; the lower-cased name when it is not in the catalog
+ */
+export const commodityKey = (name: string) => findCommodity(name)?.key ?? name.trim().toLowerCase();
+
+const resolveState = (input: string): ResolvedTerm | ValidationIssue => {
+    const state = findState(input);
+    if (state) {
+        return resolvedTerm("state", input, state.name);
+    }
+
+    const suggestions = suggest(input, [...stateIndex.entries()].map(([key, entry]) => [key, entry.name] as [string, string]));
+    return issue("state", "unknown_state", `Unknown state '${input}'.`, suggestions);
+};
+
+const mandiDistricts = (mandis: GazetteerMandi[]) => [...new Set(mandis.map(mandi => mandi.district))].slice(0, MAX_SUGGESTIONS);
+
+const resolveDistrict = (input: string, state: GazetteerState | undefined): ResolvedTerm | ValidationIssue => {
+    const matches = districtIndex.get(normalizeName(input)) ?? [];
+    // A mandi given as the district is the most common mix-up (e.g. Khanna for Ludhiana)
+    const mandis = findMandis(input).filter(mandi => !state || findState(mandi.state) === state);
+    const mandiHint = mandis.length > 0
+        ? ` '${mandis[0].name}' is a mandi in ${mandis[0].district} district, ${mandis[0].state}.`
+        : "";
+
+    if (state) {
+        const match = matches.find(candidate => candidate.state === state);
+        if (match) {
+            return resolvedTerm("district", input, match.district.name, state.name);
+        }
+        if (state.partial) {
+            return unverifiedTerm("district", input);
+        }
+        if (matches.length > 0 && mandis.length === 0) {
+            const elsewhere = matches.map(candidate => candidate.state.name).join(", ");
+            return issue("district", "district_not_in_state", `District '${input}' is in ${elsewhere}, not ${state.name}.`,
+                suggest(input, districtKeys([state])));
+        }
+
+        const suggestions = mandis.length > 0 ? mandiDistricts(mandis) : suggest(input, districtKeys([state]));
+        return issue("district", "unknown_district", `Unknown district '${input}' in ${state.name}.${mandiHint}`, suggestions);
+    }
+
+    const names = [...new Set(matches.map(match => match.district.name))];
+    if (names.length === 1) {
+        // Same-named districts in several states resolve to the shared name without picking a state
+        return resolvedTerm("district", input, names[0], matches.length === 1 ? matches[0].state.name : undefined);
+    }
+    if (names.length > 1) {
+        return issue("district", "ambiguous_district",
+            `District '${input}' matches ${matches.map(match => `${match.district.name} (${match.state.name})`).join(", ")}; pass state to choose.`,
+            names.slice(0, MAX_SUGGESTIONS));
+    }
+
+    const suggestions = mandis.length > 0 ? mandiDistricts(mandis) : suggest(input, districtKeys(GAZETTEER_STATES));
+    if (suggestions.length === 0) {
+        // Could be a district of a state the gazetteer only partly covers
+        return unverifiedTerm("district", input);
+    }
+    return issue("district", "unknown_district", `Unknown district '${input}'.${mandiHint}`, suggestions);
+};
+
+const resolveCommodity = (input: string): ResolvedTerm | ValidationIssue => {
+    const entry = findCommodity(input);
+    if (entry) {
+        return resolvedTerm("commodity", input, entry.name);
+    }
+
+    // data.gov.in lists far more commodities than the catalog, so only near-misses of a known name are rejected
+    const suggestions = suggest(input, [...commodityIndex.entries()].map(([key, candidate]) => [key, candidate.name] as [string, string]));
+    if (suggestions.length === 0) {
+        return unverifiedTerm("commodity", input);
+    }
+    return issue("commodity", "unknown_commodity", `Unknown commodity '${input}'.`, suggestions);
+};
+
+const isIssue = (value: ResolvedTerm | ValidationIssue): value is ValidationIssue => "path" in value;
+
+/**
+ * Resolve the state, district and commodity arguments of a validated tool call to their canonical names.
+ * Fails with per-field issues and "did you mean" suggestions when a name is unknown.
+ */
+export const resolveGazetteerArguments = (params: Record<string, unknown>): GazetteerResolution => {
+    const resolved: ResolvedTerm[] = [];
+    const issues: ValidationIssue[] = [];
+    const record = (result: ResolvedTerm | ValidationIssue) => {
+        if (isIssue(result)) {
+            issues.push(result);
+        } else {
+            resolved.push(result);
+        }
+    };
+
+    if (typeof params.state === "string") {
+        record(resolveState(params.state));
+    }
+    if (typeof params.district === "string") {
+        const state = typeof params.state === "string" ? findState(params.state) : undefined;
+        record(resolveDistrict(params.district, state));
+    }
+    if (typeof params.commodity === "string") {
+        record(resolveCommodity(params.commodity));
+    }
+
+    if (issues.length > 0) {
+        return { success: false, issues };
+    }
+
+    const canonical = Object.fromEntries(resolved.map(term => [term.field, term.canonical]));
+    return { success: true, params: { ...params, ...canonical }, resolved };
+};
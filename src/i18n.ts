@@ -0,0 +1,61 @@
+// src/i18n.ts - Response languages and local-language crop and commodity names accepted in tool arguments
+
+export const LANGUAGE_CODES = ["en", "hi", "pa", "mr", "gu", "bn"] as const;
+export type Language = typeof LANGUAGE_CODES[number];
+
+export const LANGUAGES: Record<Language, { name: string; native: string }> = {
+    en: { name: "English", native: "English" },
+    hi: { name: "Hindi", native: "हिन्दी" },
+    pa: { name: "Punjabi", native: "ਪੰਜਾਬੀ" },
+    mr: { name: "Marathi", native: "मराठी" },
+    gu: { name: "Gujarati", native: "ગુજરાતી" },
+    bn: { name: "Bengali", native: "বাংলা" }
+};
+
+// Extra spellings callers use for a language
+const LANGUAGE_ALIASES: Record<string, Language> = {
+    hindi: "hi", "हिंदी": "hi",
+    punjabi: "pa", panjabi: "pa",
+    marathi: "mr",
+    gujarati: "gu",
+    bengali: "bn", bangla: "bn"
+};
+
+/**
+ * Language code for a code, English name or native name (e.g. "Hindi", "ਪੰਜਾਬੀ" -> pa); undefined when unknown
+ */
+export const resolveLanguage = (value: string): Language | undefined => {
+    const key = value.trim().toLowerCase();
+    const code = LANGUAGE_CODES.find(code => code === key || LANGUAGES[code].name.toLowerCase() === key || LANGUAGES[code].native === key);
+    return code ?? LANGUAGE_ALIASES[key];
+};
+
+/**
+ * Crop and commodity names in Indian languages, romanized and in native script, keyed by the English name
+ */
+export const LOCAL_CROP_NAMES: Record<string, string[]> = {
+    wheat: ["gehun", "gehu", "gehoon", "kanak", "gahu", "गेहूं", "गेहूँ", "ਕਣਕ", "गहू", "ઘઉં", "গম"],
+    rice: ["dhan", "paddy", "chawal", "jhona", "bhat", "tandul", "धान", "चावल", "ਝੋਨਾ", "ਚੌਲ", "भात", "तांदूळ", "ડાંગર", "ચોખા", "ধান", "চাল"],
+    cotton: ["kapas", "narma", "kapus", "कपास", "ਕਪਾਹ", "ਨਰਮਾ", "कापूस", "કપાસ", "তুলা"],
+    maize: ["makka", "makki", "makai", "bhutta", "मक्का", "ਮੱਕੀ", "मका", "મકાઈ", "ভুট্টা"],
+    chickpea: ["chana", "gram", "chole", "harbhara", "चना", "ਛੋਲੇ", "हरभरा", "ચણા", "ছোলা"],
+    mustard: ["sarson", "sarso", "rai", "mohari", "सरसों", "ਸਰ੍ਹੋਂ", "मोहरी", "રાઈ", "সরিষা"],
+    sugarcane: ["ganna", "ikh", "oos", "गन्ना", "ਗੰਨਾ", "ऊस", "શેરડી", "আখ"],
+    soybean: ["soyabean", "soya", "सोयाबीन", "ਸੋਇਆਬੀਨ", "સોયાબીન", "সয়াবিন"],
+    potato: ["aloo", "alu", "batata", "आलू", "ਆਲੂ", "बटाटा", "બટાકા", "আলু"],
+    onion: ["pyaz", "pyaaz", "kanda", "प्याज", "प्याज़", "ਪਿਆਜ਼", "कांदा", "ડુંગળી", "পেঁয়াজ"],
+    tomato: ["tamatar", "टमाटर", "ਟਮਾਟਰ", "टोमॅटो", "ટામેટા", "টমেটো"],
+    groundnut: ["moongphali", "mungfali", "shengdana", "मूंगफली", "ਮੂੰਗਫਲੀ", "भुईमूग", "મગફળી", "চিনাবাদাম"],
+    barley: ["jau", "जौ", "ਜੌਂ", "जव", "જવ", "যব"],
+    bajra: ["pearl millet", "bajri", "बाजरा", "ਬਾਜਰਾ", "बाजरी", "બાજરી", "বাজরা"],
+    jowar: ["sorghum", "jwari", "ज्वार", "ਜਵਾਰ", "ज्वारी", "જુવાર", "জোয়ার"]
+};
+
+const localCropIndex = new Map<string, string>(
+    Object.entries(LOCAL_CROP_NAMES).flatMap(([crop, names]) => names.map(name => [name.normalize("NFC").toLowerCase(), crop] as [string, string]))
+);
+
+/**
+ * English crop name for a local-language name (e.g. "gehun" or "ਕਣਕ" -> wheat); undefined for anything else
+ */
+export const resolveLocalCropName = (value: string) => localCropIndex.get(value.trim().normalize("NFC").toLowerCase());
@@ -0,0 +1,220 @@
+// src/irrigation.ts - FAO-56 reference evapotranspiration, crop water use and a daily root-zone water balance
+import { CropWaterProfile, GrowthStage, SoilWaterProfile } from "./reference-data.js";
+import { WeatherDay } from "./weather.js";
+
+export type Et0Method = "penman_monteith" | "hargreaves";
+
+export interface SiteInfo {
+    latitude: number;
+    elevation: number;
+}
+
+export interface Et0Estimate {
+    et0: number;
+    method: "provider" | Et0Method;
+}
+
+export interface CropCondition {
+    stage: GrowthStage;
+    kc: number;
+    root_depth_m: number;
+}
+
+export interface WaterBalanceDay {
+    date: string;
+    stage: GrowthStage;
+    et0: number;
+    kc: number;
+    etc: number;
+    rainfall: number;
+    effective_rainfall: number;
+    total_available_water: number;
+    readily_available_water: number;
+    depletion_start: number;
+    depletion_end: number;
+    irrigate: boolean;
+    net_irrigation_mm: number;
+    gross_irrigation_mm: number;
+}
+
+export interface WaterBalanceOptions {
+    profile: CropWaterProfile;
+    soil: SoilWaterProfile;
+    site: SiteInfo;
+    et0Method: Et0Method;
+    // Days after sowing on the first forecast day; when unknown the stage is held fixed
+    daysAfterSowing?: number;
+    stage?: GrowthStage;
+    // Root-zone depletion on the first day as a share of total available water
+    initialDepletion: number;
+    applicationEfficiency: number;
+}
+
+// Rain below this is intercepted or evaporates before reaching the root zone
+const MIN_EFFECTIVE_RAIN_MM = 5;
+const EFFECTIVE_RAIN_FRACTION = 0.8;
+// Hargreaves radiation coefficient for interior locations (FAO-56 eq. 50)
+const KRS_INTERIOR = 0.16;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const dayOfYear = (date: string) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    return Math.floor((d.getTime() - Date.UTC(d.getUTCFullYear(), 0, 1)) / 86400000) + 1;
+};
+
+/**
+ * Extraterrestrial radiation Ra in MJ/m²/day (FAO-56 eq. 21)
+ */
+export const extraterrestrialRadiation = (latitude: number, date: string) => {
+    const j = dayOfYear(date);
+    const phi = (latitude * Math.PI) / 180;
+    const dr = 1 + 0.033 * Math.cos((2 * Math.PI * j) / 365);
+    const delta = 0.409 * Math.sin((2 * Math.PI * j) / 365 - 1.39);
+    const ws = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta))));
+    return ((24 * 60) / Math.PI) * 0.082 * dr * (ws * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(ws));
+};
+
+// Saturation vapour pressure in kPa (FAO-56 eq. 11)
+const saturationVapourPressure = (t: number) => 0.6108 * Math.exp((17.27 * t) / (t + 237.3));
+
+/**
+ * Hargreaves ET0 in mm/day from temperature only (FAO-56 eq. 52)
+ */
+export const hargreavesEt0 = (day: WeatherDay, site: SiteInfo) => {
+    const { max, min } = day.temperature;
+    const ra = extraterrestrialRadiation(site.latitude, day.date);
+    return Math.max(0, 0.0023 * ((max + min) / 2 + 17.8) * Math.sqrt(Math.max(0, max - min)) * 0.408 * ra);
+};
+
+/**
+ * FAO-56 Penman-Monteith ET0 in mm/day (eq. 6). Without measured radiation, Rs comes from the
+ * temperature range (eq. 50); actual vapour pressure from mean relative humidity (eq. 19);
+ * 10 m wind is scaled to 2 m (eq. 47).
+ */
+export const penmanMonteithEt0 = (day: WeatherDay, site: SiteInfo) => {
+    const { max, min } = day.temperature;
+    const t = (max + min) / 2;
+    const ra = extraterrestrialRadiation(site.latitude, day.date);
+
+    const pressure = 101.3 * Math.pow((293 - 0.0065 * site.elevation) / 293, 5.26);
+    const gamma = 0.000665 * pressure;
+    const slope = (4098 * saturationVapourPressure(t)) / Math.pow(t + 237.3, 2);
+
+    const es = (saturationVapourPressure(max) + saturationVapourPressure(min)) / 2;
+    const ea = (Math.min(100, Math.max(0, day.humidity)) / 100) * es;
+
+    const rs = day.solar_radiation ?? KRS_INTERIOR * Math.sqrt(Math.max(0, max - min)) * ra;
+    const rso = (0.75 + 2e-5 * site.elevation) * ra;
+    const rns = 0.77 * rs;
+    const rnl = 4.903e-9 * ((Math.pow(max + 273.16, 4) + Math.pow(min + 273.16, 4)) / 2)
+        * (0.34 - 0.14 * Math.sqrt(ea))
+        * (1.35 * Math.min(1, rso > 0 ? rs / rso : 1) - 0.35);
+    const rn = rns - rnl;
+
+    const u2 = (day.wind_speed / 3.6) * (4.87 / Math.log(67.8 * 10 - 5.42));
+
+    const et0 = (0.408 * slope * rn + gamma * (900 / (t + 273)) * u2 * (es - ea)) / (slope + gamma * (1 + 0.34 * u2));
+    return Math.max(0, et0);
+};
+
+/**
+ * Provider ET0 when the weather source publishes one, otherwise the requested equation
+ */
+export const referenceEt0 = (day: WeatherDay, site: SiteInfo, method: Et0Method): Et0Estimate => {
+    if (day.reference_et0 !== undefined) {
+        return { et0: day.reference_et0, method: "provider" };
+    }
+    return {
+        et0: method === "hargreaves" ? hargreavesEt0(day, site) : penmanMonteithEt0(day, site),
+        method
+    };
+};
+
+/**
+ * Stage, Kc and rooting depth on a given day after sowing (FAO-56 single crop coefficient curve)
+ */
+export const cropConditionOn = (profile: CropWaterProfile, daysAfterSowing: number): CropCondition => {
+    const { initial, development, mid } = profile.stage_days;
+    const { kc, root_depth_m: root } = profile;
+    const toFullCanopy = initial + development;
+    const rootDepth = root.min + (root.max - root.min) * Math.min(1, Math.max(0, daysAfterSowing) / toFullCanopy);
+
+    if (daysAfterSowing < initial) {
+        return { stage: "initial", kc: kc.initial, root_depth_m: rootDepth };
+    }
+    if (daysAfterSowing < toFullCanopy) {
+        const progress = (daysAfterSowing - initial) / development;
+        return { stage: "development", kc: kc.initial + (kc.mid - kc.initial) * progress, root_depth_m: rootDepth };
+    }
+    if (daysAfterSowing < toFullCanopy + mid) {
+        return { stage: "mid", kc: kc.mid, root_depth_m: rootDepth };
+    }
+    const progress = Math.min(1, (daysAfterSowing - toFullCanopy - mid) / profile.stage_days.late);
+    return { stage: "late", kc: kc.mid + (kc.end - kc.mid) * progress, root_depth_m: rootDepth };
+};
+
+/**
+ * Representative day after sowing for a stage, used when the sowing date is not known
+ */
+export const stageMidpoint = (profile: CropWaterProfile, stage: GrowthStage) => {
+    const { initial, development, mid, late } = profile.stage_days;
+    const starts = { initial: 0, development: initial, mid: initial + development, late: initial + development + mid };
+    const lengths = { initial, development, mid, late };
+    return starts[stage] + Math.floor(lengths[stage] / 2);
+};
+
+/**
+ * Daily root-zone depletion balance (FAO-56 eq. 85): depletion grows with ETc, shrinks with effective
+ * rain, and an irrigation refilling the root zone is scheduled once depletion passes the readily available water.
+ */
+export const waterBalance = (forecast: WeatherDay[], options: WaterBalanceOptions) => {
+    const { profile, soil, site } = options;
+    const startDas = options.daysAfterSowing ?? stageMidpoint(profile, options.stage ?? "mid");
+    const methods = new Set<Et0Estimate["method"]>();
+    let depletion: number | undefined;
+
+    const days: WaterBalanceDay[] = forecast.map((day, i) => {
+        const crop = cropConditionOn(profile, options.daysAfterSowing === undefined ? startDas : startDas + i);
+        const { et0, method } = referenceEt0(day, site, options.et0Method);
+        methods.add(method);
+        const etc = et0 * crop.kc;
+
+        const taw = soil.available_water_mm_per_m * crop.root_depth_m;
+        // p is adjusted for evaporative demand (FAO-56 Table 22 footnote)
+        const p = Math.min(0.8, Math.max(0.1, profile.depletion_fraction + 0.04 * (5 - etc)));
+        const raw = p * taw;
+
+        const start = Math.min(taw, depletion ?? options.initialDepletion * taw);
+        // Rain beyond what the root zone can hold runs off or percolates
+        const effectiveRain = day.rainfall < MIN_EFFECTIVE_RAIN_MM ? 0 : Math.min(day.rainfall * EFFECTIVE_RAIN_FRACTION, start + etc);
+        let end = Math.max(0, start - effectiveRain + etc);
+
+        let net = 0;
+        if (end > raw) {
+            net = end;
+            end = 0;
+        }
+        depletion = Math.min(taw, end);
+
+        return {
+            date: day.date,
+            stage: crop.stage,
+            et0: round2(et0),
+            kc: round2(crop.kc),
+            etc: round2(etc),
+            rainfall: day.rainfall,
+            effective_rainfall: round1(effectiveRain),
+            total_available_water: round1(taw),
+            readily_available_water: round1(raw),
+            depletion_start: round1(start),
+            depletion_end: round1(depletion),
+            irrigate: net > 0,
+            net_irrigation_mm: round1(net),
+            gross_irrigation_mm: round1(net / options.applicationEfficiency)
+        };
+    });
+
+    return { days, et0Methods: Array.from(methods) };
+};
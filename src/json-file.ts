@@ -0,0 +1,27 @@
+// src/json-file.ts - Read and atomically replace the JSON files behind the local data stores
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Parsed file contents, or undefined when the file does not exist yet
+ */
+export const readJsonFile = async <T>(file: string): Promise<T | undefined> => {
+    let text: string;
+    try {
+        text = await fs.readFile(file, "utf8");
+    } catch (err: any) {
+        if (err?.code === "ENOENT") return undefined;
+        throw err;
+    }
+    return JSON.parse(text) as T;
+};
+
+/**
+ * Write to a temp file and rename it over the original so readers never see a partial file
+ */
+export const writeJsonFile = async (file: string, value: unknown) => {
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(tmp, JSON.stringify(value));
+    await fs.rename(tmp, file);
+};
@@ -0,0 +1,138 @@
+// src/market-ranking.ts - Rank mandis by net realisation after transport from the farmer's location
+import { GAZETTEER_MANDIS } from "./gazetteer-data.js";
+import { findDistricts, findMandis, findState } from "./gazetteer.js";
+
+export interface Coordinates {
+    latitude: number;
+    longitude: number;
+}
+
+/**
+ * Where the farmer is selling from
+ */
+export interface Origin extends Coordinates {
+    source: "coordinates" | "district";
+    district?: string;
+    state?: string;
+}
+
+/**
+ * A market's price for the commodity, observed or simulated
+ */
+export interface MarketQuote {
+    name: string;
+    district?: string;
+    state?: string;
+    // ₹/quintal
+    price: number;
+    date?: string;
+}
+
+export interface RankedMarket extends MarketQuote {
+    // Estimated road distance from the origin; null when the origin or the market cannot be located
+    distance_km: number | null;
+    // Coordinates of the mandi itself, or of its district headquarters when the mandi is not in the gazetteer
+    location_source: "mandi" | "district" | null;
+    transport_cost_per_quintal: number | null;
+    net_price_per_quintal: number;
+    net_realisation: number;
+}
+
+export interface RankingOptions {
+    origin?: Origin;
+    quantityQuintals: number;
+    transportCostPerQuintalKm: number;
+    maxDistanceKm: number;
+    limit: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Village roads are longer than the straight line between two points; 1.3 is a typical circuity factor
+export const ROAD_FACTOR = 1.3;
+
+const round = (value: number, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Haversine distance in km
+ */
+export const greatCircleKm = (a: Coordinates, b: Coordinates) => {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+export const roadDistanceKm = (a: Coordinates, b: Coordinates) => round(greatCircleKm(a, b) * ROAD_FACTOR, 1);
+
+/**
+ * Farmer's location from explicit coordinates, else the headquarters of their district
+ */
+export const locateOrigin = (where: { latitude?: number; longitude?: number; district?: string; state?: string }): Origin | undefined => {
+    if (where.latitude !== undefined && where.longitude !== undefined) {
+        return { latitude: where.latitude, longitude: where.longitude, source: "coordinates" };
+    }
+
+    const match = where.district ? findDistricts(where.district, where.state)[0] : undefined;
+    return match
+        ? { latitude: match.district.lat, longitude: match.district.lon, source: "district", district: match.district.name, state: match.state.name }
+        : undefined;
+};
+
+/**
+ * Coordinates of a market from the gazetteer's mandi list, falling back to its district headquarters
+ */
+const locateMarket = (quote: MarketQuote): { coordinates: Coordinates; source: "mandi" | "district" } | undefined => {
+    const state = quote.state ? findState(quote.state) : undefined;
+    const mandi = findMandis(quote.name).find(candidate => !state || findState(candidate.state) === state);
+    if (mandi) {
+        return { coordinates: { latitude: mandi.lat, longitude: mandi.lon }, source: "mandi" };
+    }
+
+    const match = quote.district ? findDistricts(quote.district, quote.state)[0] : undefined;
+    return match ? { coordinates: { latitude: match.district.lat, longitude: match.district.lon }, source: "district" } : undefined;
+};
+
+/**
+ * Rank markets by net realisation: (price - transport cost per quintal per km x distance) x quantity.
+ * Markets beyond maxDistanceKm are dropped; markets that cannot be located are listed after the ranked ones.
+ */
+export const rankMarkets = (quotes: MarketQuote[], options: RankingOptions): RankedMarket[] => {
+    const ranked = quotes.map((quote): RankedMarket => {
+        const location = options.origin ? locateMarket(quote) : undefined;
+        const distance = options.origin && location ? roadDistanceKm(options.origin, location.coordinates) : null;
+        const transport = distance === null ? null : round(distance * options.transportCostPerQuintalKm, 2);
+        const netPrice = round(quote.price - (transport ?? 0), 2);
+
+        return {
+            ...quote,
+            distance_km: distance,
+            location_source: location?.source ?? null,
+            transport_cost_per_quintal: transport,
+            net_price_per_quintal: netPrice,
+            net_realisation: round(netPrice * options.quantityQuintals)
+        };
+    });
+
+    return ranked
+        .filter(market => market.distance_km === null || market.distance_km <= options.maxDistanceKm)
+        .sort((a, b) =>
+            Number(a.distance_km === null) - Number(b.distance_km === null) ||
+            b.net_realisation - a.net_realisation ||
+            (a.distance_km ?? 0) - (b.distance_km ?? 0)
+        )
+        .slice(0, options.limit);
+};
+
+/**
+ * Gazetteer mandis as quotes at one price: those within reach of the origin, otherwise those in the state
+ */
+export const gazetteerMarkets = (price: number, origin: Origin | undefined, maxDistanceKm: number, state?: string): MarketQuote[] => {
+    const stateEntry = state ? findState(state) : undefined;
+    return GAZETTEER_MANDIS
+        .filter(mandi => origin
+            ? roadDistanceKm(origin, { latitude: mandi.lat, longitude: mandi.lon }) <= maxDistanceKm
+            : stateEntry !== undefined && findState(mandi.state) === stateEntry)
+        .map(mandi => ({ name: mandi.name, district: mandi.district, state: mandi.state, price }));
+};
@@ -0,0 +1,654 @@
+// src/messages.ts - Message catalog for advisory text returned by the tools, with English fallback
+import { Language } from "./i18n.js";
+
+// English is the reference catalog: it defines every key, and untranslated keys fall back to it
+const en = {
+    "soil.insufficient_data": "Not enough soil test data to assess soil health: need at least 3 of pH, nitrogen, phosphorus, potassium and organic carbon (missing: {missing})",
+    "soil.get_tested": "Get a Soil Health Card test from the nearest soil testing laboratory or Krishi Vigyan Kendra",
+    "soil.apply_lime": "Apply lime to increase soil pH",
+    "soil.reduce_ph": "Apply organic matter to reduce soil pH",
+    "soil.nitrogen": "Apply nitrogen-rich fertilizers or compost",
+    "soil.phosphorus": "Apply phosphorus fertilizers (DAP/SSP)",
+    "soil.potassium": "Apply potassium fertilizers (MOP)",
+    "soil.organic": "Increase organic matter through compost and crop residues",
+    "soil.zinc": "Apply zinc sulphate (heptahydrate) at 25 kg/ha, or 0.5% foliar spray on standing crops",
+    "soil.iron": "Spray 0.5-1% ferrous sulphate on the foliage; soil-applied iron is largely fixed",
+    "soil.sulphur": "Apply 20-40 kg/ha sulphur through gypsum, SSP or bentonite sulphur",
+    "soil.boron": "Apply borax at 10 kg/ha, or 0.2% borax foliar spray at flowering",
+    "soil.saline": "Saline soil: leach salts with good-quality irrigation water, improve drainage and grow salt-tolerant crops",
+    "soil.slightly_saline": "Slightly saline soil: avoid salt-sensitive crops and irrigate more frequently in smaller amounts",
+    "soil.not_assessed": "Not assessed (no values given): {parameters}",
+    "soil.score_basis": "Scored on {count} measured parameter(s), as a percentage of the points available for them",
+    "parameter.ph": "pH",
+    "parameter.nitrogen": "nitrogen",
+    "parameter.phosphorus": "phosphorus",
+    "parameter.potassium": "potassium",
+    "parameter.organic_content": "organic carbon",
+    "parameter.zinc": "zinc",
+    "parameter.iron": "iron",
+    "parameter.sulphur": "sulphur",
+    "parameter.boron": "boron",
+    "parameter.ec": "EC",
+    "weather.heavy_rain": "Heavy rainfall expected. Skip irrigation for the day.",
+    "weather.pest_risk": "High humidity and temperature. Monitor for pest activity.",
+    "weather.heat_stress": "High temperature with no rain. Ensure adequate irrigation.",
+    "weather.wind": "Strong winds expected. Secure tall crops and structures.",
+    "weather.irrigate_reason": "Low rainfall ({rainfall}mm) and high temperature ({temperature}°C)",
+    "weather.skip_reason": "Adequate rainfall expected ({rainfall}mm)",
+    "soil_test.npk_ppm": "N, P and K converted from ppm to kg/ha (x2.24, 15 cm plough layer)",
+    "soil_test.micronutrients_kg_ha": "Micronutrients converted from kg/ha to ppm (/2.24)",
+    "soil_test.organic_matter": "Organic matter converted to organic carbon (/1.724)",
+    "soil_test.organic_g_kg": "Organic content converted from g/kg to %",
+    "soil_test.ec_us_cm": "EC converted from µS/cm to dS/m",
+    "soil_test.implausible": "{parameter} of {value} {unit} is outside the plausible {min}-{max} {unit}; check the value and its unit. It was left out of the analysis.",
+    "fertilizer.typical_target": "Target yield not given; planned for a typical {yield} q/ha",
+    "fertilizer.target_out_of_range": "Target of {yield} q/ha is outside the {min}-{max} q/ha range the equations were fitted over; treat the doses as indicative",
+    "fertilizer.no_soil_test": "No soil test value for {nutrient}; used the general recommendation of {dose} kg/ha",
+    "fertilizer.dose_capped": "{nutrient} dose capped at {factor}x the general recommendation; recheck the soil test value",
+    "fertilizer.starter_dose": "{nutrient} kept at the {dose} kg/ha starter dose",
+    "fertilizer.sufficient": "Soil {nutrient} is sufficient for the target yield; no {nutrient} fertilizer needed this season",
+    "fertilizer.acidic": "Acidic soil: apply agricultural lime as per the lime requirement test; phosphate fixation reduces P efficiency",
+    "fertilizer.alkaline": "Alkaline/sodic soil: apply gypsum as per the gypsum requirement test; prefer SSP or ammonium sulphate over urea",
+    "fertilizer.low_organic": "Low organic carbon: add 5-10 t/ha farmyard manure or compost and pass fym_tonnes_per_ha to credit its nutrients",
+    "fertilizer.dap_sulphur": "DAP supplies no sulphur; add 20-40 kg/ha sulphur (e.g. gypsum or bentonite-S) for oilseeds and pulses",
+    "irrigation.soil_unknown": "Soil type '{soil}' not recognised; assumed a medium soil holding {water} mm of available water per metre",
+    "irrigation.soil_not_given": "Soil type not given; assumed a medium soil holding {water} mm of available water per metre",
+    "irrigation.default_latitude": "Location not geocoded; radiation computed for {latitude}°N (pass latitude to refine)",
+    "irrigation.default_elevation": "Elevation unknown; air pressure computed for {elevation} m",
+    "irrigation.no_sowing_date": "Sowing date not given; crop held at the middle of the {stage} stage",
+    "irrigation.irrigate": "Irrigate on {dates} with about {gross} mm gross ({net} mm net) by {method}",
+    "irrigation.not_needed": "No irrigation needed in the next {days} days; root-zone depletion stays below {water} mm",
+    "irrigation.puddled_rice": "For puddled rice, maintain 2-5 cm standing water instead; alternate wetting and drying can save water after establishment",
+    "irrigation.forecast_rain": "Forecast rain should supply about {rain} mm to the root zone; recheck before irrigating",
+    "irrigation_method.flood": "flood",
+    "irrigation_method.furrow": "furrow",
+    "irrigation_method.sprinkler": "sprinkler",
+    "irrigation_method.drip": "drip",
+    "water_stage.initial": "initial",
+    "water_stage.development": "development",
+    "water_stage.mid": "mid",
+    "water_stage.late": "late",
+    "crop_stage.moisture_sensitive": "{stage} is moisture-sensitive and only {rain} mm of rain is forecast; run irrigation-planner to schedule water",
+    "crop_stage.critical_next": "{stage} (irrigation-critical) expected around {date}",
+    "crop_stage.missing_days": "{days} day(s) since sowing had no temperature data; accumulated GDD is an underestimate",
+    "crop_stage.projection": "Stages beyond the forecast are projected at {rate} GDD/day, the recent average",
+    "mandi.sell": "Current price (₹{price}) is {percent}% above average",
+    "mandi.hold": "Current price (₹{price}) is below average. Wait for better rates",
+    "mandi.monitor": "Price is near average. Monitor for trend changes",
+    "mandi.verify": "No stored mandi observations for this commodity and location; figures are simulated. Check live rates before selling",
+    "mandi.no_forecast": "Not enough price history to fit a forecast (need at least 3 days)",
+    "mandi.best_market": "Best net realisation: {market} ({distance} km), about ₹{net} for {quantity} quintals after ₹{transport}/quintal transport",
+    "mandi.no_origin": "Pass district or latitude/longitude to rank markets by distance and transport cost",
+    "mandi.distance_only": "No observed prices for these mandis: they carry the simulated price and are ordered by distance only, not compared on price",
+    "anomaly.own_above": "{price} is {percent}% above {market}'s {days}-day median of {median} (robust z {z})",
+    "anomaly.own_below": "{price} is {percent}% below {market}'s {days}-day median of {median} (robust z {z})",
+    "anomaly.peer_above": "{price} is {percent}% above the median of {count} other {place} mandis that day ({median}, robust z {z})",
+    "anomaly.peer_below": "{price} is {percent}% below the median of {count} other {place} mandis that day ({median}, robust z {z})",
+    "anomaly.inconsistent": "Reported min/modal/max of {min}/{modal}/{max} are not in order",
+    "alert.all_markets": "all markets",
+    "alert.subject": "{commodity} ({where}) at ₹{price}/quintal on {date}",
+    "alert.change": "{subject} moved {percent}% since {date} (₹{reference}), beyond the {threshold}% alert",
+    "alert.above": "{subject} is above the ₹{threshold} alert",
+    "alert.below": "{subject} is below the ₹{threshold} alert",
+    "pest.no_match": "No known problem of this crop matches the reported symptoms well enough to name a cause",
+    "pest.check_symptoms": "Check the plants for the symptoms listed under check_for and run the diagnosis again",
+    "pest.take_photos": "Take clear photos of affected leaves, stems and fruit, and of the whole plant",
+    "pest.consult": "Consult the local Krishi Vigyan Kendra or agricultural extension officer before spraying",
+    "pest.monitoring": "Regular field monitoring",
+    "pest.rotation": "Crop rotation practices",
+    "pest.hygiene": "Maintain field hygiene",
+    "pest.resistant_varieties": "Use resistant varieties when available",
+    "pest.ipm": "Integrated Pest Management (IPM)",
+    "pest.season_assumed": "Season taken as {season} from today's date; pass season if the crop was sown in another season",
+    "pest.no_location": "No location given; diagnosis ignores weather",
+    "pest.weather_unavailable": "Weather for {location} unavailable ({reason}); diagnosis ignores weather",
+    "pest.label_language": "Product names, doses and knowledge base details are in English, as printed on product labels",
+    "pest.footnote": "Probabilities are relative to the problems in the knowledge base for this crop; follow the product label for dose and pre-harvest interval",
+    "season.kharif": "kharif",
+    "season.rabi": "rabi",
+    "season.zaid": "zaid"
+};
+
+export type MessageKey = keyof typeof en;
+type Catalog = Partial<Record<MessageKey, string>>;
+
+const hi: Catalog = {
+    "soil.insufficient_data": "मिट्टी की सेहत आंकने के लिए पर्याप्त जांच आंकड़े नहीं हैं: pH, नाइट्रोजन, फॉस्फोरस, पोटाश और जैविक कार्बन में से कम से कम 3 चाहिए (उपलब्ध नहीं: {missing})",
+    "soil.get_tested": "नजदीकी मृदा परीक्षण प्रयोगशाला या कृषि विज्ञान केंद्र से मृदा स्वास्थ्य कार्ड जांच कराएं",
+    "soil.apply_lime": "मिट्टी का pH बढ़ाने के लिए चूना डालें",
+    "soil.reduce_ph": "मिट्टी का pH घटाने के लिए जैविक खाद डालें",
+    "soil.nitrogen": "नाइट्रोजन युक्त उर्वरक या कम्पोस्ट डालें",
+    "soil.phosphorus": "फॉस्फोरस उर्वरक (DAP/SSP) डालें",
+    "soil.potassium": "पोटाश उर्वरक (MOP) डालें",
+    "soil.organic": "कम्पोस्ट और फसल अवशेषों से मिट्टी में जैविक पदार्थ बढ़ाएं",
+    "soil.zinc": "25 किग्रा/हेक्टेयर जिंक सल्फेट (हेप्टाहाइड्रेट) डालें, या खड़ी फसल पर 0.5% का पर्णीय छिड़काव करें",
+    "soil.iron": "पत्तियों पर 0.5-1% फेरस सल्फेट का छिड़काव करें; मिट्टी में डाला गया लोहा अधिकतर स्थिर हो जाता है",
+    "soil.sulphur": "जिप्सम, SSP या बेंटोनाइट सल्फर से 20-40 किग्रा/हेक्टेयर गंधक डालें",
+    "soil.boron": "10 किग्रा/हेक्टेयर बोरेक्स डालें, या फूल आने पर 0.2% बोरेक्स का छिड़काव करें",
+    "soil.saline": "लवणीय मिट्टी: अच्छे सिंचाई जल से लवण धोएं, जल निकास सुधारें और लवण सहनशील फसलें उगाएं",
+    "soil.slightly_saline": "हल्की लवणीय मिट्टी: लवण-संवेदनशील फसलों से बचें और कम मात्रा में बार-बार सिंचाई करें",
+    "soil.not_assessed": "जांच नहीं हुई (मान नहीं दिए गए): {parameters}",
+    "soil.score_basis": "{count} मापे गए मापदंडों पर अंक, उनके लिए उपलब्ध अंकों के प्रतिशत के रूप में",
+    "parameter.nitrogen": "नाइट्रोजन",
+    "parameter.phosphorus": "फॉस्फोरस",
+    "parameter.potassium": "पोटाश",
+    "parameter.organic_content": "जैविक कार्बन",
+    "parameter.zinc": "जिंक",
+    "parameter.iron": "लोहा",
+    "parameter.sulphur": "गंधक",
+    "parameter.boron": "बोरॉन",
+    "parameter.ec": "EC (लवणता)",
+    "weather.heavy_rain": "भारी बारिश की संभावना। आज सिंचाई न करें।",
+    "weather.pest_risk": "अधिक नमी और तापमान। कीटों पर नज़र रखें।",
+    "weather.heat_stress": "बारिश के बिना अधिक तापमान। पर्याप्त सिंचाई सुनिश्चित करें।",
+    "weather.wind": "तेज़ हवा की संभावना। ऊंची फसलों और ढांचों को सुरक्षित करें।",
+    "weather.irrigate_reason": "कम बारिश ({rainfall} मिमी) और अधिक तापमान ({temperature}°C)",
+    "weather.skip_reason": "पर्याप्त बारिश की संभावना ({rainfall} मिमी)",
+    "soil_test.npk_ppm": "N, P और K को ppm से किग्रा/हेक्टेयर में बदला गया (x2.24, 15 सेमी जुताई परत)",
+    "soil_test.micronutrients_kg_ha": "सूक्ष्म पोषक तत्वों को किग्रा/हेक्टेयर से ppm में बदला गया (/2.24)",
+    "soil_test.organic_matter": "जैविक पदार्थ को जैविक कार्बन में बदला गया (/1.724)",
+    "soil_test.organic_g_kg": "जैविक मात्रा को ग्राम/किग्रा से % में बदला गया",
+    "soil_test.ec_us_cm": "EC को µS/cm से dS/m में बदला गया",
+    "soil_test.implausible": "{parameter} का मान {value} {unit} संभव सीमा {min}-{max} {unit} से बाहर है; मान और उसकी इकाई जांचें। इसे विश्लेषण में शामिल नहीं किया गया।",
+    "fertilizer.typical_target": "लक्षित उपज नहीं दी गई; सामान्य {yield} क्विंटल/हेक्टेयर के लिए योजना बनाई गई",
+    "fertilizer.target_out_of_range": "{yield} क्विंटल/हेक्टेयर का लक्ष्य उस {min}-{max} क्विंटल/हेक्टेयर दायरे से बाहर है जिस पर समीकरण बनाए गए थे; मात्राओं को अनुमानित मानें",
+    "fertilizer.no_soil_test": "{nutrient} का मृदा जांच मान नहीं है; {dose} किग्रा/हेक्टेयर की सामान्य सिफारिश ली गई",
+    "fertilizer.dose_capped": "{nutrient} की मात्रा सामान्य सिफारिश के {factor} गुना पर सीमित की गई; मृदा जांच मान दोबारा जांचें",
+    "fertilizer.starter_dose": "{nutrient} को {dose} किग्रा/हेक्टेयर की शुरुआती मात्रा पर रखा गया",
+    "fertilizer.sufficient": "लक्षित उपज के लिए मिट्टी में {nutrient} पर्याप्त है; इस मौसम में {nutrient} उर्वरक की जरूरत नहीं",
+    "fertilizer.acidic": "अम्लीय मिट्टी: चूना आवश्यकता जांच के अनुसार कृषि चूना डालें; फॉस्फेट स्थिरीकरण से P की दक्षता घटती है",
+    "fertilizer.alkaline": "क्षारीय/सोडिक मिट्टी: जिप्सम आवश्यकता जांच के अनुसार जिप्सम डालें; यूरिया की जगह SSP या अमोनियम सल्फेट को प्राथमिकता दें",
+    "fertilizer.low_organic": "जैविक कार्बन कम: 5-10 टन/हेक्टेयर गोबर की खाद या कम्पोस्ट डालें और उसके पोषक तत्वों को गिनने के लिए fym_tonnes_per_ha दें",
+    "fertilizer.dap_sulphur": "DAP से गंधक नहीं मिलता; तिलहन और दलहन के लिए 20-40 किग्रा/हेक्टेयर गंधक (जैसे जिप्सम या बेंटोनाइट-S) डालें",
+    "irrigation.soil_unknown": "मिट्टी का प्रकार '{soil}' पहचाना नहीं गया; प्रति मीटर {water} मिमी उपलब्ध जल वाली मध्यम मिट्टी मानी गई",
+    "irrigation.soil_not_given": "मिट्टी का प्रकार नहीं दिया गया; प्रति मीटर {water} मिमी उपलब्ध जल वाली मध्यम मिट्टी मानी गई",
+    "irrigation.default_latitude": "स्थान के निर्देशांक नहीं मिले; विकिरण {latitude}°N के लिए गणना किया गया (सटीकता के लिए latitude दें)",
+    "irrigation.default_elevation": "ऊंचाई अज्ञात; वायुदाब {elevation} मीटर के लिए गणना किया गया",
+    "irrigation.no_sowing_date": "बुवाई की तारीख नहीं दी गई; फसल को {stage} अवस्था के मध्य में माना गया",
+    "irrigation.irrigate": "{dates} को {method} से लगभग {gross} मिमी सकल ({net} मिमी शुद्ध) सिंचाई करें",
+    "irrigation.not_needed": "अगले {days} दिनों में सिंचाई की जरूरत नहीं; जड़ क्षेत्र में नमी की कमी {water} मिमी से नीचे रहेगी",
+    "irrigation.puddled_rice": "रोपाई वाले धान में इसकी जगह 2-5 सेमी पानी खड़ा रखें; पौध जमने के बाद बारी-बारी से भिगोने और सुखाने से पानी बचता है",
+    "irrigation.forecast_rain": "पूर्वानुमानित बारिश से जड़ क्षेत्र को लगभग {rain} मिमी पानी मिलना चाहिए; सिंचाई से पहले दोबारा जांचें",
+    "irrigation_method.flood": "क्यारी (बहाव) सिंचाई",
+    "irrigation_method.furrow": "नाली सिंचाई",
+    "irrigation_method.sprinkler": "फव्वारा सिंचाई",
+    "irrigation_method.drip": "टपक सिंचाई",
+    "water_stage.initial": "प्रारंभिक",
+    "water_stage.development": "बढ़वार",
+    "water_stage.mid": "मध्य",
+    "water_stage.late": "अंतिम",
+    "crop_stage.moisture_sensitive": "{stage} अवस्था नमी के प्रति संवेदनशील है और केवल {rain} मिमी बारिश का पूर्वानुमान है; पानी की योजना के लिए irrigation-planner चलाएं",
+    "crop_stage.critical_next": "{stage} (सिंचाई के लिए महत्वपूर्ण) लगभग {date} को अपेक्षित",
+    "crop_stage.missing_days": "बुवाई के बाद {days} दिनों का तापमान आंकड़ा नहीं मिला; संचित GDD वास्तविक से कम है",
+    "crop_stage.projection": "पूर्वानुमान के बाद की अवस्थाएं हाल के औसत {rate} GDD/दिन से अनुमानित हैं",
+    "mandi.sell": "मौजूदा भाव (₹{price}) औसत से {percent}% ऊपर है",
+    "mandi.hold": "मौजूदा भाव (₹{price}) औसत से कम है। बेहतर भाव का इंतज़ार करें",
+    "mandi.monitor": "भाव औसत के आसपास है। रुझान में बदलाव पर नज़र रखें",
+    "mandi.verify": "इस फसल और स्थान के लिए मंडी के दर्ज भाव उपलब्ध नहीं हैं; आंकड़े अनुमानित हैं। बेचने से पहले ताज़ा भाव जांचें",
+    "mandi.no_forecast": "पूर्वानुमान के लिए भाव का इतिहास पर्याप्त नहीं है (कम से कम 3 दिन चाहिए)",
+    "mandi.best_market": "सबसे अच्छी शुद्ध कमाई: {market} ({distance} किमी), {quantity} क्विंटल पर ₹{transport}/क्विंटल ढुलाई के बाद लगभग ₹{net}",
+    "mandi.no_origin": "दूरी और ढुलाई खर्च के हिसाब से मंडियां छांटने के लिए ज़िला या अक्षांश/देशांतर दें",
+    "mandi.distance_only": "इन मंडियों के दर्ज भाव नहीं हैं: इन पर अनुमानित भाव है और ये केवल दूरी के क्रम में हैं, भाव की तुलना नहीं",
+    "anomaly.own_above": "{price} {market} के {days} दिन के माध्य भाव {median} से {percent}% ऊपर है (robust z {z})",
+    "anomaly.own_below": "{price} {market} के {days} दिन के माध्य भाव {median} से {percent}% नीचे है (robust z {z})",
+    "anomaly.peer_above": "{price} उसी दिन {place} की {count} अन्य मंडियों के माध्य भाव से {percent}% ऊपर है ({median}, robust z {z})",
+    "anomaly.peer_below": "{price} उसी दिन {place} की {count} अन्य मंडियों के माध्य भाव से {percent}% नीचे है ({median}, robust z {z})",
+    "anomaly.inconsistent": "दर्ज न्यूनतम/मॉडल/अधिकतम भाव {min}/{modal}/{max} क्रम में नहीं हैं",
+    "alert.all_markets": "सभी मंडियां",
+    "alert.subject": "{date} को {commodity} ({where}) ₹{price}/क्विंटल",
+    "alert.change": "{subject}, {date} (₹{reference}) के बाद से {percent}% बदला, {threshold}% अलर्ट सीमा से अधिक",
+    "alert.above": "{subject}, ₹{threshold} अलर्ट सीमा से ऊपर है",
+    "alert.below": "{subject}, ₹{threshold} अलर्ट सीमा से नीचे है",
+    "pest.no_match": "बताए गए लक्षण इस फसल की किसी ज्ञात समस्या से इतने मेल नहीं खाते कि कारण बताया जा सके",
+    "pest.check_symptoms": "check_for में दिए लक्षणों के लिए पौधों की जांच करें और फिर से निदान चलाएं",
+    "pest.take_photos": "प्रभावित पत्तियों, तनों, फलों और पूरे पौधे की साफ़ तस्वीरें लें",
+    "pest.consult": "छिड़काव से पहले नजदीकी कृषि विज्ञान केंद्र या कृषि विस्तार अधिकारी से सलाह लें",
+    "pest.monitoring": "खेत की नियमित निगरानी करें",
+    "pest.rotation": "फसल चक्र अपनाएं",
+    "pest.hygiene": "खेत की साफ़-सफ़ाई रखें",
+    "pest.resistant_varieties": "उपलब्ध हो तो रोग-रोधी किस्में लगाएं",
+    "pest.ipm": "समेकित कीट प्रबंधन (IPM)",
+    "pest.season_assumed": "आज की तारीख से मौसम {season} माना गया; अगर फसल दूसरे मौसम में बोई गई हो तो season दें",
+    "pest.no_location": "स्थान नहीं दिया गया; निदान में मौसम शामिल नहीं है",
+    "pest.weather_unavailable": "{location} का मौसम उपलब्ध नहीं ({reason}); निदान में मौसम शामिल नहीं है",
+    "pest.label_language": "उत्पादों के नाम, खुराक और ज्ञानकोष के विवरण अंग्रेज़ी में हैं, जैसे उत्पाद के लेबल पर छपे होते हैं",
+    "pest.footnote": "संभावनाएं इस फसल की ज्ञात समस्याओं के सापेक्ष हैं; खुराक और कटाई-पूर्व अंतराल के लिए उत्पाद लेबल का पालन करें",
+    "season.kharif": "खरीफ",
+    "season.rabi": "रबी",
+    "season.zaid": "ज़ायद"
+};
+
+const pa: Catalog = {
+    "soil.insufficient_data": "ਮਿੱਟੀ ਦੀ ਸਿਹਤ ਪਰਖਣ ਲਈ ਲੋੜੀਂਦੇ ਜਾਂਚ ਅੰਕੜੇ ਨਹੀਂ ਹਨ: pH, ਨਾਈਟ੍ਰੋਜਨ, ਫਾਸਫੋਰਸ, ਪੋਟਾਸ਼ ਅਤੇ ਜੈਵਿਕ ਕਾਰਬਨ ਵਿੱਚੋਂ ਘੱਟੋ-ਘੱਟ 3 ਚਾਹੀਦੇ ਹਨ (ਨਹੀਂ ਮਿਲੇ: {missing})",
+    "soil.get_tested": "ਨੇੜਲੀ ਮਿੱਟੀ ਪਰਖ ਪ੍ਰਯੋਗਸ਼ਾਲਾ ਜਾਂ ਕ੍ਰਿਸ਼ੀ ਵਿਗਿਆਨ ਕੇਂਦਰ ਤੋਂ ਸੋਇਲ ਹੈਲਥ ਕਾਰਡ ਜਾਂਚ ਕਰਵਾਓ",
+    "soil.apply_lime": "ਮਿੱਟੀ ਦਾ pH ਵਧਾਉਣ ਲਈ ਚੂਨਾ ਪਾਓ",
+    "soil.reduce_ph": "ਮਿੱਟੀ ਦਾ pH ਘਟਾਉਣ ਲਈ ਜੈਵਿਕ ਖਾਦ ਪਾਓ",
+    "soil.nitrogen": "ਨਾਈਟ੍ਰੋਜਨ ਵਾਲੀਆਂ ਖਾਦਾਂ ਜਾਂ ਕੰਪੋਸਟ ਪਾਓ",
+    "soil.phosphorus": "ਫਾਸਫੋਰਸ ਖਾਦ (DAP/SSP) ਪਾਓ",
+    "soil.potassium": "ਪੋਟਾਸ਼ ਖਾਦ (MOP) ਪਾਓ",
+    "soil.organic": "ਕੰਪੋਸਟ ਅਤੇ ਫ਼ਸਲੀ ਰਹਿੰਦ-ਖੂੰਹਦ ਨਾਲ ਮਿੱਟੀ ਵਿੱਚ ਜੈਵਿਕ ਮਾਦਾ ਵਧਾਓ",
+    "soil.zinc": "25 ਕਿਲੋ/ਹੈਕਟੇਅਰ ਜ਼ਿੰਕ ਸਲਫੇਟ (ਹੈਪਟਾਹਾਈਡ੍ਰੇਟ) ਪਾਓ, ਜਾਂ ਖੜ੍ਹੀ ਫ਼ਸਲ 'ਤੇ 0.5% ਦਾ ਛਿੜਕਾਅ ਕਰੋ",
+    "soil.iron": "ਪੱਤਿਆਂ 'ਤੇ 0.5-1% ਫੈਰਸ ਸਲਫੇਟ ਦਾ ਛਿੜਕਾਅ ਕਰੋ; ਮਿੱਟੀ ਵਿੱਚ ਪਾਇਆ ਲੋਹਾ ਜ਼ਿਆਦਾਤਰ ਬੂਟੇ ਨੂੰ ਨਹੀਂ ਮਿਲਦਾ",
+    "soil.sulphur": "ਜਿਪਸਮ, SSP ਜਾਂ ਬੈਂਟੋਨਾਈਟ ਸਲਫਰ ਰਾਹੀਂ 20-40 ਕਿਲੋ/ਹੈਕਟੇਅਰ ਗੰਧਕ ਪਾਓ",
+    "soil.boron": "10 ਕਿਲੋ/ਹੈਕਟੇਅਰ ਬੋਰੈਕਸ ਪਾਓ, ਜਾਂ ਫੁੱਲ ਆਉਣ 'ਤੇ 0.2% ਬੋਰੈਕਸ ਦਾ ਛਿੜਕਾਅ ਕਰੋ",
+    "soil.saline": "ਲੂਣੀ ਮਿੱਟੀ: ਚੰਗੇ ਸਿੰਚਾਈ ਪਾਣੀ ਨਾਲ ਲੂਣ ਧੋਵੋ, ਪਾਣੀ ਦਾ ਨਿਕਾਸ ਸੁਧਾਰੋ ਅਤੇ ਲੂਣ-ਸਹਿਣਸ਼ੀਲ ਫ਼ਸਲਾਂ ਬੀਜੋ",
+    "soil.slightly_saline": "ਥੋੜ੍ਹੀ ਲੂਣੀ ਮਿੱਟੀ: ਲੂਣ-ਸੰਵੇਦਨਸ਼ੀਲ ਫ਼ਸਲਾਂ ਤੋਂ ਬਚੋ ਅਤੇ ਥੋੜ੍ਹੇ ਪਾਣੀ ਨਾਲ ਵਾਰ-ਵਾਰ ਸਿੰਚਾਈ ਕਰੋ",
+    "soil.not_assessed": "ਜਾਂਚ ਨਹੀਂ ਹੋਈ (ਮੁੱਲ ਨਹੀਂ ਦਿੱਤੇ): {parameters}",
+    "soil.score_basis": "{count} ਮਾਪੇ ਗਏ ਮਾਪਦੰਡਾਂ 'ਤੇ ਅੰਕ, ਉਨ੍ਹਾਂ ਲਈ ਉਪਲਬਧ ਅੰਕਾਂ ਦੇ ਪ੍ਰਤੀਸ਼ਤ ਵਜੋਂ",
+    "parameter.nitrogen": "ਨਾਈਟ੍ਰੋਜਨ",
+    "parameter.phosphorus": "ਫਾਸਫੋਰਸ",
+    "parameter.potassium": "ਪੋਟਾਸ਼",
+    "parameter.organic_content": "ਜੈਵਿਕ ਕਾਰਬਨ",
+    "parameter.zinc": "ਜ਼ਿੰਕ",
+    "parameter.iron": "ਲੋਹਾ",
+    "parameter.sulphur": "ਗੰਧਕ",
+    "parameter.boron": "ਬੋਰੌਨ",
+    "parameter.ec": "EC (ਲੂਣਾਪਣ)",
+    "weather.heavy_rain": "ਭਾਰੀ ਮੀਂਹ ਦੀ ਸੰਭਾਵਨਾ। ਅੱਜ ਸਿੰਚਾਈ ਨਾ ਕਰੋ।",
+    "weather.pest_risk": "ਜ਼ਿਆਦਾ ਨਮੀ ਅਤੇ ਤਾਪਮਾਨ। ਕੀੜਿਆਂ 'ਤੇ ਨਜ਼ਰ ਰੱਖੋ।",
+    "weather.heat_stress": "ਮੀਂਹ ਤੋਂ ਬਿਨਾਂ ਜ਼ਿਆਦਾ ਤਾਪਮਾਨ। ਲੋੜੀਂਦੀ ਸਿੰਚਾਈ ਯਕੀਨੀ ਬਣਾਓ।",
+    "weather.wind": "ਤੇਜ਼ ਹਵਾ ਦੀ ਸੰਭਾਵਨਾ। ਉੱਚੀਆਂ ਫ਼ਸਲਾਂ ਅਤੇ ਢਾਂਚਿਆਂ ਨੂੰ ਸੁਰੱਖਿਅਤ ਕਰੋ।",
+    "weather.irrigate_reason": "ਘੱਟ ਮੀਂਹ ({rainfall} ਮਿ.ਮੀ.) ਅਤੇ ਜ਼ਿਆਦਾ ਤਾਪਮਾਨ ({temperature}°C)",
+    "weather.skip_reason": "ਲੋੜੀਂਦੇ ਮੀਂਹ ਦੀ ਸੰਭਾਵਨਾ ({rainfall} ਮਿ.ਮੀ.)",
+    "soil_test.npk_ppm": "N, P ਅਤੇ K ਨੂੰ ppm ਤੋਂ ਕਿਲੋ/ਹੈਕਟੇਅਰ ਵਿੱਚ ਬਦਲਿਆ ਗਿਆ (x2.24, 15 ਸੈਂਟੀਮੀਟਰ ਵਾਹੀ ਪਰਤ)",
+    "soil_test.micronutrients_kg_ha": "ਸੂਖਮ ਤੱਤਾਂ ਨੂੰ ਕਿਲੋ/ਹੈਕਟੇਅਰ ਤੋਂ ppm ਵਿੱਚ ਬਦਲਿਆ ਗਿਆ (/2.24)",
+    "soil_test.organic_matter": "ਜੈਵਿਕ ਮਾਦੇ ਨੂੰ ਜੈਵਿਕ ਕਾਰਬਨ ਵਿੱਚ ਬਦਲਿਆ ਗਿਆ (/1.724)",
+    "soil_test.organic_g_kg": "ਜੈਵਿਕ ਮਾਤਰਾ ਨੂੰ ਗ੍ਰਾਮ/ਕਿਲੋ ਤੋਂ % ਵਿੱਚ ਬਦਲਿਆ ਗਿਆ",
+    "soil_test.ec_us_cm": "EC ਨੂੰ µS/cm ਤੋਂ dS/m ਵਿੱਚ ਬਦਲਿਆ ਗਿਆ",
+    "soil_test.implausible": "{parameter} ਦਾ ਮੁੱਲ {value} {unit} ਸੰਭਵ ਹੱਦ {min}-{max} {unit} ਤੋਂ ਬਾਹਰ ਹੈ; ਮੁੱਲ ਅਤੇ ਉਸ ਦੀ ਇਕਾਈ ਜਾਂਚੋ। ਇਸ ਨੂੰ ਵਿਸ਼ਲੇਸ਼ਣ ਵਿੱਚ ਸ਼ਾਮਲ ਨਹੀਂ ਕੀਤਾ ਗਿਆ।",
+    "fertilizer.typical_target": "ਟੀਚਾ ਝਾੜ ਨਹੀਂ ਦਿੱਤਾ; ਆਮ {yield} ਕੁਇੰਟਲ/ਹੈਕਟੇਅਰ ਲਈ ਯੋਜਨਾ ਬਣਾਈ ਗਈ",
+    "fertilizer.target_out_of_range": "{yield} ਕੁਇੰਟਲ/ਹੈਕਟੇਅਰ ਦਾ ਟੀਚਾ ਉਸ {min}-{max} ਕੁਇੰਟਲ/ਹੈਕਟੇਅਰ ਦਾਇਰੇ ਤੋਂ ਬਾਹਰ ਹੈ ਜਿਸ 'ਤੇ ਸਮੀਕਰਨ ਬਣਾਏ ਗਏ ਸਨ; ਮਾਤਰਾਵਾਂ ਨੂੰ ਅੰਦਾਜ਼ਨ ਮੰਨੋ",
+    "fertilizer.no_soil_test": "{nutrient} ਦਾ ਮਿੱਟੀ ਪਰਖ ਮੁੱਲ ਨਹੀਂ ਹੈ; {dose} ਕਿਲੋ/ਹੈਕਟੇਅਰ ਦੀ ਆਮ ਸਿਫ਼ਾਰਸ਼ ਲਈ ਗਈ",
+    "fertilizer.dose_capped": "{nutrient} ਦੀ ਮਾਤਰਾ ਆਮ ਸਿਫ਼ਾਰਸ਼ ਦੇ {factor} ਗੁਣਾ 'ਤੇ ਸੀਮਤ ਕੀਤੀ ਗਈ; ਮਿੱਟੀ ਪਰਖ ਮੁੱਲ ਦੁਬਾਰਾ ਜਾਂਚੋ",
+    "fertilizer.starter_dose": "{nutrient} ਨੂੰ {dose} ਕਿਲੋ/ਹੈਕਟੇਅਰ ਦੀ ਸ਼ੁਰੂਆਤੀ ਮਾਤਰਾ 'ਤੇ ਰੱਖਿਆ ਗਿਆ",
+    "fertilizer.sufficient": "ਟੀਚਾ ਝਾੜ ਲਈ ਮਿੱਟੀ ਵਿੱਚ {nutrient} ਕਾਫ਼ੀ ਹੈ; ਇਸ ਮੌਸਮ ਵਿੱਚ {nutrient} ਖਾਦ ਦੀ ਲੋੜ ਨਹੀਂ",
+    "fertilizer.acidic": "ਤੇਜ਼ਾਬੀ ਮਿੱਟੀ: ਚੂਨੇ ਦੀ ਲੋੜ ਦੀ ਪਰਖ ਅਨੁਸਾਰ ਖੇਤੀ ਚੂਨਾ ਪਾਓ; ਫਾਸਫੇਟ ਜਕੜੇ ਜਾਣ ਕਾਰਨ P ਦਾ ਅਸਰ ਘਟਦਾ ਹੈ",
+    "fertilizer.alkaline": "ਖਾਰੀ/ਕੱਲਰੀ ਮਿੱਟੀ: ਜਿਪਸਮ ਦੀ ਲੋੜ ਦੀ ਪਰਖ ਅਨੁਸਾਰ ਜਿਪਸਮ ਪਾਓ; ਯੂਰੀਆ ਦੀ ਥਾਂ SSP ਜਾਂ ਅਮੋਨੀਅਮ ਸਲਫੇਟ ਨੂੰ ਤਰਜੀਹ ਦਿਓ",
+    "fertilizer.low_organic": "ਜੈਵਿਕ ਕਾਰਬਨ ਘੱਟ: 5-10 ਟਨ/ਹੈਕਟੇਅਰ ਰੂੜੀ ਦੀ ਖਾਦ ਜਾਂ ਕੰਪੋਸਟ ਪਾਓ ਅਤੇ ਉਸ ਦੇ ਤੱਤ ਗਿਣਨ ਲਈ fym_tonnes_per_ha ਦਿਓ",
+    "fertilizer.dap_sulphur": "DAP ਤੋਂ ਗੰਧਕ ਨਹੀਂ ਮਿਲਦੀ; ਤੇਲ ਬੀਜਾਂ ਅਤੇ ਦਾਲਾਂ ਲਈ 20-40 ਕਿਲੋ/ਹੈਕਟੇਅਰ ਗੰਧਕ (ਜਿਵੇਂ ਜਿਪਸਮ ਜਾਂ ਬੈਂਟੋਨਾਈਟ-S) ਪਾਓ",
+    "irrigation.soil_unknown": "ਮਿੱਟੀ ਦੀ ਕਿਸਮ '{soil}' ਪਛਾਣੀ ਨਹੀਂ ਗਈ; ਪ੍ਰਤੀ ਮੀਟਰ {water} ਮਿ.ਮੀ. ਉਪਲਬਧ ਪਾਣੀ ਵਾਲੀ ਦਰਮਿਆਨੀ ਮਿੱਟੀ ਮੰਨੀ ਗਈ",
+    "irrigation.soil_not_given": "ਮਿੱਟੀ ਦੀ ਕਿਸਮ ਨਹੀਂ ਦਿੱਤੀ; ਪ੍ਰਤੀ ਮੀਟਰ {water} ਮਿ.ਮੀ. ਉਪਲਬਧ ਪਾਣੀ ਵਾਲੀ ਦਰਮਿਆਨੀ ਮਿੱਟੀ ਮੰਨੀ ਗਈ",
+    "irrigation.default_latitude": "ਥਾਂ ਦੇ ਨਿਰਦੇਸ਼ਾਂਕ ਨਹੀਂ ਮਿਲੇ; ਰੇਡੀਏਸ਼ਨ {latitude}°N ਲਈ ਗਿਣੀ ਗਈ (ਵਧੇਰੇ ਸਹੀ ਨਤੀਜੇ ਲਈ latitude ਦਿਓ)",
+    "irrigation.default_elevation": "ਉਚਾਈ ਪਤਾ ਨਹੀਂ; ਹਵਾ ਦਾ ਦਬਾਅ {elevation} ਮੀਟਰ ਲਈ ਗਿਣਿਆ ਗਿਆ",
+    "irrigation.no_sowing_date": "ਬਿਜਾਈ ਦੀ ਤਾਰੀਖ ਨਹੀਂ ਦਿੱਤੀ; ਫ਼ਸਲ ਨੂੰ {stage} ਪੜਾਅ ਦੇ ਵਿਚਕਾਰ ਮੰਨਿਆ ਗਿਆ",
+    "irrigation.irrigate": "{dates} ਨੂੰ {method} ਨਾਲ ਲਗਭਗ {gross} ਮਿ.ਮੀ. ਕੁੱਲ ({net} ਮਿ.ਮੀ. ਸ਼ੁੱਧ) ਸਿੰਚਾਈ ਕਰੋ",
+    "irrigation.not_needed": "ਅਗਲੇ {days} ਦਿਨਾਂ ਵਿੱਚ ਸਿੰਚਾਈ ਦੀ ਲੋੜ ਨਹੀਂ; ਜੜ੍ਹ ਖੇਤਰ ਵਿੱਚ ਨਮੀ ਦੀ ਘਾਟ {water} ਮਿ.ਮੀ. ਤੋਂ ਹੇਠਾਂ ਰਹੇਗੀ",
+    "irrigation.puddled_rice": "ਕੱਦੂ ਕੀਤੇ ਝੋਨੇ ਵਿੱਚ ਇਸ ਦੀ ਥਾਂ 2-5 ਸੈਂਟੀਮੀਟਰ ਪਾਣੀ ਖੜ੍ਹਾ ਰੱਖੋ; ਬੂਟੇ ਜੰਮਣ ਤੋਂ ਬਾਅਦ ਵਾਰੀ-ਵਾਰੀ ਗਿੱਲਾ ਅਤੇ ਸੁੱਕਾ ਕਰਨ ਨਾਲ ਪਾਣੀ ਬਚਦਾ ਹੈ",
+    "irrigation.forecast_rain": "ਅਨੁਮਾਨਿਤ ਮੀਂਹ ਨਾਲ ਜੜ੍ਹ ਖੇਤਰ ਨੂੰ ਲਗਭਗ {rain} ਮਿ.ਮੀ. ਪਾਣੀ ਮਿਲਣਾ ਚਾਹੀਦਾ ਹੈ; ਸਿੰਚਾਈ ਤੋਂ ਪਹਿਲਾਂ ਦੁਬਾਰਾ ਜਾਂਚੋ",
+    "irrigation_method.flood": "ਕਿਆਰੀਆਂ ਵਿੱਚ ਖੁੱਲ੍ਹੀ ਸਿੰਚਾਈ",
+    "irrigation_method.furrow": "ਖਾਲੀਆਂ ਰਾਹੀਂ ਸਿੰਚਾਈ",
+    "irrigation_method.sprinkler": "ਫੁਹਾਰਾ ਸਿੰਚਾਈ",
+    "irrigation_method.drip": "ਤੁਪਕਾ ਸਿੰਚਾਈ",
+    "water_stage.initial": "ਸ਼ੁਰੂਆਤੀ",
+    "water_stage.development": "ਵਾਧੇ ਵਾਲੇ",
+    "water_stage.mid": "ਵਿਚਕਾਰਲੇ",
+    "water_stage.late": "ਆਖਰੀ",
+    "crop_stage.moisture_sensitive": "{stage} ਪੜਾਅ ਨਮੀ ਲਈ ਸੰਵੇਦਨਸ਼ੀਲ ਹੈ ਅਤੇ ਸਿਰਫ਼ {rain} ਮਿ.ਮੀ. ਮੀਂਹ ਦਾ ਅਨੁਮਾਨ ਹੈ; ਪਾਣੀ ਦੀ ਯੋਜਨਾ ਲਈ irrigation-planner ਚਲਾਓ",
+    "crop_stage.critical_next": "{stage} (ਸਿੰਚਾਈ ਲਈ ਅਹਿਮ) ਲਗਭਗ {date} ਨੂੰ ਆਉਣ ਦੀ ਉਮੀਦ",
+    "crop_stage.missing_days": "ਬਿਜਾਈ ਤੋਂ ਬਾਅਦ {days} ਦਿਨਾਂ ਦਾ ਤਾਪਮਾਨ ਅੰਕੜਾ ਨਹੀਂ ਮਿਲਿਆ; ਇਕੱਠੇ GDD ਅਸਲ ਤੋਂ ਘੱਟ ਹਨ",
+    "crop_stage.projection": "ਅਨੁਮਾਨ ਤੋਂ ਅੱਗੇ ਦੇ ਪੜਾਅ ਹਾਲੀਆ ਔਸਤ {rate} GDD/ਦਿਨ ਨਾਲ ਅੰਦਾਜ਼ੇ ਗਏ ਹਨ",
+    "mandi.sell": "ਮੌਜੂਦਾ ਭਾਅ (₹{price}) ਔਸਤ ਤੋਂ {percent}% ਵੱਧ ਹੈ",
+    "mandi.hold": "ਮੌਜੂਦਾ ਭਾਅ (₹{price}) ਔਸਤ ਤੋਂ ਘੱਟ ਹੈ। ਚੰਗੇ ਭਾਅ ਦੀ ਉਡੀਕ ਕਰੋ",
+    "mandi.monitor": "ਭਾਅ ਔਸਤ ਦੇ ਨੇੜੇ ਹੈ। ਰੁਝਾਨ ਵਿੱਚ ਬਦਲਾਅ 'ਤੇ ਨਜ਼ਰ ਰੱਖੋ",
+    "mandi.verify": "ਇਸ ਜਿਣਸ ਅਤੇ ਥਾਂ ਲਈ ਮੰਡੀ ਦੇ ਦਰਜ ਭਾਅ ਨਹੀਂ ਹਨ; ਅੰਕੜੇ ਅਨੁਮਾਨਿਤ ਹਨ। ਵੇਚਣ ਤੋਂ ਪਹਿਲਾਂ ਤਾਜ਼ਾ ਭਾਅ ਜਾਂਚੋ",
+    "mandi.no_forecast": "ਅਨੁਮਾਨ ਲਈ ਭਾਅ ਦਾ ਇਤਿਹਾਸ ਕਾਫ਼ੀ ਨਹੀਂ ਹੈ (ਘੱਟੋ-ਘੱਟ 3 ਦਿਨ ਚਾਹੀਦੇ ਹਨ)",
+    "mandi.best_market": "ਸਭ ਤੋਂ ਵਧੀਆ ਸ਼ੁੱਧ ਕਮਾਈ: {market} ({distance} ਕਿਮੀ), {quantity} ਕੁਇੰਟਲ 'ਤੇ ₹{transport}/ਕੁਇੰਟਲ ਢੋਆ-ਢੁਆਈ ਤੋਂ ਬਾਅਦ ਲਗਭਗ ₹{net}",
+    "mandi.no_origin": "ਦੂਰੀ ਅਤੇ ਢੋਆ-ਢੁਆਈ ਖ਼ਰਚੇ ਮੁਤਾਬਕ ਮੰਡੀਆਂ ਚੁਣਨ ਲਈ ਜ਼ਿਲ੍ਹਾ ਜਾਂ ਅਕਸ਼ਾਂਸ਼/ਰੇਖਾਂਸ਼ ਦਿਓ",
+    "mandi.distance_only": "ਇਨ੍ਹਾਂ ਮੰਡੀਆਂ ਦੇ ਦਰਜ ਭਾਅ ਨਹੀਂ ਹਨ: ਇਨ੍ਹਾਂ 'ਤੇ ਅਨੁਮਾਨਿਤ ਭਾਅ ਹੈ ਅਤੇ ਇਹ ਸਿਰਫ਼ ਦੂਰੀ ਦੀ ਤਰਤੀਬ ਵਿੱਚ ਹਨ, ਭਾਅ ਦੀ ਤੁਲਨਾ ਨਹੀਂ",
+    "anomaly.own_above": "{price} {market} ਦੇ {days} ਦਿਨਾਂ ਦੇ ਮੱਧ ਭਾਅ {median} ਤੋਂ {percent}% ਵੱਧ ਹੈ (robust z {z})",
+    "anomaly.own_below": "{price} {market} ਦੇ {days} ਦਿਨਾਂ ਦੇ ਮੱਧ ਭਾਅ {median} ਤੋਂ {percent}% ਘੱਟ ਹੈ (robust z {z})",
+    "anomaly.peer_above": "{price} ਉਸੇ ਦਿਨ {place} ਦੀਆਂ {count} ਹੋਰ ਮੰਡੀਆਂ ਦੇ ਮੱਧ ਭਾਅ ਤੋਂ {percent}% ਵੱਧ ਹੈ ({median}, robust z {z})",
+    "anomaly.peer_below": "{price} ਉਸੇ ਦਿਨ {place} ਦੀਆਂ {count} ਹੋਰ ਮੰਡੀਆਂ ਦੇ ਮੱਧ ਭਾਅ ਤੋਂ {percent}% ਘੱਟ ਹੈ ({median}, robust z {z})",
+    "anomaly.inconsistent": "ਦਰਜ ਘੱਟੋ-ਘੱਟ/ਮਾਡਲ/ਵੱਧ ਤੋਂ ਵੱਧ ਭਾਅ {min}/{modal}/{max} ਤਰਤੀਬ ਵਿੱਚ ਨਹੀਂ ਹਨ",
+    "alert.all_markets": "ਸਾਰੀਆਂ ਮੰਡੀਆਂ",
+    "alert.subject": "{date} ਨੂੰ {commodity} ({where}) ₹{price}/ਕੁਇੰਟਲ",
+    "alert.change": "{subject}, {date} (₹{reference}) ਤੋਂ ਬਾਅਦ {percent}% ਬਦਲਿਆ, {threshold}% ਅਲਰਟ ਹੱਦ ਤੋਂ ਵੱਧ",
+    "alert.above": "{subject}, ₹{threshold} ਅਲਰਟ ਹੱਦ ਤੋਂ ਉੱਪਰ ਹੈ",
+    "alert.below": "{subject}, ₹{threshold} ਅਲਰਟ ਹੱਦ ਤੋਂ ਹੇਠਾਂ ਹੈ",
+    "pest.no_match": "ਦੱਸੇ ਗਏ ਲੱਛਣ ਇਸ ਫ਼ਸਲ ਦੀ ਕਿਸੇ ਜਾਣੀ-ਪਛਾਣੀ ਸਮੱਸਿਆ ਨਾਲ ਇੰਨੇ ਨਹੀਂ ਮਿਲਦੇ ਕਿ ਕਾਰਨ ਦੱਸਿਆ ਜਾ ਸਕੇ",
+    "pest.check_symptoms": "check_for ਵਿੱਚ ਦਿੱਤੇ ਲੱਛਣਾਂ ਲਈ ਬੂਟਿਆਂ ਦੀ ਜਾਂਚ ਕਰੋ ਅਤੇ ਦੁਬਾਰਾ ਨਿਦਾਨ ਚਲਾਓ",
+    "pest.take_photos": "ਪ੍ਰਭਾਵਿਤ ਪੱਤਿਆਂ, ਤਣਿਆਂ, ਫਲਾਂ ਅਤੇ ਪੂਰੇ ਬੂਟੇ ਦੀਆਂ ਸਾਫ਼ ਤਸਵੀਰਾਂ ਲਓ",
+    "pest.consult": "ਛਿੜਕਾਅ ਤੋਂ ਪਹਿਲਾਂ ਨੇੜਲੇ ਕ੍ਰਿਸ਼ੀ ਵਿਗਿਆਨ ਕੇਂਦਰ ਜਾਂ ਖੇਤੀਬਾੜੀ ਅਫ਼ਸਰ ਤੋਂ ਸਲਾਹ ਲਓ",
+    "pest.monitoring": "ਖੇਤ ਦੀ ਨਿਯਮਤ ਨਿਗਰਾਨੀ ਕਰੋ",
+    "pest.rotation": "ਫ਼ਸਲੀ ਚੱਕਰ ਅਪਣਾਓ",
+    "pest.hygiene": "ਖੇਤ ਦੀ ਸਾਫ਼-ਸਫ਼ਾਈ ਰੱਖੋ",
+    "pest.resistant_varieties": "ਜਿੱਥੇ ਮਿਲਣ, ਰੋਗ-ਰੋਧਕ ਕਿਸਮਾਂ ਬੀਜੋ",
+    "pest.ipm": "ਸੰਯੁਕਤ ਕੀਟ ਪ੍ਰਬੰਧਨ (IPM)",
+    "pest.season_assumed": "ਅੱਜ ਦੀ ਤਾਰੀਖ਼ ਤੋਂ ਰੁੱਤ {season} ਮੰਨੀ ਗਈ; ਜੇ ਫ਼ਸਲ ਕਿਸੇ ਹੋਰ ਰੁੱਤ ਵਿੱਚ ਬੀਜੀ ਗਈ ਹੈ ਤਾਂ season ਦਿਓ",
+    "pest.no_location": "ਥਾਂ ਨਹੀਂ ਦਿੱਤੀ; ਨਿਦਾਨ ਵਿੱਚ ਮੌਸਮ ਸ਼ਾਮਲ ਨਹੀਂ",
+    "pest.weather_unavailable": "{location} ਦਾ ਮੌਸਮ ਉਪਲਬਧ ਨਹੀਂ ({reason}); ਨਿਦਾਨ ਵਿੱਚ ਮੌਸਮ ਸ਼ਾਮਲ ਨਹੀਂ",
+    "pest.label_language": "ਉਤਪਾਦਾਂ ਦੇ ਨਾਂ, ਖ਼ੁਰਾਕ ਅਤੇ ਗਿਆਨ-ਕੋਸ਼ ਦੇ ਵੇਰਵੇ ਅੰਗਰੇਜ਼ੀ ਵਿੱਚ ਹਨ, ਜਿਵੇਂ ਉਤਪਾਦ ਦੇ ਲੇਬਲ 'ਤੇ ਛਪੇ ਹੁੰਦੇ ਹਨ",
+    "pest.footnote": "ਸੰਭਾਵਨਾਵਾਂ ਇਸ ਫ਼ਸਲ ਦੀਆਂ ਜਾਣੀਆਂ-ਪਛਾਣੀਆਂ ਸਮੱਸਿਆਵਾਂ ਦੇ ਮੁਕਾਬਲੇ ਹਨ; ਖ਼ੁਰਾਕ ਅਤੇ ਵਾਢੀ ਤੋਂ ਪਹਿਲਾਂ ਦੇ ਵਕਫ਼ੇ ਲਈ ਉਤਪਾਦ ਦੇ ਲੇਬਲ ਦੀ ਪਾਲਣਾ ਕਰੋ",
+    "season.kharif": "ਸਾਉਣੀ",
+    "season.rabi": "ਹਾੜ੍ਹੀ",
+    "season.zaid": "ਜ਼ੈਦ"
+};
+
+const mr: Catalog = {
+    "soil.insufficient_data": "जमिनीचे आरोग्य तपासण्यासाठी पुरेशी माती परीक्षण माहिती नाही: pH, नत्र, स्फुरद, पालाश आणि सेंद्रिय कर्ब यांपैकी किमान 3 आवश्यक (उपलब्ध नाही: {missing})",
+    "soil.get_tested": "जवळच्या माती परीक्षण प्रयोगशाळेतून किंवा कृषी विज्ञान केंद्रातून मृदा आरोग्य पत्रिका तपासणी करून घ्या",
+    "soil.apply_lime": "जमिनीचा pH वाढवण्यासाठी चुना द्या",
+    "soil.reduce_ph": "जमिनीचा pH कमी करण्यासाठी सेंद्रिय खत द्या",
+    "soil.nitrogen": "नत्रयुक्त खते किंवा कंपोस्ट द्या",
+    "soil.phosphorus": "स्फुरदयुक्त खते (DAP/SSP) द्या",
+    "soil.potassium": "पालाशयुक्त खते (MOP) द्या",
+    "soil.organic": "कंपोस्ट आणि पिकांच्या अवशेषांद्वारे जमिनीतील सेंद्रिय पदार्थ वाढवा",
+    "soil.zinc": "हेक्टरी 25 किलो झिंक सल्फेट (हेप्टाहायड्रेट) द्या, किंवा उभ्या पिकावर 0.5% ची फवारणी करा",
+    "soil.iron": "पानांवर 0.5-1% फेरस सल्फेटची फवारणी करा; जमिनीत दिलेले लोह बहुतांशी पिकाला उपलब्ध होत नाही",
+    "soil.sulphur": "जिप्सम, SSP किंवा बेंटोनाइट सल्फरद्वारे हेक्टरी 20-40 किलो गंधक द्या",
+    "soil.boron": "हेक्टरी 10 किलो बोरॅक्स द्या, किंवा फुलोऱ्यात 0.2% बोरॅक्सची फवारणी करा",
+    "soil.saline": "क्षारयुक्त जमीन: चांगल्या पाण्याने क्षार धुऊन काढा, निचरा सुधारा आणि क्षार सहनशील पिके घ्या",
+    "soil.slightly_saline": "किंचित क्षारयुक्त जमीन: क्षार-संवेदनशील पिके टाळा आणि कमी पाण्याने वारंवार सिंचन करा",
+    "soil.not_assessed": "तपासले नाही (मूल्ये दिली नाहीत): {parameters}",
+    "soil.score_basis": "{count} मोजलेल्या घटकांवर गुण, त्यांच्यासाठी उपलब्ध गुणांच्या टक्केवारीत",
+    "parameter.nitrogen": "नत्र",
+    "parameter.phosphorus": "स्फुरद",
+    "parameter.potassium": "पालाश",
+    "parameter.organic_content": "सेंद्रिय कर्ब",
+    "parameter.zinc": "जस्त",
+    "parameter.iron": "लोह",
+    "parameter.sulphur": "गंधक",
+    "parameter.boron": "बोरॉन",
+    "parameter.ec": "EC (क्षारता)",
+    "weather.heavy_rain": "मुसळधार पावसाची शक्यता. आज सिंचन करू नका.",
+    "weather.pest_risk": "जास्त आर्द्रता आणि तापमान. किडींवर लक्ष ठेवा.",
+    "weather.heat_stress": "पावसाशिवाय जास्त तापमान. पुरेसे सिंचन करा.",
+    "weather.wind": "जोरदार वाऱ्याची शक्यता. उंच पिके आणि बांधकामे सुरक्षित करा.",
+    "weather.irrigate_reason": "कमी पाऊस ({rainfall} मिमी) आणि जास्त तापमान ({temperature}°C)",
+    "weather.skip_reason": "पुरेशा पावसाची शक्यता ({rainfall} मिमी)",
+    "soil_test.npk_ppm": "N, P आणि K ppm मधून किलो/हेक्टरमध्ये रूपांतरित केले (x2.24, 15 सेंमी नांगरट थर)",
+    "soil_test.micronutrients_kg_ha": "सूक्ष्म अन्नद्रव्ये किलो/हेक्टरमधून ppm मध्ये रूपांतरित केली (/2.24)",
+    "soil_test.organic_matter": "सेंद्रिय पदार्थ सेंद्रिय कर्बामध्ये रूपांतरित केले (/1.724)",
+    "soil_test.organic_g_kg": "सेंद्रिय प्रमाण ग्रॅम/किलोमधून % मध्ये रूपांतरित केले",
+    "soil_test.ec_us_cm": "EC µS/cm मधून dS/m मध्ये रूपांतरित केले",
+    "soil_test.implausible": "{parameter} चे {value} {unit} हे मूल्य शक्य मर्यादा {min}-{max} {unit} बाहेर आहे; मूल्य आणि त्याचे एकक तपासा. ते विश्लेषणातून वगळले आहे.",
+    "fertilizer.typical_target": "लक्ष्य उत्पादन दिलेले नाही; सर्वसाधारण {yield} क्विंटल/हेक्टरसाठी नियोजन केले",
+    "fertilizer.target_out_of_range": "{yield} क्विंटल/हेक्टरचे लक्ष्य समीकरणे ज्या {min}-{max} क्विंटल/हेक्टर मर्यादेवर आधारित आहेत तिच्या बाहेर आहे; मात्रा अंदाजे समजा",
+    "fertilizer.no_soil_test": "{nutrient} चे माती परीक्षण मूल्य नाही; हेक्टरी {dose} किलोची सर्वसाधारण शिफारस वापरली",
+    "fertilizer.dose_capped": "{nutrient} ची मात्रा सर्वसाधारण शिफारशीच्या {factor} पटीपर्यंत मर्यादित केली; माती परीक्षण मूल्य पुन्हा तपासा",
+    "fertilizer.starter_dose": "{nutrient} हेक्टरी {dose} किलोच्या सुरुवातीच्या मात्रेवर ठेवले",
+    "fertilizer.sufficient": "लक्ष्य उत्पादनासाठी जमिनीत {nutrient} पुरेसे आहे; या हंगामात {nutrient} खताची गरज नाही",
+    "fertilizer.acidic": "आम्लयुक्त जमीन: चुना गरज चाचणीनुसार शेतीचा चुना द्या; फॉस्फेट स्थिरीकरणामुळे P ची कार्यक्षमता कमी होते",
+    "fertilizer.alkaline": "क्षारयुक्त/चोपण जमीन: जिप्सम गरज चाचणीनुसार जिप्सम द्या; युरियाऐवजी SSP किंवा अमोनियम सल्फेटला प्राधान्य द्या",
+    "fertilizer.low_organic": "सेंद्रिय कर्ब कमी: हेक्टरी 5-10 टन शेणखत किंवा कंपोस्ट द्या आणि त्यातील अन्नद्रव्ये गणण्यासाठी fym_tonnes_per_ha द्या",
+    "fertilizer.dap_sulphur": "DAP मधून गंधक मिळत नाही; तेलबिया आणि कडधान्यांसाठी हेक्टरी 20-40 किलो गंधक (उदा. जिप्सम किंवा बेंटोनाइट-S) द्या",
+    "irrigation.soil_unknown": "जमिनीचा प्रकार '{soil}' ओळखता आला नाही; प्रति मीटर {water} मिमी उपलब्ध पाणी धरणारी मध्यम जमीन गृहीत धरली",
+    "irrigation.soil_not_given": "जमिनीचा प्रकार दिलेला नाही; प्रति मीटर {water} मिमी उपलब्ध पाणी धरणारी मध्यम जमीन गृहीत धरली",
+    "irrigation.default_latitude": "ठिकाणाचे निर्देशांक मिळाले नाहीत; प्रारण {latitude}°N साठी मोजले (अचूकतेसाठी latitude द्या)",
+    "irrigation.default_elevation": "उंची माहीत नाही; हवेचा दाब {elevation} मीटरसाठी मोजला",
+    "irrigation.no_sowing_date": "पेरणीची तारीख दिलेली नाही; पीक {stage} अवस्थेच्या मध्यावर असल्याचे गृहीत धरले",
+    "irrigation.irrigate": "{dates} रोजी {method} द्वारे सुमारे {gross} मिमी एकूण ({net} मिमी निव्वळ) पाणी द्या",
+    "irrigation.not_needed": "पुढील {days} दिवसांत पाणी देण्याची गरज नाही; मुळांच्या क्षेत्रातील ओलावा तूट {water} मिमीच्या खाली राहील",
+    "irrigation.puddled_rice": "चिखलणी केलेल्या भातात त्याऐवजी 2-5 सेंमी पाणी साचवून ठेवा; रोपे स्थिरावल्यानंतर आलटून पालटून ओले-कोरडे केल्याने पाणी वाचते",
+    "irrigation.forecast_rain": "अंदाजित पावसातून मुळांच्या क्षेत्राला सुमारे {rain} मिमी पाणी मिळावे; पाणी देण्यापूर्वी पुन्हा तपासा",
+    "irrigation_method.flood": "मोकाट (वाफा) पाणी",
+    "irrigation_method.furrow": "सरी पद्धत",
+    "irrigation_method.sprinkler": "तुषार सिंचन",
+    "irrigation_method.drip": "ठिबक सिंचन",
+    "water_stage.initial": "सुरुवातीच्या",
+    "water_stage.development": "वाढीच्या",
+    "water_stage.mid": "मधल्या",
+    "water_stage.late": "शेवटच्या",
+    "crop_stage.moisture_sensitive": "{stage} ही अवस्था ओलाव्यास संवेदनशील आहे आणि फक्त {rain} मिमी पावसाचा अंदाज आहे; पाण्याच्या नियोजनासाठी irrigation-planner चालवा",
+    "crop_stage.critical_next": "{stage} (पाण्यासाठी महत्त्वाची) सुमारे {date} रोजी अपेक्षित",
+    "crop_stage.missing_days": "पेरणीनंतरच्या {days} दिवसांची तापमान माहिती नाही; साठलेले GDD प्रत्यक्षापेक्षा कमी आहेत",
+    "crop_stage.projection": "अंदाजापलीकडील अवस्था अलीकडील सरासरी {rate} GDD/दिवस दराने अंदाजल्या आहेत",
+    "mandi.sell": "सध्याचा भाव (₹{price}) सरासरीपेक्षा {percent}% जास्त आहे",
+    "mandi.hold": "सध्याचा भाव (₹{price}) सरासरीपेक्षा कमी आहे. चांगल्या भावाची वाट पाहा",
+    "mandi.monitor": "भाव सरासरीच्या जवळ आहे. कलातील बदलांवर लक्ष ठेवा",
+    "mandi.verify": "या शेतमालासाठी आणि ठिकाणासाठी बाजार समितीचे नोंदवलेले भाव उपलब्ध नाहीत; आकडे अंदाजित आहेत. विक्रीपूर्वी ताजे भाव तपासा",
+    "mandi.no_forecast": "अंदाजासाठी भावांचा इतिहास पुरेसा नाही (किमान 3 दिवस आवश्यक)",
+    "mandi.best_market": "सर्वोत्तम निव्वळ उत्पन्न: {market} ({distance} किमी), {quantity} क्विंटलसाठी ₹{transport}/क्विंटल वाहतूक खर्चानंतर सुमारे ₹{net}",
+    "mandi.no_origin": "अंतर आणि वाहतूक खर्चानुसार बाजार समित्यांची क्रमवारी लावण्यासाठी जिल्हा किंवा अक्षांश/रेखांश द्या",
+    "mandi.distance_only": "या बाजार समित्यांचे नोंदवलेले भाव नाहीत: त्यांना अंदाजित भाव दिला आहे आणि त्या फक्त अंतराच्या क्रमाने आहेत, भावांची तुलना नाही",
+    "anomaly.own_above": "{price} हा {market} च्या {days} दिवसांच्या मध्य भाव {median} पेक्षा {percent}% जास्त आहे (robust z {z})",
+    "anomaly.own_below": "{price} हा {market} च्या {days} दिवसांच्या मध्य भाव {median} पेक्षा {percent}% कमी आहे (robust z {z})",
+    "anomaly.peer_above": "{price} हा त्याच दिवशी {place} मधील इतर {count} बाजार समित्यांच्या मध्य भावापेक्षा {percent}% जास्त आहे ({median}, robust z {z})",
+    "anomaly.peer_below": "{price} हा त्याच दिवशी {place} मधील इतर {count} बाजार समित्यांच्या मध्य भावापेक्षा {percent}% कमी आहे ({median}, robust z {z})",
+    "anomaly.inconsistent": "नोंदवलेले किमान/मॉडल/कमाल भाव {min}/{modal}/{max} क्रमाने नाहीत",
+    "alert.all_markets": "सर्व बाजार समित्या",
+    "alert.subject": "{date} रोजी {commodity} ({where}) ₹{price}/क्विंटल",
+    "alert.change": "{subject}, {date} (₹{reference}) पासून {percent}% बदलला, {threshold}% सूचना मर्यादेपलीकडे",
+    "alert.above": "{subject}, ₹{threshold} सूचना मर्यादेच्या वर आहे",
+    "alert.below": "{subject}, ₹{threshold} सूचना मर्यादेच्या खाली आहे",
+    "pest.no_match": "सांगितलेली लक्षणे या पिकाच्या कोणत्याही ज्ञात समस्येशी कारण सांगता येईल इतकी जुळत नाहीत",
+    "pest.check_symptoms": "check_for मध्ये दिलेल्या लक्षणांसाठी झाडे तपासा आणि पुन्हा निदान करा",
+    "pest.take_photos": "बाधित पाने, खोड, फळे आणि संपूर्ण झाडाचे स्पष्ट फोटो घ्या",
+    "pest.consult": "फवारणीपूर्वी जवळच्या कृषी विज्ञान केंद्राचा किंवा कृषी अधिकाऱ्याचा सल्ला घ्या",
+    "pest.monitoring": "शेताची नियमित पाहणी करा",
+    "pest.rotation": "पिकांची फेरपालट करा",
+    "pest.hygiene": "शेत स्वच्छ ठेवा",
+    "pest.resistant_varieties": "उपलब्ध असल्यास प्रतिकारक्षम वाण वापरा",
+    "pest.ipm": "एकात्मिक कीड व्यवस्थापन (IPM)",
+    "pest.season_assumed": "आजच्या तारखेवरून हंगाम {season} धरला; पीक दुसऱ्या हंगामात पेरले असल्यास season द्या",
+    "pest.no_location": "ठिकाण दिले नाही; निदानात हवामान विचारात घेतले नाही",
+    "pest.weather_unavailable": "{location} चे हवामान उपलब्ध नाही ({reason}); निदानात हवामान विचारात घेतले नाही",
+    "pest.label_language": "उत्पादनांची नावे, मात्रा आणि माहितीकोशातील तपशील इंग्रजीत आहेत, जसे उत्पादनाच्या लेबलवर छापलेले असतात",
+    "pest.footnote": "संभाव्यता या पिकाच्या ज्ञात समस्यांच्या तुलनेत आहेत; मात्रा आणि काढणीपूर्व कालावधीसाठी उत्पादनाच्या लेबलचे पालन करा",
+    "season.kharif": "खरीप",
+    "season.rabi": "रब्बी",
+    "season.zaid": "उन्हाळी"
+};
+
+const gu: Catalog = {
+    "soil.insufficient_data": "જમીનનું આરોગ્ય તપાસવા પૂરતા પરીક્ષણ આંકડા નથી: pH, નાઇટ્રોજન, ફોસ્ફરસ, પોટાશ અને સેન્દ્રિય કાર્બનમાંથી ઓછામાં ઓછા 3 જરૂરી છે (ઉપલબ્ધ નથી: {missing})",
+    "soil.get_tested": "નજીકની જમીન ચકાસણી પ્રયોગશાળા અથવા કૃષિ વિજ્ઞાન કેન્દ્રમાંથી સોઇલ હેલ્થ કાર્ડ તપાસ કરાવો",
+    "soil.apply_lime": "જમીનનો pH વધારવા ચૂનો આપો",
+    "soil.reduce_ph": "જમીનનો pH ઘટાડવા સેન્દ્રિય ખાતર આપો",
+    "soil.nitrogen": "નાઇટ્રોજનયુક્ત ખાતર અથવા કમ્પોસ્ટ આપો",
+    "soil.phosphorus": "ફોસ્ફરસ ખાતર (DAP/SSP) આપો",
+    "soil.potassium": "પોટાશ ખાતર (MOP) આપો",
+    "soil.organic": "કમ્પોસ્ટ અને પાકના અવશેષોથી જમીનમાં સેન્દ્રિય પદાર્થ વધારો",
+    "soil.zinc": "હેક્ટર દીઠ 25 કિલો ઝીંક સલ્ફેટ (હેપ્ટાહાઇડ્રેટ) આપો, અથવા ઊભા પાક પર 0.5% નો છંટકાવ કરો",
+    "soil.iron": "પાન પર 0.5-1% ફેરસ સલ્ફેટનો છંટકાવ કરો; જમીનમાં આપેલું લોહ મોટાભાગે પાકને મળતું નથી",
+    "soil.sulphur": "જીપ્સમ, SSP અથવા બેન્ટોનાઇટ સલ્ફર દ્વારા હેક્ટર દીઠ 20-40 કિલો ગંધક આપો",
+    "soil.boron": "હેક્ટર દીઠ 10 કિલો બોરેક્સ આપો, અથવા ફૂલ આવે ત્યારે 0.2% બોરેક્સનો છંટકાવ કરો",
+    "soil.saline": "ક્ષારીય જમીન: સારા પિયતના પાણીથી ક્ષાર ધોઈ નાખો, નિતાર સુધારો અને ક્ષાર સહનશીલ પાક લો",
+    "soil.slightly_saline": "થોડી ક્ષારીય જમીન: ક્ષાર-સંવેદનશીલ પાક ટાળો અને ઓછા પાણીથી વારંવાર પિયત આપો",
+    "soil.not_assessed": "ચકાસણી થઈ નથી (મૂલ્યો આપ્યાં નથી): {parameters}",
+    "soil.score_basis": "{count} માપેલા પરિમાણો પર ગુણ, તેમના માટે ઉપલબ્ધ ગુણની ટકાવારી તરીકે",
+    "parameter.nitrogen": "નાઇટ્રોજન",
+    "parameter.phosphorus": "ફોસ્ફરસ",
+    "parameter.potassium": "પોટાશ",
+    "parameter.organic_content": "સેન્દ્રિય કાર્બન",
+    "parameter.zinc": "ઝીંક",
+    "parameter.iron": "લોહ",
+    "parameter.sulphur": "ગંધક",
+    "parameter.boron": "બોરોન",
+    "parameter.ec": "EC (ક્ષારતા)",
+    "weather.heavy_rain": "ભારે વરસાદની શક્યતા. આજે પિયત ન આપો.",
+    "weather.pest_risk": "વધુ ભેજ અને તાપમાન. જીવાત પર નજર રાખો.",
+    "weather.heat_stress": "વરસાદ વગર ઊંચું તાપમાન. પૂરતું પિયત આપો.",
+    "weather.wind": "તેજ પવનની શક્યતા. ઊંચા પાક અને માળખાં સુરક્ષિત કરો.",
+    "weather.irrigate_reason": "ઓછો વરસાદ ({rainfall} મિમી) અને ઊંચું તાપમાન ({temperature}°C)",
+    "weather.skip_reason": "પૂરતા વરસાદની શક્યતા ({rainfall} મિમી)",
+    "soil_test.npk_ppm": "N, P અને K ને ppm માંથી કિલો/હેક્ટરમાં ફેરવ્યા (x2.24, 15 સેમી ખેડ સ્તર)",
+    "soil_test.micronutrients_kg_ha": "સૂક્ષ્મ પોષક તત્વોને કિલો/હેક્ટરમાંથી ppm માં ફેરવ્યા (/2.24)",
+    "soil_test.organic_matter": "સેન્દ્રિય પદાર્થને સેન્દ્રિય કાર્બનમાં ફેરવ્યો (/1.724)",
+    "soil_test.organic_g_kg": "સેન્દ્રિય પ્રમાણને ગ્રામ/કિલોમાંથી % માં ફેરવ્યું",
+    "soil_test.ec_us_cm": "EC ને µS/cm માંથી dS/m માં ફેરવ્યું",
+    "soil_test.implausible": "{parameter} નું {value} {unit} મૂલ્ય શક્ય મર્યાદા {min}-{max} {unit} ની બહાર છે; મૂલ્ય અને તેનો એકમ તપાસો. તેને વિશ્લેષણમાંથી બાકાત રાખ્યું છે.",
+    "fertilizer.typical_target": "લક્ષ્ય ઉત્પાદન આપ્યું નથી; સામાન્ય {yield} ક્વિન્ટલ/હેક્ટર માટે આયોજન કર્યું",
+    "fertilizer.target_out_of_range": "{yield} ક્વિન્ટલ/હેક્ટરનું લક્ષ્ય સમીકરણો જે {min}-{max} ક્વિન્ટલ/હેક્ટર મર્યાદા પર બનાવ્યા હતા તેની બહાર છે; માત્રાને અંદાજિત ગણો",
+    "fertilizer.no_soil_test": "{nutrient} નું જમીન ચકાસણી મૂલ્ય નથી; હેક્ટરે {dose} કિલોની સામાન્ય ભલામણ લીધી",
+    "fertilizer.dose_capped": "{nutrient} ની માત્રા સામાન્ય ભલામણના {factor} ગણા સુધી મર્યાદિત કરી; જમીન ચકાસણી મૂલ્ય ફરી તપાસો",
+    "fertilizer.starter_dose": "{nutrient} ને હેક્ટરે {dose} કિલોની શરૂઆતની માત્રા પર રાખ્યું",
+    "fertilizer.sufficient": "લક્ષ્ય ઉત્પાદન માટે જમીનમાં {nutrient} પૂરતું છે; આ ઋતુમાં {nutrient} ખાતરની જરૂર નથી",
+    "fertilizer.acidic": "અમ્લીય જમીન: ચૂનાની જરૂરિયાત ચકાસણી મુજબ ખેતીનો ચૂનો આપો; ફોસ્ફેટ સ્થિર થવાથી P ની કાર્યક્ષમતા ઘટે છે",
+    "fertilizer.alkaline": "ક્ષારીય/ભાસ્મિક જમીન: જિપ્સમની જરૂરિયાત ચકાસણી મુજબ જિપ્સમ આપો; યુરિયાને બદલે SSP અથવા એમોનિયમ સલ્ફેટને પ્રાધાન્ય આપો",
+    "fertilizer.low_organic": "સેન્દ્રિય કાર્બન ઓછો: હેક્ટરે 5-10 ટન છાણિયું ખાતર અથવા કમ્પોસ્ટ આપો અને તેના પોષક તત્વો ગણવા fym_tonnes_per_ha આપો",
+    "fertilizer.dap_sulphur": "DAP માંથી ગંધક મળતો નથી; તેલીબિયાં અને કઠોળ માટે હેક્ટરે 20-40 કિલો ગંધક (જેમ કે જિપ્સમ અથવા બેન્ટોનાઇટ-S) આપો",
+    "irrigation.soil_unknown": "જમીનનો પ્રકાર '{soil}' ઓળખાયો નથી; પ્રતિ મીટર {water} મિમી ઉપલબ્ધ પાણી ધરાવતી મધ્યમ જમીન માની",
+    "irrigation.soil_not_given": "જમીનનો પ્રકાર આપ્યો નથી; પ્રતિ મીટર {water} મિમી ઉપલબ્ધ પાણી ધરાવતી મધ્યમ જમીન માની",
+    "irrigation.default_latitude": "સ્થળના નિર્દેશાંક મળ્યા નથી; વિકિરણ {latitude}°N માટે ગણ્યું (ચોકસાઈ માટે latitude આપો)",
+    "irrigation.default_elevation": "ઊંચાઈ અજ્ઞાત; હવાનું દબાણ {elevation} મીટર માટે ગણ્યું",
+    "irrigation.no_sowing_date": "વાવણીની તારીખ આપી નથી; પાકને {stage} અવસ્થાની મધ્યમાં માન્યો",
+    "irrigation.irrigate": "{dates} ના રોજ {method} દ્વારા આશરે {gross} મિમી કુલ ({net} મિમી ચોખ્ખું) પિયત આપો",
+    "irrigation.not_needed": "આગામી {days} દિવસમાં પિયતની જરૂર નથી; મૂળ વિસ્તારમાં ભેજની ઘટ {water} મિમીથી નીચે રહેશે",
+    "irrigation.puddled_rice": "રોપેલી કાદવવાળી ડાંગરમાં તેને બદલે 2-5 સેમી પાણી ભરી રાખો; છોડ સ્થિર થયા પછી વારાફરતી ભીનું-સૂકું કરવાથી પાણી બચે છે",
+    "irrigation.forecast_rain": "અનુમાનિત વરસાદથી મૂળ વિસ્તારને આશરે {rain} મિમી પાણી મળવું જોઈએ; પિયત પહેલાં ફરી તપાસો",
+    "irrigation_method.flood": "ક્યારા (રેલાવીને) પિયત",
+    "irrigation_method.furrow": "ચાસ પદ્ધતિ",
+    "irrigation_method.sprinkler": "ફુવારા પિયત",
+    "irrigation_method.drip": "ટપક પિયત",
+    "water_stage.initial": "પ્રારંભિક",
+    "water_stage.development": "વૃદ્ધિ",
+    "water_stage.mid": "મધ્ય",
+    "water_stage.late": "અંતિમ",
+    "crop_stage.moisture_sensitive": "{stage} અવસ્થા ભેજ પ્રત્યે સંવેદનશીલ છે અને માત્ર {rain} મિમી વરસાદનું અનુમાન છે; પાણીના આયોજન માટે irrigation-planner ચલાવો",
+    "crop_stage.critical_next": "{stage} (પિયત માટે મહત્વપૂર્ણ) આશરે {date} ના રોજ અપેક્ષિત",
+    "crop_stage.missing_days": "વાવણી પછીના {days} દિવસનો તાપમાન ડેટા નથી; એકત્રિત GDD વાસ્તવિક કરતાં ઓછા છે",
+    "crop_stage.projection": "અનુમાન પછીની અવસ્થાઓ તાજેતરની સરેરાશ {rate} GDD/દિવસના દરે અંદાજી છે",
+    "mandi.sell": "હાલનો ભાવ (₹{price}) સરેરાશ કરતાં {percent}% વધુ છે",
+    "mandi.hold": "હાલનો ભાવ (₹{price}) સરેરાશ કરતાં ઓછો છે. સારા ભાવની રાહ જુઓ",
+    "mandi.monitor": "ભાવ સરેરાશની નજીક છે. વલણમાં ફેરફાર પર નજર રાખો",
+    "mandi.verify": "આ પાક અને સ્થળ માટે માર્કેટ યાર્ડના નોંધાયેલા ભાવ નથી; આંકડા અંદાજિત છે. વેચતા પહેલાં તાજા ભાવ ચકાસો",
+    "mandi.no_forecast": "અનુમાન માટે ભાવનો ઇતિહાસ પૂરતો નથી (ઓછામાં ઓછા 3 દિવસ જરૂરી)",
+    "mandi.best_market": "શ્રેષ્ઠ ચોખ્ખી આવક: {market} ({distance} કિમી), {quantity} ક્વિન્ટલ પર ₹{transport}/ક્વિન્ટલ પરિવહન ખર્ચ પછી આશરે ₹{net}",
+    "mandi.no_origin": "અંતર અને પરિવહન ખર્ચ મુજબ માર્કેટ યાર્ડ ક્રમમાં ગોઠવવા માટે જિલ્લો અથવા અક્ષાંશ/રેખાંશ આપો",
+    "mandi.distance_only": "આ માર્કેટ યાર્ડના નોંધાયેલા ભાવ નથી: તેમને અંદાજિત ભાવ આપ્યો છે અને તે ફક્ત અંતરના ક્રમમાં છે, ભાવની સરખામણી નથી",
+    "anomaly.own_above": "{price} {market} ના {days} દિવસના મધ્ય ભાવ {median} કરતાં {percent}% વધુ છે (robust z {z})",
+    "anomaly.own_below": "{price} {market} ના {days} દિવસના મધ્ય ભાવ {median} કરતાં {percent}% ઓછો છે (robust z {z})",
+    "anomaly.peer_above": "{price} એ જ દિવસે {place} ના અન્ય {count} માર્કેટ યાર્ડના મધ્ય ભાવ કરતાં {percent}% વધુ છે ({median}, robust z {z})",
+    "anomaly.peer_below": "{price} એ જ દિવસે {place} ના અન્ય {count} માર્કેટ યાર્ડના મધ્ય ભાવ કરતાં {percent}% ઓછો છે ({median}, robust z {z})",
+    "anomaly.inconsistent": "નોંધાયેલા લઘુતમ/મોડલ/મહત્તમ ભાવ {min}/{modal}/{max} ક્રમમાં નથી",
+    "alert.all_markets": "બધા માર્કેટ યાર્ડ",
+    "alert.subject": "{date} ના રોજ {commodity} ({where}) ₹{price}/ક્વિન્ટલ",
+    "alert.change": "{subject}, {date} (₹{reference}) પછી {percent}% બદલાયો, {threshold}% ચેતવણી મર્યાદાથી વધુ",
+    "alert.above": "{subject}, ₹{threshold} ચેતવણી મર્યાદાથી ઉપર છે",
+    "alert.below": "{subject}, ₹{threshold} ચેતવણી મર્યાદાથી નીચે છે",
+    "pest.no_match": "જણાવેલાં લક્ષણો આ પાકની કોઈ જાણીતી સમસ્યા સાથે કારણ કહી શકાય એટલાં મેળ ખાતાં નથી",
+    "pest.check_symptoms": "check_for માં આપેલાં લક્ષણો માટે છોડ તપાસો અને ફરી નિદાન કરો",
+    "pest.take_photos": "અસરગ્રસ્ત પાન, થડ, ફળ અને આખા છોડના સ્પષ્ટ ફોટા લો",
+    "pest.consult": "છંટકાવ પહેલાં નજીકના કૃષિ વિજ્ઞાન કેન્દ્ર અથવા ખેતીવાડી અધિકારીની સલાહ લો",
+    "pest.monitoring": "ખેતરની નિયમિત દેખરેખ રાખો",
+    "pest.rotation": "પાકની ફેરબદલી અપનાવો",
+    "pest.hygiene": "ખેતર સ્વચ્છ રાખો",
+    "pest.resistant_varieties": "ઉપલબ્ધ હોય ત્યાં પ્રતિકારક જાતો વાપરો",
+    "pest.ipm": "સંકલિત જીવાત વ્યવસ્થાપન (IPM)",
+    "pest.season_assumed": "આજની તારીખ પરથી ઋતુ {season} ગણી; પાક બીજી ઋતુમાં વાવ્યો હોય તો season આપો",
+    "pest.no_location": "સ્થળ આપ્યું નથી; નિદાનમાં હવામાન ધ્યાનમાં લીધું નથી",
+    "pest.weather_unavailable": "{location} નું હવામાન ઉપલબ્ધ નથી ({reason}); નિદાનમાં હવામાન ધ્યાનમાં લીધું નથી",
+    "pest.label_language": "ઉત્પાદનોનાં નામ, માત્રા અને વિગતો અંગ્રેજીમાં છે, જેમ ઉત્પાદનના લેબલ પર છપાયેલાં હોય છે",
+    "pest.footnote": "સંભાવનાઓ આ પાકની જાણીતી સમસ્યાઓની સાપેક્ષ છે; માત્રા અને કાપણી પહેલાંના ગાળા માટે ઉત્પાદનના લેબલનું પાલન કરો",
+    "season.kharif": "ખરીફ",
+    "season.rabi": "રવી",
+    "season.zaid": "ઉનાળુ"
+};
+
+const bn: Catalog = {
+    "soil.insufficient_data": "মাটির স্বাস্থ্য যাচাইয়ের জন্য যথেষ্ট পরীক্ষার তথ্য নেই: pH, নাইট্রোজেন, ফসফরাস, পটাশ ও জৈব কার্বনের মধ্যে অন্তত 3টি প্রয়োজন (পাওয়া যায়নি: {missing})",
+    "soil.get_tested": "নিকটবর্তী মাটি পরীক্ষাগার বা কৃষি বিজ্ঞান কেন্দ্র থেকে সয়েল হেলথ কার্ড পরীক্ষা করান",
+    "soil.apply_lime": "মাটির pH বাড়াতে চুন দিন",
+    "soil.reduce_ph": "মাটির pH কমাতে জৈব সার দিন",
+    "soil.nitrogen": "নাইট্রোজেনযুক্ত সার বা কম্পোস্ট দিন",
+    "soil.phosphorus": "ফসফরাস সার (DAP/SSP) দিন",
+    "soil.potassium": "পটাশ সার (MOP) দিন",
+    "soil.organic": "কম্পোস্ট ও ফসলের অবশিষ্টাংশ দিয়ে মাটিতে জৈব পদার্থ বাড়ান",
+    "soil.zinc": "হেক্টর প্রতি 25 কেজি জিঙ্ক সালফেট (হেপ্টাহাইড্রেট) দিন, বা দাঁড়ানো ফসলে 0.5% স্প্রে করুন",
+    "soil.iron": "পাতায় 0.5-1% ফেরাস সালফেট স্প্রে করুন; মাটিতে দেওয়া লোহা বেশিরভাগই গাছ পায় না",
+    "soil.sulphur": "জিপসাম, SSP বা বেন্টোনাইট সালফারের মাধ্যমে হেক্টর প্রতি 20-40 কেজি গন্ধক দিন",
+    "soil.boron": "হেক্টর প্রতি 10 কেজি বোরাক্স দিন, বা ফুল আসার সময় 0.2% বোরাক্স স্প্রে করুন",
+    "soil.saline": "লবণাক্ত মাটি: ভালো সেচের জলে লবণ ধুয়ে ফেলুন, নিকাশি উন্নত করুন এবং লবণ সহনশীল ফসল চাষ করুন",
+    "soil.slightly_saline": "সামান্য লবণাক্ত মাটি: লবণ-সংবেদনশীল ফসল এড়িয়ে চলুন এবং অল্প জলে ঘন ঘন সেচ দিন",
+    "soil.not_assessed": "যাচাই হয়নি (মান দেওয়া হয়নি): {parameters}",
+    "soil.score_basis": "{count}টি মাপা উপাদানের উপর নম্বর, সেগুলির জন্য সম্ভাব্য নম্বরের শতাংশ হিসাবে",
+    "parameter.nitrogen": "নাইট্রোজেন",
+    "parameter.phosphorus": "ফসফরাস",
+    "parameter.potassium": "পটাশ",
+    "parameter.organic_content": "জৈব কার্বন",
+    "parameter.zinc": "জিঙ্ক",
+    "parameter.iron": "লোহা",
+    "parameter.sulphur": "গন্ধক",
+    "parameter.boron": "বোরন",
+    "parameter.ec": "EC (লবণাক্ততা)",
+    "weather.heavy_rain": "ভারী বৃষ্টির সম্ভাবনা। আজ সেচ দেবেন না।",
+    "weather.pest_risk": "বেশি আর্দ্রতা ও তাপমাত্রা। পোকামাকড়ের দিকে নজর রাখুন।",
+    "weather.heat_stress": "বৃষ্টি ছাড়া বেশি তাপমাত্রা। পর্যাপ্ত সেচ নিশ্চিত করুন।",
+    "weather.wind": "জোরালো বাতাসের সম্ভাবনা। লম্বা ফসল ও কাঠামো সুরক্ষিত করুন।",
+    "weather.irrigate_reason": "কম বৃষ্টি ({rainfall} মিমি) ও বেশি তাপমাত্রা ({temperature}°C)",
+    "weather.skip_reason": "পর্যাপ্ত বৃষ্টির সম্ভাবনা ({rainfall} মিমি)",
+    "soil_test.npk_ppm": "N, P ও K ppm থেকে কেজি/হেক্টরে রূপান্তর করা হয়েছে (x2.24, 15 সেমি চাষের স্তর)",
+    "soil_test.micronutrients_kg_ha": "অণুপুষ্টি উপাদান কেজি/হেক্টর থেকে ppm-এ রূপান্তর করা হয়েছে (/2.24)",
+    "soil_test.organic_matter": "জৈব পদার্থ জৈব কার্বনে রূপান্তর করা হয়েছে (/1.724)",
+    "soil_test.organic_g_kg": "জৈব উপাদান গ্রাম/কেজি থেকে %-এ রূপান্তর করা হয়েছে",
+    "soil_test.ec_us_cm": "EC µS/cm থেকে dS/m-এ রূপান্তর করা হয়েছে",
+    "soil_test.implausible": "{parameter}-এর মান {value} {unit} সম্ভাব্য সীমা {min}-{max} {unit}-এর বাইরে; মান ও তার একক পরীক্ষা করুন। এটি বিশ্লেষণে ধরা হয়নি।",
+    "fertilizer.typical_target": "লক্ষ্য ফলন দেওয়া হয়নি; সাধারণ {yield} কুইন্টাল/হেক্টরের জন্য পরিকল্পনা করা হয়েছে",
+    "fertilizer.target_out_of_range": "{yield} কুইন্টাল/হেক্টরের লক্ষ্য সমীকরণগুলি যে {min}-{max} কুইন্টাল/হেক্টর পরিসরে তৈরি তার বাইরে; মাত্রাগুলি আনুমানিক ধরুন",
+    "fertilizer.no_soil_test": "{nutrient}-এর মাটি পরীক্ষার মান নেই; হেক্টরে {dose} কেজির সাধারণ সুপারিশ নেওয়া হয়েছে",
+    "fertilizer.dose_capped": "{nutrient}-এর মাত্রা সাধারণ সুপারিশের {factor} গুণে সীমিত করা হয়েছে; মাটি পরীক্ষার মান আবার দেখুন",
+    "fertilizer.starter_dose": "{nutrient} হেক্টরে {dose} কেজির প্রারম্ভিক মাত্রায় রাখা হয়েছে",
+    "fertilizer.sufficient": "লক্ষ্য ফলনের জন্য মাটিতে {nutrient} যথেষ্ট; এই মরসুমে {nutrient} সারের প্রয়োজন নেই",
+    "fertilizer.acidic": "অম্ল মাটি: চুনের প্রয়োজন পরীক্ষা অনুযায়ী কৃষি চুন দিন; ফসফেট আবদ্ধ হওয়ায় P-এর কার্যকারিতা কমে",
+    "fertilizer.alkaline": "ক্ষারীয়/সোডিক মাটি: জিপসামের প্রয়োজন পরীক্ষা অনুযায়ী জিপসাম দিন; ইউরিয়ার বদলে SSP বা অ্যামোনিয়াম সালফেট বেছে নিন",
+    "fertilizer.low_organic": "জৈব কার্বন কম: হেক্টরে 5-10 টন গোবর সার বা কম্পোস্ট দিন এবং তার পুষ্টি উপাদান হিসাবে ধরতে fym_tonnes_per_ha দিন",
+    "fertilizer.dap_sulphur": "DAP থেকে গন্ধক পাওয়া যায় না; তৈলবীজ ও ডাল শস্যের জন্য হেক্টরে 20-40 কেজি গন্ধক (যেমন জিপসাম বা বেন্টোনাইট-S) দিন",
+    "irrigation.soil_unknown": "মাটির ধরন '{soil}' চেনা যায়নি; প্রতি মিটারে {water} মিমি সহজলভ্য জল ধরে রাখা মাঝারি মাটি ধরা হয়েছে",
+    "irrigation.soil_not_given": "মাটির ধরন দেওয়া হয়নি; প্রতি মিটারে {water} মিমি সহজলভ্য জল ধরে রাখা মাঝারি মাটি ধরা হয়েছে",
+    "irrigation.default_latitude": "স্থানের স্থানাঙ্ক পাওয়া যায়নি; বিকিরণ {latitude}°N-এর জন্য হিসাব করা হয়েছে (আরও নির্ভুলতার জন্য latitude দিন)",
+    "irrigation.default_elevation": "উচ্চতা অজানা; বায়ুচাপ {elevation} মিটারের জন্য হিসাব করা হয়েছে",
+    "irrigation.no_sowing_date": "বপনের তারিখ দেওয়া হয়নি; ফসলকে {stage} পর্যায়ের মাঝামাঝি ধরা হয়েছে",
+    "irrigation.irrigate": "{dates} তারিখে {method} দিয়ে প্রায় {gross} মিমি মোট ({net} মিমি নিট) সেচ দিন",
+    "irrigation.not_needed": "আগামী {days} দিনে সেচের প্রয়োজন নেই; শিকড় অঞ্চলে জলের ঘাটতি {water} মিমির নিচে থাকবে",
+    "irrigation.puddled_rice": "কাদা করা রোপা ধানে এর বদলে 2-5 সেমি জল দাঁড় করিয়ে রাখুন; চারা লেগে যাওয়ার পর পর্যায়ক্রমে ভেজানো ও শুকানো জল বাঁচায়",
+    "irrigation.forecast_rain": "পূর্বাভাসের বৃষ্টি শিকড় অঞ্চলে প্রায় {rain} মিমি জল দেবে; সেচের আগে আবার দেখে নিন",
+    "irrigation_method.flood": "প্লাবন সেচ",
+    "irrigation_method.furrow": "নালা সেচ",
+    "irrigation_method.sprinkler": "স্প্রিংকলার সেচ",
+    "irrigation_method.drip": "ড্রিপ সেচ",
+    "water_stage.initial": "প্রাথমিক",
+    "water_stage.development": "বৃদ্ধি",
+    "water_stage.mid": "মধ্য",
+    "water_stage.late": "শেষ",
+    "crop_stage.moisture_sensitive": "{stage} পর্যায়টি আর্দ্রতার প্রতি সংবেদনশীল এবং মাত্র {rain} মিমি বৃষ্টির পূর্বাভাস আছে; জলের পরিকল্পনার জন্য irrigation-planner চালান",
+    "crop_stage.critical_next": "{stage} (সেচের জন্য গুরুত্বপূর্ণ) প্রায় {date} তারিখে প্রত্যাশিত",
+    "crop_stage.missing_days": "বপনের পর {days} দিনের তাপমাত্রার তথ্য নেই; সঞ্চিত GDD প্রকৃতের চেয়ে কম",
+    "crop_stage.projection": "পূর্বাভাসের পরের পর্যায়গুলি সাম্প্রতিক গড় {rate} GDD/দিন হারে অনুমান করা হয়েছে",
+    "mandi.sell": "বর্তমান দাম (₹{price}) গড়ের চেয়ে {percent}% বেশি",
+    "mandi.hold": "বর্তমান দাম (₹{price}) গড়ের চেয়ে কম। ভালো দামের জন্য অপেক্ষা করুন",
+    "mandi.monitor": "দাম গড়ের কাছাকাছি। প্রবণতার পরিবর্তনের দিকে নজর রাখুন",
+    "mandi.verify": "এই পণ্য ও স্থানের জন্য মান্ডির নথিভুক্ত দাম নেই; সংখ্যাগুলি অনুমাননির্ভর। বিক্রির আগে সর্বশেষ দাম যাচাই করুন",
+    "mandi.no_forecast": "পূর্বাভাসের জন্য দামের ইতিহাস যথেষ্ট নয় (অন্তত 3 দিন প্রয়োজন)",
+    "mandi.best_market": "সেরা নিট আয়: {market} ({distance} কিমি), {quantity} কুইন্টালে ₹{transport}/কুইন্টাল পরিবহন খরচের পরে প্রায় ₹{net}",
+    "mandi.no_origin": "দূরত্ব ও পরিবহন খরচ অনুযায়ী মান্ডি সাজাতে জেলা বা অক্ষাংশ/দ্রাঘিমাংশ দিন",
+    "mandi.distance_only": "এই মান্ডিগুলির নথিভুক্ত দাম নেই: এগুলিতে অনুমাননির্ভর দাম দেওয়া এবং শুধু দূরত্ব অনুযায়ী সাজানো, দামের তুলনা নয়",
+    "anomaly.own_above": "{price} {market}-এর {days} দিনের মধ্যমা দাম {median}-এর চেয়ে {percent}% বেশি (robust z {z})",
+    "anomaly.own_below": "{price} {market}-এর {days} দিনের মধ্যমা দাম {median}-এর চেয়ে {percent}% কম (robust z {z})",
+    "anomaly.peer_above": "{price} সেদিন {place}-এর অন্য {count}টি মান্ডির মধ্যমা দামের চেয়ে {percent}% বেশি ({median}, robust z {z})",
+    "anomaly.peer_below": "{price} সেদিন {place}-এর অন্য {count}টি মান্ডির মধ্যমা দামের চেয়ে {percent}% কম ({median}, robust z {z})",
+    "anomaly.inconsistent": "নথিভুক্ত সর্বনিম্ন/মডেল/সর্বোচ্চ দাম {min}/{modal}/{max} ক্রমানুসারে নেই",
+    "alert.all_markets": "সব মান্ডি",
+    "alert.subject": "{date} তারিখে {commodity} ({where}) ₹{price}/কুইন্টাল",
+    "alert.change": "{subject}, {date} (₹{reference}) থেকে {percent}% বদলেছে, {threshold}% সতর্কসীমার বাইরে",
+    "alert.above": "{subject}, ₹{threshold} সতর্কসীমার উপরে",
+    "alert.below": "{subject}, ₹{threshold} সতর্কসীমার নিচে",
+    "pest.no_match": "জানানো লক্ষণগুলি এই ফসলের কোনো পরিচিত সমস্যার সঙ্গে কারণ বলার মতো যথেষ্ট মেলে না",
+    "pest.check_symptoms": "check_for-এ দেওয়া লক্ষণগুলির জন্য গাছ পরীক্ষা করে আবার নির্ণয় চালান",
+    "pest.take_photos": "আক্রান্ত পাতা, কাণ্ড, ফল ও পুরো গাছের পরিষ্কার ছবি তুলুন",
+    "pest.consult": "স্প্রে করার আগে নিকটবর্তী কৃষি বিজ্ঞান কেন্দ্র বা কৃষি সম্প্রসারণ আধিকারিকের পরামর্শ নিন",
+    "pest.monitoring": "নিয়মিত জমি পর্যবেক্ষণ করুন",
+    "pest.rotation": "শস্য পর্যায় অনুসরণ করুন",
+    "pest.hygiene": "জমি পরিষ্কার রাখুন",
+    "pest.resistant_varieties": "পাওয়া গেলে প্রতিরোধী জাত ব্যবহার করুন",
+    "pest.ipm": "সমন্বিত বালাই ব্যবস্থাপনা (IPM)",
+    "pest.season_assumed": "আজকের তারিখ থেকে মরসুম {season} ধরা হয়েছে; ফসল অন্য মরসুমে বোনা হলে season দিন",
+    "pest.no_location": "স্থান দেওয়া হয়নি; নির্ণয়ে আবহাওয়া বিবেচনা করা হয়নি",
+    "pest.weather_unavailable": "{location}-এর আবহাওয়া পাওয়া যায়নি ({reason}); নির্ণয়ে আবহাওয়া বিবেচনা করা হয়নি",
+    "pest.label_language": "পণ্যের নাম, মাত্রা ও বিবরণ ইংরেজিতে দেওয়া হয়েছে, যেমন পণ্যের লেবেলে ছাপা থাকে",
+    "pest.footnote": "সম্ভাবনাগুলি এই ফসলের পরিচিত সমস্যাগুলির সাপেক্ষে; মাত্রা ও ফসল তোলার আগের বিরতির জন্য পণ্যের লেবেল মেনে চলুন",
+    "season.kharif": "খরিফ",
+    "season.rabi": "রবি",
+    "season.zaid": "জায়িদ"
+};
+
+const CATALOGS: Record<Language, Catalog> = { en, hi, pa, mr, gu, bn };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/**
+ * Message lookup for one language; {name} placeholders are filled from params and missing keys fall back to English
+ */
+export const translator = (language: Language): Translate => (key, params = {}) =>
+    (CATALOGS[language][key] ?? en[key]).replace(/\{(\w+)\}/g, (placeholder, name) =>
+        params[name] !== undefined ? String(params[name]) : placeholder);
@@ -0,0 +1,121 @@
+// src/metrics.ts - Prometheus metrics for tool calls and upstream providers
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from "prom-client";
+
+// Transport a tool call arrived on
+export type Transport = "mcp" | "http" | "stdio";
+
+// Outbound providers we time
+export type UpstreamProvider = "datagovin" | "exa" | "weather";
+
+// Outcome of a tool call as seen by the caller
+export type ToolOutcome = "success" | "error" | "invalid_params" | "not_found";
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+const toolRequests = new Counter({
+    name: "agri_tool_requests_total",
+    help: "Tool calls by tool, transport and outcome",
+    labelNames: ["tool", "transport", "outcome"] as const,
+    registers: [metricsRegistry]
+});
+
+const toolErrors = new Counter({
+    name: "agri_tool_errors_total",
+    help: "Tool calls that did not succeed, by tool, transport and outcome",
+    labelNames: ["tool", "transport", "outcome"] as const,
+    registers: [metricsRegistry]
+});
+
+const toolDuration = new Histogram({
+    name: "agri_tool_request_duration_seconds",
+    help: "Tool call latency in seconds, including argument validation",
+    labelNames: ["tool", "transport"] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [metricsRegistry]
+});
+
+const upstreamDuration = new Histogram({
+    name: "agri_upstream_request_duration_seconds",
+    help: "Outbound request latency in seconds by provider and HTTP status",
+    labelNames: ["provider", "status"] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [metricsRegistry]
+});
+
+const upstreamRetries = new Counter({
+    name: "agri_upstream_retries_total",
+    help: "Outbound requests retried after a timeout, network error, 429 or 5xx",
+    labelNames: ["provider"] as const,
+    registers: [metricsRegistry]
+});
+
+const upstreamCircuitOpen = new Gauge({
+    name: "agri_upstream_circuit_open",
+    help: "1 while the provider's circuit breaker is open (failing fast), 0 otherwise",
+    labelNames: ["provider"] as const,
+    registers: [metricsRegistry]
+});
+
+const cacheLookups = new Counter({
+    name: "agri_cache_lookups_total",
+    help: "Cache lookups by cache and status (hit, miss, coalesced, stale)",
+    labelNames: ["cache", "status"] as const,
+    registers: [metricsRegistry]
+});
+
+const cacheEntries = new Gauge({
+    name: "agri_cache_entries",
+    help: "Entries currently held per cache",
+    labelNames: ["cache"] as const,
+    registers: [metricsRegistry]
+});
+
+/**
+ * Record a finished tool call
+ */
+export const recordToolCall = (tool: string, transport: Transport, outcome: ToolOutcome, durationSeconds: number) => {
+    // Unknown tool names come from the caller; collapse them so they cannot blow up label cardinality
+    const toolLabel = outcome === "not_found" ? "unknown" : tool;
+
+    toolRequests.inc({ tool: toolLabel, transport, outcome });
+    if (outcome !== "success") {
+        toolErrors.inc({ tool: toolLabel, transport, outcome });
+    }
+    toolDuration.observe({ tool: toolLabel, transport }, durationSeconds);
+};
+
+/**
+ * Time an outbound call; the status label is the HTTP status, or "network_error" if the call threw
+ */
+export const timeUpstreamCall = async <T extends { status: number }>(
+    provider: UpstreamProvider,
+    call: () => Promise<T>
+): Promise<T> => {
+    const endTimer = upstreamDuration.startTimer({ provider });
+    try {
+        const response = await call();
+        endTimer({ status: String(response.status) });
+        return response;
+    } catch (err) {
+        endTimer({ status: "network_error" });
+        throw err;
+    }
+};
+
+export const recordUpstreamRetry = (provider: UpstreamProvider) => {
+    upstreamRetries.inc({ provider });
+};
+
+export const setCircuitOpen = (provider: UpstreamProvider, open: boolean) => {
+    upstreamCircuitOpen.set({ provider }, open ? 1 : 0);
+};
+
+export const recordCacheLookup = (cache: string, status: string) => {
+    cacheLookups.inc({ cache, status });
+};
+
+export const setCacheEntries = (cache: string, entries: number) => {
+    cacheEntries.set({ cache }, entries);
+};
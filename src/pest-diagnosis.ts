@@ -0,0 +1,301 @@
+// src/pest-diagnosis.ts - Ranked differential diagnosis of pests, diseases and deficiencies from reported symptoms and field conditions
+import { CropPestKnowledge, PestEntry, SymptomSynonyms, hasWeatherLimits, weatherFavours } from "./pest-knowledge.js";
+import { WeatherDay } from "./weather.js";
+
+export type CropSeason = "kharif" | "rabi" | "zaid";
+
+export interface DiagnosisInput {
+    symptoms: string;
+    image_description?: string;
+    season: CropSeason;
+    // Recent days at the field; omitted when no location was given or weather was unavailable
+    weather?: WeatherDay[];
+}
+
+export interface SymptomEvidence {
+    reported: string;
+    matched: string;
+    similarity: number;
+}
+
+export interface DiagnosisCandidate {
+    entry: PestEntry;
+    // Share of belief after normalising over the crop's problems and "something else"
+    probability: number;
+    scores: {
+        symptom_match: number;
+        image_match: number | null;
+        season_factor: number;
+        weather_factor: number | null;
+    };
+    evidence: {
+        matched_symptoms: SymptomEvidence[];
+        unmatched_symptoms: string[];
+        image_terms: string[];
+        season: { current: CropSeason; in_season: boolean };
+        weather: { favourable_days: string[]; days_checked: number } | null;
+    };
+}
+
+export interface Diagnosis {
+    status: "identified" | "no_confident_match";
+    candidates: DiagnosisCandidate[];
+    // Probability that none of the crop's known problems explains the report
+    unexplained_probability: number;
+    // Reported symptoms after synonym and plural/tense normalisation
+    normalized_symptoms: string[];
+    image_terms: string[];
+}
+
+// Log-likelihood weights: symptoms carry the diagnosis, the photo description corroborates it
+const SYMPTOM_WEIGHT = 6;
+const IMAGE_WEIGHT = 2.5;
+// Match level a known problem has to beat to be more likely than something outside the knowledge base
+const UNKNOWN_MATCH_LEVEL = 0.35;
+// Likelihood multipliers for an out-of-season problem and for recent weather (none favourable .. all favourable)
+const OUT_OF_SEASON_FACTOR = 0.35;
+const WEATHER_FACTOR = { min: 0.6, max: 1.4 };
+// A reported phrase counts as explained at this similarity
+const PHRASE_MATCH_THRESHOLD = 0.5;
+// Phrase similarity blends the closest single symptom with coverage by everything known about the problem
+const BEST_PHRASE_SHARE = 0.5;
+// The top candidate is only named when it is this likely and its symptoms, not just the context, fit
+const CONFIDENT_PROBABILITY = 0.6;
+const MIN_CONFIDENT_SYMPTOM_MATCH = 0.5;
+const MAX_CANDIDATES = 5;
+const MIN_CANDIDATE_PROBABILITY = 0.01;
+
+const STOPWORDS = new Set([
+    "a", "an", "the", "of", "on", "in", "at", "to", "from", "with", "by", "for", "and", "or", "is", "are", "was", "were",
+    "be", "been", "has", "have", "it", "its", "my", "our", "this", "that", "these", "those", "some", "many", "few", "very",
+    "also", "there", "seen", "observed", "noticed", "found", "showing", "shows", "like", "near", "into", "as", "after", "before",
+    "today", "yesterday", "week", "weeks", "day", "days", "farm", "field", "crop", "lot", "lots", "getting", "becoming",
+    // Romanized Hindi/Punjabi and Hindi, Punjabi and Marathi function words
+    "hai", "hain", "ho", "raha", "rahe", "rahi", "gaya", "gaye", "gayi", "me", "mein", "par", "pe", "ka", "ki", "ke", "se", "ko", "rang",
+    "है", "हैं", "में", "पर", "का", "की", "के", "से", "को", "रहा", "रहे", "रही", "गया", "गए", "गई", "रंग",
+    "ਹੈ", "ਹਨ", "ਵਿੱਚ", "ਤੇ", "ਦਾ", "ਦੀ", "ਦੇ", "ਰਿਹਾ", "ਰਹੇ", "ਰਹੀ", "ਗਏ", "ਗਈ", "ਰੰਗ",
+    "आहे", "आहेत", "वर", "मध्ये", "चा", "ची", "चे", "झाली", "झाले", "होत"
+]);
+
+// Word characters include combining marks, which Devanagari and Gurmukhi vowel signs are
+const WORD_CHAR = "[\\p{L}\\p{M}\\p{N}]";
+const NON_WORD = /[^\p{L}\p{M}\p{N}]+/u;
+// Separators between reported symptoms: punctuation, the danda and "and" in the supported languages
+const SYMPTOM_SEPARATOR = new RegExp(`[,;\\n।]|(?<!${WORD_CHAR})(?:and|aur|और|ਅਤੇ|आणि|અને|এবং)(?!${WORD_CHAR})`, "iu");
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Crude English plural and tense stripping, enough to line up "curled"/"curling"/"curls"
+ */
+const stem = (word: string) => {
+    if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+    if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+    if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+    if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") && !word.endsWith("us")) return word.slice(0, -1);
+    return word;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+type Normalizer = (text: string) => string[];
+
+const normalizers = new WeakMap<SymptomSynonyms, Normalizer>();
+const NO_SYNONYMS: SymptomSynonyms = { schema_version: 1, version: "0.0.0", updated: "1970-01-01", synonyms: {} };
+
+/**
+ * Tokeniser mapping synonyms (multi-word ones first) to their canonical terms
+ */
+const symptomNormalizer = (synonyms: SymptomSynonyms | null): Normalizer => {
+    const source = synonyms ?? NO_SYNONYMS;
+    const cached = normalizers.get(source);
+    if (cached) return cached;
+
+    const words = new Map<string, string>();
+    const phrases: [string, string][] = [];
+    for (const [canonical, variants] of Object.entries(source.synonyms)) {
+        for (const variant of variants.map(v => v.trim().normalize("NFC").toLowerCase())) {
+            if (/\s/.test(variant)) {
+                phrases.push([variant, canonical]);
+            } else {
+                words.set(variant, canonical);
+                if (!words.has(stem(variant))) words.set(stem(variant), canonical);
+            }
+        }
+    }
+    const patterns = phrases
+        .sort((a, b) => b[0].length - a[0].length)
+        .map(([variant, canonical]) => [new RegExp(`(?<!${WORD_CHAR})${escapeRegExp(variant)}(?!${WORD_CHAR})`, "gu"), canonical] as const);
+
+    const normalize: Normalizer = text => {
+        let lowered = text.normalize("NFC").toLowerCase();
+        for (const [pattern, canonical] of patterns) lowered = lowered.replace(pattern, canonical);
+        return lowered
+            .split(NON_WORD)
+            .filter(word => word && !STOPWORDS.has(word))
+            .flatMap(word => (words.get(word) ?? words.get(stem(word)) ?? stem(word)).split(" "));
+    };
+    normalizers.set(source, normalize);
+    return normalize;
+};
+
+interface IndexedEntry {
+    entry: PestEntry;
+    // Symptoms plus the entry's own names, so "whitefly", a local name or a translated name matches directly
+    phrases: { text: string; tokens: Set<string> }[];
+    vocabulary: Set<string>;
+}
+
+interface CropIndex {
+    normalize: Normalizer;
+    entries: IndexedEntry[];
+    // Inverse document frequency: terms shared by many problems ("leaf", "yellow") say less than rare ones ("girdle")
+    idf: Map<string, number>;
+    // Weight of a term no problem mentions: rarer than any known term, so unexplained words pull the match down
+    unknownWeight: number;
+}
+
+const indexes = new WeakMap<CropPestKnowledge, CropIndex>();
+
+const cropIndex = (knowledge: CropPestKnowledge, normalize: Normalizer): CropIndex => {
+    const cached = indexes.get(knowledge);
+    if (cached && cached.normalize === normalize) return cached;
+
+    const entries = knowledge.entries.map(entry => {
+        const phrases = [...entry.symptoms, entry.name, ...entry.local_names, ...Object.values(entry.names)]
+            .map(text => ({ text, tokens: new Set(normalize(text)) }));
+        const vocabulary = new Set([...phrases.flatMap(p => Array.from(p.tokens)), ...entry.affected_parts.flatMap(normalize)]);
+        return { entry, phrases, vocabulary };
+    });
+
+    const documentFrequency = new Map<string, number>();
+    for (const { vocabulary } of entries) {
+        for (const term of vocabulary) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+    const idf = new Map(Array.from(documentFrequency, ([term, df]) => [term, Math.log(1 + entries.length / df)]));
+
+    const index = { normalize, entries, idf, unknownWeight: Math.log(1 + 2 * entries.length) };
+    indexes.set(knowledge, index);
+    return index;
+};
+
+/**
+ * Season a calendar date falls in: kharif June-October, rabi November-March, zaid April-May
+ */
+export const seasonOn = (date: string): CropSeason => {
+    const month = Number(date.slice(5, 7));
+    if (month >= 6 && month <= 10) return "kharif";
+    if (month >= 4 && month <= 5) return "zaid";
+    return "rabi";
+};
+
+/**
+ * Score every known problem of the crop against the report and rank them. Each candidate's log-likelihood
+ * combines an IDF-weighted symptom match, the photo description, the season and recent weather; a softmax
+ * over the candidates plus an "unexplained" baseline turns these into probabilities, so a weak match
+ * leaves most of the belief on "something else" instead of naming a default pest.
+ */
+export const diagnose = (knowledge: CropPestKnowledge, synonyms: SymptomSynonyms | null, input: DiagnosisInput): Diagnosis => {
+    const normalize = symptomNormalizer(synonyms);
+    const { entries, idf, unknownWeight } = cropIndex(knowledge, normalize);
+    const weight = (term: string) => idf.get(term) ?? unknownWeight;
+    const weightOf = (terms: Iterable<string>) => Array.from(terms).reduce((sum, term) => sum + weight(term), 0);
+
+    const reported = input.symptoms
+        .split(SYMPTOM_SEPARATOR)
+        .map(text => text.trim())
+        .map(text => ({ text, tokens: new Set(normalize(text)) }))
+        .filter(phrase => phrase.tokens.size > 0);
+
+    // Only photo terms the crop's knowledge base knows about carry evidence
+    const imageTokens = new Set(normalize(input.image_description ?? "").filter(term => idf.has(term)));
+    const useImage = imageTokens.size > 0;
+
+    const scored = entries.map(({ entry, phrases, vocabulary }) => {
+        const matched: SymptomEvidence[] = [];
+        const unmatched: string[] = [];
+        let explained = 0;
+        let total = 0;
+
+        for (const phrase of reported) {
+            const phraseWeight = weightOf(phrase.tokens);
+            const coverage = (terms: Set<string>) => weightOf(Array.from(phrase.tokens).filter(term => terms.has(term))) / phraseWeight;
+            let best = { similarity: 0, text: "" };
+            for (const candidate of phrases) {
+                const similarity = coverage(candidate.tokens);
+                if (similarity > best.similarity) best = { similarity, text: candidate.text };
+            }
+            const similarity = BEST_PHRASE_SHARE * best.similarity + (1 - BEST_PHRASE_SHARE) * coverage(vocabulary);
+            explained += similarity * phraseWeight;
+            total += phraseWeight;
+            if (similarity >= PHRASE_MATCH_THRESHOLD && best.text) {
+                matched.push({ reported: phrase.text, matched: best.text, similarity: round(similarity) });
+            } else {
+                unmatched.push(phrase.text);
+            }
+        }
+        const symptomMatch = total > 0 ? explained / total : 0;
+
+        const imageTerms = Array.from(imageTokens).filter(term => vocabulary.has(term));
+        const imageMatch = useImage ? weightOf(imageTerms) / weightOf(imageTokens) : null;
+
+        const inSeason = entry.seasons.includes(input.season);
+        const seasonFactor = inSeason ? 1 : OUT_OF_SEASON_FACTOR;
+
+        let weatherFactor: number | null = null;
+        let weather: DiagnosisCandidate["evidence"]["weather"] = null;
+        if (input.weather && input.weather.length > 0 && hasWeatherLimits(entry)) {
+            const favourable = input.weather.filter(day => weatherFavours(entry, day)).map(day => day.date);
+            weatherFactor = WEATHER_FACTOR.min + (WEATHER_FACTOR.max - WEATHER_FACTOR.min) * (favourable.length / input.weather.length);
+            weather = { favourable_days: favourable, days_checked: input.weather.length };
+        }
+
+        const logit = SYMPTOM_WEIGHT * symptomMatch
+            + (imageMatch !== null ? IMAGE_WEIGHT * imageMatch : 0)
+            + Math.log(seasonFactor)
+            + Math.log(weatherFactor ?? 1);
+
+        const candidate: DiagnosisCandidate = {
+            entry,
+            probability: 0,
+            scores: {
+                symptom_match: round(symptomMatch),
+                image_match: imageMatch !== null ? round(imageMatch) : null,
+                season_factor: seasonFactor,
+                weather_factor: weatherFactor !== null ? round(weatherFactor) : null
+            },
+            evidence: {
+                matched_symptoms: matched,
+                unmatched_symptoms: unmatched,
+                image_terms: imageTerms,
+                season: { current: input.season, in_season: inSeason },
+                weather
+            }
+        };
+        return { logit, candidate };
+    });
+
+    const unknownLogit = SYMPTOM_WEIGHT * UNKNOWN_MATCH_LEVEL + (useImage ? IMAGE_WEIGHT * UNKNOWN_MATCH_LEVEL : 0);
+    const peak = Math.max(unknownLogit, ...scored.map(s => s.logit));
+    const unknownMass = Math.exp(unknownLogit - peak);
+    const normaliser = scored.reduce((sum, s) => sum + Math.exp(s.logit - peak), unknownMass);
+
+    const candidates = scored
+        .map(({ logit, candidate }) => ({ ...candidate, probability: round(Math.exp(logit - peak) / normaliser, 3) }))
+        .sort((a, b) => b.probability - a.probability)
+        .filter(c => c.probability >= MIN_CANDIDATE_PROBABILITY)
+        .slice(0, MAX_CANDIDATES);
+
+    const top = candidates[0];
+    const confident = !!top && top.probability >= CONFIDENT_PROBABILITY
+        && top.scores.symptom_match >= MIN_CONFIDENT_SYMPTOM_MATCH
+        && top.evidence.matched_symptoms.length > 0;
+
+    return {
+        status: confident ? "identified" : "no_confident_match",
+        candidates,
+        unexplained_probability: round(unknownMass / normaliser, 3),
+        normalized_symptoms: reported.map(phrase => Array.from(phrase.tokens).join(" ")),
+        image_terms: Array.from(imageTokens)
+    };
+};
@@ -0,0 +1,289 @@
+// src/pest-knowledge.ts - Versioned pest, disease and deficiency knowledge base loaded from JSON files, with validated hot reload
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { CROP_PHENOLOGY } from "./reference-data.js";
+import { LANGUAGE_CODES, resolveLocalCropName } from "./i18n.js";
+import { WeatherDay } from "./weather.js";
+
+export const PEST_KB_SCHEMA_VERSION = 1;
+
+const treatmentSchema = z.object({
+    product: z.string().min(1),
+    dosage: z.string().min(1),
+    // Pre-harvest interval in days; omitted when it depends on the product label
+    phi_days: z.number().int().min(0).optional(),
+    notes: z.string().optional()
+});
+
+const pestEntrySchema = z.object({
+    id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "id must be lowercase kebab-case"),
+    name: z.string().min(1),
+    type: z.enum(["insect", "disease", "deficiency"]),
+    scientific_name: z.string().optional(),
+    // Causal organism class for diseases
+    pathogen: z.enum(["fungus", "bacterium", "virus", "oomycete", "nematode", "phytoplasma"]).optional(),
+    local_names: z.array(z.string().min(1)).default([]),
+    // Display name per response language code (e.g. { "hi": "पीला रतुआ" }); English uses name
+    names: z.record(z.string().min(1)).default({}),
+    symptoms: z.array(z.string().min(1)).min(1),
+    affected_parts: z.array(z.string().min(1)).min(1),
+    // Growth stages when the problem appears; stage names from CROP_PHENOLOGY where the crop has a model
+    stages: z.array(z.string().min(1)).min(1),
+    seasons: z.array(z.enum(["kharif", "rabi", "zaid"])).min(1),
+    favourable_weather: z.object({
+        temperature_c: z.object({ min: z.number().nullable(), max: z.number().nullable() }).optional(),
+        humidity_min: z.number().min(0).max(100).optional(),
+        rain: z.enum(["wet", "dry", "any"]).default("any"),
+        description: z.string().optional()
+    }),
+    severity: z.enum(["low", "medium", "high"]),
+    economic_threshold: z.string().optional(),
+    treatments: z.object({
+        chemical: z.array(treatmentSchema),
+        organic: z.array(treatmentSchema),
+        cultural: z.array(z.string().min(1))
+    })
+});
+
+const pestKnowledgeFileSchema = z.object({
+    schema_version: z.literal(PEST_KB_SCHEMA_VERSION),
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, "version must be semantic (e.g. 1.2.0)"),
+    updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    crop: z.string().regex(/^[a-z]+(-[a-z]+)*$/),
+    aliases: z.array(z.string().min(1)).default([]),
+    notes: z.string().optional(),
+    entries: z.array(pestEntrySchema).min(1)
+});
+
+const symptomSynonymsSchema = z.object({
+    schema_version: z.literal(PEST_KB_SCHEMA_VERSION),
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, "version must be semantic (e.g. 1.2.0)"),
+    updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    notes: z.string().optional(),
+    // Canonical symptom term -> words and phrases meaning the same thing
+    synonyms: z.record(z.array(z.string().min(1)))
+});
+
+export type PestEntry = z.infer<typeof pestEntrySchema>;
+export type PestTreatment = z.infer<typeof treatmentSchema>;
+export type CropPestKnowledge = z.infer<typeof pestKnowledgeFileSchema>;
+export type SymptomSynonyms = z.infer<typeof symptomSynonymsSchema>;
+
+export interface PestKnowledge {
+    crops: Map<string, CropPestKnowledge & { file: string }>;
+    // Lowercase crop name or alias -> crop key
+    aliases: Map<string, string>;
+    synonyms: SymptomSynonyms | null;
+    loaded_at: string | null;
+}
+
+export interface PestKnowledgeReload {
+    ok: boolean;
+    crops: number;
+    entries: number;
+    // Crop files that changed version in this reload
+    updated: { crop: string; from: string | null; to: string }[];
+    removed: string[];
+    // Files that failed validation; the previously loaded version of each stays in service
+    errors: string[];
+}
+
+const PEST_KB_DIR = path.resolve(process.env.PEST_KB_DIR ?? "knowledge/pests");
+const SYMPTOM_SYNONYMS_FILE = path.resolve(process.env.SYMPTOM_SYNONYMS_FILE ?? "knowledge/symptom-synonyms.json");
+
+let current: PestKnowledge = { crops: new Map(), aliases: new Map(), synonyms: null, loaded_at: null };
+let loading: Promise<PestKnowledgeReload> | null = null;
+let reloading: Promise<PestKnowledgeReload> | null = null;
+let lastReload: PestKnowledgeReload | null = null;
+
+const formatIssues = (file: string, error: z.ZodError) =>
+    error.issues.map(issue => `${file}: ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+
+/**
+ * Parse and validate one crop file; problems come back as messages rather than exceptions
+ */
+const readKnowledgeFile = async (file: string): Promise<{ knowledge?: CropPestKnowledge; errors: string[] }> => {
+    const name = path.basename(file);
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (err) {
+        return { errors: [`${name}: ${err instanceof Error ? err.message : String(err)}`] };
+    }
+
+    const parsed = pestKnowledgeFileSchema.safeParse(raw);
+    if (!parsed.success) return { errors: formatIssues(name, parsed.error) };
+
+    const knowledge = parsed.data;
+    const errors: string[] = [];
+    if (`${knowledge.crop}.json` !== name) {
+        errors.push(`${name}: crop '${knowledge.crop}' does not match the file name`);
+    }
+
+    const ids = new Set<string>();
+    const stageNames = CROP_PHENOLOGY[knowledge.crop]?.stages.map(stage => stage.name);
+    knowledge.entries.forEach((entry, i) => {
+        if (ids.has(entry.id)) errors.push(`${name}: entries.${i}.id: duplicate id '${entry.id}'`);
+        ids.add(entry.id);
+        const languages = Object.keys(entry.names).filter(code => !(LANGUAGE_CODES as readonly string[]).includes(code));
+        if (languages.length > 0) {
+            errors.push(`${name}: entries.${i}.names: unknown language(s) ${languages.join(", ")}; expected one of ${LANGUAGE_CODES.join(", ")}`);
+        }
+        const unknown = stageNames ? entry.stages.filter(stage => !stageNames.includes(stage)) : [];
+        if (unknown.length > 0) {
+            errors.push(`${name}: entries.${i}.stages: unknown stage(s) ${unknown.join(", ")}; expected one of ${stageNames!.join(", ")}`);
+        }
+    });
+
+    return errors.length > 0 ? { errors } : { knowledge, errors };
+};
+
+/**
+ * Parse and validate the symptom synonym file; a missing file means no synonyms
+ */
+const readSynonymsFile = async (file: string): Promise<{ synonyms?: SymptomSynonyms | null; errors: string[] }> => {
+    const name = path.basename(file);
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (err: any) {
+        if (err?.code === "ENOENT") return { synonyms: null, errors: [] };
+        return { errors: [`${name}: ${err instanceof Error ? err.message : String(err)}`] };
+    }
+
+    const parsed = symptomSynonymsSchema.safeParse(raw);
+    return parsed.success ? { synonyms: parsed.data, errors: [] } : { errors: formatIssues(name, parsed.error) };
+};
+
+/**
+ * Read every crop file in the knowledge directory and swap in the result. A file that fails validation
+ * does not take its crop offline: the previously loaded version stays in service and the error is reported.
+ */
+const loadKnowledge = async (): Promise<PestKnowledgeReload> => {
+    const names = (await fs.readdir(PEST_KB_DIR)).filter(name => name.endsWith(".json")).sort();
+    const previous = current;
+    const crops: PestKnowledge["crops"] = new Map();
+    const errors: string[] = [];
+
+    for (const name of names) {
+        const result = await readKnowledgeFile(path.join(PEST_KB_DIR, name));
+        errors.push(...result.errors);
+        const crop = result.knowledge?.crop ?? name.replace(/\.json$/, "");
+        if (result.knowledge) {
+            crops.set(crop, { ...result.knowledge, file: name });
+        } else if (previous.crops.has(crop)) {
+            crops.set(crop, previous.crops.get(crop)!);
+        }
+    }
+
+    const aliases = new Map<string, string>();
+    for (const [crop, knowledge] of crops) {
+        for (const alias of [crop, ...knowledge.aliases]) {
+            const key = alias.trim().toLowerCase();
+            const claimed = aliases.get(key);
+            if (claimed && claimed !== crop) {
+                errors.push(`${knowledge.file}: alias '${alias}' is already used by ${claimed}`);
+                continue;
+            }
+            aliases.set(key, crop);
+        }
+    }
+
+    const synonymsResult = await readSynonymsFile(SYMPTOM_SYNONYMS_FILE);
+    errors.push(...synonymsResult.errors);
+    const synonyms = synonymsResult.synonyms !== undefined ? synonymsResult.synonyms : previous.synonyms;
+
+    current = { crops, aliases, synonyms, loaded_at: new Date().toISOString() };
+
+    const updated = Array.from(crops.values())
+        .filter(k => previous.crops.get(k.crop)?.version !== k.version)
+        .map(k => ({ crop: k.crop, from: previous.crops.get(k.crop)?.version ?? null, to: k.version }));
+    const entries = Array.from(crops.values()).reduce((sum, k) => sum + k.entries.length, 0);
+    return {
+        ok: errors.length === 0,
+        crops: crops.size,
+        entries,
+        updated,
+        removed: Array.from(previous.crops.keys()).filter(crop => !crops.has(crop)),
+        errors
+    };
+};
+
+/**
+ * Re-read the knowledge files; concurrent calls share one reload
+ */
+export const reloadPestKnowledge = () => {
+    if (!reloading) {
+        reloading = loadKnowledge()
+            .then(result => {
+                lastReload = result;
+                if (result.errors.length > 0) console.error(`Pest knowledge base: ${result.errors.length} validation error(s)`, result.errors);
+                return result;
+            })
+            .finally(() => { reloading = null; });
+    }
+    return reloading;
+};
+
+/**
+ * The knowledge base, loaded on first use
+ */
+export const loadPestKnowledge = async () => {
+    if (!loading) {
+        loading = reloadPestKnowledge();
+        // Let a later call retry after a failed load
+        loading.catch(() => { loading = null; });
+    }
+    await loading;
+    return current;
+};
+
+/**
+ * Whatever is loaded right now, for synchronous readers such as MCP resources
+ */
+export const getPestKnowledge = () => current;
+
+/**
+ * A crop's knowledge by name, alias or local-language name (e.g. "paddy" or "ਝੋਨਾ" -> rice)
+ */
+export const findCropKnowledge = (knowledge: PestKnowledge, crop: string) => {
+    const key = knowledge.aliases.get(crop.trim().toLowerCase()) ?? knowledge.aliases.get(resolveLocalCropName(crop) ?? "");
+    return key ? knowledge.crops.get(key) : undefined;
+};
+
+/**
+ * Whether the entry states any temperature, humidity or rain conditions that favour it
+ */
+export const hasWeatherLimits = (entry: PestEntry) => {
+    const { temperature_c: temperature, humidity_min, rain } = entry.favourable_weather;
+    return !!temperature || humidity_min !== undefined || rain !== "any";
+};
+
+/**
+ * Whether a day's weather falls inside an entry's favourable conditions; entries without weather limits never match
+ */
+export const weatherFavours = (entry: PestEntry, day: WeatherDay) => {
+    if (!hasWeatherLimits(entry)) return false;
+    const { temperature_c: temperature, humidity_min, rain } = entry.favourable_weather;
+
+    const mean = (day.temperature.max + day.temperature.min) / 2;
+    if (temperature?.min != null && mean < temperature.min) return false;
+    if (temperature?.max != null && mean > temperature.max) return false;
+    if (humidity_min !== undefined && day.humidity < humidity_min) return false;
+    if (rain === "wet" && day.rainfall < 1) return false;
+    if (rain === "dry" && day.rainfall >= 1) return false;
+    return true;
+};
+
+/**
+ * Loaded versions and the outcome of the last reload for /health
+ */
+export const getPestKnowledgeStatus = () => ({
+    directory: PEST_KB_DIR,
+    schema_version: PEST_KB_SCHEMA_VERSION,
+    loaded_at: current.loaded_at,
+    symptom_synonyms: current.synonyms ? { version: current.synonyms.version, terms: Object.keys(current.synonyms.synonyms).length } : null,
+    crops: Object.fromEntries(Array.from(current.crops.values()).map(k => [k.crop, { version: k.version, updated: k.updated, entries: k.entries.length }])),
+    errors: lastReload?.errors ?? []
+});
@@ -0,0 +1,122 @@
+// src/price-aggregation.ts - Server-side statistics over normalized crop-price records
+import { CropPriceRecord } from "./crop-price-records.js";
+
+export interface MarketPriceSummary {
+    commodity: string;
+    state: string;
+    district: string;
+    market: string;
+    records: number;
+    min_price: number | null;
+    max_price: number | null;
+    modal_price: number | null;
+    latest_modal_price: number | null;
+    latest_arrival_date: string | null;
+}
+
+export interface DistrictPriceSummary {
+    commodity: string;
+    state: string;
+    district: string;
+    markets: number;
+    records: number;
+    average_min_price: number | null;
+    average_max_price: number | null;
+    average_modal_price: number | null;
+}
+
+export interface PriceAggregation {
+    records: number;
+    latest_arrival_date: string | null;
+    by_market: MarketPriceSummary[];
+    by_district: DistrictPriceSummary[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const average = (values: number[]) => values.length > 0 ? round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+
+const median = (values: number[]) => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+const latestDate = (dates: (string | null)[]) =>
+    dates.filter((d): d is string => d !== null).sort().pop() ?? null;
+
+/**
+ * Min/max/modal price per commodity per market, per-district averages and the latest arrival date
+ */
+export const aggregatePrices = (records: CropPriceRecord[]): PriceAggregation => {
+    // Group on canonical ids so casing differences in the source do not split a market
+    const markets = new Map<string, CropPriceRecord[]>();
+    for (const record of records) {
+        const key = [record.commodity_id, record.state_id, record.district_id, record.market_id].join("|");
+        const group = markets.get(key);
+        if (group) group.push(record);
+        else markets.set(key, [record]);
+    }
+
+    const byMarket: MarketPriceSummary[] = Array.from(markets.values()).map(marketRecords => {
+        const { commodity, state, district, market } = marketRecords[0];
+        const prices = (pick: (r: CropPriceRecord) => number | null) =>
+            marketRecords.map(pick).filter((p): p is number => p !== null);
+        const mins = prices(r => r.min_price);
+        const maxes = prices(r => r.max_price);
+
+        const dated = marketRecords
+            .filter(r => r.arrival_date !== null && r.modal_price !== null)
+            .sort((a, b) => a.arrival_date!.localeCompare(b.arrival_date!));
+        const latest = dated[dated.length - 1];
+
+        return {
+            commodity,
+            state,
+            district,
+            market,
+            records: marketRecords.length,
+            min_price: mins.length > 0 ? Math.min(...mins) : null,
+            max_price: maxes.length > 0 ? Math.max(...maxes) : null,
+            modal_price: median(prices(r => r.modal_price)),
+            latest_modal_price: latest?.modal_price ?? null,
+            latest_arrival_date: latestDate(marketRecords.map(r => r.arrival_date))
+        };
+    });
+
+    const districts = new Map<string, MarketPriceSummary[]>();
+    for (const summary of byMarket) {
+        const key = JSON.stringify([summary.commodity, summary.state, summary.district]);
+        const group = districts.get(key);
+        if (group) group.push(summary);
+        else districts.set(key, [summary]);
+    }
+
+    // District averages weight each market equally so one busy mandi does not dominate
+    const byDistrict: DistrictPriceSummary[] = Array.from(districts.values()).map(summaries => {
+        const { commodity, state, district } = summaries[0];
+        const values = (pick: (s: MarketPriceSummary) => number | null) =>
+            summaries.map(pick).filter((p): p is number => p !== null);
+
+        return {
+            commodity,
+            state,
+            district,
+            markets: summaries.length,
+            records: summaries.reduce((sum, s) => sum + s.records, 0),
+            average_min_price: average(values(s => s.min_price)),
+            average_max_price: average(values(s => s.max_price)),
+            average_modal_price: average(values(s => s.modal_price))
+        };
+    });
+
+    return {
+        records: records.length,
+        latest_arrival_date: latestDate(byMarket.map(s => s.latest_arrival_date)),
+        by_market: byMarket.sort((a, b) =>
+            a.commodity.localeCompare(b.commodity) || (b.modal_price ?? 0) - (a.modal_price ?? 0)),
+        by_district: byDistrict.sort((a, b) =>
+            a.commodity.localeCompare(b.commodity) || (b.average_modal_price ?? 0) - (a.average_modal_price ?? 0))
+    };
+};
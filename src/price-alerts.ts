@@ -0,0 +1,385 @@
+// src/price-alerts.ts - Price alert subscriptions evaluated against the price history, delivered to signed webhooks
+import path from "path";
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import fetch from "node-fetch";
+import { queryHistory, PriceObservation } from "./price-history.js";
+import { readJsonFile, writeJsonFile } from "./json-file.js";
+import { Language } from "./i18n.js";
+import { translator } from "./messages.js";
+import { BLOCKED_ADDRESS_CODE, webhookAgent, webhookUrlProblem } from "./webhook-target.js";
+
+export type AlertCondition = "above" | "below" | "change_percent";
+
+export interface AlertSubscription {
+    id: string;
+    commodity: string;
+    state?: string;
+    district?: string;
+    condition: AlertCondition;
+    // Price in ₹/quintal for above/below, percent for change_percent
+    threshold: number;
+    window_days: number;
+    webhook_url: string;
+    label?: string;
+    // Language of the webhook message; subscriptions stored before it existed get English
+    language?: Language;
+    // HMAC key for the X-Agri-Signature header; only shown when the subscription is created
+    secret: string;
+    created_at: string;
+    // Edge-triggered: a subscription fires once when its condition becomes true, then re-arms when it clears;
+    // it stays armed until a delivery succeeds
+    armed: boolean;
+    last_evaluated_at?: string;
+    last_price?: number;
+    last_triggered_at?: string;
+}
+
+export interface NewAlertSubscription {
+    commodity: string;
+    state?: string;
+    district?: string;
+    condition: AlertCondition;
+    threshold: number;
+    window_days: number;
+    webhook_url: string;
+    label?: string;
+    language?: Language;
+}
+
+export interface AlertDelivery {
+    id: string;
+    subscription_id: string;
+    url: string;
+    status: "delivered" | "failed";
+    attempts: number;
+    response_status?: number;
+    error?: string;
+    payload: AlertPayload;
+    created_at: string;
+    completed_at: string;
+}
+
+export interface AlertObservation {
+    price: number;
+    date: string;
+    markets: number;
+    reference_price?: number;
+    reference_date?: string;
+    change_percent?: number;
+}
+
+export interface AlertPayload {
+    event: "price.alert";
+    delivery_id: string;
+    subscription_id: string;
+    triggered_at: string;
+    subscription: Omit<NewAlertSubscription, "webhook_url">;
+    observation: AlertObservation;
+    message: string;
+}
+
+export interface EvaluationSummary {
+    evaluated: number;
+    triggered: number;
+    rearmed: number;
+    no_data: number;
+    deliveries: Pick<AlertDelivery, "id" | "subscription_id" | "status" | "attempts" | "response_status" | "error">[];
+}
+
+interface AlertsFile {
+    version: 1;
+    subscriptions: AlertSubscription[];
+    deliveries: AlertDelivery[];
+}
+
+const ALERTS_FILE = path.resolve(process.env.PRICE_ALERTS_FILE ?? "data/price-alerts.json");
+const MAX_DELIVERY_LOG = Number(process.env.ALERT_DELIVERY_LOG_SIZE ?? 500);
+const WEBHOOK_TIMEOUT_MS = Number(process.env.ALERT_WEBHOOK_TIMEOUT_MS ?? 5000);
+const WEBHOOK_MAX_RETRIES = Number(process.env.ALERT_WEBHOOK_MAX_RETRIES ?? 3);
+const WEBHOOK_RETRY_DELAY_MS = Number(process.env.ALERT_WEBHOOK_RETRY_DELAY_MS ?? 1000);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let loading: Promise<AlertsFile> | null = null;
+let saving: Promise<void> = Promise.resolve();
+let evaluating: Promise<EvaluationSummary> | null = null;
+
+const loadStore = () => {
+    if (!loading) {
+        loading = readJsonFile<AlertsFile>(ALERTS_FILE)
+            .then(file => file ?? { version: 1, subscriptions: [], deliveries: [] });
+        loading.catch(() => { loading = null; });
+    }
+    return loading;
+};
+
+const persist = (store: AlertsFile) => {
+    saving = saving.catch(() => undefined).then(() => writeJsonFile(ALERTS_FILE, store));
+    return saving;
+};
+
+const withoutSecret = ({ secret, ...subscription }: AlertSubscription) => subscription;
+
+export const createSubscription = async (input: NewAlertSubscription) => {
+    const store = await loadStore();
+    const subscription: AlertSubscription = {
+        id: randomUUID(),
+        commodity: input.commodity,
+        ...(input.state ? { state: input.state } : {}),
+        ...(input.district ? { district: input.district } : {}),
+        condition: input.condition,
+        threshold: input.threshold,
+        window_days: input.window_days,
+        webhook_url: input.webhook_url,
+        ...(input.label ? { label: input.label } : {}),
+        ...(input.language ? { language: input.language } : {}),
+        secret: randomBytes(32).toString("hex"),
+        created_at: new Date().toISOString(),
+        armed: true
+    };
+    store.subscriptions.push(subscription);
+    await persist(store);
+    return subscription;
+};
+
+export const listSubscriptions = async () => (await loadStore()).subscriptions.map(withoutSecret);
+
+/**
+ * Most recent deliveries first, optionally for one subscription
+ */
+export const listDeliveries = async (subscriptionId?: string, limit = 20) =>
+    (await loadStore()).deliveries
+        .filter(d => !subscriptionId || d.subscription_id === subscriptionId)
+        .slice(-limit)
+        .reverse();
+
+export const deleteSubscription = async (id: string) => {
+    const store = await loadStore();
+    const index = store.subscriptions.findIndex(s => s.id === id);
+    if (index === -1) return false;
+
+    store.subscriptions.splice(index, 1);
+    await persist(store);
+    return true;
+};
+
+/**
+ * Signature over "<timestamp>.<body>" so receivers can reject replays: X-Agri-Signature: t=<unix seconds>,v1=<hex hmac-sha256>
+ */
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+    `t=${timestamp},v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POST the payload, retrying network errors, 429 and 5xx with exponential backoff; each attempt is re-signed
+ */
+const deliver = async (subscription: AlertSubscription, payload: AlertPayload): Promise<AlertDelivery> => {
+    const body = JSON.stringify(payload);
+    const createdAt = new Date().toISOString();
+    let attempts = 0;
+    let responseStatus: number | undefined;
+    // Checked on every delivery, as subscriptions can predate the current allowlist; resolved names are checked by the agent
+    let error = webhookUrlProblem(subscription.webhook_url);
+    let blocked = error !== undefined;
+
+    while (!blocked && attempts <= WEBHOOK_MAX_RETRIES) {
+        if (attempts > 0) await sleep(WEBHOOK_RETRY_DELAY_MS * 2 ** (attempts - 1));
+        attempts++;
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+        try {
+            const res = await fetch(subscription.webhook_url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "User-Agent": "agricultural-ai-mcp-alerts",
+                    "X-Agri-Event": payload.event,
+                    "X-Agri-Delivery": payload.delivery_id,
+                    "X-Agri-Signature": signPayload(subscription.secret, Math.floor(Date.now() / 1000), body)
+                },
+                body,
+                // A redirect could point a public host at a private address, so 3xx counts as a failed delivery
+                redirect: "manual",
+                agent: webhookAgent,
+                signal: controller.signal
+            });
+            responseStatus = res.status;
+            await res.text();
+
+            if (res.ok) {
+                error = undefined;
+                break;
+            }
+            error = res.status >= 300 && res.status < 400 ? `Redirect (HTTP ${res.status}) not followed` : `HTTP ${res.status}`;
+            if (res.status !== 429 && res.status < 500) break;
+        } catch (err) {
+            responseStatus = undefined;
+            error = controller.signal.aborted ? `Timed out after ${WEBHOOK_TIMEOUT_MS}ms` : String(err);
+            // Retrying cannot make a private address public
+            blocked = (err as { code?: string }).code === BLOCKED_ADDRESS_CODE;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    return {
+        id: payload.delivery_id,
+        subscription_id: subscription.id,
+        url: subscription.webhook_url,
+        status: error ? "failed" : "delivered",
+        attempts,
+        ...(responseStatus !== undefined ? { response_status: responseStatus } : {}),
+        ...(error ? { error } : {}),
+        payload,
+        created_at: createdAt,
+        completed_at: new Date().toISOString()
+    };
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Median modal price across the markets reporting on the latest date, and the reference price
+ * from the latest date at least window_days earlier
+ */
+const observe = (observations: PriceObservation[], windowDays: number): AlertObservation | null => {
+    if (observations.length === 0) return null;
+
+    const priceOn = (date: string) => {
+        const day = observations.filter(o => o.arrival_date === date);
+        return { price: Math.round(median(day.map(o => o.modal_price))), markets: new Set(day.map(o => `${o.district_id}|${o.market_id}`)).size };
+    };
+
+    const latestDate = observations[observations.length - 1].arrival_date;
+    const latest = priceOn(latestDate);
+    const cutoff = new Date(Date.parse(latestDate) - windowDays * DAY_MS).toISOString().slice(0, 10);
+    const referenceDate = observations.filter(o => o.arrival_date <= cutoff).pop()?.arrival_date;
+
+    if (!referenceDate) {
+        return { price: latest.price, date: latestDate, markets: latest.markets };
+    }
+
+    const reference = priceOn(referenceDate).price;
+    return {
+        price: latest.price,
+        date: latestDate,
+        markets: latest.markets,
+        reference_price: reference,
+        reference_date: referenceDate,
+        change_percent: Math.round(((latest.price - reference) / reference) * 10000) / 100
+    };
+};
+
+const conditionMet = (subscription: AlertSubscription, observation: AlertObservation) => {
+    switch (subscription.condition) {
+        case "above":
+            return observation.price >= subscription.threshold;
+        case "below":
+            return observation.price <= subscription.threshold;
+        case "change_percent":
+            return observation.change_percent !== undefined && Math.abs(observation.change_percent) >= subscription.threshold;
+    }
+};
+
+const describe = (subscription: AlertSubscription, observation: AlertObservation) => {
+    const t = translator(subscription.language ?? "en");
+    const where = [subscription.district, subscription.state].filter(Boolean).join(", ") || t("alert.all_markets");
+    const subject = t("alert.subject", { commodity: subscription.commodity, where, price: observation.price, date: observation.date });
+    if (subscription.condition === "change_percent") {
+        return t("alert.change", {
+            subject,
+            percent: observation.change_percent ?? 0,
+            date: observation.reference_date ?? "",
+            reference: observation.reference_price ?? 0,
+            threshold: subscription.threshold
+        });
+    }
+    return t(`alert.${subscription.condition}` as const, { subject, threshold: subscription.threshold });
+};
+
+const runEvaluation = async (): Promise<EvaluationSummary> => {
+    const store = await loadStore();
+    const summary: EvaluationSummary = { evaluated: 0, triggered: 0, rearmed: 0, no_data: 0, deliveries: [] };
+    const now = new Date();
+    // Look back far enough to find the reference price for any change window
+    const since = new Date(now.getTime() - 120 * DAY_MS).toISOString().slice(0, 10);
+
+    // A copy, since price-alert-delete can splice the store while a query or delivery is awaited
+    for (const subscription of [...store.subscriptions]) {
+        if (!store.subscriptions.includes(subscription)) continue;
+        summary.evaluated++;
+        subscription.last_evaluated_at = now.toISOString();
+
+        const observations = await queryHistory({ commodity: subscription.commodity, state: subscription.state, district: subscription.district, since });
+        const observation = observe(observations, subscription.window_days);
+        if (!observation) {
+            summary.no_data++;
+            continue;
+        }
+        subscription.last_price = observation.price;
+
+        if (!conditionMet(subscription, observation)) {
+            if (!subscription.armed) summary.rearmed++;
+            subscription.armed = true;
+            continue;
+        }
+        if (!subscription.armed) continue;
+
+        subscription.last_triggered_at = now.toISOString();
+        summary.triggered++;
+
+        const { commodity, state, district, condition, threshold, window_days, label, language } = subscription;
+        const delivery = await deliver(subscription, {
+            event: "price.alert",
+            delivery_id: randomUUID(),
+            subscription_id: subscription.id,
+            triggered_at: now.toISOString(),
+            subscription: { commodity, state, district, condition, threshold, window_days, label, language },
+            observation,
+            message: describe(subscription, observation)
+        });
+
+        // Stays armed after a failed delivery so the next evaluation redelivers
+        subscription.armed = delivery.status !== "delivered";
+        store.deliveries.push(delivery);
+        summary.deliveries.push({
+            id: delivery.id,
+            subscription_id: delivery.subscription_id,
+            status: delivery.status,
+            attempts: delivery.attempts,
+            response_status: delivery.response_status,
+            error: delivery.error
+        });
+    }
+
+    store.deliveries.splice(0, Math.max(0, store.deliveries.length - MAX_DELIVERY_LOG));
+    await persist(store);
+    return summary;
+};
+
+/**
+ * Evaluate every subscription against the latest stored prices and deliver webhooks for the ones that fire.
+ * Overlapping calls share the evaluation already in progress.
+ */
+export const evaluateAlerts = () => {
+    if (!evaluating) {
+        evaluating = runEvaluation().finally(() => { evaluating = null; });
+    }
+    return evaluating;
+};
+
+/**
+ * Distinct commodity/location targets, so callers can refresh the history before evaluating
+ */
+export const subscriptionTargets = async () => {
+    const targets = new Map<string, { commodity: string; state?: string; district?: string }>();
+    for (const { commodity, state, district } of (await loadStore()).subscriptions) {
+        targets.set(JSON.stringify([commodity.toLowerCase(), state?.toLowerCase(), district?.toLowerCase()]), { commodity, state, district });
+    }
+    return Array.from(targets.values());
+};
@@ -0,0 +1,235 @@
+// src/price-anomalies.ts - Robust-statistics anomaly detection over stored mandi price observations
+import { PriceObservation } from "./price-history.js";
+import { translator, Translate } from "./messages.js";
+
+export type AnomalyCheckType = "own_baseline" | "peer_markets" | "inconsistent_record";
+
+export interface AnomalyCheck {
+    type: AnomalyCheckType;
+    reference_median?: number;
+    // Robust spread: 1.4826 x median absolute deviation, floored at 0.5% of the median
+    robust_sigma?: number;
+    robust_z?: number;
+    deviation_percent?: number;
+    reference_points?: number;
+    peer_scope?: "district" | "state";
+    detail: string;
+}
+
+export interface PriceAnomaly {
+    market: string;
+    district: string;
+    state: string;
+    date: string;
+    modal_price: number;
+    min_price: number | null;
+    max_price: number | null;
+    direction: "spike" | "drop" | "inconsistent";
+    severity: "high" | "medium";
+    likely_cause: "possible_data_entry_error" | "possible_distress_sale" | "price_spike" | "price_drop";
+    checks: AnomalyCheck[];
+    explanation: string;
+}
+
+export interface AnomalyOptions {
+    // First arrival date scanned for anomalies; earlier observations only feed baselines
+    from: string;
+    baselineDays: number;
+    zThreshold: number;
+}
+
+interface MarketDay {
+    key: string;
+    market: string;
+    district: string;
+    district_id: string;
+    state: string;
+    state_id: string;
+    date: string;
+    modal_price: number;
+    min_price: number | null;
+    max_price: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Baselines need this many points before a robust z-score means anything
+const MIN_REFERENCE_POINTS = 5;
+const MIN_PEERS = 4;
+// Ratios this far off (e.g. 215 against 2150) look like a misplaced digit rather than a market move
+const DATA_ENTRY_RATIO = 3;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Median and MAD-based sigma of a reference set, and the robust z-score of a value against it.
+ * Null when the median is not a positive price (e.g. zero-priced placeholder rows), as deviation_percent has no meaning then.
+ */
+const robustScore = (value: number, reference: number[]) => {
+    const center = median(reference);
+    if (center <= 0) return null;
+    const mad = median(reference.map(v => Math.abs(v - center)));
+    const sigma = Math.max(1.4826 * mad, center * 0.005, 1);
+    return {
+        reference_median: round(center),
+        robust_sigma: round(sigma),
+        robust_z: round((value - center) / sigma),
+        deviation_percent: round(((value - center) / center) * 100),
+        reference_points: reference.length
+    };
+};
+
+/**
+ * Collapse variety rows into one modal price per market per day (median across varieties)
+ */
+const toMarketDays = (observations: PriceObservation[]): MarketDay[] => {
+    const groups = new Map<string, PriceObservation[]>();
+    for (const observation of observations) {
+        const key = `${observation.state_id}|${observation.district_id}|${observation.market_id}|${observation.arrival_date}`;
+        const group = groups.get(key);
+        if (group) group.push(observation);
+        else groups.set(key, [observation]);
+    }
+
+    return Array.from(groups.values()).map(rows => {
+        const first = rows[0];
+        const mins = rows.map(r => r.min_price).filter((p): p is number => p !== null);
+        const maxes = rows.map(r => r.max_price).filter((p): p is number => p !== null);
+        return {
+            key: `${first.state_id}|${first.district_id}|${first.market_id}`,
+            market: first.market,
+            district: first.district,
+            district_id: first.district_id,
+            state: first.state,
+            state_id: first.state_id,
+            date: first.arrival_date,
+            modal_price: median(rows.map(r => r.modal_price)),
+            min_price: mins.length > 0 ? Math.min(...mins) : null,
+            max_price: maxes.length > 0 ? Math.max(...maxes) : null
+        };
+    });
+};
+
+const rupees = (value: number) => `₹${Math.round(value)}`;
+
+/**
+ * Flag market-days whose modal price is far from the market's own trailing baseline or from other
+ * mandis reporting the same commodity on the same day, plus rows whose modal lies outside min-max.
+ */
+export const detectPriceAnomalies = (observations: PriceObservation[], options: AnomalyOptions, t: Translate = translator("en")): PriceAnomaly[] => {
+    const days = toMarketDays(observations);
+    const history = new Map<string, MarketDay[]>();
+    const byDate = new Map<string, MarketDay[]>();
+    for (const day of days) {
+        const own = history.get(day.key);
+        if (own) own.push(day);
+        else history.set(day.key, [day]);
+
+        const sameDay = byDate.get(day.date);
+        if (sameDay) sameDay.push(day);
+        else byDate.set(day.date, [day]);
+    }
+
+    const anomalies: PriceAnomaly[] = [];
+
+    for (const day of days) {
+        if (day.date < options.from) continue;
+        const checks: AnomalyCheck[] = [];
+
+        // Own baseline: the same market over the preceding baselineDays
+        const baselineStart = new Date(Date.parse(day.date) - options.baselineDays * DAY_MS).toISOString().slice(0, 10);
+        const own = (history.get(day.key) ?? [])
+            .filter(d => d.date < day.date && d.date >= baselineStart)
+            .map(d => d.modal_price);
+        if (own.length >= MIN_REFERENCE_POINTS) {
+            const score = robustScore(day.modal_price, own);
+            if (score && Math.abs(score.robust_z) >= options.zThreshold) {
+                checks.push({
+                    type: "own_baseline",
+                    ...score,
+                    detail: t(score.robust_z > 0 ? "anomaly.own_above" : "anomaly.own_below", {
+                        price: rupees(day.modal_price),
+                        percent: Math.abs(score.deviation_percent),
+                        market: day.market,
+                        days: options.baselineDays,
+                        median: rupees(score.reference_median),
+                        z: score.robust_z
+                    })
+                });
+            }
+        }
+
+        // Peers: other mandis the same day, within the district when it has enough of them, else the state
+        const sameDay = (byDate.get(day.date) ?? []).filter(d => d.key !== day.key);
+        const districtPeers = sameDay.filter(d => d.state_id === day.state_id && d.district_id === day.district_id);
+        const statePeers = sameDay.filter(d => d.state_id === day.state_id);
+        const [scope, peers] = districtPeers.length >= MIN_PEERS
+            ? ["district", districtPeers] as const
+            : ["state", statePeers] as const;
+        if (peers.length >= MIN_PEERS) {
+            const score = robustScore(day.modal_price, peers.map(p => p.modal_price));
+            if (score && Math.abs(score.robust_z) >= options.zThreshold) {
+                checks.push({
+                    type: "peer_markets",
+                    peer_scope: scope,
+                    ...score,
+                    detail: t(score.robust_z > 0 ? "anomaly.peer_above" : "anomaly.peer_below", {
+                        price: rupees(day.modal_price),
+                        percent: Math.abs(score.deviation_percent),
+                        count: peers.length,
+                        place: scope === "district" ? day.district : day.state,
+                        median: rupees(score.reference_median),
+                        z: score.robust_z
+                    })
+                });
+            }
+        }
+
+        const outsideRange = (day.min_price !== null && day.modal_price < day.min_price)
+            || (day.max_price !== null && day.modal_price > day.max_price)
+            || (day.min_price !== null && day.max_price !== null && day.min_price > day.max_price);
+        if (outsideRange) {
+            checks.push({
+                type: "inconsistent_record",
+                detail: t("anomaly.inconsistent", { min: day.min_price ?? "?", modal: day.modal_price, max: day.max_price ?? "?" })
+            });
+        }
+
+        if (checks.length === 0) continue;
+
+        const scores = checks.filter(c => c.robust_z !== undefined);
+        const strongest = scores.sort((a, b) => Math.abs(b.robust_z!) - Math.abs(a.robust_z!))[0];
+        const ratio = strongest ? day.modal_price / strongest.reference_median! : 1;
+        const direction = strongest ? (strongest.robust_z! > 0 ? "spike" : "drop") : "inconsistent";
+
+        const likelyCause = outsideRange || ratio >= DATA_ENTRY_RATIO || ratio <= 1 / DATA_ENTRY_RATIO
+            ? "possible_data_entry_error"
+            // A fall against both the market's own history and its neighbours points at a local glut
+            : direction === "drop" && scores.length === 2
+                ? "possible_distress_sale"
+                : direction === "spike" ? "price_spike" : "price_drop";
+
+        anomalies.push({
+            market: day.market,
+            district: day.district,
+            state: day.state,
+            date: day.date,
+            modal_price: day.modal_price,
+            min_price: day.min_price,
+            max_price: day.max_price,
+            direction,
+            severity: outsideRange || (strongest && Math.abs(strongest.robust_z!) >= 2 * options.zThreshold) ? "high" : "medium",
+            likely_cause: likelyCause,
+            checks,
+            explanation: checks.map(c => c.detail).join("; ")
+        });
+    }
+
+    const weight = (a: PriceAnomaly) => Math.max(0, ...a.checks.map(c => Math.abs(c.robust_z ?? 0)));
+    return anomalies.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "high" ? -1 : 1) || weight(b) - weight(a));
+};
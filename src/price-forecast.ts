@@ -0,0 +1,280 @@
+// src/price-forecast.ts - Exponential smoothing forecasts (SES, damped Holt, Holt-Winters weekly) with prediction intervals
+
+export type ForecastModel = "simple_exponential_smoothing" | "damped_holt" | "holt_winters_weekly";
+
+export interface ForecastPoint {
+    date: string;
+    predicted_price: number;
+    lower_80: number;
+    upper_80: number;
+    lower_95: number;
+    upper_95: number;
+}
+
+export interface ForecastBacktest {
+    holdout_days: number;
+    // Mean absolute percentage error of the chosen model on the held-out tail
+    mape: number;
+    // Same error for a "tomorrow equals today" forecast, as a baseline the model should beat
+    naive_mape: number;
+}
+
+export interface PriceForecast {
+    model: ForecastModel;
+    parameters: { alpha: number; beta?: number; gamma?: number; phi?: number };
+    horizon_days: number;
+    // Last date in the fitted series; forecasts start the day after
+    origin_date: string;
+    // Missing days filled by linear interpolation before fitting
+    interpolated_days: number;
+    residual_std: number;
+    backtest: ForecastBacktest | null;
+    points: ForecastPoint[];
+}
+
+interface SmoothingParams {
+    alpha: number;
+    beta: number;
+    gamma: number;
+    phi: number;
+}
+
+interface ModelSpec {
+    model: ForecastModel;
+    // Observations needed before the model is considered
+    minPoints: number;
+    // Free parameters counted for AIC (smoothing weights plus initial states)
+    parameterCount: number;
+    grid: SmoothingParams[];
+}
+
+interface Fit {
+    spec: ModelSpec;
+    params: SmoothingParams;
+    sse: number;
+    errors: number;
+    level: number;
+    trend: number;
+    seasonal: number[];
+}
+
+const SEASON = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+const ALPHAS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+// Trend and seasonal weights are searched as fractions of what alpha leaves, keeping the model admissible
+const FRACTIONS = [0.01, 0.05, 0.1, 0.2, 0.3];
+const PHIS = [0.8, 0.9, 0.98];
+
+const MODELS: ModelSpec[] = [
+    {
+        model: "simple_exponential_smoothing",
+        minPoints: 3,
+        parameterCount: 2,
+        grid: ALPHAS.map(alpha => ({ alpha, beta: 0, gamma: 0, phi: 0 }))
+    },
+    {
+        model: "damped_holt",
+        minPoints: 8,
+        parameterCount: 5,
+        grid: ALPHAS.flatMap(alpha => FRACTIONS.flatMap(b => PHIS.map(phi => ({ alpha, beta: alpha * b, gamma: 0, phi }))))
+    },
+    {
+        model: "holt_winters_weekly",
+        minPoints: 3 * SEASON,
+        parameterCount: 5 + SEASON,
+        grid: ALPHAS.flatMap(alpha => FRACTIONS.flatMap(b => FRACTIONS.flatMap(g => PHIS.map(phi =>
+            ({ alpha, beta: alpha * b, gamma: (1 - alpha) * g, phi })))))
+    }
+];
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Daily series with gaps filled by linear interpolation between the neighbouring observed days
+ */
+const toDailySeries = (points: { date: string; price: number }[]) => {
+    const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+    const values: number[] = [sorted[0].price];
+    let interpolated = 0;
+
+    for (let i = 1; i < sorted.length; i++) {
+        const gap = Math.round((Date.parse(sorted[i].date) - Date.parse(sorted[i - 1].date)) / DAY_MS);
+        for (let d = 1; d < gap; d++) {
+            values.push(sorted[i - 1].price + (sorted[i].price - sorted[i - 1].price) * d / gap);
+            interpolated++;
+        }
+        values.push(sorted[i].price);
+    }
+
+    return { values, interpolated, lastDate: sorted[sorted.length - 1].date };
+};
+
+/**
+ * Run the error-correction recursions over the series; returns the one-step SSE and final states
+ */
+const runModel = (spec: ModelSpec, params: SmoothingParams, y: number[]): Fit => {
+    const { alpha, beta, gamma, phi } = params;
+    const hasTrend = spec.model !== "simple_exponential_smoothing";
+    const hasSeason = spec.model === "holt_winters_weekly";
+
+    let level: number;
+    let trend = 0;
+    let seasonal: number[] = [];
+
+    if (hasSeason) {
+        // Initial level and slope from the first two weeks, seasonal offsets from the first week
+        const first = mean(y.slice(0, SEASON));
+        const second = mean(y.slice(SEASON, 2 * SEASON));
+        level = first;
+        trend = (second - first) / SEASON;
+        seasonal = y.slice(0, SEASON).map(v => v - first);
+    } else {
+        level = y[0];
+        trend = hasTrend ? y[1] - y[0] : 0;
+    }
+
+    let sse = 0;
+    let errors = 0;
+    for (let t = 1; t < y.length; t++) {
+        const s = hasSeason ? seasonal[t % SEASON] : 0;
+        const damped = hasTrend ? phi * trend : 0;
+        const error = y[t] - (level + damped + s);
+
+        sse += error * error;
+        errors++;
+
+        level = level + damped + alpha * error;
+        if (hasTrend) trend = damped + beta * error;
+        if (hasSeason) seasonal[t % SEASON] = s + gamma * error;
+    }
+
+    return { spec, params, sse, errors, level, trend, seasonal };
+};
+
+/**
+ * Grid-search each model's smoothing weights on one-step SSE, then pick the model with the lowest AIC
+ */
+const fitBest = (y: number[]): Fit | null => {
+    let best: { fit: Fit; aic: number } | null = null;
+
+    for (const spec of MODELS) {
+        if (y.length < spec.minPoints) continue;
+
+        let bestFit: Fit | null = null;
+        for (const params of spec.grid) {
+            const fit = runModel(spec, params, y);
+            if (!bestFit || fit.sse < bestFit.sse) bestFit = fit;
+        }
+        if (!bestFit) continue;
+
+        const aic = bestFit.errors * Math.log(Math.max(bestFit.sse, 1e-9) / bestFit.errors) + 2 * spec.parameterCount;
+        if (!best || aic < best.aic) best = { fit: bestFit, aic };
+    }
+
+    return best?.fit ?? null;
+};
+
+const pointForecast = (fit: Fit, n: number, h: number) => {
+    const { phi } = fit.params;
+    const hasTrend = fit.spec.model !== "simple_exponential_smoothing";
+    // Damped trend contributes phi + phi^2 + ... + phi^h
+    let trendSum = 0;
+    for (let j = 1; j <= h && hasTrend; j++) trendSum += phi ** j;
+    const s = fit.spec.model === "holt_winters_weekly" ? fit.seasonal[(n - 1 + h) % SEASON] : 0;
+    return fit.level + trendSum * fit.trend + s;
+};
+
+/**
+ * h-step forecast variance for additive exponential smoothing: sigma^2 * (1 + sum of c_j^2 for j < h)
+ */
+const forecastVariance = (fit: Fit, sigma2: number, h: number) => {
+    const { alpha, beta, gamma, phi } = fit.params;
+    let sum = 0;
+    let phiSum = 0;
+    for (let j = 1; j < h; j++) {
+        let c = alpha;
+        if (fit.spec.model !== "simple_exponential_smoothing") {
+            phiSum += phi ** j;
+            c += beta * phiSum;
+        }
+        if (fit.spec.model === "holt_winters_weekly" && j % SEASON === 0) c += gamma;
+        sum += c * c;
+    }
+    return sigma2 * (1 + sum);
+};
+
+const mape = (actual: number[], predicted: number[]) =>
+    mean(actual.map((a, i) => Math.abs((a - predicted[i]) / a))) * 100;
+
+/**
+ * Refit on all but the last few days and score the forecast for those days against a naive forecast
+ */
+const backtest = (y: number[], horizon: number): ForecastBacktest | null => {
+    const holdout = Math.min(horizon, Math.floor(y.length / 4));
+    if (holdout < 1) return null;
+
+    const train = y.slice(0, y.length - holdout);
+    const actual = y.slice(y.length - holdout);
+    const fit = fitBest(train);
+    if (!fit || actual.some(a => a === 0)) return null;
+
+    const predicted = actual.map((_, i) => pointForecast(fit, train.length, i + 1));
+    const naive = actual.map(() => train[train.length - 1]);
+
+    return {
+        holdout_days: holdout,
+        mape: round(mape(actual, predicted)),
+        naive_mape: round(mape(actual, naive))
+    };
+};
+
+/**
+ * Forecast daily prices `horizon` days past the last observation, or null when there are too few points
+ */
+export const forecastPrices = (history: { date: string; price: number }[], horizon: number): PriceForecast | null => {
+    if (history.length === 0) return null;
+
+    const { values, interpolated, lastDate } = toDailySeries(history);
+    const fit = fitBest(values);
+    if (!fit) return null;
+
+    const degreesOfFreedom = Math.max(fit.errors - fit.spec.parameterCount, 1);
+    const sigma2 = fit.sse / degreesOfFreedom;
+
+    const points: ForecastPoint[] = [];
+    for (let h = 1; h <= horizon; h++) {
+        const point = pointForecast(fit, values.length, h);
+        const sd = Math.sqrt(forecastVariance(fit, sigma2, h));
+        points.push({
+            date: addDays(lastDate, h),
+            predicted_price: Math.round(point),
+            lower_80: Math.max(0, Math.round(point - Z_80 * sd)),
+            upper_80: Math.round(point + Z_80 * sd),
+            lower_95: Math.max(0, Math.round(point - Z_95 * sd)),
+            upper_95: Math.round(point + Z_95 * sd)
+        });
+    }
+
+    const { alpha, beta, gamma, phi } = fit.params;
+    return {
+        model: fit.spec.model,
+        parameters: {
+            alpha,
+            ...(fit.spec.model !== "simple_exponential_smoothing" ? { beta: round(beta, 4), phi } : {}),
+            ...(fit.spec.model === "holt_winters_weekly" ? { gamma: round(gamma, 4) } : {})
+        },
+        horizon_days: horizon,
+        origin_date: lastDate,
+        interpolated_days: interpolated,
+        residual_std: round(Math.sqrt(sigma2)),
+        backtest: backtest(values, horizon),
+        points
+    };
+};
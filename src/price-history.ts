@@ -0,0 +1,220 @@
+// src/price-history.ts - File-backed store of observed mandi prices built up from normalized crop-price records
+import path from "path";
+import { CropPriceRecord, canonicalId } from "./crop-price-records.js";
+import { readJsonFile, writeJsonFile } from "./json-file.js";
+
+/**
+ * One stored price observation: a market's prices for a commodity variety on an arrival date
+ */
+export interface PriceObservation {
+    commodity: string;
+    commodity_id: string;
+    state: string;
+    state_id: string;
+    district: string;
+    district_id: string;
+    market: string;
+    market_id: string;
+    variety: string | null;
+    arrival_date: string;
+    min_price: number | null;
+    max_price: number | null;
+    modal_price: number;
+    ingested_at: string;
+}
+
+export interface IngestSummary {
+    received: number;
+    added: number;
+    updated: number;
+    skipped: number;
+    total: number;
+}
+
+export interface HistoryQuery {
+    commodity: string;
+    state?: string;
+    district?: string;
+    // Earliest arrival date to include, yyyy-mm-dd
+    since?: string;
+}
+
+interface HistoryFile {
+    version: 1;
+    updated_at: string;
+    observations: PriceObservation[];
+}
+
+const HISTORY_FILE = path.resolve(process.env.PRICE_HISTORY_FILE ?? "data/price-history.json");
+const RETENTION_DAYS = Number(process.env.PRICE_HISTORY_RETENTION_DAYS ?? 730);
+// Ingests within this window share one write of the history file
+const FLUSH_DELAY_MS = Number(process.env.PRICE_HISTORY_FLUSH_MS ?? 5000);
+
+let loading: Promise<Map<string, PriceObservation>> | null = null;
+let saving: Promise<void> = Promise.resolve();
+let lastIngestAt: string | null = null;
+let dirty = false;
+let flushTimer: NodeJS.Timeout | null = null;
+
+const observationKey = (o: Pick<PriceObservation, "commodity_id" | "state_id" | "district_id" | "market_id" | "variety" | "arrival_date">) =>
+    [o.commodity_id, o.state_id, o.district_id, o.market_id, canonicalId(o.variety), o.arrival_date].join("|");
+
+/**
+ * Load the history file once; a missing file is an empty store, a corrupt one is reported and left untouched
+ */
+const loadStore = () => {
+    if (!loading) {
+        loading = (async () => {
+            const store = new Map<string, PriceObservation>();
+            const file = await readJsonFile<HistoryFile>(HISTORY_FILE);
+            for (const observation of file?.observations ?? []) {
+                store.set(observationKey(observation), observation);
+            }
+            return store;
+        })();
+        // Let a later call retry after a failed load
+        loading.catch(() => { loading = null; });
+    }
+    return loading;
+};
+
+/**
+ * Write the whole store; writes are chained so concurrent ingests cannot interleave
+ */
+const persist = (store: Map<string, PriceObservation>) => {
+    saving = saving.catch(() => undefined).then(async () => {
+        const file: HistoryFile = {
+            version: 1,
+            updated_at: new Date().toISOString(),
+            observations: Array.from(store.values())
+        };
+        await writeJsonFile(HISTORY_FILE, file);
+    });
+    return saving;
+};
+
+const cutoffDate = () => new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Write pending ingests now, dropping observations past the retention window; a failed write stays pending
+ */
+export const flushPriceHistory = async () => {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    if (!dirty || !loading) return;
+
+    dirty = false;
+    const store = await loading;
+    const cutoff = cutoffDate();
+    for (const [key, observation] of store) {
+        if (observation.arrival_date < cutoff) store.delete(key);
+    }
+
+    try {
+        await persist(store);
+    } catch (err) {
+        dirty = true;
+        throw err;
+    }
+};
+
+/**
+ * Flush once FLUSH_DELAY_MS after the first unsaved ingest, so busy periods do not rewrite the file on every call
+ */
+const schedulePersist = () => {
+    dirty = true;
+    if (flushTimer) return;
+
+    flushTimer = setTimeout(() => {
+        flushTimer = null;
+        flushPriceHistory().catch(err => console.error(`Price history write failed: ${String(err)}`));
+    }, FLUSH_DELAY_MS);
+};
+
+/**
+ * Add normalized records to the store. Records without an arrival date or modal price are skipped;
+ * a re-reported observation replaces the stored one. The file is written by the next flush.
+ */
+export const ingestRecords = async (records: CropPriceRecord[]): Promise<IngestSummary> => {
+    const store = await loadStore();
+    const now = new Date().toISOString();
+    const cutoff = cutoffDate();
+    const summary: IngestSummary = { received: records.length, added: 0, updated: 0, skipped: 0, total: 0 };
+
+    for (const record of records) {
+        if (!record.arrival_date || record.modal_price === null || !record.commodity_id || !record.market_id || record.arrival_date < cutoff) {
+            summary.skipped++;
+            continue;
+        }
+
+        const observation: PriceObservation = {
+            commodity: record.commodity,
+            commodity_id: record.commodity_id,
+            state: record.state,
+            state_id: record.state_id,
+            district: record.district,
+            district_id: record.district_id,
+            market: record.market,
+            market_id: record.market_id,
+            variety: record.variety,
+            arrival_date: record.arrival_date,
+            min_price: record.min_price,
+            max_price: record.max_price,
+            modal_price: record.modal_price,
+            ingested_at: now
+        };
+
+        const key = observationKey(observation);
+        if (store.has(key)) summary.updated++;
+        else summary.added++;
+        store.set(key, observation);
+    }
+
+    if (summary.added > 0 || summary.updated > 0) {
+        schedulePersist();
+        lastIngestAt = now;
+    }
+
+    summary.total = store.size;
+    return summary;
+};
+
+/**
+ * Stored observations for a commodity, optionally narrowed to a state/district, oldest first
+ */
+export const queryHistory = async (query: HistoryQuery): Promise<PriceObservation[]> => {
+    const store = await loadStore();
+    const commodityId = canonicalId(query.commodity);
+    const stateId = query.state ? canonicalId(query.state) : undefined;
+    const districtId = query.district ? canonicalId(query.district) : undefined;
+
+    return Array.from(store.values())
+        .filter(o => o.commodity_id === commodityId
+            && (!stateId || o.state_id === stateId)
+            && (!districtId || o.district_id === districtId)
+            && (!query.since || o.arrival_date >= query.since))
+        .sort((a, b) => a.arrival_date.localeCompare(b.arrival_date) || a.market.localeCompare(b.market));
+};
+
+/**
+ * Store size and freshness for /health
+ */
+export const getHistoryStats = async () => {
+    const store = await loadStore();
+    let latest: string | null = null;
+    const commodities = new Set<string>();
+    for (const observation of store.values()) {
+        commodities.add(observation.commodity_id);
+        if (!latest || observation.arrival_date > latest) latest = observation.arrival_date;
+    }
+
+    return {
+        file: HISTORY_FILE,
+        observations: store.size,
+        commodities: commodities.size,
+        latest_arrival_date: latest,
+        last_ingest_at: lastIngestAt
+    };
+};
@@ -0,0 +1,172 @@
+// src/prompts.ts - MCP prompt templates for common farmer advisory workflows
+import { readResource } from "./resources.js";
+
+export interface MCPPromptArgument {
+    name: string;
+    description: string;
+    required: boolean;
+}
+
+export interface MCPPrompt {
+    name: string;
+    title: string;
+    description: string;
+    arguments: MCPPromptArgument[];
+}
+
+type PromptContent =
+    | { type: "text"; text: string }
+    | { type: "resource"; resource: { uri: string; mimeType: string; text: string } };
+
+export interface MCPPromptMessage {
+    role: "user" | "assistant";
+    content: PromptContent;
+}
+
+interface PromptDefinition extends MCPPrompt {
+    render: (args: Record<string, string>) => MCPPromptMessage[];
+}
+
+export type PromptResolution =
+    | { status: "not_found" }
+    | { status: "invalid_arguments"; missing: string[] }
+    | { status: "completed"; result: { description: string; messages: MCPPromptMessage[] } };
+
+const userText = (text: string): MCPPromptMessage => ({ role: "user", content: { type: "text", text } });
+
+// Optional arguments are only mentioned when the caller supplied them
+const optional = (label: string, value: string | undefined) => value ? `\n- ${label}: ${value}` : "";
+
+const promptDefinitions: PromptDefinition[] = [
+    {
+        name: "sell-or-hold",
+        title: "Sell or hold advice",
+        description: "Decide whether to sell a commodity now or hold it, using mandi prices, trends and nearby markets",
+        arguments: [
+            { name: "commodity", description: "Commodity to sell (e.g. wheat, cotton)", required: true },
+            { name: "district", description: "District where the farmer is selling (e.g. Ludhiana)", required: true },
+            { name: "state", description: "State of the district (e.g. Punjab)", required: false },
+            { name: "quantity_quintals", description: "Quantity available to sell, in quintals", required: false }
+        ],
+        render: args => [
+            userText(
+                `A farmer wants to know whether to sell ${args.commodity} now or hold it.\n` +
+                `- Commodity: ${args.commodity}\n- District: ${args.district}` +
+                optional("State", args.state) +
+                optional("Quantity (quintals)", args.quantity_quintals) +
+                `\n\nCall the \`mandi-price\` tool with {"commodity": ${JSON.stringify(args.commodity)}, "district": ${JSON.stringify(args.district)}` +
+                (args.state ? `, "state": ${JSON.stringify(args.state)}` : "") +
+                (args.quantity_quintals ? `, "quantity_quintals": ${JSON.stringify(Number(args.quantity_quintals) || args.quantity_quintals)}` : "") +
+                `, "include_predictions": true}. ` +
+                `If more detail on current arrivals is needed, call \`crop-price\` for the same state, district and commodity.\n\n` +
+                `Then give a clear SELL, HOLD or SPLIT recommendation. Base it on the current price versus the period average, ` +
+                `the trend direction, the forecast and its prediction intervals, and the best markets list, which is ranked by net realisation after transport. ` +
+                `If the forecast backtest MAPE is not better than naive_mape, or data_source is "simulated", say the outlook is uncertain. ` +
+                `If holding, say for how long and what price to wait for. ` +
+                `Mention storage and price risk, and keep the answer short and in plain language a farmer can act on.`
+            )
+        ]
+    },
+    {
+        name: "diagnose-crop-problem",
+        title: "Diagnose crop problem",
+        description: "Identify the likely pest or disease from symptoms and recommend treatment and prevention",
+        arguments: [
+            { name: "crop", description: "Affected crop (e.g. rice, wheat, cotton)", required: true },
+            { name: "symptoms", description: "Comma-separated symptoms observed in the field", required: true },
+            { name: "location", description: "Village, district or state of the field", required: false },
+            { name: "image_description", description: "What is visible in photos of the affected plants", required: false }
+        ],
+        render: args => {
+            const messages = [
+                userText(
+                    `A farmer reports a problem in their ${args.crop} crop.\n` +
+                    `- Crop: ${args.crop}\n- Symptoms: ${args.symptoms}` +
+                    optional("Location", args.location) +
+                    optional("Image description", args.image_description) +
+                    `\n\nCall the \`pest-identifier\` tool with {"crop": ${JSON.stringify(args.crop)}, "symptoms": ${JSON.stringify(args.symptoms)}` +
+                    (args.location ? `, "location": ${JSON.stringify(args.location)}` : "") +
+                    (args.image_description ? `, "image_description": ${JSON.stringify(args.image_description)}` : "") +
+                    `}.` +
+                    (args.location ? ` The tool checks recent weather at ${JSON.stringify(args.location)} against each candidate's favourable conditions.` : "") +
+                    `\n\nExplain the ranked candidates, their probabilities and the evidence that matched. If the status is ` +
+                    `identified, list treatments in order (cultural and biological first, chemical last with dose, pre-harvest ` +
+                    `interval and safe-use advice) and prevention for next season. If the status is no_confident_match, do not ` +
+                    `name a cause: ask about the symptoms listed under check_for and advise contacting the local Krishi Vigyan Kendra.`
+                )
+            ];
+
+            // Ground the diagnosis in the same pest data the tool uses, when we have it
+            const pestData = readResource(`agri://pests/${encodeURIComponent(args.crop.toLowerCase())}`);
+            if (pestData) {
+                messages.push({ role: "user", content: { type: "resource", resource: pestData[0] } });
+            }
+
+            return messages;
+        }
+    },
+    {
+        name: "pre-sowing-soil-check",
+        title: "Pre-sowing soil check",
+        description: "Review soil test results before sowing and recommend amendments and suitable crops",
+        arguments: [
+            { name: "state", description: "State of the field", required: true },
+            { name: "district", description: "District of the field", required: true },
+            { name: "planned_crop", description: "Crop the farmer intends to sow", required: false },
+            { name: "soil_type", description: "Soil type (e.g. Alluvial, Black Cotton, Red, Laterite)", required: false },
+            { name: "soil_test", description: "Soil Health Card values, e.g. 'pH 7.8, N 180 kg/ha, P 12 kg/ha, K 250 kg/ha, OC 0.4%'", required: false }
+        ],
+        render: args => [
+            userText(
+                `A farmer is preparing to sow and wants a soil check.\n` +
+                `- State: ${args.state}\n- District: ${args.district}` +
+                optional("Planned crop", args.planned_crop) +
+                optional("Soil type", args.soil_type) +
+                optional("Soil test results", args.soil_test) +
+                `\n\nCall the \`soil-health\` tool with {"state": ${JSON.stringify(args.state)}, "district": ${JSON.stringify(args.district)}` +
+                (args.soil_type ? `, "soil_type": ${JSON.stringify(args.soil_type)}` : "") +
+                `}, adding ph_level, npk_values, organic_content, micronutrients and ec from the soil test results when they are given ` +
+                `(set units when values are in ppm, g/kg or µS/cm). ` +
+                `Then call \`weather\` for "${args.district}, ${args.state}" to check sowing conditions for the coming week.\n\n` +
+                `Summarise the soil health score, list amendments to apply before sowing, ` +
+                (args.planned_crop
+                    ? `say whether ${args.planned_crop} is a good fit for this soil and what to adjust if not, `
+                    : `suggest the best-suited crops, `) +
+                `and advise on sowing timing given the forecast. If no soil test values were given or the result is insufficient_data, recommend getting a Soil Health Card test first.`
+            )
+        ]
+    }
+];
+
+export const listPrompts = (): MCPPrompt[] =>
+    promptDefinitions.map(({ render, ...prompt }) => prompt);
+
+/**
+ * Render a prompt with the caller's arguments
+ */
+export const getPrompt = (name: string, args: Record<string, unknown> = {}): PromptResolution => {
+    const prompt = promptDefinitions.find(definition => definition.name === name);
+    if (!prompt) {
+        return { status: "not_found" };
+    }
+
+    const values: Record<string, string> = {};
+    for (const argument of prompt.arguments) {
+        const value = args[argument.name];
+        if (value !== undefined && value !== null && String(value).trim() !== "") {
+            values[argument.name] = String(value).trim();
+        }
+    }
+
+    const missing = prompt.arguments
+        .filter(argument => argument.required && values[argument.name] === undefined)
+        .map(argument => argument.name);
+    if (missing.length > 0) {
+        return { status: "invalid_arguments", missing };
+    }
+
+    return {
+        status: "completed",
+        result: { description: prompt.description, messages: prompt.render(values) }
+    };
+};
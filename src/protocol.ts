@@ -0,0 +1,116 @@
+// src/protocol.ts - MCP / JSON-RPC protocol types shared by every transport
+
+export interface MCPRequest {
+    jsonrpc: "2.0";
+    id: string | number;
+    method: string;
+    params?: any;
+}
+
+export interface MCPResponse {
+    jsonrpc: "2.0";
+    id: string | number | null;
+    result?: any;
+    error?: {
+        code: number;
+        message: string;
+        data?: any;
+    };
+}
+
+// Server-initiated message without an id
+export interface MCPNotification {
+    jsonrpc: "2.0";
+    method: string;
+    params?: any;
+}
+
+// Handles one well-formed request
+export type RequestHandler = (request: MCPRequest) => Promise<MCPResponse>;
+
+// Transport-agnostic entry point: takes a parsed message or batch, returns what to send back (null for nothing)
+export type MessageDispatcher = (payload: unknown) => Promise<MCPResponse | MCPResponse[] | null>;
+
+// Newest first; initialize echoes the client's version when we support it, otherwise offers the latest
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * Pick the protocol version to answer an initialize request with
+ */
+export const negotiateProtocolVersion = (requested: unknown): string => {
+    return typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : LATEST_PROTOCOL_VERSION;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    value !== null && typeof value === "object" && !Array.isArray(value);
+
+const isValidId = (id: unknown): id is string | number =>
+    typeof id === "string" || (typeof id === "number" && Number.isFinite(id));
+
+const isNotification = (message: unknown) =>
+    isObject(message) && message.jsonrpc === "2.0" && typeof message.method === "string" && !("id" in message);
+
+// Replies from the client to server-initiated requests; we never send any, so they are dropped
+const isClientResponse = (message: unknown) =>
+    isObject(message) && !("method" in message) && "id" in message && ("result" in message || "error" in message);
+
+/**
+ * Whether a parsed message or batch will produce any response at all
+ */
+export const expectsResponse = (payload: unknown): boolean => {
+    const needsReply = (message: unknown) => !isNotification(message) && !isClientResponse(message);
+
+    if (Array.isArray(payload)) {
+        return payload.length === 0 || payload.some(needsReply);
+    }
+    return needsReply(payload);
+};
+
+/**
+ * Build a JSON-RPC error response; the id is null when it cannot be determined
+ */
+export const errorResponse = (id: unknown, code: number, message: string, data?: any): MCPResponse => ({
+    jsonrpc: "2.0",
+    id: isValidId(id) ? id : null,
+    error: data === undefined ? { code, message } : { code, message, data }
+});
+
+/**
+ * Wrap a request handler with JSON-RPC 2.0 envelope handling: batches, notifications,
+ * client responses and -32600 Invalid Request for malformed messages
+ */
+export const createMessageDispatcher = (handleRequest: RequestHandler): MessageDispatcher => {
+    const dispatchOne = async (message: unknown): Promise<MCPResponse | null> => {
+        if (isNotification(message) || isClientResponse(message)) {
+            return null;
+        }
+
+        if (!isObject(message) || message.jsonrpc !== "2.0" || typeof message.method !== "string" || !isValidId(message.id)) {
+            const id = isObject(message) ? message.id : null;
+            return errorResponse(id, -32600, "Invalid Request: expected a JSON-RPC 2.0 object with string 'method' and string or number 'id'");
+        }
+
+        if (message.params !== undefined && (message.params === null || typeof message.params !== "object")) {
+            return errorResponse(message.id, -32600, "Invalid Request: 'params' must be an object or array");
+        }
+
+        return handleRequest(message as MCPRequest);
+    };
+
+    return async (payload: unknown) => {
+        if (!Array.isArray(payload)) {
+            return dispatchOne(payload);
+        }
+
+        if (payload.length === 0) {
+            return errorResponse(null, -32600, "Invalid Request: empty batch");
+        }
+
+        const responses = await Promise.all(payload.map(dispatchOne));
+        const replies = responses.filter((response): response is MCPResponse => response !== null);
+        return replies.length > 0 ? replies : null;
+    };
+};
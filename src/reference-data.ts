@@ -0,0 +1,448 @@
+// src/reference-data.ts - Reference data shared by the tools and exposed as MCP resources
+
+export interface BasePrice {
+    [key: string]: number;
+}
+
+// Score awarded for a soil parameter at or above each level
+interface NutrientThreshold {
+    unit: string;
+    good: number;
+    adequate: number;
+    points: { good: number; adequate: number; low: number };
+}
+
+export interface SoilThresholds {
+    ph: {
+        unit: string;
+        optimal: { min: number; max: number };
+        acceptable: { min: number; max: number };
+        points: { optimal: number; acceptable: number; outside: number };
+    };
+    nitrogen: NutrientThreshold;
+    phosphorus: NutrientThreshold;
+    potassium: NutrientThreshold;
+    organic_content: NutrientThreshold;
+    zinc: NutrientThreshold;
+    iron: NutrientThreshold;
+    sulphur: NutrientThreshold;
+    boron: NutrientThreshold;
+    // Salinity: lower is better, so bands are upper limits
+    ec: {
+        unit: string;
+        normal: number;
+        slightly_saline: number;
+        points: { normal: number; slightly_saline: number; saline: number };
+    };
+}
+
+export type SoilParameter = "ph" | "nitrogen" | "phosphorus" | "potassium" | "organic_content" | "zinc" | "iron" | "sulphur" | "boron" | "ec";
+
+// FAO-56 growth stages
+export type GrowthStage = "initial" | "development" | "mid" | "late";
+
+export interface CropWaterProfile {
+    // Crop coefficients at the initial stage, mid-season and end of the late season (FAO-56 Table 12)
+    kc: { initial: number; mid: number; end: number };
+    // Stage lengths in days (FAO-56 Table 11, Indian sowing windows where listed)
+    stage_days: { initial: number; development: number; mid: number; late: number };
+    // Effective rooting depth in metres, from establishment to full canopy
+    root_depth_m: { min: number; max: number };
+    // Fraction of total available water that can be depleted before stress (p)
+    depletion_fraction: number;
+}
+
+export type VarietyClass = "early" | "medium" | "late";
+
+export interface PhenologyStage {
+    name: string;
+    label: string;
+    // Growing degree days from sowing at which the stage begins, for a medium-duration variety
+    gdd: number;
+    // FAO-56 stage used for crop water use during this phase
+    water_stage: GrowthStage;
+    // Moisture stress in this stage costs yield
+    irrigation_critical: boolean;
+    advisories: string[];
+}
+
+export interface CropPhenology {
+    // Degree-day base and upper cut-off temperatures, °C
+    base_temp_c: number;
+    upper_temp_c: number;
+    // In order; the last stage is physiological maturity
+    stages: PhenologyStage[];
+}
+
+export type PlantNutrient = "n" | "p2o5" | "k2o";
+
+// Targeted-yield equation: fertilizer dose (kg/ha) = per_quintal x target yield (q/ha) - soil_factor x soil test value (kg/ha)
+export interface StcrEquation {
+    per_quintal: number;
+    soil_factor: number;
+}
+
+export interface NutrientSplit {
+    timing: string;
+    // Stage name in CROP_PHENOLOGY when the split is tied to one
+    stage?: string;
+    // Share of the season's dose applied at this split
+    share: Partial<Record<PlantNutrient, number>>;
+}
+
+export interface CropFertilizerProfile {
+    equations: Record<PlantNutrient, StcrEquation>;
+    // Yield range (q/ha) the equations were fitted over, and a typical target
+    target_yield: { min: number; typical: number; max: number };
+    // General recommended dose (kg/ha) used when a soil test value is missing
+    recommended_dose: Record<PlantNutrient, number>;
+    // Legumes only need a starter nitrogen dose regardless of the equation
+    minimum_dose?: Partial<Record<PlantNutrient, number>>;
+    // Phosphate carrier when the caller has no preference; SSP also supplies sulphur for oilseeds and pulses
+    preferred_phosphate: "dap" | "ssp";
+    splits: NutrientSplit[];
+}
+
+export interface FertilizerProduct {
+    name: string;
+    // Nutrient content as a fraction of product weight
+    content: Partial<Record<PlantNutrient | "s", number>>;
+    bag_kg: number;
+    // Maximum retail price per bag, ₹
+    price_per_bag: number;
+}
+
+export interface SoilWaterProfile {
+    // Available water (field capacity minus wilting point) in mm per metre of soil
+    available_water_mm_per_m: number;
+    description: string;
+}
+
+/**
+ * Commodity Base Prices - ₹/quintal anchors for the mandi price simulation
+ */
+export const BASE_PRICES: BasePrice = {
+    "wheat": 2100,
+    "rice": 1800,
+    "cotton": 5500,
+    "maize": 1600,
+    "soybean": 4200,
+    "sugarcane": 350,
+    "onion": 2500,
+    "potato": 1200
+};
+
+// Used for commodities missing from BASE_PRICES
+export const DEFAULT_BASE_PRICE = 2000;
+
+/**
+ * Soil Health Thresholds - scoring bands used by the soil health analyzer (Soil Health Card ranges)
+ */
+export const SOIL_THRESHOLDS: SoilThresholds = {
+    ph: {
+        unit: "pH",
+        optimal: { min: 6.0, max: 7.5 },
+        acceptable: { min: 5.5, max: 8.0 },
+        points: { optimal: 25, acceptable: 15, outside: 5 }
+    },
+    nitrogen: { unit: "kg/ha", good: 280, adequate: 200, points: { good: 20, adequate: 15, low: 5 } },
+    phosphorus: { unit: "kg/ha", good: 20, adequate: 15, points: { good: 20, adequate: 15, low: 5 } },
+    potassium: { unit: "kg/ha", good: 280, adequate: 200, points: { good: 20, adequate: 15, low: 5 } },
+    organic_content: { unit: "%", good: 0.75, adequate: 0.5, points: { good: 15, adequate: 10, low: 3 } },
+    // DTPA Zn/Fe, CaCl2-extractable S and hot-water B critical limits
+    zinc: { unit: "ppm", good: 1.2, adequate: 0.6, points: { good: 5, adequate: 3, low: 1 } },
+    iron: { unit: "ppm", good: 9, adequate: 4.5, points: { good: 5, adequate: 3, low: 1 } },
+    sulphur: { unit: "ppm", good: 20, adequate: 10, points: { good: 5, adequate: 3, low: 1 } },
+    boron: { unit: "ppm", good: 1, adequate: 0.5, points: { good: 5, adequate: 3, low: 1 } },
+    ec: { unit: "dS/m", normal: 1, slightly_saline: 4, points: { normal: 10, slightly_saline: 5, saline: 0 } }
+};
+
+/**
+ * Values outside these ranges (in the canonical units of SOIL_THRESHOLDS) are almost always a typo or a unit mix-up
+ */
+export const SOIL_PLAUSIBLE_RANGES: Record<SoilParameter, { min: number; max: number }> = {
+    ph: { min: 3.5, max: 10.5 },
+    nitrogen: { min: 20, max: 1200 },
+    phosphorus: { min: 0, max: 200 },
+    potassium: { min: 20, max: 2500 },
+    organic_content: { min: 0.02, max: 12 },
+    zinc: { min: 0, max: 50 },
+    iron: { min: 0, max: 300 },
+    sulphur: { min: 0, max: 200 },
+    boron: { min: 0, max: 10 },
+    ec: { min: 0, max: 20 }
+};
+
+/**
+ * Crop water profiles used by irrigation-planner (FAO Irrigation and Drainage Paper 56)
+ */
+export const CROP_WATER_PROFILES: Record<string, CropWaterProfile> = {
+    wheat: { kc: { initial: 0.3, mid: 1.15, end: 0.3 }, stage_days: { initial: 20, development: 25, mid: 60, late: 30 }, root_depth_m: { min: 0.3, max: 1.2 }, depletion_fraction: 0.55 },
+    rice: { kc: { initial: 1.05, mid: 1.2, end: 0.75 }, stage_days: { initial: 30, development: 30, mid: 60, late: 30 }, root_depth_m: { min: 0.3, max: 0.5 }, depletion_fraction: 0.2 },
+    cotton: { kc: { initial: 0.35, mid: 1.15, end: 0.6 }, stage_days: { initial: 30, development: 50, mid: 60, late: 55 }, root_depth_m: { min: 0.3, max: 1.4 }, depletion_fraction: 0.65 },
+    maize: { kc: { initial: 0.3, mid: 1.2, end: 0.35 }, stage_days: { initial: 20, development: 35, mid: 40, late: 30 }, root_depth_m: { min: 0.3, max: 1.2 }, depletion_fraction: 0.55 },
+    sugarcane: { kc: { initial: 0.4, mid: 1.25, end: 0.75 }, stage_days: { initial: 35, development: 60, mid: 190, late: 120 }, root_depth_m: { min: 0.4, max: 1.6 }, depletion_fraction: 0.65 },
+    soybean: { kc: { initial: 0.4, mid: 1.15, end: 0.5 }, stage_days: { initial: 20, development: 30, mid: 60, late: 25 }, root_depth_m: { min: 0.3, max: 1.0 }, depletion_fraction: 0.5 },
+    potato: { kc: { initial: 0.5, mid: 1.15, end: 0.75 }, stage_days: { initial: 25, development: 30, mid: 45, late: 30 }, root_depth_m: { min: 0.25, max: 0.5 }, depletion_fraction: 0.35 },
+    onion: { kc: { initial: 0.7, mid: 1.05, end: 0.75 }, stage_days: { initial: 15, development: 25, mid: 70, late: 40 }, root_depth_m: { min: 0.2, max: 0.5 }, depletion_fraction: 0.3 },
+    mustard: { kc: { initial: 0.35, mid: 1.1, end: 0.35 }, stage_days: { initial: 25, development: 35, mid: 55, late: 30 }, root_depth_m: { min: 0.3, max: 1.2 }, depletion_fraction: 0.6 },
+    chickpea: { kc: { initial: 0.4, mid: 1.0, end: 0.35 }, stage_days: { initial: 20, development: 30, mid: 35, late: 25 }, root_depth_m: { min: 0.3, max: 0.9 }, depletion_fraction: 0.5 },
+    tomato: { kc: { initial: 0.6, mid: 1.15, end: 0.8 }, stage_days: { initial: 30, development: 40, mid: 40, late: 25 }, root_depth_m: { min: 0.3, max: 1.0 }, depletion_fraction: 0.4 }
+};
+
+/**
+ * Available water capacity by soil type; keys are matched against the soil_type text, longest first
+ */
+export const SOIL_WATER_PROFILES: Record<string, SoilWaterProfile> = {
+    sandy: { available_water_mm_per_m: 80, description: "Sandy / desert soils" },
+    "sandy loam": { available_water_mm_per_m: 120, description: "Sandy loam" },
+    laterite: { available_water_mm_per_m: 100, description: "Laterite soils" },
+    red: { available_water_mm_per_m: 110, description: "Red soils (sandy loam to clay loam)" },
+    loam: { available_water_mm_per_m: 150, description: "Loam" },
+    alluvial: { available_water_mm_per_m: 150, description: "Alluvial soils (loam to silty loam)" },
+    "clay loam": { available_water_mm_per_m: 170, description: "Clay loam" },
+    silt: { available_water_mm_per_m: 170, description: "Silty soils" },
+    black: { available_water_mm_per_m: 180, description: "Black cotton soils (vertisols)" },
+    clay: { available_water_mm_per_m: 190, description: "Clay soils" }
+};
+
+export const DEFAULT_SOIL_WATER_PROFILE = "loam";
+
+/**
+ * Thermal-time scaling for short- and long-duration varieties
+ */
+export const VARIETY_GDD_FACTOR: Record<VarietyClass, number> = { early: 0.88, medium: 1, late: 1.12 };
+
+/**
+ * Growing degree day stage models for crop-stage, from sowing (transplanting for rice)
+ */
+export const CROP_PHENOLOGY: Record<string, CropPhenology> = {
+    wheat: {
+        base_temp_c: 5,
+        upper_temp_c: 30,
+        stages: [
+            { name: "germination", label: "Germination and emergence", gdd: 0, water_stage: "initial", irrigation_critical: false,
+                advisories: ["Sow into moist soil; give a pre-sowing irrigation (rauni) if the seedbed is dry"] },
+            { name: "crown_root_initiation", label: "Crown root initiation", gdd: 250, water_stage: "development", irrigation_critical: true,
+                advisories: ["Give the first irrigation now (about 21 days after sowing); it is the most yield-critical irrigation in wheat",
+                    "Top-dress the second third of nitrogen with this irrigation",
+                    "Apply post-emergence herbicide for Phalaris and broadleaf weeds at 30-35 days after sowing"] },
+            { name: "tillering", label: "Tillering", gdd: 350, water_stage: "development", irrigation_critical: false,
+                advisories: ["Top-dress the remaining nitrogen before the second irrigation", "Scout for yellow rust patches in cool, humid spells"] },
+            { name: "jointing", label: "Jointing", gdd: 600, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Irrigate at jointing (about 60-65 days after sowing)"] },
+            { name: "booting", label: "Booting", gdd: 800, water_stage: "mid", irrigation_critical: false,
+                advisories: ["Keep the soil moist; avoid irrigating in strong wind to prevent lodging"] },
+            { name: "flowering", label: "Heading and flowering", gdd: 950, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Irrigate at flowering; moisture stress now reduces grain number", "Spray for aphids only above 10 per ear-head"] },
+            { name: "grain_filling", label: "Milk stage / grain filling", gdd: 1150, water_stage: "late", irrigation_critical: true,
+                advisories: ["Irrigate at milk stage, and lightly in the evening if maximum temperatures pass 30°C (terminal heat)"] },
+            { name: "dough", label: "Dough stage", gdd: 1400, water_stage: "late", irrigation_critical: false,
+                advisories: ["Give the last irrigation at soft dough; stop irrigating afterwards"] },
+            { name: "maturity", label: "Physiological maturity", gdd: 1650, water_stage: "late", irrigation_critical: false,
+                advisories: ["Harvest when grains are hard and below 20% moisture; arrange combine or reaper in advance"] }
+        ]
+    },
+    rice: {
+        base_temp_c: 10,
+        upper_temp_c: 35,
+        stages: [
+            { name: "establishment", label: "Transplanting and establishment", gdd: 0, water_stage: "initial", irrigation_critical: false,
+                advisories: ["Keep 2-3 cm standing water for the first week after transplanting", "Fill gaps within 7-10 days"] },
+            { name: "tillering", label: "Active tillering", gdd: 300, water_stage: "development", irrigation_critical: false,
+                advisories: ["Top-dress nitrogen at active tillering", "Alternate wetting and drying can start once tillering is established"] },
+            { name: "panicle_initiation", label: "Panicle initiation", gdd: 800, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Apply the last nitrogen split", "Do not let the field dry out from panicle initiation to flowering"] },
+            { name: "booting", label: "Booting", gdd: 1050, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Maintain 5 cm standing water", "Check the base of tillers for plant hoppers"] },
+            { name: "flowering", label: "Heading and flowering", gdd: 1250, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Keep water standing; stress at anthesis causes unfilled spikelets", "Avoid spraying during morning anthesis hours"] },
+            { name: "grain_filling", label: "Grain filling", gdd: 1450, water_stage: "late", irrigation_critical: false,
+                advisories: ["Keep the soil saturated until the dough stage"] },
+            { name: "maturity", label: "Physiological maturity", gdd: 1900, water_stage: "late", irrigation_critical: false,
+                advisories: ["Drain the field 10-15 days before harvest", "Harvest when 80-85% of grains are straw coloured"] }
+        ]
+    },
+    cotton: {
+        base_temp_c: 15,
+        upper_temp_c: 35,
+        stages: [
+            { name: "emergence", label: "Emergence and seedling", gdd: 0, water_stage: "initial", irrigation_critical: false,
+                advisories: ["Thin to one plant per hill about 15-20 days after sowing", "Delay the first irrigation as long as plants show no stress"] },
+            { name: "squaring", label: "Squaring", gdd: 600, water_stage: "development", irrigation_critical: false,
+                advisories: ["Top-dress nitrogen at first square", "Install pheromone traps for bollworm"] },
+            { name: "flowering", label: "Flowering", gdd: 1000, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Irrigate at 10-12 day intervals in dry spells; stress now sheds squares and flowers"] },
+            { name: "boll_development", label: "Boll development", gdd: 1400, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Keep soil moisture steady to limit boll shedding"] },
+            { name: "boll_opening", label: "Boll opening", gdd: 2000, water_stage: "late", irrigation_critical: false,
+                advisories: ["Stop irrigating once about half the bolls have opened", "Start picking when bolls are fully open and dry"] },
+            { name: "maturity", label: "Crop maturity", gdd: 2400, water_stage: "late", irrigation_critical: false,
+                advisories: ["Complete the final picking and destroy stalks to break the pink bollworm cycle"] }
+        ]
+    },
+    maize: {
+        base_temp_c: 10,
+        upper_temp_c: 30,
+        stages: [
+            { name: "emergence", label: "Emergence", gdd: 0, water_stage: "initial", irrigation_critical: false,
+                advisories: ["Ensure uniform emergence; gap-fill within a week"] },
+            { name: "knee_high", label: "Knee-high (V6-V8)", gdd: 350, water_stage: "development", irrigation_critical: false,
+                advisories: ["Top-dress nitrogen and earth up", "Scout whorls for fall armyworm"] },
+            { name: "tasseling", label: "Tasseling", gdd: 750, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Irrigate if the soil is dry; tasseling to silking is the most water-sensitive period"] },
+            { name: "silking", label: "Silking", gdd: 850, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Moisture stress during silking sharply cuts kernel set"] },
+            { name: "grain_filling", label: "Grain filling (dough)", gdd: 1050, water_stage: "late", irrigation_critical: false,
+                advisories: ["One more irrigation at dough stage if dry"] },
+            { name: "maturity", label: "Physiological maturity (black layer)", gdd: 1450, water_stage: "late", irrigation_critical: false,
+                advisories: ["Harvest when husks are dry and grain moisture is 20-25%"] }
+        ]
+    },
+    soybean: {
+        base_temp_c: 10,
+        upper_temp_c: 30,
+        stages: [
+            { name: "emergence", label: "Emergence", gdd: 0, water_stage: "initial", irrigation_critical: false,
+                advisories: ["Ensure drainage; soybean seedlings do not tolerate waterlogging"] },
+            { name: "vegetative", label: "Vegetative growth", gdd: 250, water_stage: "development", irrigation_critical: false,
+                advisories: ["Keep the crop weed-free for the first 45 days"] },
+            { name: "flowering", label: "Flowering", gdd: 700, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Give a protective irrigation if a dry spell exceeds 10 days"] },
+            { name: "pod_development", label: "Pod development", gdd: 950, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Moisture stress now causes pod drop"] },
+            { name: "seed_filling", label: "Seed filling", gdd: 1150, water_stage: "late", irrigation_critical: true,
+                advisories: ["Keep soil moist until pods begin to yellow"] },
+            { name: "maturity", label: "Physiological maturity", gdd: 1500, water_stage: "late", irrigation_critical: false,
+                advisories: ["Harvest when 95% of pods turn brown to avoid shattering"] }
+        ]
+    },
+    mustard: {
+        base_temp_c: 5,
+        upper_temp_c: 30,
+        stages: [
+            { name: "emergence", label: "Emergence", gdd: 0, water_stage: "initial", irrigation_critical: false,
+                advisories: ["Thin to 10-15 cm plant spacing about 15-20 days after sowing"] },
+            { name: "rosette", label: "Rosette", gdd: 250, water_stage: "development", irrigation_critical: true,
+                advisories: ["Give the first irrigation at 30-35 days after sowing and top-dress nitrogen"] },
+            { name: "flowering", label: "Flowering", gdd: 650, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Irrigate at flowering if the soil is dry", "Watch for aphid colonies on the inflorescence in cloudy weather"] },
+            { name: "siliqua_development", label: "Siliqua development", gdd: 950, water_stage: "late", irrigation_critical: false,
+                advisories: ["A light irrigation at pod filling helps in dry years"] },
+            { name: "maturity", label: "Physiological maturity", gdd: 1500, water_stage: "late", irrigation_critical: false,
+                advisories: ["Harvest when 75% of siliquae turn yellow to limit shattering"] }
+        ]
+    },
+    chickpea: {
+        base_temp_c: 5,
+        upper_temp_c: 30,
+        stages: [
+            { name: "emergence", label: "Emergence", gdd: 0, water_stage: "initial", irrigation_critical: false,
+                advisories: ["Avoid early irrigation; chickpea grows well on residual moisture"] },
+            { name: "branching", label: "Branching", gdd: 300, water_stage: "development", irrigation_critical: false,
+                advisories: ["Nip the growing tips at 30-40 days to encourage branching"] },
+            { name: "flowering", label: "Flowering", gdd: 700, water_stage: "mid", irrigation_critical: true,
+                advisories: ["Give one light irrigation just before flowering if the soil is dry; avoid flooding"] },
+            { name: "pod_filling", label: "Pod filling", gdd: 950, water_stage: "late", irrigation_critical: false,
+                advisories: ["Scout for pod borer larvae; spray when one larva per metre row is seen"] },
+            { name: "maturity", label: "Physiological maturity", gdd: 1300, water_stage: "late", irrigation_critical: false,
+                advisories: ["Harvest when leaves turn reddish brown and pods are dry"] }
+        ]
+    }
+};
+
+/**
+ * Soil test crop response (STCR) targeted-yield equations and split schedules for fertilizer-plan.
+ * Coefficients are representative of AICRP-STCR equations for alluvial soils of the Indo-Gangetic plains;
+ * soil tests are alkaline KMnO4-N, Olsen P and NH4OAc-K in kg/ha.
+ */
+export const CROP_FERTILIZER_PROFILES: Record<string, CropFertilizerProfile> = {
+    wheat: {
+        equations: { n: { per_quintal: 4.72, soil_factor: 0.42 }, p2o5: { per_quintal: 2.58, soil_factor: 3.16 }, k2o: { per_quintal: 2.16, soil_factor: 0.22 } },
+        target_yield: { min: 30, typical: 50, max: 65 },
+        recommended_dose: { n: 120, p2o5: 60, k2o: 40 },
+        preferred_phosphate: "dap",
+        splits: [
+            { timing: "Basal, at sowing", stage: "germination", share: { n: 0.5, p2o5: 1, k2o: 1 } },
+            { timing: "With the first irrigation (crown root initiation, 21-25 days after sowing)", stage: "crown_root_initiation", share: { n: 0.5 } }
+        ]
+    },
+    rice: {
+        equations: { n: { per_quintal: 4.25, soil_factor: 0.45 }, p2o5: { per_quintal: 2.2, soil_factor: 3.5 }, k2o: { per_quintal: 1.9, soil_factor: 0.25 } },
+        target_yield: { min: 40, typical: 60, max: 80 },
+        recommended_dose: { n: 120, p2o5: 60, k2o: 40 },
+        preferred_phosphate: "dap",
+        splits: [
+            { timing: "At transplanting", stage: "establishment", share: { n: 1 / 3, p2o5: 1, k2o: 1 } },
+            { timing: "Active tillering (about 21 days after transplanting)", stage: "tillering", share: { n: 1 / 3 } },
+            { timing: "Panicle initiation (about 42 days after transplanting)", stage: "panicle_initiation", share: { n: 1 / 3 } }
+        ]
+    },
+    maize: {
+        equations: { n: { per_quintal: 4.88, soil_factor: 0.41 }, p2o5: { per_quintal: 2.61, soil_factor: 3.29 }, k2o: { per_quintal: 2.4, soil_factor: 0.22 } },
+        target_yield: { min: 30, typical: 50, max: 80 },
+        recommended_dose: { n: 120, p2o5: 60, k2o: 40 },
+        preferred_phosphate: "dap",
+        splits: [
+            { timing: "Basal, at sowing", stage: "emergence", share: { n: 1 / 3, p2o5: 1, k2o: 1 } },
+            { timing: "Knee-high stage (about 30 days after sowing)", stage: "knee_high", share: { n: 1 / 3 } },
+            { timing: "Before tasseling (about 50 days after sowing)", stage: "tasseling", share: { n: 1 / 3 } }
+        ]
+    },
+    cotton: {
+        equations: { n: { per_quintal: 10.1, soil_factor: 0.52 }, p2o5: { per_quintal: 4.74, soil_factor: 3.26 }, k2o: { per_quintal: 5.24, soil_factor: 0.27 } },
+        target_yield: { min: 15, typical: 25, max: 35 },
+        recommended_dose: { n: 150, p2o5: 60, k2o: 60 },
+        preferred_phosphate: "dap",
+        splits: [
+            { timing: "Basal, at sowing", stage: "emergence", share: { p2o5: 1, k2o: 1 } },
+            { timing: "At thinning (about 20 days after sowing)", stage: "emergence", share: { n: 0.5 } },
+            { timing: "At first flower", stage: "flowering", share: { n: 0.5 } }
+        ]
+    },
+    mustard: {
+        equations: { n: { per_quintal: 11.5, soil_factor: 0.55 }, p2o5: { per_quintal: 6.3, soil_factor: 4.2 }, k2o: { per_quintal: 4.6, soil_factor: 0.25 } },
+        target_yield: { min: 12, typical: 20, max: 28 },
+        recommended_dose: { n: 80, p2o5: 40, k2o: 40 },
+        preferred_phosphate: "ssp",
+        splits: [
+            { timing: "Basal, at sowing", stage: "emergence", share: { n: 0.5, p2o5: 1, k2o: 1 } },
+            { timing: "With the first irrigation (30-35 days after sowing)", stage: "rosette", share: { n: 0.5 } }
+        ]
+    },
+    soybean: {
+        equations: { n: { per_quintal: 3.3, soil_factor: 0.3 }, p2o5: { per_quintal: 4.6, soil_factor: 3.6 }, k2o: { per_quintal: 3.6, soil_factor: 0.22 } },
+        target_yield: { min: 15, typical: 25, max: 35 },
+        recommended_dose: { n: 20, p2o5: 60, k2o: 40 },
+        minimum_dose: { n: 20 },
+        preferred_phosphate: "ssp",
+        splits: [
+            { timing: "Basal, at sowing (with Rhizobium seed treatment)", stage: "emergence", share: { n: 1, p2o5: 1, k2o: 1 } }
+        ]
+    },
+    chickpea: {
+        equations: { n: { per_quintal: 0, soil_factor: 0 }, p2o5: { per_quintal: 5.3, soil_factor: 3.9 }, k2o: { per_quintal: 3.1, soil_factor: 0.2 } },
+        target_yield: { min: 12, typical: 20, max: 28 },
+        recommended_dose: { n: 20, p2o5: 40, k2o: 20 },
+        minimum_dose: { n: 20 },
+        preferred_phosphate: "ssp",
+        splits: [
+            { timing: "Basal, at sowing (with Rhizobium seed treatment)", stage: "emergence", share: { n: 1, p2o5: 1, k2o: 1 } }
+        ]
+    }
+};
+
+/**
+ * Straight and complex fertilizers with bag sizes and subsidised retail prices
+ */
+export const FERTILIZER_PRODUCTS: Record<"urea" | "dap" | "ssp" | "mop", FertilizerProduct> = {
+    urea: { name: "Urea (46% N)", content: { n: 0.46 }, bag_kg: 45, price_per_bag: 266.5 },
+    dap: { name: "DAP (18-46-0)", content: { n: 0.18, p2o5: 0.46 }, bag_kg: 50, price_per_bag: 1350 },
+    ssp: { name: "Single superphosphate (16% P2O5, 11% S)", content: { p2o5: 0.16, s: 0.11 }, bag_kg: 50, price_per_bag: 500 },
+    mop: { name: "Muriate of potash (60% K2O)", content: { k2o: 0.6 }, bag_kg: 50, price_per_bag: 1700 }
+};
+
+// Nutrients available in the first season from one tonne of farmyard manure, kg
+export const FYM_NUTRIENT_CREDIT: Record<PlantNutrient, number> = { n: 2.5, p2o5: 1.2, k2o: 2.5 };
+
+export const HECTARES_PER_ACRE = 0.4047;
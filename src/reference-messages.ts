@@ -0,0 +1,552 @@
+// src/reference-messages.ts - Crop stage and fertilizer split text from the reference tables in the local languages
+import { Language } from "./i18n.js";
+
+// Keyed by the English text in reference-data.ts; an entry with no translation is returned in English
+type Phrasebook = Record<string, string>;
+
+const hi: Phrasebook = {
+    // Crop stage labels
+    "Germination and emergence": "अंकुरण और उगना",
+    "Crown root initiation": "शीर्ष जड़ निकलने की अवस्था (CRI)",
+    "Tillering": "कल्ले निकलना",
+    "Jointing": "गांठ बनना",
+    "Booting": "गाभा अवस्था",
+    "Heading and flowering": "बालियां निकलना और फूल आना",
+    "Milk stage / grain filling": "दूधिया अवस्था / दाना भरना",
+    "Dough stage": "दाने की गूंथे आटे जैसी (डफ) अवस्था",
+    "Physiological maturity": "कार्यिकीय परिपक्वता",
+    "Transplanting and establishment": "रोपाई और पौध जमना",
+    "Active tillering": "सक्रिय कल्ले निकलना",
+    "Panicle initiation": "बाली बनने की शुरुआत",
+    "Grain filling": "दाना भरना",
+    "Emergence and seedling": "अंकुरण और पौध अवस्था",
+    "Squaring": "कलियां (पुड़ी) बनना",
+    "Flowering": "फूल आना",
+    "Boll development": "टिंडे बनना",
+    "Boll opening": "टिंडे खुलना",
+    "Crop maturity": "फसल परिपक्वता",
+    "Emergence": "अंकुरण",
+    "Knee-high (V6-V8)": "घुटने तक ऊंचाई (V6-V8)",
+    "Tasseling": "नर मंजरी (झंडा) निकलना",
+    "Silking": "भुट्टे में रेशे (सिल्क) निकलना",
+    "Grain filling (dough)": "दाना भरना (डफ)",
+    "Physiological maturity (black layer)": "कार्यिकीय परिपक्वता (काली परत)",
+    "Vegetative growth": "वानस्पतिक बढ़वार",
+    "Pod development": "फली बनना",
+    "Seed filling": "दाना भरना",
+    "Rosette": "रोसेट अवस्था",
+    "Siliqua development": "फलियां (सिलिक्वा) बनना",
+    "Branching": "शाखाएं निकलना",
+    "Pod filling": "फली भरना",
+    // Stage advisories
+    "Sow into moist soil; give a pre-sowing irrigation (rauni) if the seedbed is dry": "नम मिट्टी में बुवाई करें; बीज क्यारी सूखी हो तो बुवाई से पहले सिंचाई (रौनी/पलेवा) करें",
+    "Give the first irrigation now (about 21 days after sowing); it is the most yield-critical irrigation in wheat": "अब पहली सिंचाई करें (बुवाई के लगभग 21 दिन बाद); गेहूं में उपज के लिए यह सबसे महत्वपूर्ण सिंचाई है",
+    "Top-dress the second third of nitrogen with this irrigation": "इस सिंचाई के साथ नाइट्रोजन का दूसरा तिहाई हिस्सा टॉप-ड्रेसिंग में दें",
+    "Apply post-emergence herbicide for Phalaris and broadleaf weeds at 30-35 days after sowing": "बुवाई के 30-35 दिन बाद गुल्ली डंडा (फेलेरिस) और चौड़ी पत्ती वाले खरपतवारों के लिए उगने के बाद वाला खरपतवारनाशी डालें",
+    "Top-dress the remaining nitrogen before the second irrigation": "दूसरी सिंचाई से पहले बची हुई नाइट्रोजन टॉप-ड्रेसिंग में दें",
+    "Scout for yellow rust patches in cool, humid spells": "ठंडे, नम मौसम में पीले रतुए के धब्बों के लिए खेत की निगरानी करें",
+    "Irrigate at jointing (about 60-65 days after sowing)": "गांठ बनने पर सिंचाई करें (बुवाई के लगभग 60-65 दिन बाद)",
+    "Keep the soil moist; avoid irrigating in strong wind to prevent lodging": "मिट्टी नम रखें; फसल गिरने से बचाने के लिए तेज हवा में सिंचाई न करें",
+    "Irrigate at flowering; moisture stress now reduces grain number": "फूल आने पर सिंचाई करें; इस समय नमी की कमी से दानों की संख्या घटती है",
+    "Spray for aphids only above 10 per ear-head": "माहू (एफिड) के लिए छिड़काव तभी करें जब प्रति बाली 10 से अधिक हों",
+    "Irrigate at milk stage, and lightly in the evening if maximum temperatures pass 30°C (terminal heat)": "दूधिया अवस्था में सिंचाई करें, और अधिकतम तापमान 30°C से ऊपर जाए तो शाम को हल्की सिंचाई करें (अंतिम अवस्था की गर्मी)",
+    "Give the last irrigation at soft dough; stop irrigating afterwards": "अंतिम सिंचाई नरम डफ अवस्था में करें; उसके बाद सिंचाई बंद करें",
+    "Harvest when grains are hard and below 20% moisture; arrange combine or reaper in advance": "दाने सख्त हों और नमी 20% से कम हो तब कटाई करें; कंबाइन या रीपर का इंतजाम पहले से करें",
+    "Keep 2-3 cm standing water for the first week after transplanting": "रोपाई के बाद पहले सप्ताह 2-3 सेमी पानी खड़ा रखें",
+    "Fill gaps within 7-10 days": "7-10 दिनों में खाली जगह भरें",
+    "Top-dress nitrogen at active tillering": "सक्रिय कल्ले निकलने पर नाइट्रोजन टॉप-ड्रेसिंग में दें",
+    "Alternate wetting and drying can start once tillering is established": "कल्ले अच्छी तरह निकल आने के बाद बारी-बारी से भिगोना और सुखाना शुरू कर सकते हैं",
+    "Apply the last nitrogen split": "नाइट्रोजन की अंतिम किस्त डालें",
+    "Do not let the field dry out from panicle initiation to flowering": "बाली बनने की शुरुआत से फूल आने तक खेत को सूखने न दें",
+    "Maintain 5 cm standing water": "5 सेमी पानी खड़ा रखें",
+    "Check the base of tillers for plant hoppers": "कल्लों के निचले हिस्से पर फुदकों (प्लांट हॉपर) की जांच करें",
+    "Keep water standing; stress at anthesis causes unfilled spikelets": "पानी खड़ा रखें; परागण के समय नमी की कमी से दाने खाली रह जाते हैं",
+    "Avoid spraying during morning anthesis hours": "सुबह परागण के घंटों में छिड़काव न करें",
+    "Keep the soil saturated until the dough stage": "डफ अवस्था तक मिट्टी को पानी से संतृप्त रखें",
+    "Drain the field 10-15 days before harvest": "कटाई से 10-15 दिन पहले खेत का पानी निकाल दें",
+    "Harvest when 80-85% of grains are straw coloured": "80-85% दाने पुआल के रंग के हो जाएं तब कटाई करें",
+    "Thin to one plant per hill about 15-20 days after sowing": "बुवाई के लगभग 15-20 दिन बाद प्रति थांवला एक पौधा रखकर छंटाई करें",
+    "Delay the first irrigation as long as plants show no stress": "जब तक पौधों में पानी की कमी के लक्षण न दिखें, पहली सिंचाई टालें",
+    "Top-dress nitrogen at first square": "पहली कली (पुड़ी) बनने पर नाइट्रोजन टॉप-ड्रेसिंग में दें",
+    "Install pheromone traps for bollworm": "टिंडा भेदक सुंडी (बॉलवर्म) के लिए फेरोमोन ट्रैप लगाएं",
+    "Irrigate at 10-12 day intervals in dry spells; stress now sheds squares and flowers": "सूखे दौर में 10-12 दिन के अंतर पर सिंचाई करें; इस समय नमी की कमी से कलियां और फूल झड़ते हैं",
+    "Keep soil moisture steady to limit boll shedding": "टिंडों का झड़ना कम करने के लिए मिट्टी की नमी एक समान रखें",
+    "Stop irrigating once about half the bolls have opened": "लगभग आधे टिंडे खुल जाने पर सिंचाई बंद करें",
+    "Start picking when bolls are fully open and dry": "टिंडे पूरी तरह खुले और सूखे हों तब चुनाई शुरू करें",
+    "Complete the final picking and destroy stalks to break the pink bollworm cycle": "अंतिम चुनाई पूरी करें और गुलाबी सुंडी का चक्र तोड़ने के लिए डंठल नष्ट करें",
+    "Ensure uniform emergence; gap-fill within a week": "एक समान अंकुरण सुनिश्चित करें; एक सप्ताह में खाली जगह भरें",
+    "Top-dress nitrogen and earth up": "नाइट्रोजन टॉप-ड्रेसिंग में दें और मिट्टी चढ़ाएं",
+    "Scout whorls for fall armyworm": "फॉल आर्मीवर्म के लिए पौधों की गोभ की जांच करें",
+    "Irrigate if the soil is dry; tasseling to silking is the most water-sensitive period": "मिट्टी सूखी हो तो सिंचाई करें; झंडा निकलने से रेशे निकलने तक का समय पानी के लिए सबसे संवेदनशील है",
+    "Moisture stress during silking sharply cuts kernel set": "रेशे निकलते समय नमी की कमी से दाने बहुत कम बनते हैं",
+    "One more irrigation at dough stage if dry": "सूखा हो तो डफ अवस्था में एक और सिंचाई करें",
+    "Harvest when husks are dry and grain moisture is 20-25%": "छिलके सूख जाएं और दानों में नमी 20-25% हो तब कटाई करें",
+    "Ensure drainage; soybean seedlings do not tolerate waterlogging": "जल निकास सुनिश्चित करें; सोयाबीन की पौध जलभराव सहन नहीं करती",
+    "Keep the crop weed-free for the first 45 days": "पहले 45 दिन फसल को खरपतवार मुक्त रखें",
+    "Give a protective irrigation if a dry spell exceeds 10 days": "सूखा दौर 10 दिन से लंबा हो तो जीवनरक्षक सिंचाई करें",
+    "Moisture stress now causes pod drop": "इस समय नमी की कमी से फलियां झड़ती हैं",
+    "Keep soil moist until pods begin to yellow": "फलियां पीली पड़ने तक मिट्टी नम रखें",
+    "Harvest when 95% of pods turn brown to avoid shattering": "फलियां चटकने से बचाने के लिए 95% फलियां भूरी होने पर कटाई करें",
+    "Thin to 10-15 cm plant spacing about 15-20 days after sowing": "बुवाई के लगभग 15-20 दिन बाद पौधों के बीच 10-15 सेमी दूरी रखकर छंटाई करें",
+    "Give the first irrigation at 30-35 days after sowing and top-dress nitrogen": "बुवाई के 30-35 दिन बाद पहली सिंचाई करें और नाइट्रोजन टॉप-ड्रेसिंग में दें",
+    "Irrigate at flowering if the soil is dry": "मिट्टी सूखी हो तो फूल आने पर सिंचाई करें",
+    "Watch for aphid colonies on the inflorescence in cloudy weather": "बादल वाले मौसम में पुष्पक्रम पर माहू की कॉलोनियों पर नजर रखें",
+    "A light irrigation at pod filling helps in dry years": "सूखे वर्षों में फली भरते समय हल्की सिंचाई लाभदायक है",
+    "Harvest when 75% of siliquae turn yellow to limit shattering": "फलियां चटकने से बचाने के लिए 75% फलियां पीली होने पर कटाई करें",
+    "Avoid early irrigation; chickpea grows well on residual moisture": "जल्दी सिंचाई न करें; चना बची हुई नमी पर अच्छा बढ़ता है",
+    "Nip the growing tips at 30-40 days to encourage branching": "शाखाएं बढ़ाने के लिए 30-40 दिन पर बढ़ती हुई नोक तोड़ें (खुंटाई)",
+    "Give one light irrigation just before flowering if the soil is dry; avoid flooding": "मिट्टी सूखी हो तो फूल आने से ठीक पहले एक हल्की सिंचाई करें; खेत में पानी न भरें",
+    "Scout for pod borer larvae; spray when one larva per metre row is seen": "फली छेदक की सुंडियों की जांच करें; प्रति मीटर कतार में एक सुंडी दिखे तो छिड़काव करें",
+    "Harvest when leaves turn reddish brown and pods are dry": "पत्तियां लाल-भूरी हो जाएं और फलियां सूख जाएं तब कटाई करें",
+    // Fertilizer split timings
+    "Basal, at sowing": "आधार मात्रा, बुवाई के समय",
+    "With the first irrigation (crown root initiation, 21-25 days after sowing)": "पहली सिंचाई के साथ (शीर्ष जड़ अवस्था, बुवाई के 21-25 दिन बाद)",
+    "At transplanting": "रोपाई के समय",
+    "Active tillering (about 21 days after transplanting)": "सक्रिय कल्ले निकलने पर (रोपाई के लगभग 21 दिन बाद)",
+    "Panicle initiation (about 42 days after transplanting)": "बाली बनने की शुरुआत पर (रोपाई के लगभग 42 दिन बाद)",
+    "Knee-high stage (about 30 days after sowing)": "घुटने तक ऊंचाई पर (बुवाई के लगभग 30 दिन बाद)",
+    "Before tasseling (about 50 days after sowing)": "झंडा निकलने से पहले (बुवाई के लगभग 50 दिन बाद)",
+    "At thinning (about 20 days after sowing)": "छंटाई के समय (बुवाई के लगभग 20 दिन बाद)",
+    "At first flower": "पहला फूल आने पर",
+    "With the first irrigation (30-35 days after sowing)": "पहली सिंचाई के साथ (बुवाई के 30-35 दिन बाद)",
+    "Basal, at sowing (with Rhizobium seed treatment)": "आधार मात्रा, बुवाई के समय (राइजोबियम बीजोपचार के साथ)"
+};
+
+const pa: Phrasebook = {
+    // Crop stage labels
+    "Germination and emergence": "ਉੱਗਣਾ ਅਤੇ ਪੁੰਗਰਨਾ",
+    "Crown root initiation": "ਤਾਜ ਜੜ੍ਹਾਂ ਨਿਕਲਣਾ (CRI)",
+    "Tillering": "ਬੂਝਾ ਮਾਰਨਾ",
+    "Jointing": "ਗੰਢਾਂ ਬਣਨਾ",
+    "Booting": "ਗੋਭ ਅਵਸਥਾ",
+    "Heading and flowering": "ਸਿੱਟੇ ਨਿਕਲਣਾ ਅਤੇ ਫੁੱਲ ਆਉਣਾ",
+    "Milk stage / grain filling": "ਦੋਧਾ ਅਵਸਥਾ / ਦਾਣਾ ਭਰਨਾ",
+    "Dough stage": "ਦਾਣੇ ਦੀ ਨਰਮ (ਡੋ) ਅਵਸਥਾ",
+    "Physiological maturity": "ਸਰੀਰਕ ਪਕਾਈ",
+    "Transplanting and establishment": "ਲੁਆਈ ਅਤੇ ਬੂਟੇ ਜੰਮਣਾ",
+    "Active tillering": "ਤੇਜ਼ ਬੂਝਾ ਮਾਰਨਾ",
+    "Panicle initiation": "ਮੁੰਜਰਾਂ ਬਣਨ ਦੀ ਸ਼ੁਰੂਆਤ",
+    "Grain filling": "ਦਾਣਾ ਭਰਨਾ",
+    "Emergence and seedling": "ਉੱਗਣਾ ਅਤੇ ਛੋਟੇ ਬੂਟੇ",
+    "Squaring": "ਡੋਡੀਆਂ ਬਣਨਾ",
+    "Flowering": "ਫੁੱਲ ਆਉਣਾ",
+    "Boll development": "ਟੀਂਡੇ ਬਣਨਾ",
+    "Boll opening": "ਟੀਂਡੇ ਖਿੜਨਾ",
+    "Crop maturity": "ਫ਼ਸਲ ਦੀ ਪਕਾਈ",
+    "Emergence": "ਉੱਗਣਾ",
+    "Knee-high (V6-V8)": "ਗੋਡੇ-ਗੋਡੇ ਉਚਾਈ (V6-V8)",
+    "Tasseling": "ਝੰਡੇ ਨਿਕਲਣਾ",
+    "Silking": "ਛੱਲੀ 'ਤੇ ਵਾਲ (ਸਿਲਕ) ਨਿਕਲਣਾ",
+    "Grain filling (dough)": "ਦਾਣਾ ਭਰਨਾ (ਡੋ)",
+    "Physiological maturity (black layer)": "ਸਰੀਰਕ ਪਕਾਈ (ਕਾਲੀ ਪਰਤ)",
+    "Vegetative growth": "ਬਨਸਪਤੀ ਵਾਧਾ",
+    "Pod development": "ਫਲੀਆਂ ਬਣਨਾ",
+    "Seed filling": "ਬੀਜ ਭਰਨਾ",
+    "Rosette": "ਰੋਜ਼ੇਟ ਅਵਸਥਾ",
+    "Siliqua development": "ਫਲੀਆਂ (ਸਿਲੀਕੁਆ) ਬਣਨਾ",
+    "Branching": "ਸ਼ਾਖਾਵਾਂ ਨਿਕਲਣਾ",
+    "Pod filling": "ਫਲੀਆਂ ਭਰਨਾ",
+    // Stage advisories
+    "Sow into moist soil; give a pre-sowing irrigation (rauni) if the seedbed is dry": "ਵੱਤਰ ਵਾਲੀ ਮਿੱਟੀ ਵਿੱਚ ਬਿਜਾਈ ਕਰੋ; ਜ਼ਮੀਨ ਸੁੱਕੀ ਹੋਵੇ ਤਾਂ ਬਿਜਾਈ ਤੋਂ ਪਹਿਲਾਂ ਰੌਣੀ ਕਰੋ",
+    "Give the first irrigation now (about 21 days after sowing); it is the most yield-critical irrigation in wheat": "ਹੁਣ ਪਹਿਲਾ ਪਾਣੀ ਲਾਓ (ਬਿਜਾਈ ਤੋਂ ਲਗਭਗ 21 ਦਿਨ ਬਾਅਦ); ਕਣਕ ਵਿੱਚ ਝਾੜ ਲਈ ਇਹ ਸਭ ਤੋਂ ਅਹਿਮ ਪਾਣੀ ਹੈ",
+    "Top-dress the second third of nitrogen with this irrigation": "ਇਸ ਪਾਣੀ ਨਾਲ ਨਾਈਟ੍ਰੋਜਨ ਦਾ ਦੂਜਾ ਤੀਜਾ ਹਿੱਸਾ ਛੱਟੇ ਨਾਲ ਪਾਓ",
+    "Apply post-emergence herbicide for Phalaris and broadleaf weeds at 30-35 days after sowing": "ਬਿਜਾਈ ਤੋਂ 30-35 ਦਿਨ ਬਾਅਦ ਗੁੱਲੀ ਡੰਡਾ (ਫੈਲੇਰਿਸ) ਅਤੇ ਚੌੜੇ ਪੱਤੇ ਵਾਲੇ ਨਦੀਨਾਂ ਲਈ ਉੱਗਣ ਤੋਂ ਬਾਅਦ ਵਾਲੀ ਨਦੀਨਨਾਸ਼ਕ ਦਾ ਛਿੜਕਾਅ ਕਰੋ",
+    "Top-dress the remaining nitrogen before the second irrigation": "ਦੂਜੇ ਪਾਣੀ ਤੋਂ ਪਹਿਲਾਂ ਬਾਕੀ ਨਾਈਟ੍ਰੋਜਨ ਛੱਟੇ ਨਾਲ ਪਾਓ",
+    "Scout for yellow rust patches in cool, humid spells": "ਠੰਢੇ, ਸਿੱਲ੍ਹੇ ਮੌਸਮ ਵਿੱਚ ਪੀਲੀ ਕੁੰਗੀ ਦੇ ਧੌੜਿਆਂ ਲਈ ਖੇਤ ਦਾ ਸਰਵੇਖਣ ਕਰੋ",
+    "Irrigate at jointing (about 60-65 days after sowing)": "ਗੰਢਾਂ ਬਣਨ ਵੇਲੇ ਪਾਣੀ ਲਾਓ (ਬਿਜਾਈ ਤੋਂ ਲਗਭਗ 60-65 ਦਿਨ ਬਾਅਦ)",
+    "Keep the soil moist; avoid irrigating in strong wind to prevent lodging": "ਮਿੱਟੀ ਨਮ ਰੱਖੋ; ਫ਼ਸਲ ਡਿੱਗਣ ਤੋਂ ਬਚਾਉਣ ਲਈ ਤੇਜ਼ ਹਵਾ ਵਿੱਚ ਪਾਣੀ ਨਾ ਲਾਓ",
+    "Irrigate at flowering; moisture stress now reduces grain number": "ਫੁੱਲ ਆਉਣ ਵੇਲੇ ਪਾਣੀ ਲਾਓ; ਇਸ ਸਮੇਂ ਨਮੀ ਦੀ ਘਾਟ ਨਾਲ ਦਾਣਿਆਂ ਦੀ ਗਿਣਤੀ ਘਟਦੀ ਹੈ",
+    "Spray for aphids only above 10 per ear-head": "ਚੇਪੇ ਲਈ ਛਿੜਕਾਅ ਤਾਂ ਹੀ ਕਰੋ ਜੇ ਪ੍ਰਤੀ ਸਿੱਟਾ 10 ਤੋਂ ਵੱਧ ਹੋਣ",
+    "Irrigate at milk stage, and lightly in the evening if maximum temperatures pass 30°C (terminal heat)": "ਦੋਧੇ ਦਾਣੇ ਵੇਲੇ ਪਾਣੀ ਲਾਓ, ਅਤੇ ਵੱਧ ਤੋਂ ਵੱਧ ਤਾਪਮਾਨ 30°C ਤੋਂ ਉੱਪਰ ਜਾਵੇ ਤਾਂ ਸ਼ਾਮ ਨੂੰ ਹਲਕਾ ਪਾਣੀ ਲਾਓ (ਅਖੀਰਲੀ ਗਰਮੀ)",
+    "Give the last irrigation at soft dough; stop irrigating afterwards": "ਆਖਰੀ ਪਾਣੀ ਨਰਮ ਡੋ ਅਵਸਥਾ 'ਤੇ ਲਾਓ; ਉਸ ਤੋਂ ਬਾਅਦ ਪਾਣੀ ਬੰਦ ਕਰੋ",
+    "Harvest when grains are hard and below 20% moisture; arrange combine or reaper in advance": "ਦਾਣੇ ਸਖ਼ਤ ਹੋਣ ਅਤੇ ਨਮੀ 20% ਤੋਂ ਘੱਟ ਹੋਵੇ ਤਾਂ ਵਾਢੀ ਕਰੋ; ਕੰਬਾਈਨ ਜਾਂ ਰੀਪਰ ਦਾ ਪ੍ਰਬੰਧ ਪਹਿਲਾਂ ਕਰ ਲਓ",
+    "Keep 2-3 cm standing water for the first week after transplanting": "ਲੁਆਈ ਤੋਂ ਬਾਅਦ ਪਹਿਲੇ ਹਫ਼ਤੇ 2-3 ਸੈਂਟੀਮੀਟਰ ਪਾਣੀ ਖੜ੍ਹਾ ਰੱਖੋ",
+    "Fill gaps within 7-10 days": "7-10 ਦਿਨਾਂ ਵਿੱਚ ਖਾਲੀ ਥਾਵਾਂ ਭਰੋ",
+    "Top-dress nitrogen at active tillering": "ਤੇਜ਼ ਬੂਝਾ ਮਾਰਨ ਵੇਲੇ ਨਾਈਟ੍ਰੋਜਨ ਛੱਟੇ ਨਾਲ ਪਾਓ",
+    "Alternate wetting and drying can start once tillering is established": "ਬੂਝਾ ਚੰਗੀ ਤਰ੍ਹਾਂ ਮਾਰਨ ਤੋਂ ਬਾਅਦ ਵਾਰੀ-ਵਾਰੀ ਗਿੱਲਾ ਅਤੇ ਸੁੱਕਾ ਕਰਨਾ ਸ਼ੁਰੂ ਕੀਤਾ ਜਾ ਸਕਦਾ ਹੈ",
+    "Apply the last nitrogen split": "ਨਾਈਟ੍ਰੋਜਨ ਦੀ ਆਖਰੀ ਕਿਸ਼ਤ ਪਾਓ",
+    "Do not let the field dry out from panicle initiation to flowering": "ਮੁੰਜਰਾਂ ਬਣਨ ਦੀ ਸ਼ੁਰੂਆਤ ਤੋਂ ਫੁੱਲ ਆਉਣ ਤੱਕ ਖੇਤ ਨੂੰ ਸੁੱਕਣ ਨਾ ਦਿਓ",
+    "Maintain 5 cm standing water": "5 ਸੈਂਟੀਮੀਟਰ ਪਾਣੀ ਖੜ੍ਹਾ ਰੱਖੋ",
+    "Check the base of tillers for plant hoppers": "ਬੂਟਿਆਂ ਦੇ ਮੁੱਢਾਂ 'ਤੇ ਟਿੱਡਿਆਂ (ਪਲਾਂਟ ਹੌਪਰ) ਦੀ ਜਾਂਚ ਕਰੋ",
+    "Keep water standing; stress at anthesis causes unfilled spikelets": "ਪਾਣੀ ਖੜ੍ਹਾ ਰੱਖੋ; ਪਰਾਗਣ ਵੇਲੇ ਨਮੀ ਦੀ ਘਾਟ ਨਾਲ ਦਾਣੇ ਖਾਲੀ ਰਹਿ ਜਾਂਦੇ ਹਨ",
+    "Avoid spraying during morning anthesis hours": "ਸਵੇਰੇ ਪਰਾਗਣ ਦੇ ਘੰਟਿਆਂ ਦੌਰਾਨ ਛਿੜਕਾਅ ਨਾ ਕਰੋ",
+    "Keep the soil saturated until the dough stage": "ਡੋ ਅਵਸਥਾ ਤੱਕ ਮਿੱਟੀ ਨੂੰ ਪਾਣੀ ਨਾਲ ਤਰ ਰੱਖੋ",
+    "Drain the field 10-15 days before harvest": "ਵਾਢੀ ਤੋਂ 10-15 ਦਿਨ ਪਹਿਲਾਂ ਖੇਤ ਦਾ ਪਾਣੀ ਕੱਢ ਦਿਓ",
+    "Harvest when 80-85% of grains are straw coloured": "80-85% ਦਾਣੇ ਪਰਾਲੀ ਰੰਗੇ ਹੋ ਜਾਣ ਤਾਂ ਵਾਢੀ ਕਰੋ",
+    "Thin to one plant per hill about 15-20 days after sowing": "ਬਿਜਾਈ ਤੋਂ ਲਗਭਗ 15-20 ਦਿਨ ਬਾਅਦ ਹਰ ਥਾਂ ਇੱਕ ਬੂਟਾ ਰੱਖ ਕੇ ਛਾਂਟੀ ਕਰੋ",
+    "Delay the first irrigation as long as plants show no stress": "ਜਦੋਂ ਤੱਕ ਬੂਟਿਆਂ 'ਤੇ ਔੜ ਦਾ ਅਸਰ ਨਾ ਦਿਸੇ, ਪਹਿਲਾ ਪਾਣੀ ਟਾਲੋ",
+    "Top-dress nitrogen at first square": "ਪਹਿਲੀ ਡੋਡੀ ਬਣਨ 'ਤੇ ਨਾਈਟ੍ਰੋਜਨ ਛੱਟੇ ਨਾਲ ਪਾਓ",
+    "Install pheromone traps for bollworm": "ਟੀਂਡੇ ਦੀਆਂ ਸੁੰਡੀਆਂ ਲਈ ਫੇਰੋਮੋਨ ਟਰੈਪ ਲਗਾਓ",
+    "Irrigate at 10-12 day intervals in dry spells; stress now sheds squares and flowers": "ਔੜ ਵਿੱਚ 10-12 ਦਿਨਾਂ ਦੇ ਵਕਫ਼ੇ 'ਤੇ ਪਾਣੀ ਲਾਓ; ਇਸ ਸਮੇਂ ਨਮੀ ਦੀ ਘਾਟ ਨਾਲ ਡੋਡੀਆਂ ਅਤੇ ਫੁੱਲ ਝੜਦੇ ਹਨ",
+    "Keep soil moisture steady to limit boll shedding": "ਟੀਂਡੇ ਝੜਨ ਤੋਂ ਰੋਕਣ ਲਈ ਮਿੱਟੀ ਦੀ ਨਮੀ ਇੱਕਸਾਰ ਰੱਖੋ",
+    "Stop irrigating once about half the bolls have opened": "ਲਗਭਗ ਅੱਧੇ ਟੀਂਡੇ ਖਿੜ ਜਾਣ 'ਤੇ ਪਾਣੀ ਬੰਦ ਕਰੋ",
+    "Start picking when bolls are fully open and dry": "ਟੀਂਡੇ ਪੂਰੇ ਖਿੜੇ ਅਤੇ ਸੁੱਕੇ ਹੋਣ ਤਾਂ ਚੁਗਾਈ ਸ਼ੁਰੂ ਕਰੋ",
+    "Complete the final picking and destroy stalks to break the pink bollworm cycle": "ਆਖਰੀ ਚੁਗਾਈ ਪੂਰੀ ਕਰੋ ਅਤੇ ਗੁਲਾਬੀ ਸੁੰਡੀ ਦਾ ਚੱਕਰ ਤੋੜਨ ਲਈ ਛਟੀਆਂ ਨਸ਼ਟ ਕਰੋ",
+    "Ensure uniform emergence; gap-fill within a week": "ਇੱਕਸਾਰ ਉੱਗਣਾ ਯਕੀਨੀ ਬਣਾਓ; ਇੱਕ ਹਫ਼ਤੇ ਵਿੱਚ ਖਾਲੀ ਥਾਵਾਂ ਭਰੋ",
+    "Top-dress nitrogen and earth up": "ਨਾਈਟ੍ਰੋਜਨ ਛੱਟੇ ਨਾਲ ਪਾਓ ਅਤੇ ਮਿੱਟੀ ਚੜ੍ਹਾਓ",
+    "Scout whorls for fall armyworm": "ਫਾਲ ਆਰਮੀਵਰਮ ਲਈ ਬੂਟਿਆਂ ਦੀਆਂ ਗੋਭਾਂ ਦੀ ਜਾਂਚ ਕਰੋ",
+    "Irrigate if the soil is dry; tasseling to silking is the most water-sensitive period": "ਮਿੱਟੀ ਸੁੱਕੀ ਹੋਵੇ ਤਾਂ ਪਾਣੀ ਲਾਓ; ਝੰਡੇ ਨਿਕਲਣ ਤੋਂ ਵਾਲ ਨਿਕਲਣ ਤੱਕ ਦਾ ਸਮਾਂ ਪਾਣੀ ਲਈ ਸਭ ਤੋਂ ਸੰਵੇਦਨਸ਼ੀਲ ਹੈ",
+    "Moisture stress during silking sharply cuts kernel set": "ਵਾਲ ਨਿਕਲਣ ਵੇਲੇ ਨਮੀ ਦੀ ਘਾਟ ਨਾਲ ਦਾਣੇ ਬਹੁਤ ਘੱਟ ਬਣਦੇ ਹਨ",
+    "One more irrigation at dough stage if dry": "ਔੜ ਹੋਵੇ ਤਾਂ ਡੋ ਅਵਸਥਾ 'ਤੇ ਇੱਕ ਹੋਰ ਪਾਣੀ ਲਾਓ",
+    "Harvest when husks are dry and grain moisture is 20-25%": "ਛੱਲੀਆਂ ਦੇ ਪਰਦੇ ਸੁੱਕ ਜਾਣ ਅਤੇ ਦਾਣਿਆਂ ਵਿੱਚ ਨਮੀ 20-25% ਹੋਵੇ ਤਾਂ ਤੁੜਾਈ ਕਰੋ",
+    "Ensure drainage; soybean seedlings do not tolerate waterlogging": "ਪਾਣੀ ਦਾ ਨਿਕਾਸ ਯਕੀਨੀ ਬਣਾਓ; ਸੋਇਆਬੀਨ ਦੇ ਛੋਟੇ ਬੂਟੇ ਖੜ੍ਹਾ ਪਾਣੀ ਨਹੀਂ ਸਹਿੰਦੇ",
+    "Keep the crop weed-free for the first 45 days": "ਪਹਿਲੇ 45 ਦਿਨ ਫ਼ਸਲ ਨੂੰ ਨਦੀਨ-ਮੁਕਤ ਰੱਖੋ",
+    "Give a protective irrigation if a dry spell exceeds 10 days": "ਔੜ 10 ਦਿਨਾਂ ਤੋਂ ਲੰਬੀ ਹੋਵੇ ਤਾਂ ਬਚਾਅ ਲਈ ਪਾਣੀ ਲਾਓ",
+    "Moisture stress now causes pod drop": "ਇਸ ਸਮੇਂ ਨਮੀ ਦੀ ਘਾਟ ਨਾਲ ਫਲੀਆਂ ਝੜਦੀਆਂ ਹਨ",
+    "Keep soil moist until pods begin to yellow": "ਫਲੀਆਂ ਪੀਲੀਆਂ ਹੋਣ ਤੱਕ ਮਿੱਟੀ ਨਮ ਰੱਖੋ",
+    "Harvest when 95% of pods turn brown to avoid shattering": "ਫਲੀਆਂ ਕਿਰਨ ਤੋਂ ਬਚਾਉਣ ਲਈ 95% ਫਲੀਆਂ ਭੂਰੀਆਂ ਹੋਣ 'ਤੇ ਵਾਢੀ ਕਰੋ",
+    "Thin to 10-15 cm plant spacing about 15-20 days after sowing": "ਬਿਜਾਈ ਤੋਂ ਲਗਭਗ 15-20 ਦਿਨ ਬਾਅਦ ਬੂਟਿਆਂ ਵਿਚਕਾਰ 10-15 ਸੈਂਟੀਮੀਟਰ ਫ਼ਾਸਲਾ ਰੱਖ ਕੇ ਛਾਂਟੀ ਕਰੋ",
+    "Give the first irrigation at 30-35 days after sowing and top-dress nitrogen": "ਬਿਜਾਈ ਤੋਂ 30-35 ਦਿਨ ਬਾਅਦ ਪਹਿਲਾ ਪਾਣੀ ਲਾਓ ਅਤੇ ਨਾਈਟ੍ਰੋਜਨ ਛੱਟੇ ਨਾਲ ਪਾਓ",
+    "Irrigate at flowering if the soil is dry": "ਮਿੱਟੀ ਸੁੱਕੀ ਹੋਵੇ ਤਾਂ ਫੁੱਲ ਆਉਣ ਵੇਲੇ ਪਾਣੀ ਲਾਓ",
+    "Watch for aphid colonies on the inflorescence in cloudy weather": "ਬੱਦਲਵਾਈ ਵਾਲੇ ਮੌਸਮ ਵਿੱਚ ਫੁੱਲਾਂ ਵਾਲੀਆਂ ਟਾਹਣੀਆਂ 'ਤੇ ਚੇਪੇ ਦੀਆਂ ਬਸਤੀਆਂ 'ਤੇ ਨਜ਼ਰ ਰੱਖੋ",
+    "A light irrigation at pod filling helps in dry years": "ਔੜ ਵਾਲੇ ਸਾਲਾਂ ਵਿੱਚ ਫਲੀਆਂ ਭਰਨ ਵੇਲੇ ਹਲਕਾ ਪਾਣੀ ਲਾਭਦਾਇਕ ਹੈ",
+    "Harvest when 75% of siliquae turn yellow to limit shattering": "ਫਲੀਆਂ ਕਿਰਨ ਤੋਂ ਬਚਾਉਣ ਲਈ 75% ਫਲੀਆਂ ਪੀਲੀਆਂ ਹੋਣ 'ਤੇ ਵਾਢੀ ਕਰੋ",
+    "Avoid early irrigation; chickpea grows well on residual moisture": "ਛੇਤੀ ਪਾਣੀ ਨਾ ਲਾਓ; ਛੋਲੇ ਬਚੀ ਹੋਈ ਨਮੀ 'ਤੇ ਚੰਗੇ ਵਧਦੇ ਹਨ",
+    "Nip the growing tips at 30-40 days to encourage branching": "ਸ਼ਾਖਾਵਾਂ ਵਧਾਉਣ ਲਈ 30-40 ਦਿਨਾਂ 'ਤੇ ਵਧਦੀਆਂ ਕਰੂੰਬਲਾਂ ਤੋੜੋ",
+    "Give one light irrigation just before flowering if the soil is dry; avoid flooding": "ਮਿੱਟੀ ਸੁੱਕੀ ਹੋਵੇ ਤਾਂ ਫੁੱਲ ਆਉਣ ਤੋਂ ਠੀਕ ਪਹਿਲਾਂ ਇੱਕ ਹਲਕਾ ਪਾਣੀ ਲਾਓ; ਖੇਤ ਵਿੱਚ ਪਾਣੀ ਨਾ ਭਰੋ",
+    "Scout for pod borer larvae; spray when one larva per metre row is seen": "ਫਲੀ ਛੇਦਕ ਸੁੰਡੀਆਂ ਦੀ ਜਾਂਚ ਕਰੋ; ਪ੍ਰਤੀ ਮੀਟਰ ਕਤਾਰ ਇੱਕ ਸੁੰਡੀ ਦਿਸੇ ਤਾਂ ਛਿੜਕਾਅ ਕਰੋ",
+    "Harvest when leaves turn reddish brown and pods are dry": "ਪੱਤੇ ਲਾਲ-ਭੂਰੇ ਹੋ ਜਾਣ ਅਤੇ ਫਲੀਆਂ ਸੁੱਕ ਜਾਣ ਤਾਂ ਵਾਢੀ ਕਰੋ",
+    // Fertilizer split timings
+    "Basal, at sowing": "ਮੂਲ ਖੁਰਾਕ, ਬਿਜਾਈ ਵੇਲੇ",
+    "With the first irrigation (crown root initiation, 21-25 days after sowing)": "ਪਹਿਲੇ ਪਾਣੀ ਨਾਲ (ਤਾਜ ਜੜ੍ਹਾਂ ਨਿਕਲਣ ਵੇਲੇ, ਬਿਜਾਈ ਤੋਂ 21-25 ਦਿਨ ਬਾਅਦ)",
+    "At transplanting": "ਲੁਆਈ ਵੇਲੇ",
+    "Active tillering (about 21 days after transplanting)": "ਤੇਜ਼ ਬੂਝਾ ਮਾਰਨ ਵੇਲੇ (ਲੁਆਈ ਤੋਂ ਲਗਭਗ 21 ਦਿਨ ਬਾਅਦ)",
+    "Panicle initiation (about 42 days after transplanting)": "ਮੁੰਜਰਾਂ ਬਣਨ ਦੀ ਸ਼ੁਰੂਆਤ 'ਤੇ (ਲੁਆਈ ਤੋਂ ਲਗਭਗ 42 ਦਿਨ ਬਾਅਦ)",
+    "Knee-high stage (about 30 days after sowing)": "ਗੋਡੇ-ਗੋਡੇ ਉਚਾਈ 'ਤੇ (ਬਿਜਾਈ ਤੋਂ ਲਗਭਗ 30 ਦਿਨ ਬਾਅਦ)",
+    "Before tasseling (about 50 days after sowing)": "ਝੰਡੇ ਨਿਕਲਣ ਤੋਂ ਪਹਿਲਾਂ (ਬਿਜਾਈ ਤੋਂ ਲਗਭਗ 50 ਦਿਨ ਬਾਅਦ)",
+    "At thinning (about 20 days after sowing)": "ਛਾਂਟੀ ਵੇਲੇ (ਬਿਜਾਈ ਤੋਂ ਲਗਭਗ 20 ਦਿਨ ਬਾਅਦ)",
+    "At first flower": "ਪਹਿਲਾ ਫੁੱਲ ਆਉਣ 'ਤੇ",
+    "With the first irrigation (30-35 days after sowing)": "ਪਹਿਲੇ ਪਾਣੀ ਨਾਲ (ਬਿਜਾਈ ਤੋਂ 30-35 ਦਿਨ ਬਾਅਦ)",
+    "Basal, at sowing (with Rhizobium seed treatment)": "ਮੂਲ ਖੁਰਾਕ, ਬਿਜਾਈ ਵੇਲੇ (ਰਾਈਜ਼ੋਬੀਅਮ ਬੀਜ ਸੋਧ ਨਾਲ)"
+};
+
+const mr: Phrasebook = {
+    // Crop stage labels
+    "Germination and emergence": "उगवण",
+    "Crown root initiation": "मुकुटमुळे फुटण्याची अवस्था (CRI)",
+    "Tillering": "फुटवे येणे",
+    "Jointing": "कांड्या धरणे",
+    "Booting": "पोटरी अवस्था",
+    "Heading and flowering": "ओंबी येणे आणि फुलोरा",
+    "Milk stage / grain filling": "दुधाळ अवस्था / दाणे भरणे",
+    "Dough stage": "दाणे घट्ट होण्याची (कणीक) अवस्था",
+    "Physiological maturity": "शारीरिक परिपक्वता",
+    "Transplanting and establishment": "पुनर्लागवड आणि रोपे स्थिरावणे",
+    "Active tillering": "जोमदार फुटवे येणे",
+    "Panicle initiation": "लोंबी निर्मितीची सुरुवात",
+    "Grain filling": "दाणे भरणे",
+    "Emergence and seedling": "उगवण आणि रोप अवस्था",
+    "Squaring": "पाते लागणे",
+    "Flowering": "फुलोरा",
+    "Boll development": "बोंडे वाढणे",
+    "Boll opening": "बोंडे फुटणे",
+    "Crop maturity": "पीक परिपक्वता",
+    "Emergence": "उगवण",
+    "Knee-high (V6-V8)": "गुडघाभर उंची (V6-V8)",
+    "Tasseling": "तुरा येणे",
+    "Silking": "स्त्रीकेसर (रेशीम) येणे",
+    "Grain filling (dough)": "दाणे भरणे (कणीक)",
+    "Physiological maturity (black layer)": "शारीरिक परिपक्वता (काळा थर)",
+    "Vegetative growth": "शाकीय वाढ",
+    "Pod development": "शेंगा धरणे",
+    "Seed filling": "दाणे भरणे",
+    "Rosette": "रोझेट अवस्था",
+    "Siliqua development": "शेंगा (सिलिक्वा) धरणे",
+    "Branching": "फांद्या फुटणे",
+    "Pod filling": "घाटे भरणे",
+    // Stage advisories
+    "Sow into moist soil; give a pre-sowing irrigation (rauni) if the seedbed is dry": "ओलसर जमिनीत पेरणी करा; जमीन कोरडी असल्यास पेरणीपूर्वी ओलित (रौनी) करा",
+    "Give the first irrigation now (about 21 days after sowing); it is the most yield-critical irrigation in wheat": "आता पहिले पाणी द्या (पेरणीनंतर सुमारे 21 दिवसांनी); गव्हात उत्पादनासाठी हे सर्वात महत्त्वाचे पाणी आहे",
+    "Top-dress the second third of nitrogen with this irrigation": "या पाण्यासोबत नत्राचा दुसरा एक-तृतीयांश हप्ता द्या",
+    "Apply post-emergence herbicide for Phalaris and broadleaf weeds at 30-35 days after sowing": "पेरणीनंतर 30-35 दिवसांनी फॅलॅरिस (गुल्ली दांडा) आणि रुंद पानांच्या तणांसाठी उगवणीनंतरचे तणनाशक फवारा",
+    "Top-dress the remaining nitrogen before the second irrigation": "दुसऱ्या पाण्यापूर्वी उरलेले नत्र द्या",
+    "Scout for yellow rust patches in cool, humid spells": "थंड, दमट हवामानात पिवळ्या तांबेऱ्याचे पट्टे शोधण्यासाठी पाहणी करा",
+    "Irrigate at jointing (about 60-65 days after sowing)": "कांड्या धरताना पाणी द्या (पेरणीनंतर सुमारे 60-65 दिवसांनी)",
+    "Keep the soil moist; avoid irrigating in strong wind to prevent lodging": "जमीन ओलसर ठेवा; पीक लोळू नये म्हणून जोरदार वाऱ्यात पाणी देऊ नका",
+    "Irrigate at flowering; moisture stress now reduces grain number": "फुलोऱ्यात पाणी द्या; या वेळी ओलावा कमी पडल्यास दाण्यांची संख्या घटते",
+    "Spray for aphids only above 10 per ear-head": "मावा प्रति ओंबी 10 पेक्षा जास्त असेल तरच फवारणी करा",
+    "Irrigate at milk stage, and lightly in the evening if maximum temperatures pass 30°C (terminal heat)": "दुधाळ अवस्थेत पाणी द्या, आणि कमाल तापमान 30°C पेक्षा जास्त गेल्यास संध्याकाळी हलके पाणी द्या (शेवटच्या टप्प्यातील उष्णता)",
+    "Give the last irrigation at soft dough; stop irrigating afterwards": "शेवटचे पाणी दाणे मऊ कणीक अवस्थेत असताना द्या; त्यानंतर पाणी थांबवा",
+    "Harvest when grains are hard and below 20% moisture; arrange combine or reaper in advance": "दाणे टणक होऊन ओलावा 20% पेक्षा कमी झाल्यावर कापणी करा; कंबाइन किंवा रीपरची व्यवस्था आधीच करा",
+    "Keep 2-3 cm standing water for the first week after transplanting": "पुनर्लागवडीनंतर पहिला आठवडा 2-3 सेंमी पाणी साचवून ठेवा",
+    "Fill gaps within 7-10 days": "7-10 दिवसांत नांग्या भरा",
+    "Top-dress nitrogen at active tillering": "जोमदार फुटवे येताना नत्राचा हप्ता द्या",
+    "Alternate wetting and drying can start once tillering is established": "फुटवे चांगले आल्यानंतर आलटून पालटून ओले-कोरडे करणे सुरू करता येते",
+    "Apply the last nitrogen split": "नत्राचा शेवटचा हप्ता द्या",
+    "Do not let the field dry out from panicle initiation to flowering": "लोंबी निर्मितीपासून फुलोऱ्यापर्यंत शेत कोरडे पडू देऊ नका",
+    "Maintain 5 cm standing water": "5 सेंमी पाणी साचवून ठेवा",
+    "Check the base of tillers for plant hoppers": "फुटव्यांच्या बुंध्याशी तुडतुडे आहेत का ते तपासा",
+    "Keep water standing; stress at anthesis causes unfilled spikelets": "पाणी साचवून ठेवा; परागीभवनाच्या वेळी ताण आल्यास दाणे पोचट राहतात",
+    "Avoid spraying during morning anthesis hours": "सकाळच्या परागीभवनाच्या वेळेत फवारणी टाळा",
+    "Keep the soil saturated until the dough stage": "कणीक अवस्थेपर्यंत जमीन पाण्याने संपृक्त ठेवा",
+    "Drain the field 10-15 days before harvest": "कापणीपूर्वी 10-15 दिवस शेतातील पाणी काढून टाका",
+    "Harvest when 80-85% of grains are straw coloured": "80-85% दाणे पेंढ्याच्या रंगाचे झाल्यावर कापणी करा",
+    "Thin to one plant per hill about 15-20 days after sowing": "पेरणीनंतर सुमारे 15-20 दिवसांनी प्रत्येक ठिकाणी एकच रोप ठेवून विरळणी करा",
+    "Delay the first irrigation as long as plants show no stress": "झाडांवर ताण दिसत नाही तोपर्यंत पहिले पाणी लांबवा",
+    "Top-dress nitrogen at first square": "पहिले पाते लागताच नत्राचा हप्ता द्या",
+    "Install pheromone traps for bollworm": "बोंडअळीसाठी कामगंध सापळे लावा",
+    "Irrigate at 10-12 day intervals in dry spells; stress now sheds squares and flowers": "कोरड्या काळात 10-12 दिवसांच्या अंतराने पाणी द्या; या वेळी ताण आल्यास पाती आणि फुले गळतात",
+    "Keep soil moisture steady to limit boll shedding": "बोंडगळ कमी करण्यासाठी जमिनीतील ओलावा सारखा ठेवा",
+    "Stop irrigating once about half the bolls have opened": "सुमारे अर्धी बोंडे फुटल्यावर पाणी थांबवा",
+    "Start picking when bolls are fully open and dry": "बोंडे पूर्ण फुटून कोरडी झाल्यावर वेचणी सुरू करा",
+    "Complete the final picking and destroy stalks to break the pink bollworm cycle": "शेवटची वेचणी पूर्ण करा आणि गुलाबी बोंडअळीचे चक्र तोडण्यासाठी पऱ्हाट्या नष्ट करा",
+    "Ensure uniform emergence; gap-fill within a week": "एकसारखी उगवण होईल याची खात्री करा; आठवडाभरात नांग्या भरा",
+    "Top-dress nitrogen and earth up": "नत्राचा हप्ता द्या आणि भर द्या",
+    "Scout whorls for fall armyworm": "लष्करी अळीसाठी (फॉल आर्मीवर्म) पोंगे तपासा",
+    "Irrigate if the soil is dry; tasseling to silking is the most water-sensitive period": "जमीन कोरडी असल्यास पाणी द्या; तुरा येण्यापासून स्त्रीकेसर येईपर्यंतचा काळ पाण्यासाठी सर्वात संवेदनशील असतो",
+    "Moisture stress during silking sharply cuts kernel set": "स्त्रीकेसर येताना ओलावा कमी पडल्यास दाणे भरण्याचे प्रमाण खूप घटते",
+    "One more irrigation at dough stage if dry": "कोरडे हवामान असल्यास कणीक अवस्थेत आणखी एक पाणी द्या",
+    "Harvest when husks are dry and grain moisture is 20-25%": "कणसाची आवरणे वाळून दाण्यांतील ओलावा 20-25% झाल्यावर काढणी करा",
+    "Ensure drainage; soybean seedlings do not tolerate waterlogging": "पाण्याचा निचरा होईल याची खात्री करा; सोयाबीनची रोपे पाणी साचणे सहन करत नाहीत",
+    "Keep the crop weed-free for the first 45 days": "पहिले 45 दिवस पीक तणमुक्त ठेवा",
+    "Give a protective irrigation if a dry spell exceeds 10 days": "कोरडा खंड 10 दिवसांपेक्षा जास्त पडल्यास संरक्षित पाणी द्या",
+    "Moisture stress now causes pod drop": "या वेळी ओलावा कमी पडल्यास शेंगा गळतात",
+    "Keep soil moist until pods begin to yellow": "शेंगा पिवळ्या पडू लागेपर्यंत जमीन ओलसर ठेवा",
+    "Harvest when 95% of pods turn brown to avoid shattering": "शेंगा तडकू नयेत म्हणून 95% शेंगा तपकिरी झाल्यावर कापणी करा",
+    "Thin to 10-15 cm plant spacing about 15-20 days after sowing": "पेरणीनंतर सुमारे 15-20 दिवसांनी दोन रोपांत 10-15 सेंमी अंतर ठेवून विरळणी करा",
+    "Give the first irrigation at 30-35 days after sowing and top-dress nitrogen": "पेरणीनंतर 30-35 दिवसांनी पहिले पाणी द्या आणि नत्राचा हप्ता द्या",
+    "Irrigate at flowering if the soil is dry": "जमीन कोरडी असल्यास फुलोऱ्यात पाणी द्या",
+    "Watch for aphid colonies on the inflorescence in cloudy weather": "ढगाळ हवामानात फुलोऱ्यावरील माव्याच्या वसाहतींवर लक्ष ठेवा",
+    "A light irrigation at pod filling helps in dry years": "कोरड्या वर्षांत शेंगा भरताना हलके पाणी फायदेशीर ठरते",
+    "Harvest when 75% of siliquae turn yellow to limit shattering": "शेंगा तडकू नयेत म्हणून 75% शेंगा पिवळ्या झाल्यावर कापणी करा",
+    "Avoid early irrigation; chickpea grows well on residual moisture": "लवकर पाणी देणे टाळा; हरभरा जमिनीतील उरलेल्या ओलाव्यावर चांगला वाढतो",
+    "Nip the growing tips at 30-40 days to encourage branching": "फांद्या वाढवण्यासाठी 30-40 दिवसांनी शेंडे खुडा",
+    "Give one light irrigation just before flowering if the soil is dry; avoid flooding": "जमीन कोरडी असल्यास फुलोऱ्याच्या अगदी आधी एक हलके पाणी द्या; पाणी साचू देऊ नका",
+    "Scout for pod borer larvae; spray when one larva per metre row is seen": "घाटेअळीच्या अळ्यांसाठी पाहणी करा; प्रति मीटर ओळीत एक अळी दिसल्यास फवारणी करा",
+    "Harvest when leaves turn reddish brown and pods are dry": "पाने लालसर तपकिरी होऊन घाटे वाळल्यावर कापणी करा",
+    // Fertilizer split timings
+    "Basal, at sowing": "पायाभूत मात्रा, पेरणीच्या वेळी",
+    "With the first irrigation (crown root initiation, 21-25 days after sowing)": "पहिल्या पाण्यासोबत (मुकुटमुळे फुटताना, पेरणीनंतर 21-25 दिवसांनी)",
+    "At transplanting": "पुनर्लागवडीच्या वेळी",
+    "Active tillering (about 21 days after transplanting)": "जोमदार फुटवे येताना (पुनर्लागवडीनंतर सुमारे 21 दिवसांनी)",
+    "Panicle initiation (about 42 days after transplanting)": "लोंबी निर्मितीच्या सुरुवातीला (पुनर्लागवडीनंतर सुमारे 42 दिवसांनी)",
+    "Knee-high stage (about 30 days after sowing)": "गुडघाभर उंचीच्या अवस्थेत (पेरणीनंतर सुमारे 30 दिवसांनी)",
+    "Before tasseling (about 50 days after sowing)": "तुरा येण्यापूर्वी (पेरणीनंतर सुमारे 50 दिवसांनी)",
+    "At thinning (about 20 days after sowing)": "विरळणीच्या वेळी (पेरणीनंतर सुमारे 20 दिवसांनी)",
+    "At first flower": "पहिले फूल येताना",
+    "With the first irrigation (30-35 days after sowing)": "पहिल्या पाण्यासोबत (पेरणीनंतर 30-35 दिवसांनी)",
+    "Basal, at sowing (with Rhizobium seed treatment)": "पायाभूत मात्रा, पेरणीच्या वेळी (रायझोबियम बीजप्रक्रियेसह)"
+};
+
+const gu: Phrasebook = {
+    // Crop stage labels
+    "Germination and emergence": "અંકુરણ અને ઉગાવો",
+    "Crown root initiation": "મુકુટ મૂળ નીકળવાની અવસ્થા (CRI)",
+    "Tillering": "ફૂટ નીકળવી",
+    "Jointing": "ગાંઠ બનવી",
+    "Booting": "ગાભ અવસ્થા",
+    "Heading and flowering": "ઊંબી નીકળવી અને ફૂલ આવવા",
+    "Milk stage / grain filling": "દૂધિયા અવસ્થા / દાણા ભરાવા",
+    "Dough stage": "દાણાની કણક અવસ્થા",
+    "Physiological maturity": "દેહધાર્મિક પરિપક્વતા",
+    "Transplanting and establishment": "ફેરરોપણી અને છોડ સ્થિર થવા",
+    "Active tillering": "સક્રિય ફૂટ નીકળવી",
+    "Panicle initiation": "કંટી બનવાની શરૂઆત",
+    "Grain filling": "દાણા ભરાવા",
+    "Emergence and seedling": "ઉગાવો અને ધરુ અવસ્થા",
+    "Squaring": "ચાપવા બેસવા",
+    "Flowering": "ફૂલ આવવા",
+    "Boll development": "જીંડવાનો વિકાસ",
+    "Boll opening": "જીંડવા ખૂલવા",
+    "Crop maturity": "પાકની પરિપક્વતા",
+    "Emergence": "ઉગાવો",
+    "Knee-high (V6-V8)": "ઘૂંટણ સુધીની ઊંચાઈ (V6-V8)",
+    "Tasseling": "નર મંજરી (ચમરી) નીકળવી",
+    "Silking": "ડોડા પર રેશમ નીકળવું",
+    "Grain filling (dough)": "દાણા ભરાવા (કણક)",
+    "Physiological maturity (black layer)": "દેહધાર્મિક પરિપક્વતા (કાળો સ્તર)",
+    "Vegetative growth": "વાનસ્પતિક વૃદ્ધિ",
+    "Pod development": "શીંગોનો વિકાસ",
+    "Seed filling": "દાણા ભરાવા",
+    "Rosette": "રોઝેટ અવસ્થા",
+    "Siliqua development": "શીંગો (સિલિક્વા) નો વિકાસ",
+    "Branching": "ડાળીઓ ફૂટવી",
+    "Pod filling": "પોપટા ભરાવા",
+    // Stage advisories
+    "Sow into moist soil; give a pre-sowing irrigation (rauni) if the seedbed is dry": "ભેજવાળી જમીનમાં વાવણી કરો; જમીન સૂકી હોય તો વાવણી પહેલાં ઓરવણ (પિયત) આપો",
+    "Give the first irrigation now (about 21 days after sowing); it is the most yield-critical irrigation in wheat": "હવે પ્રથમ પિયત આપો (વાવણી પછી આશરે 21 દિવસે); ઘઉંમાં ઉત્પાદન માટે આ સૌથી મહત્વનું પિયત છે",
+    "Top-dress the second third of nitrogen with this irrigation": "આ પિયત સાથે નાઇટ્રોજનનો બીજો ત્રીજો ભાગ પૂર્તિ ખાતર તરીકે આપો",
+    "Apply post-emergence herbicide for Phalaris and broadleaf weeds at 30-35 days after sowing": "વાવણી પછી 30-35 દિવસે ગુલ્લી ડંડા (ફેલારિસ) અને પહોળા પાનવાળા નીંદણ માટે ઉગ્યા પછીની નીંદણનાશક દવા છાંટો",
+    "Top-dress the remaining nitrogen before the second irrigation": "બીજા પિયત પહેલાં બાકીનો નાઇટ્રોજન પૂર્તિ ખાતર તરીકે આપો",
+    "Scout for yellow rust patches in cool, humid spells": "ઠંડા, ભેજવાળા હવામાનમાં પીળા ગેરુના ટુકડાઓ માટે ખેતરનું નિરીક્ષણ કરો",
+    "Irrigate at jointing (about 60-65 days after sowing)": "ગાંઠ બનતી વખતે પિયત આપો (વાવણી પછી આશરે 60-65 દિવસે)",
+    "Keep the soil moist; avoid irrigating in strong wind to prevent lodging": "જમીન ભેજવાળી રાખો; પાક ઢળી ન પડે તે માટે તેજ પવનમાં પિયત ન આપો",
+    "Irrigate at flowering; moisture stress now reduces grain number": "ફૂલ આવતી વખતે પિયત આપો; આ સમયે ભેજની ખેંચથી દાણાની સંખ્યા ઘટે છે",
+    "Spray for aphids only above 10 per ear-head": "મોલો પ્રતિ ઊંબી 10 થી વધુ હોય તો જ છંટકાવ કરો",
+    "Irrigate at milk stage, and lightly in the evening if maximum temperatures pass 30°C (terminal heat)": "દૂધિયા અવસ્થાએ પિયત આપો, અને મહત્તમ તાપમાન 30°C થી વધે તો સાંજે હળવું પિયત આપો (અંતિમ ગરમી)",
+    "Give the last irrigation at soft dough; stop irrigating afterwards": "છેલ્લું પિયત નરમ કણક અવસ્થાએ આપો; ત્યાર પછી પિયત બંધ કરો",
+    "Harvest when grains are hard and below 20% moisture; arrange combine or reaper in advance": "દાણા સખત થાય અને ભેજ 20% થી ઓછો હોય ત્યારે કાપણી કરો; કમ્બાઇન કે રીપરની વ્યવસ્થા અગાઉથી કરો",
+    "Keep 2-3 cm standing water for the first week after transplanting": "ફેરરોપણી પછી પ્રથમ અઠવાડિયે 2-3 સેમી પાણી ભરી રાખો",
+    "Fill gaps within 7-10 days": "7-10 દિવસમાં ખાલા પૂરો",
+    "Top-dress nitrogen at active tillering": "સક્રિય ફૂટ નીકળતી વખતે નાઇટ્રોજન પૂર્તિ ખાતર તરીકે આપો",
+    "Alternate wetting and drying can start once tillering is established": "ફૂટ સારી રીતે નીકળી જાય પછી વારાફરતી ભીનું-સૂકું કરવાનું શરૂ કરી શકાય",
+    "Apply the last nitrogen split": "નાઇટ્રોજનનો છેલ્લો હપ્તો આપો",
+    "Do not let the field dry out from panicle initiation to flowering": "કંટી બનવાની શરૂઆતથી ફૂલ આવવા સુધી ખેતર સુકાવા ન દો",
+    "Maintain 5 cm standing water": "5 સેમી પાણી ભરી રાખો",
+    "Check the base of tillers for plant hoppers": "ફૂટના થડના ભાગે ચૂસિયાં (પ્લાન્ટ હોપર) તપાસો",
+    "Keep water standing; stress at anthesis causes unfilled spikelets": "પાણી ભરી રાખો; પરાગનયન સમયે ખેંચથી દાણા ખાલી રહે છે",
+    "Avoid spraying during morning anthesis hours": "સવારના પરાગનયનના કલાકોમાં છંટકાવ ટાળો",
+    "Keep the soil saturated until the dough stage": "કણક અવસ્થા સુધી જમીન પાણીથી તરબતર રાખો",
+    "Drain the field 10-15 days before harvest": "કાપણીના 10-15 દિવસ પહેલાં ખેતરમાંથી પાણી કાઢી નાખો",
+    "Harvest when 80-85% of grains are straw coloured": "80-85% દાણા પરાળના રંગના થાય ત્યારે કાપણી કરો",
+    "Thin to one plant per hill about 15-20 days after sowing": "વાવણી પછી આશરે 15-20 દિવસે થાણા દીઠ એક છોડ રાખી પારવણી કરો",
+    "Delay the first irrigation as long as plants show no stress": "છોડ પર ખેંચ ન દેખાય ત્યાં સુધી પ્રથમ પિયત મોડું કરો",
+    "Top-dress nitrogen at first square": "પ્રથમ ચાપવા બેસે ત્યારે નાઇટ્રોજન પૂર્તિ ખાતર તરીકે આપો",
+    "Install pheromone traps for bollworm": "જીંડવાની ઇયળ માટે ફેરોમોન ટ્રેપ ગોઠવો",
+    "Irrigate at 10-12 day intervals in dry spells; stress now sheds squares and flowers": "સૂકા ગાળામાં 10-12 દિવસના અંતરે પિયત આપો; આ સમયે ખેંચથી ચાપવા અને ફૂલ ખરી પડે છે",
+    "Keep soil moisture steady to limit boll shedding": "જીંડવા ખરતાં અટકાવવા જમીનનો ભેજ એકસરખો રાખો",
+    "Stop irrigating once about half the bolls have opened": "આશરે અડધા જીંડવા ખૂલી જાય પછી પિયત બંધ કરો",
+    "Start picking when bolls are fully open and dry": "જીંડવા પૂરા ખૂલી અને સુકાઈ જાય ત્યારે વીણી શરૂ કરો",
+    "Complete the final picking and destroy stalks to break the pink bollworm cycle": "છેલ્લી વીણી પૂરી કરો અને ગુલાબી ઇયળનું ચક્ર તોડવા સાંઠા નષ્ટ કરો",
+    "Ensure uniform emergence; gap-fill within a week": "એકસરખો ઉગાવો સુનિશ્ચિત કરો; એક અઠવાડિયામાં ખાલા પૂરો",
+    "Top-dress nitrogen and earth up": "નાઇટ્રોજન પૂર્તિ ખાતર તરીકે આપો અને પાળા ચઢાવો",
+    "Scout whorls for fall armyworm": "લશ્કરી ઇયળ (ફોલ આર્મીવર્મ) માટે ભૂંગળી તપાસો",
+    "Irrigate if the soil is dry; tasseling to silking is the most water-sensitive period": "જમીન સૂકી હોય તો પિયત આપો; ચમરીથી રેશમ નીકળવા સુધીનો સમય પાણી માટે સૌથી સંવેદનશીલ છે",
+    "Moisture stress during silking sharply cuts kernel set": "રેશમ નીકળતી વખતે ભેજની ખેંચથી દાણા બેસવાનું પ્રમાણ ઘણું ઘટે છે",
+    "One more irrigation at dough stage if dry": "સૂકું હોય તો કણક અવસ્થાએ વધુ એક પિયત આપો",
+    "Harvest when husks are dry and grain moisture is 20-25%": "ડોડાના પડ સુકાઈ જાય અને દાણામાં ભેજ 20-25% હોય ત્યારે કાપણી કરો",
+    "Ensure drainage; soybean seedlings do not tolerate waterlogging": "પાણીનો નિકાલ સુનિશ્ચિત કરો; સોયાબીનના કુમળા છોડ પાણી ભરાવો સહન કરતા નથી",
+    "Keep the crop weed-free for the first 45 days": "પ્રથમ 45 દિવસ પાકને નીંદણમુક્ત રાખો",
+    "Give a protective irrigation if a dry spell exceeds 10 days": "સૂકો ગાળો 10 દિવસથી લાંબો થાય તો રક્ષણાત્મક પિયત આપો",
+    "Moisture stress now causes pod drop": "આ સમયે ભેજની ખેંચથી શીંગો ખરી પડે છે",
+    "Keep soil moist until pods begin to yellow": "શીંગો પીળી પડવા લાગે ત્યાં સુધી જમીન ભેજવાળી રાખો",
+    "Harvest when 95% of pods turn brown to avoid shattering": "શીંગો ફાટી ન જાય તે માટે 95% શીંગો ભૂરી થાય ત્યારે કાપણી કરો",
+    "Thin to 10-15 cm plant spacing about 15-20 days after sowing": "વાવણી પછી આશરે 15-20 દિવસે છોડ વચ્ચે 10-15 સેમી અંતર રાખી પારવણી કરો",
+    "Give the first irrigation at 30-35 days after sowing and top-dress nitrogen": "વાવણી પછી 30-35 દિવસે પ્રથમ પિયત આપો અને નાઇટ્રોજન પૂર્તિ ખાતર તરીકે આપો",
+    "Irrigate at flowering if the soil is dry": "જમીન સૂકી હોય તો ફૂલ આવતી વખતે પિયત આપો",
+    "Watch for aphid colonies on the inflorescence in cloudy weather": "વાદળછાયા હવામાનમાં પુષ્પવિન્યાસ પર મોલોની વસાહતો પર નજર રાખો",
+    "A light irrigation at pod filling helps in dry years": "સૂકા વર્ષોમાં શીંગો ભરાતી વખતે હળવું પિયત ઉપયોગી છે",
+    "Harvest when 75% of siliquae turn yellow to limit shattering": "શીંગો ફાટી ન જાય તે માટે 75% શીંગો પીળી થાય ત્યારે કાપણી કરો",
+    "Avoid early irrigation; chickpea grows well on residual moisture": "વહેલું પિયત ટાળો; ચણા જમીનમાં સંગ્રહિત ભેજ પર સારા વધે છે",
+    "Nip the growing tips at 30-40 days to encourage branching": "ડાળીઓ વધારવા 30-40 દિવસે ટોચ ચૂંટી લો",
+    "Give one light irrigation just before flowering if the soil is dry; avoid flooding": "જમીન સૂકી હોય તો ફૂલ આવવાની બરાબર પહેલાં એક હળવું પિયત આપો; પાણી ભરાવા ન દો",
+    "Scout for pod borer larvae; spray when one larva per metre row is seen": "પોપટા કોરી ખાનાર ઇયળો તપાસો; પ્રતિ મીટર હાર દીઠ એક ઇયળ દેખાય તો છંટકાવ કરો",
+    "Harvest when leaves turn reddish brown and pods are dry": "પાન લાલાશ પડતા ભૂરા થાય અને પોપટા સુકાઈ જાય ત્યારે કાપણી કરો",
+    // Fertilizer split timings
+    "Basal, at sowing": "પાયાનું ખાતર, વાવણી સમયે",
+    "With the first irrigation (crown root initiation, 21-25 days after sowing)": "પ્રથમ પિયત સાથે (મુકુટ મૂળ અવસ્થા, વાવણી પછી 21-25 દિવસે)",
+    "At transplanting": "ફેરરોપણી સમયે",
+    "Active tillering (about 21 days after transplanting)": "સક્રિય ફૂટ નીકળતી વખતે (ફેરરોપણી પછી આશરે 21 દિવસે)",
+    "Panicle initiation (about 42 days after transplanting)": "કંટી બનવાની શરૂઆતે (ફેરરોપણી પછી આશરે 42 દિવસે)",
+    "Knee-high stage (about 30 days after sowing)": "ઘૂંટણ સુધીની ઊંચાઈએ (વાવણી પછી આશરે 30 દિવસે)",
+    "Before tasseling (about 50 days after sowing)": "ચમરી નીકળતાં પહેલાં (વાવણી પછી આશરે 50 દિવસે)",
+    "At thinning (about 20 days after sowing)": "પારવણી સમયે (વાવણી પછી આશરે 20 દિવસે)",
+    "At first flower": "પ્રથમ ફૂલ આવે ત્યારે",
+    "With the first irrigation (30-35 days after sowing)": "પ્રથમ પિયત સાથે (વાવણી પછી 30-35 દિવસે)",
+    "Basal, at sowing (with Rhizobium seed treatment)": "પાયાનું ખાતર, વાવણી સમયે (રાઇઝોબિયમ બીજ માવજત સાથે)"
+};
+
+const bn: Phrasebook = {
+    // Crop stage labels
+    "Germination and emergence": "অঙ্কুরোদ্গম ও চারা গজানো",
+    "Crown root initiation": "মুকুট শিকড় গজানো (CRI)",
+    "Tillering": "পাশকাঠি গজানো",
+    "Jointing": "গাঁট গঠন",
+    "Booting": "থোড় অবস্থা",
+    "Heading and flowering": "শিষ বের হওয়া ও ফুল আসা",
+    "Milk stage / grain filling": "দুধ অবস্থা / দানা পুষ্ট হওয়া",
+    "Dough stage": "দানা শক্ত হওয়ার (ডো) অবস্থা",
+    "Physiological maturity": "শারীরবৃত্তীয় পরিপক্কতা",
+    "Transplanting and establishment": "রোপণ ও চারা লেগে যাওয়া",
+    "Active tillering": "সক্রিয় পাশকাঠি গজানো",
+    "Panicle initiation": "শিষ গঠনের শুরু",
+    "Grain filling": "দানা পুষ্ট হওয়া",
+    "Emergence and seedling": "চারা গজানো ও চারা অবস্থা",
+    "Squaring": "কুঁড়ি আসা",
+    "Flowering": "ফুল আসা",
+    "Boll development": "গুটি বৃদ্ধি",
+    "Boll opening": "গুটি ফাটা",
+    "Crop maturity": "ফসলের পরিপক্কতা",
+    "Emergence": "চারা গজানো",
+    "Knee-high (V6-V8)": "হাঁটু সমান উচ্চতা (V6-V8)",
+    "Tasseling": "ট্যাসেল বের হওয়া",
+    "Silking": "মোচায় সিল্ক বের হওয়া",
+    "Grain filling (dough)": "দানা পুষ্ট হওয়া (ডো)",
+    "Physiological maturity (black layer)": "শারীরবৃত্তীয় পরিপক্কতা (কালো স্তর)",
+    "Vegetative growth": "অঙ্গজ বৃদ্ধি",
+    "Pod development": "শুঁটি গঠন",
+    "Seed filling": "বীজ পুষ্ট হওয়া",
+    "Rosette": "রোজেট অবস্থা",
+    "Siliqua development": "শুঁটি (সিলিকুয়া) গঠন",
+    "Branching": "শাখা গজানো",
+    "Pod filling": "শুঁটি পুষ্ট হওয়া",
+    // Stage advisories
+    "Sow into moist soil; give a pre-sowing irrigation (rauni) if the seedbed is dry": "ভেজা মাটিতে বীজ বুনুন; বীজতলা শুকনো থাকলে বপনের আগে একটি সেচ (রৌনি) দিন",
+    "Give the first irrigation now (about 21 days after sowing); it is the most yield-critical irrigation in wheat": "এখনই প্রথম সেচ দিন (বপনের প্রায় 21 দিন পর); গমের ফলনের জন্য এটিই সবচেয়ে গুরুত্বপূর্ণ সেচ",
+    "Top-dress the second third of nitrogen with this irrigation": "এই সেচের সঙ্গে নাইট্রোজেনের দ্বিতীয় এক-তৃতীয়াংশ উপরি প্রয়োগ করুন",
+    "Apply post-emergence herbicide for Phalaris and broadleaf weeds at 30-35 days after sowing": "বপনের 30-35 দিন পর ফ্যালারিস (গুল্লি ডান্ডা) ও চওড়া পাতার আগাছার জন্য গজানোর পরের আগাছানাশক প্রয়োগ করুন",
+    "Top-dress the remaining nitrogen before the second irrigation": "দ্বিতীয় সেচের আগে বাকি নাইট্রোজেন উপরি প্রয়োগ করুন",
+    "Scout for yellow rust patches in cool, humid spells": "ঠান্ডা, আর্দ্র আবহাওয়ায় হলুদ মরিচা রোগের দাগের জন্য খেত পর্যবেক্ষণ করুন",
+    "Irrigate at jointing (about 60-65 days after sowing)": "গাঁট গঠনের সময় সেচ দিন (বপনের প্রায় 60-65 দিন পর)",
+    "Keep the soil moist; avoid irrigating in strong wind to prevent lodging": "মাটি ভেজা রাখুন; গাছ হেলে পড়া এড়াতে জোরালো বাতাসে সেচ দেবেন না",
+    "Irrigate at flowering; moisture stress now reduces grain number": "ফুল আসার সময় সেচ দিন; এখন জলের অভাবে দানার সংখ্যা কমে",
+    "Spray for aphids only above 10 per ear-head": "শিষ প্রতি 10টির বেশি জাবপোকা থাকলে তবেই স্প্রে করুন",
+    "Irrigate at milk stage, and lightly in the evening if maximum temperatures pass 30°C (terminal heat)": "দুধ অবস্থায় সেচ দিন, আর সর্বোচ্চ তাপমাত্রা 30°C ছাড়ালে সন্ধ্যায় হালকা সেচ দিন (শেষ পর্যায়ের তাপ)",
+    "Give the last irrigation at soft dough; stop irrigating afterwards": "নরম ডো অবস্থায় শেষ সেচ দিন; তারপর সেচ বন্ধ করুন",
+    "Harvest when grains are hard and below 20% moisture; arrange combine or reaper in advance": "দানা শক্ত হলে ও আর্দ্রতা 20%-এর নিচে নামলে ফসল কাটুন; কম্বাইন বা রিপারের ব্যবস্থা আগেই করে রাখুন",
+    "Keep 2-3 cm standing water for the first week after transplanting": "রোপণের পর প্রথম সপ্তাহে 2-3 সেমি জল দাঁড় করিয়ে রাখুন",
+    "Fill gaps within 7-10 days": "7-10 দিনের মধ্যে ফাঁকা জায়গা পূরণ করুন",
+    "Top-dress nitrogen at active tillering": "সক্রিয় পাশকাঠি গজানোর সময় নাইট্রোজেন উপরি প্রয়োগ করুন",
+    "Alternate wetting and drying can start once tillering is established": "পাশকাঠি ভালোভাবে গজিয়ে গেলে পর্যায়ক্রমে ভেজানো ও শুকানো শুরু করা যায়",
+    "Apply the last nitrogen split": "নাইট্রোজেনের শেষ কিস্তি দিন",
+    "Do not let the field dry out from panicle initiation to flowering": "শিষ গঠনের শুরু থেকে ফুল আসা পর্যন্ত খেত শুকাতে দেবেন না",
+    "Maintain 5 cm standing water": "5 সেমি জল দাঁড় করিয়ে রাখুন",
+    "Check the base of tillers for plant hoppers": "পাশকাঠির গোড়ায় শোষক পোকা (প্ল্যান্ট হপার) আছে কিনা দেখুন",
+    "Keep water standing; stress at anthesis causes unfilled spikelets": "জল দাঁড় করিয়ে রাখুন; পরাগায়নের সময় জলের অভাবে দানা চিটা হয়",
+    "Avoid spraying during morning anthesis hours": "সকালে পরাগায়নের সময় স্প্রে করা এড়িয়ে চলুন",
+    "Keep the soil saturated until the dough stage": "ডো অবস্থা পর্যন্ত মাটি জলে সম্পৃক্ত রাখুন",
+    "Drain the field 10-15 days before harvest": "ফসল কাটার 10-15 দিন আগে খেতের জল বের করে দিন",
+    "Harvest when 80-85% of grains are straw coloured": "80-85% দানা খড়ের রঙের হলে ফসল কাটুন",
+    "Thin to one plant per hill about 15-20 days after sowing": "বপনের প্রায় 15-20 দিন পর প্রতি গোছায় একটি গাছ রেখে পাতলা করুন",
+    "Delay the first irrigation as long as plants show no stress": "গাছে জলের অভাবের লক্ষণ না দেখা পর্যন্ত প্রথম সেচ পিছিয়ে দিন",
+    "Top-dress nitrogen at first square": "প্রথম কুঁড়ি আসার সময় নাইট্রোজেন উপরি প্রয়োগ করুন",
+    "Install pheromone traps for bollworm": "গুটিপোকার জন্য ফেরোমোন ফাঁদ বসান",
+    "Irrigate at 10-12 day intervals in dry spells; stress now sheds squares and flowers": "শুকনো সময়ে 10-12 দিন অন্তর সেচ দিন; এখন জলের অভাবে কুঁড়ি ও ফুল ঝরে যায়",
+    "Keep soil moisture steady to limit boll shedding": "গুটি ঝরা কমাতে মাটির আর্দ্রতা সমান রাখুন",
+    "Stop irrigating once about half the bolls have opened": "প্রায় অর্ধেক গুটি ফেটে গেলে সেচ বন্ধ করুন",
+    "Start picking when bolls are fully open and dry": "গুটি পুরোপুরি ফেটে শুকিয়ে গেলে তোলা শুরু করুন",
+    "Complete the final picking and destroy stalks to break the pink bollworm cycle": "শেষ তোলা সম্পূর্ণ করুন এবং গোলাপি গুটিপোকার জীবনচক্র ভাঙতে গাছের কাণ্ড নষ্ট করুন",
+    "Ensure uniform emergence; gap-fill within a week": "সমান অঙ্কুরোদ্গম নিশ্চিত করুন; এক সপ্তাহের মধ্যে ফাঁকা জায়গা পূরণ করুন",
+    "Top-dress nitrogen and earth up": "নাইট্রোজেন উপরি প্রয়োগ করুন ও গোড়ায় মাটি তুলে দিন",
+    "Scout whorls for fall armyworm": "ফল আর্মিওয়ার্মের জন্য গাছের মাঝের পাতার মোড়ক পরীক্ষা করুন",
+    "Irrigate if the soil is dry; tasseling to silking is the most water-sensitive period": "মাটি শুকনো থাকলে সেচ দিন; ট্যাসেল থেকে সিল্ক বের হওয়া পর্যন্ত সময় জলের প্রতি সবচেয়ে সংবেদনশীল",
+    "Moisture stress during silking sharply cuts kernel set": "সিল্ক বের হওয়ার সময় জলের অভাবে দানা বাঁধা অনেক কমে যায়",
+    "One more irrigation at dough stage if dry": "শুকনো থাকলে ডো অবস্থায় আরও একটি সেচ দিন",
+    "Harvest when husks are dry and grain moisture is 20-25%": "মোচার খোসা শুকিয়ে গেলে ও দানার আর্দ্রতা 20-25% হলে ফসল তুলুন",
+    "Ensure drainage; soybean seedlings do not tolerate waterlogging": "জল নিকাশি নিশ্চিত করুন; সয়াবিনের চারা জলাবদ্ধতা সহ্য করে না",
+    "Keep the crop weed-free for the first 45 days": "প্রথম 45 দিন খেত আগাছামুক্ত রাখুন",
+    "Give a protective irrigation if a dry spell exceeds 10 days": "শুকনো সময় 10 দিনের বেশি চললে একটি রক্ষাকারী সেচ দিন",
+    "Moisture stress now causes pod drop": "এখন জলের অভাবে শুঁটি ঝরে যায়",
+    "Keep soil moist until pods begin to yellow": "শুঁটি হলুদ হতে শুরু করা পর্যন্ত মাটি ভেজা রাখুন",
+    "Harvest when 95% of pods turn brown to avoid shattering": "শুঁটি ফেটে যাওয়া এড়াতে 95% শুঁটি বাদামি হলে ফসল কাটুন",
+    "Thin to 10-15 cm plant spacing about 15-20 days after sowing": "বপনের প্রায় 15-20 দিন পর গাছের মধ্যে 10-15 সেমি দূরত্ব রেখে পাতলা করুন",
+    "Give the first irrigation at 30-35 days after sowing and top-dress nitrogen": "বপনের 30-35 দিন পর প্রথম সেচ দিন ও নাইট্রোজেন উপরি প্রয়োগ করুন",
+    "Irrigate at flowering if the soil is dry": "মাটি শুকনো থাকলে ফুল আসার সময় সেচ দিন",
+    "Watch for aphid colonies on the inflorescence in cloudy weather": "মেঘলা আবহাওয়ায় পুষ্পমঞ্জরিতে জাবপোকার দলের দিকে নজর রাখুন",
+    "A light irrigation at pod filling helps in dry years": "শুকনো বছরে শুঁটি পুষ্ট হওয়ার সময় হালকা সেচ উপকারী",
+    "Harvest when 75% of siliquae turn yellow to limit shattering": "শুঁটি ফেটে যাওয়া এড়াতে 75% শুঁটি হলুদ হলে ফসল কাটুন",
+    "Avoid early irrigation; chickpea grows well on residual moisture": "আগাম সেচ এড়িয়ে চলুন; ছোলা মাটির অবশিষ্ট আর্দ্রতায় ভালো বাড়ে",
+    "Nip the growing tips at 30-40 days to encourage branching": "শাখা বাড়াতে 30-40 দিনে গাছের ডগা ভেঙে দিন",
+    "Give one light irrigation just before flowering if the soil is dry; avoid flooding": "মাটি শুকনো থাকলে ফুল আসার ঠিক আগে একটি হালকা সেচ দিন; খেতে জল জমতে দেবেন না",
+    "Scout for pod borer larvae; spray when one larva per metre row is seen": "শুঁটি ছিদ্রকারী পোকার লার্ভা খুঁজুন; প্রতি মিটার সারিতে একটি লার্ভা দেখা গেলে স্প্রে করুন",
+    "Harvest when leaves turn reddish brown and pods are dry": "পাতা লালচে বাদামি হলে ও শুঁটি শুকিয়ে গেলে ফসল কাটুন",
+    // Fertilizer split timings
+    "Basal, at sowing": "মূল সার, বপনের সময়",
+    "With the first irrigation (crown root initiation, 21-25 days after sowing)": "প্রথম সেচের সঙ্গে (মুকুট শিকড় গজানোর সময়, বপনের 21-25 দিন পর)",
+    "At transplanting": "রোপণের সময়",
+    "Active tillering (about 21 days after transplanting)": "সক্রিয় পাশকাঠি গজানোর সময় (রোপণের প্রায় 21 দিন পর)",
+    "Panicle initiation (about 42 days after transplanting)": "শিষ গঠনের শুরুতে (রোপণের প্রায় 42 দিন পর)",
+    "Knee-high stage (about 30 days after sowing)": "হাঁটু সমান উচ্চতায় (বপনের প্রায় 30 দিন পর)",
+    "Before tasseling (about 50 days after sowing)": "ট্যাসেল বের হওয়ার আগে (বপনের প্রায় 50 দিন পর)",
+    "At thinning (about 20 days after sowing)": "পাতলা করার সময় (বপনের প্রায় 20 দিন পর)",
+    "At first flower": "প্রথম ফুল আসার সময়",
+    "With the first irrigation (30-35 days after sowing)": "প্রথম সেচের সঙ্গে (বপনের 30-35 দিন পর)",
+    "Basal, at sowing (with Rhizobium seed treatment)": "মূল সার, বপনের সময় (রাইজোবিয়াম বীজ শোধনসহ)"
+};
+
+const PHRASEBOOKS: Partial<Record<Language, Phrasebook>> = { hi, pa, mr, gu, bn };
+
+/**
+ * Translator for crop stage labels, stage advisories and fertilizer split timings; English passes through
+ */
+export const referenceText = (language: Language) => (text: string) => PHRASEBOOKS[language]?.[text] ?? text;
@@ -0,0 +1,147 @@
+// src/resources.ts - MCP resources exposing the reference data the tools rely on
+import { BASE_PRICES, DEFAULT_BASE_PRICE, SOIL_THRESHOLDS } from "./reference-data.js";
+import { findCropKnowledge, getPestKnowledge } from "./pest-knowledge.js";
+
+export interface MCPResource {
+    uri: string;
+    name: string;
+    description: string;
+    mimeType: string;
+}
+
+export interface MCPResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    description: string;
+    mimeType: string;
+}
+
+export interface MCPResourceContents {
+    uri: string;
+    mimeType: string;
+    text: string;
+}
+
+interface StaticResource extends MCPResource {
+    read: () => unknown;
+}
+
+interface TemplatedResource extends MCPResourceTemplate {
+    // Matches a concrete URI and extracts the template variable
+    pattern: RegExp;
+    read: (value: string) => unknown | undefined;
+    // Concrete instances advertised in resources/list
+    instances: () => MCPResource[];
+}
+
+const JSON_MIME = "application/json";
+
+const staticResources: StaticResource[] = [
+    {
+        uri: "agri://pests",
+        name: "pest-database",
+        description: "Pest, disease and nutrient deficiency knowledge base: crops, file versions and entry summaries (used by pest-identifier)",
+        mimeType: JSON_MIME,
+        read: () => {
+            const knowledge = getPestKnowledge();
+            return {
+                loaded_at: knowledge.loaded_at,
+                crops: Array.from(knowledge.crops.values()).map(crop => ({
+                    crop: crop.crop,
+                    aliases: crop.aliases,
+                    version: crop.version,
+                    updated: crop.updated,
+                    entries: crop.entries.map(({ id, name, type, severity, stages }) => ({ id, name, type, severity, stages }))
+                }))
+            };
+        }
+    },
+    {
+        uri: "agri://prices/base",
+        name: "commodity-base-prices",
+        description: "Commodity base prices in ₹/quintal anchoring the mandi-price simulation",
+        mimeType: JSON_MIME,
+        read: () => ({ unit: "₹/quintal", default_price: DEFAULT_BASE_PRICE, prices: BASE_PRICES })
+    },
+    {
+        uri: "agri://soil/thresholds",
+        name: "soil-thresholds",
+        description: "pH, NPK, organic carbon, micronutrient and EC bands and score weights used by soil-health",
+        mimeType: JSON_MIME,
+        read: () => SOIL_THRESHOLDS
+    }
+];
+
+const templatedResources: TemplatedResource[] = [
+    {
+        uriTemplate: "agri://pests/{crop}",
+        name: "crop-pests",
+        description: "Full knowledge base entries for a single crop, with symptoms, favourable weather and treatments (e.g. agri://pests/rice)",
+        mimeType: JSON_MIME,
+        pattern: /^agri:\/\/pests\/([^/]+)$/,
+        read: crop => {
+            const knowledge = findCropKnowledge(getPestKnowledge(), crop);
+            if (!knowledge) return undefined;
+            const { file, ...data } = knowledge;
+            return data;
+        },
+        instances: () => Array.from(getPestKnowledge().crops.keys()).map(crop => ({
+            uri: `agri://pests/${crop}`,
+            name: `${crop}-pests`,
+            description: `Pests and diseases of ${crop}`,
+            mimeType: JSON_MIME
+        }))
+    },
+    {
+        uriTemplate: "agri://prices/base/{commodity}",
+        name: "commodity-base-price",
+        description: "Base price in ₹/quintal for a single commodity (e.g. agri://prices/base/wheat)",
+        mimeType: JSON_MIME,
+        pattern: /^agri:\/\/prices\/base\/([^/]+)$/,
+        read: commodity => {
+            const price = BASE_PRICES[commodity.toLowerCase()];
+            return price === undefined ? undefined : { commodity: commodity.toLowerCase(), base_price: price, unit: "₹/quintal" };
+        },
+        instances: () => Object.keys(BASE_PRICES).map(commodity => ({
+            uri: `agri://prices/base/${commodity}`,
+            name: `${commodity}-base-price`,
+            description: `Base price of ${commodity} in ₹/quintal`,
+            mimeType: JSON_MIME
+        }))
+    }
+];
+
+const toResource = ({ read, ...resource }: StaticResource): MCPResource => resource;
+
+/**
+ * Resources advertised in resources/list: the static data sets plus concrete per-crop entries
+ */
+export const listResources = (): MCPResource[] => [
+    ...staticResources.map(toResource),
+    ...templatedResources.flatMap(template => template.instances())
+];
+
+export const listResourceTemplates = (): MCPResourceTemplate[] =>
+    templatedResources.map(({ uriTemplate, name, description, mimeType }) => ({ uriTemplate, name, description, mimeType }));
+
+/**
+ * Resolve a URI to its contents, or null if nothing lives there
+ */
+export const readResource = (uri: string): MCPResourceContents[] | null => {
+    const staticResource = staticResources.find(resource => resource.uri === uri);
+    if (staticResource) {
+        return [{ uri, mimeType: staticResource.mimeType, text: JSON.stringify(staticResource.read(), null, 2) }];
+    }
+
+    for (const template of templatedResources) {
+        const match = uri.match(template.pattern);
+        if (!match) continue;
+
+        const data = template.read(decodeURIComponent(match[1]));
+        if (data !== undefined) {
+            return [{ uri, mimeType: template.mimeType, text: JSON.stringify(data, null, 2) }];
+        }
+    }
+
+    return null;
+};
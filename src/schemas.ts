@@ -0,0 +1,415 @@
+// src/schemas.ts - Tool argument schemas (single source of truth for inputSchema and validation)
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { LANGUAGE_CODES, resolveLanguage, resolveLocalCropName } from "./i18n.js";
+import { webhookUrlProblem } from "./webhook-target.js";
+
+/**
+ * JSON Schema advertised to MCP clients in tools/list
+ */
+export interface ToolInputSchema {
+    type: "object";
+    properties: Record<string, any>;
+    required?: string[];
+    additionalProperties: false;
+}
+
+/**
+ * Per-field validation error reported back to the caller
+ */
+export interface ValidationIssue {
+    path: string;
+    message: string;
+    code: string;
+    // Closest known names, for arguments checked against the gazetteer
+    suggestions?: string[];
+}
+
+export type ValidationResult<T> =
+    | { success: true; data: T }
+    | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Response language shared by every tool; codes, English names and native names are accepted (e.g. hi, Hindi, हिन्दी)
+ */
+const languageSchema = z.string()
+    .transform(value => resolveLanguage(value) ?? value)
+    .pipe(z.enum(LANGUAGE_CODES))
+    .default("en")
+    .describe(`Language for advisory text: ${LANGUAGE_CODES.join(", ")}, or a language name such as Hindi or हिन्दी (default: en)`);
+
+/**
+ * Crop name; local-language names (gehun, kapas, ਕਣਕ, कापूस) are replaced by the English name
+ */
+const cropNameSchema = () => z.preprocess(
+    value => typeof value === "string" ? resolveLocalCropName(value) ?? value : value,
+    z.string().min(1)
+);
+
+/**
+ * Crop Price Tool Schema
+ */
+export const cropPriceSchema = z.object({
+    state: z.string().min(1).optional()
+        .describe("State filter (e.g., Punjab, Maharashtra); resolved against the built-in gazetteer"),
+    district: z.string().min(1).optional()
+        .describe("District filter (e.g., Ludhiana, Nashik); older names such as Gurugram/Gurgaon are resolved, misspellings are rejected with suggestions"),
+    commodity: z.string().min(1).optional()
+        .describe("Commodity filter (e.g., wheat, paddy, tur); resolved to the data.gov.in name such as Wheat or Arhar (Tur/Red Gram)(Whole)"),
+    limit: z.number().int().min(1).max(1000).default(50)
+        .describe("Max records to return (default: 50)"),
+    offset: z.number().int().min(0).default(0)
+        .describe("Records to skip (default: 0)"),
+    fetch_all: z.boolean().default(false)
+        .describe("Fetch every page for the query (up to max_records, ignoring limit/offset) and return aggregated statistics"),
+    max_records: z.number().int().min(1).max(10000).default(5000)
+        .describe("Hard cap on records fetched when fetch_all is set (default: 5000, max: 10000)"),
+    include_records: z.boolean().default(false)
+        .describe("With fetch_all, also return the normalized records alongside the aggregation"),
+    include_raw: z.boolean().default(false)
+        .describe("Attach the original data.gov.in row to each record as `raw`"),
+    language: languageSchema
+}).strict();
+
+/**
+ * EXA Search Tool Schema
+ */
+export const searchSchema = z.object({
+    query: z.string().min(1)
+        .describe("Search query for agricultural information"),
+    num_results: z.number().int().min(1).max(100).default(5)
+        .describe("Number of results to return (default: 5)"),
+    include_domains: z.array(z.string().min(1)).optional()
+        .describe("Domains to include in search"),
+    exclude_domains: z.array(z.string().min(1)).optional()
+        .describe("Domains to exclude from search"),
+    start_crawl_date: z.string().datetime({ offset: true }).optional()
+        .describe("Only include pages crawled after this ISO 8601 date"),
+    end_crawl_date: z.string().datetime({ offset: true }).optional()
+        .describe("Only include pages crawled before this ISO 8601 date"),
+    language: languageSchema
+}).strict();
+
+// Soil test NPK values shared by soil-health and fertilizer-plan
+const npkValuesSchema = z.object({
+    nitrogen: z.number().min(0).optional().describe("Nitrogen content (kg/ha)"),
+    phosphorus: z.number().min(0).optional().describe("Phosphorus content (kg/ha)"),
+    potassium: z.number().min(0).optional().describe("Potassium content (kg/ha)")
+}).strict();
+
+const micronutrientsSchema = z.object({
+    zinc: z.number().min(0).optional().describe("DTPA-extractable zinc"),
+    iron: z.number().min(0).optional().describe("DTPA-extractable iron"),
+    sulphur: z.number().min(0).optional().describe("Available sulphur"),
+    boron: z.number().min(0).optional().describe("Hot-water soluble boron")
+}).strict();
+
+// Units the soil test values are reported in; values are converted to kg/ha (NPK), ppm (micronutrients), % organic carbon and dS/m
+const soilUnitsSchema = z.object({
+    npk: z.enum(["kg/ha", "ppm"]).default("kg/ha")
+        .describe("Unit of npk_values: kg/ha, or ppm (mg/kg) for a 15 cm plough layer (default: kg/ha)"),
+    micronutrients: z.enum(["ppm", "kg/ha"]).default("ppm")
+        .describe("Unit of micronutrients (default: ppm)"),
+    organic: z.enum(["%", "g/kg"]).default("%")
+        .describe("Unit of organic_content (default: %)"),
+    ec: z.enum(["dS/m", "mS/cm", "uS/cm"]).default("dS/m")
+        .describe("Unit of ec (default: dS/m)")
+}).strict();
+
+/**
+ * Soil Health Analyzer Tool Schema
+ */
+export const soilHealthSchema = z.object({
+    state: z.string().min(1).optional()
+        .describe("State where soil sample is from"),
+    district: z.string().min(1).optional()
+        .describe("District where soil sample is from"),
+    soil_type: z.string().min(1).optional()
+        .describe("Type of soil (e.g., Alluvial, Black Cotton, Red, Laterite)"),
+    npk_values: npkValuesSchema.optional()
+        .describe("NPK values from soil test"),
+    ph_level: z.number().min(0).max(14).optional()
+        .describe("Soil pH level (0-14 scale)"),
+    organic_content: z.number().min(0).max(100).optional()
+        .describe("Organic carbon (or organic matter, see organic_basis) content, % by default"),
+    organic_basis: z.enum(["organic_carbon", "organic_matter"]).default("organic_carbon")
+        .describe("Whether organic_content is organic carbon or organic matter (OM = 1.724 x OC) (default: organic_carbon)"),
+    micronutrients: micronutrientsSchema.optional()
+        .describe("Zinc, iron, sulphur and boron from the soil test, ppm by default"),
+    ec: z.number().min(0).optional()
+        .describe("Electrical conductivity (1:2 soil:water), dS/m by default"),
+    units: soilUnitsSchema.default({})
+        .describe("Units the soil test values are reported in"),
+    language: languageSchema
+}).strict();
+
+/**
+ * Weather Predictor Tool Schema
+ */
+export const weatherSchema = z.object({
+    location: z.string().min(1)
+        .describe("Location for weather forecast (city, district, or coordinates)"),
+    days: z.number().int().min(1).max(14).default(7)
+        .describe("Number of days to forecast (default: 7, max: 14)"),
+    include_farming_alerts: z.boolean().default(true)
+        .describe("Include farming-specific alerts and recommendations"),
+    language: languageSchema
+}).strict();
+
+/**
+ * Pest Identifier Tool Schema
+ */
+export const pestIdentifierSchema = z.object({
+    crop: cropNameSchema()
+        .describe("Type of crop affected (e.g., rice, wheat, cotton, maize, sugarcane, tomato, onion; local names such as dhan or gehun work too)"),
+    symptoms: z.string().min(1)
+        .describe("Comma-separated list of observed symptoms, in English or an Indian language (e.g., 'yellowing leaves, holes in stem, stunted growth' or 'peele patte')"),
+    image_description: z.string().optional()
+        .describe("Description of what is visible in pest/disease images; used as corroborating evidence"),
+    location: z.string().optional()
+        .describe("Location where pest/disease is observed; recent weather there is compared with each candidate's favourable conditions"),
+    season: z.enum(["kharif", "rabi", "zaid"]).optional()
+        .describe("Cropping season of the affected crop (default: inferred from today's date)"),
+    language: languageSchema
+}).strict();
+
+/**
+ * Mandi Price Tracker Tool Schema
+ */
+export const mandiPriceSchema = z.object({
+    commodity: z.string().min(1)
+        .describe("Commodity to track (e.g., wheat, rice, cotton, maize, soybean; local names such as gehun or kapas work too)"),
+    state: z.string().min(1).optional()
+        .describe("State for price tracking"),
+    district: z.string().min(1).optional()
+        .describe("District for local mandi prices; also the farmer's location for ranking markets when latitude/longitude are not given"),
+    latitude: z.number().min(-90).max(90).optional()
+        .describe("Farm latitude; with longitude, the origin for market distances"),
+    longitude: z.number().min(-180).max(180).optional()
+        .describe("Farm longitude; with latitude, the origin for market distances"),
+    quantity_quintals: z.number().positive().max(100000).default(10)
+        .describe("Quantity to sell in quintals, for net realisation (default: 10)"),
+    transport_cost_per_quintal_km: z.number().min(0).max(100).default(0.5)
+        .describe("Transport cost in ₹ per quintal per km (default: 0.5)"),
+    max_distance_km: z.number().positive().max(2000).default(150)
+        .describe("Only rank markets within this estimated road distance (default: 150 km)"),
+    days_back: z.number().int().min(7).max(365).default(30)
+        .describe("Number of days of historical data (default: 30, min: 7, max: 365)"),
+    include_predictions: z.boolean().default(true)
+        .describe("Include price forecasts with 80%/95% prediction intervals"),
+    forecast_days: z.number().int().min(1).max(30).default(7)
+        .describe("Forecast horizon in days after the last observation (default: 7, max: 30)"),
+    refresh: z.boolean().default(false)
+        .describe("Pull the latest data.gov.in prices into the local price history before answering (needs DATAGOVIN_API_KEY)"),
+    language: languageSchema
+}).strict().superRefine((params, ctx) => {
+    // One coordinate alone would silently fall back to the district as the origin
+    if ((params.latitude === undefined) !== (params.longitude === undefined)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [params.latitude === undefined ? "latitude" : "longitude"],
+            message: "latitude and longitude must be given together"
+        });
+    }
+});
+
+/**
+ * Price Anomalies Tool Schema
+ */
+export const priceAnomaliesSchema = z.object({
+    commodity: z.string().min(1)
+        .describe("Commodity to scan (e.g., wheat, onion, tomato)"),
+    state: z.string().min(1).optional()
+        .describe("State to scan"),
+    district: z.string().min(1).optional()
+        .describe("District to scan"),
+    days_back: z.number().int().min(1).max(90).default(7)
+        .describe("Scan arrivals from the last N days (default: 7, max: 90)"),
+    baseline_days: z.number().int().min(7).max(180).default(28)
+        .describe("Trailing days forming each market's own baseline (default: 28)"),
+    z_threshold: z.number().min(2).max(10).default(3.5)
+        .describe("Robust z-score (median/MAD) at or above which a price is flagged (default: 3.5)"),
+    refresh: z.boolean().default(false)
+        .describe("Pull the latest data.gov.in prices into the local price history before scanning (needs DATAGOVIN_API_KEY)"),
+    language: languageSchema
+}).strict();
+
+/**
+ * Price Alert Tool Schemas
+ */
+export const priceAlertCreateSchema = z.object({
+    commodity: z.string().min(1)
+        .describe("Commodity to watch (e.g., wheat)"),
+    state: z.string().min(1).optional()
+        .describe("State to watch"),
+    district: z.string().min(1).optional()
+        .describe("District to watch"),
+    condition: z.enum(["above", "below", "change_percent"])
+        .describe("Fire when the price goes above or below threshold, or moves by threshold percent within window_days"),
+    threshold: z.number().positive()
+        .describe("Price in ₹/quintal for above/below, or percent for change_percent"),
+    window_days: z.number().int().min(1).max(90).default(7)
+        .describe("Look-back window for change_percent (default: 7)"),
+    webhook_url: z.string().url().refine(url => /^https?:\/\//i.test(url), "Webhook URL must use http or https")
+        .superRefine((url, ctx) => {
+            const problem = URL.canParse(url) ? webhookUrlProblem(url) : undefined;
+            if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+        })
+        .describe("URL that receives a signed POST when the alert fires"),
+    label: z.string().max(200).optional()
+        .describe("Free-text label echoed in the webhook payload"),
+    language: languageSchema
+}).strict();
+
+export const priceAlertListSchema = z.object({
+    include_deliveries: z.boolean().default(false)
+        .describe("Also return the most recent webhook deliveries"),
+    subscription_id: z.string().min(1).optional()
+        .describe("Only show this subscription and its deliveries"),
+    language: languageSchema
+}).strict();
+
+export const priceAlertDeleteSchema = z.object({
+    id: z.string().min(1)
+        .describe("Subscription id returned by price-alert-create"),
+    language: languageSchema
+}).strict();
+
+/**
+ * Irrigation Planner Tool Schema
+ */
+export const irrigationPlannerSchema = z.object({
+    location: z.string().min(1)
+        .describe("Farm location (city, district, or 'lat,lon' coordinates)"),
+    crop: cropNameSchema()
+        .describe("Crop being irrigated (e.g., wheat, rice, cotton, maize, sugarcane)"),
+    stage: z.enum(["initial", "development", "mid", "late"]).optional()
+        .describe("FAO-56 growth stage; ignored when days_after_sowing is given (default: mid)"),
+    days_after_sowing: z.number().int().min(0).max(400).optional()
+        .describe("Days since sowing/transplanting; sets the stage, crop coefficient and rooting depth day by day"),
+    soil_type: z.string().min(1).optional()
+        .describe("Soil type (e.g., sandy, loam, alluvial, black, clay, red, laterite)"),
+    days: z.number().int().min(1).max(14).default(7)
+        .describe("Days to plan from the weather forecast (default: 7, max: 14)"),
+    et0_method: z.enum(["penman_monteith", "hargreaves"]).default("penman_monteith")
+        .describe("Reference ET equation used when the weather provider does not supply ET0 (default: penman_monteith)"),
+    irrigation_method: z.enum(["flood", "furrow", "sprinkler", "drip"]).default("flood")
+        .describe("Irrigation method, sets the application efficiency for gross depths (default: flood)"),
+    initial_depletion_percent: z.number().min(0).max(100).default(0)
+        .describe("Root-zone depletion today as % of available water; 0 means the field is at field capacity (default: 0)"),
+    latitude: z.number().min(-90).max(90).optional()
+        .describe("Latitude in degrees, used for radiation when the location cannot be geocoded"),
+    language: languageSchema
+}).strict();
+
+/**
+ * Crop Stage Tool Schema
+ */
+export const cropStageSchema = z.object({
+    crop: cropNameSchema()
+        .describe("Crop (e.g., wheat, rice, cotton, maize, soybean, mustard, chickpea)"),
+    sowing_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-mm-dd").refine(date => !Number.isNaN(Date.parse(date)), "Invalid date")
+        .describe("Sowing date (transplanting date for rice), yyyy-mm-dd"),
+    location: z.string().min(1)
+        .describe("Farm location (city, district, or 'lat,lon' coordinates)"),
+    variety_class: z.enum(["early", "medium", "late"]).default("medium")
+        .describe("Variety duration class (default: medium)"),
+    days: z.number().int().min(1).max(14).default(7)
+        .describe("Forecast days used to project upcoming stages (default: 7, max: 14)"),
+    include_daily: z.boolean().default(false)
+        .describe("Include the daily GDD series since sowing"),
+    language: languageSchema
+}).strict();
+
+/**
+ * Fertilizer Plan Tool Schema
+ */
+export const fertilizerPlanSchema = z.object({
+    crop: cropNameSchema()
+        .describe("Crop to fertilize (e.g., wheat, rice, maize, cotton, mustard, soybean, chickpea)"),
+    target_yield: z.number().positive().optional()
+        .describe("Target yield in quintals per hectare (q/ha); defaults to a typical yield for the crop"),
+    npk_values: npkValuesSchema.optional()
+        .describe("Available N (KMnO4), P (Olsen) and K (NH4OAc) from the Soil Health Card, kg/ha"),
+    ph_level: z.number().min(0).max(14).optional()
+        .describe("Soil pH level (0-14 scale)"),
+    organic_content: z.number().min(0).max(100).optional()
+        .describe("Organic carbon content, % by default"),
+    units: soilUnitsSchema.default({})
+        .describe("Units the soil test values are reported in"),
+    soil_type: z.string().min(1).optional()
+        .describe("Type of soil (e.g., Alluvial, Black Cotton, Red, Laterite)"),
+    state: z.string().min(1).optional()
+        .describe("State where the field is"),
+    district: z.string().min(1).optional()
+        .describe("District where the field is"),
+    area: z.number().positive().default(1)
+        .describe("Field area in area_unit (default: 1)"),
+    area_unit: z.enum(["acre", "hectare"]).default("acre")
+        .describe("Unit of area (default: acre)"),
+    phosphate_source: z.enum(["dap", "ssp"]).optional()
+        .describe("Phosphate fertilizer to use; defaults to SSP for oilseeds and pulses, DAP otherwise"),
+    fym_tonnes_per_ha: z.number().min(0).max(50).default(0)
+        .describe("Farmyard manure applied this season, tonnes per hectare; its nutrients are credited against the dose"),
+    prices: z.object({
+        urea: z.number().positive().optional(),
+        dap: z.number().positive().optional(),
+        ssp: z.number().positive().optional(),
+        mop: z.number().positive().optional()
+    }).strict().optional()
+        .describe("Local prices in ₹ per bag (urea 45 kg, others 50 kg) to override the defaults"),
+    language: languageSchema
+}).strict();
+
+export type CropPriceParams = z.infer<typeof cropPriceSchema>;
+export type SearchParams = z.infer<typeof searchSchema>;
+export type SoilHealthParams = z.infer<typeof soilHealthSchema>;
+export type WeatherParams = z.infer<typeof weatherSchema>;
+export type PestIdentifierParams = z.infer<typeof pestIdentifierSchema>;
+export type MandiPriceParams = z.infer<typeof mandiPriceSchema>;
+export type PriceAnomaliesParams = z.infer<typeof priceAnomaliesSchema>;
+export type PriceAlertCreateParams = z.infer<typeof priceAlertCreateSchema>;
+export type PriceAlertListParams = z.infer<typeof priceAlertListSchema>;
+export type PriceAlertDeleteParams = z.infer<typeof priceAlertDeleteSchema>;
+export type IrrigationPlannerParams = z.infer<typeof irrigationPlannerSchema>;
+export type CropStageParams = z.infer<typeof cropStageSchema>;
+export type FertilizerPlanParams = z.infer<typeof fertilizerPlanSchema>;
+
+/**
+ * A tool's argument object, optionally refined with checks across its fields
+ */
+export type ToolSchema = z.ZodObject<z.ZodRawShape> | z.ZodEffects<z.ZodObject<z.ZodRawShape>>;
+
+/**
+ * Convert a tool's zod schema into the JSON Schema advertised in tools/list
+ */
+export const toInputSchema = (schema: ToolSchema): ToolInputSchema => {
+    // Names resolve to codes after parsing, so the language argument is advertised as the string it accepts
+    const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+        $refStrategy: "none",
+        removeAdditionalStrategy: "strict",
+        pipeStrategy: "input"
+    }) as Record<string, any>;
+
+    return jsonSchema as ToolInputSchema;
+};
+
+/**
+ * Validate raw tool arguments against a schema, applying defaults
+ */
+export const validateArguments = <S extends z.ZodTypeAny>(schema: S, args: unknown): ValidationResult<z.output<S>> => {
+    const parsed = schema.safeParse(args ?? {});
+
+    if (parsed.success) {
+        return { success: true, data: parsed.data };
+    }
+
+    return {
+        success: false,
+        issues: parsed.error.issues.map(issue => ({
+            path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+            message: issue.message,
+            code: issue.code
+        }))
+    };
+};
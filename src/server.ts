@@ -2,61 +2,265 @@
 import { config } from "dotenv";
 config(); // Load .env file
 
-import fetch from "node-fetch";
 import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { z } from "zod";
+import {
+    cropPriceSchema,
+    searchSchema,
+    soilHealthSchema,
+    weatherSchema,
+    pestIdentifierSchema,
+    mandiPriceSchema,
+    priceAnomaliesSchema,
+    priceAlertCreateSchema,
+    priceAlertListSchema,
+    priceAlertDeleteSchema,
+    irrigationPlannerSchema,
+    cropStageSchema,
+    fertilizerPlanSchema,
+    toInputSchema,
+    validateArguments,
+    ToolInputSchema,
+    ToolSchema,
+    ValidationIssue,
+    CropPriceParams,
+    SearchParams,
+    SoilHealthParams,
+    WeatherParams,
+    PestIdentifierParams,
+    MandiPriceParams,
+    PriceAnomaliesParams,
+    PriceAlertCreateParams,
+    PriceAlertListParams,
+    PriceAlertDeleteParams,
+    IrrigationPlannerParams,
+    CropStageParams,
+    FertilizerPlanParams
+} from "./schemas.js";
+import {
+    MCPRequest,
+    MCPResponse,
+    LATEST_PROTOCOL_VERSION,
+    SUPPORTED_PROTOCOL_VERSIONS,
+    negotiateProtocolVersion,
+    createMessageDispatcher
+} from "./protocol.js";
+import {
+    handleStreamablePost,
+    handleStreamableGet,
+    handleStreamableDelete,
+    isOriginAllowed,
+    getSessionStats,
+    broadcastNotification
+} from "./streamable-http.js";
+import { startStdioServer } from "./stdio.js";
+import {
+    BASE_PRICES,
+    DEFAULT_BASE_PRICE,
+    SOIL_THRESHOLDS,
+    CROP_WATER_PROFILES,
+    SOIL_WATER_PROFILES,
+    DEFAULT_SOIL_WATER_PROFILE,
+    CROP_PHENOLOGY,
+    VARIETY_GDD_FACTOR,
+    CROP_FERTILIZER_PROFILES,
+    FERTILIZER_PRODUCTS,
+    HECTARES_PER_ACRE,
+    SoilParameter
+} from "./reference-data.js";
+import { listResources, listResourceTemplates, readResource } from "./resources.js";
+import { listPrompts, getPrompt } from "./prompts.js";
+import { createCache, CacheResult } from "./cache.js";
+import { aggregatePrices } from "./price-aggregation.js";
+import { CropPriceRecord, normalizeCropPriceRows } from "./crop-price-records.js";
+import { forecastPrices } from "./price-forecast.js";
+import { detectPriceAnomalies } from "./price-anomalies.js";
+import {
+    createSubscription,
+    listSubscriptions,
+    listDeliveries,
+    deleteSubscription,
+    evaluateAlerts,
+    subscriptionTargets
+} from "./price-alerts.js";
+import { ingestRecords, queryHistory, getHistoryStats, flushPriceHistory, IngestSummary, PriceObservation } from "./price-history.js";
+import { upstreamFetch, getUpstreamStatus, hasOpenCircuit } from "./upstream.js";
+import { createWeatherProvider } from "./weather.js";
+import { waterBalance } from "./irrigation.js";
+import { estimateCropStage } from "./crop-stage.js";
+import { nutrientRequirements, productQuantities, splitSchedule, ProductDose } from "./fertilizer.js";
+import { normalizeSoilTest, scoreSoilTest } from "./soil-test.js";
+import {
+    loadPestKnowledge,
+    reloadPestKnowledge,
+    getPestKnowledge,
+    getPestKnowledgeStatus,
+    findCropKnowledge,
+    weatherFavours,
+    PestEntry
+} from "./pest-knowledge.js";
+import { diagnose, seasonOn } from "./pest-diagnosis.js";
+import { translator } from "./messages.js";
+import { referenceText } from "./reference-messages.js";
+import { LANGUAGE_CODES } from "./i18n.js";
+import { commodityKey, findCommodity, findState, resolveGazetteerArguments } from "./gazetteer.js";
+import { gazetteerMarkets, locateOrigin, rankMarkets, ROAD_FACTOR } from "./market-ranking.js";
+import { metricsRegistry, recordToolCall, Transport } from "./metrics.js";
 
 // MCP Protocol Types
-interface MCPRequest {
-    jsonrpc: "2.0";
-    id: string | number;
-    method: string;
-    params?: any;
+interface MCPTool {
+    name: string;
+    description: string;
+    inputSchema: ToolInputSchema;
 }
 
-interface MCPResponse {
-    jsonrpc: "2.0";
-    id: string | number;
-    result?: any;
-    error?: {
-        code: number;
-        message: string;
-        data?: any;
-    };
+// Result shape shared by every tool handler
+interface ToolResult {
+    success?: boolean;
+    data?: any;
+    error?: string;
 }
 
-interface MCPTool {
+interface RegisteredTool {
     name: string;
     description: string;
-    inputSchema: {
-        type: "object";
-        properties: Record<string, any>;
-        required?: string[];
-    };
+    schema: ToolSchema;
+    handler: (params: unknown) => Promise<ToolResult>;
 }
 
+type ToolExecution =
+    | { status: "not_found" }
+    | { status: "invalid_params"; issues: ValidationIssue[] }
+    | { status: "completed"; result: ToolResult };
+
 const PORT = process.env.PORT || 10000;
 
-// Type definitions for better TypeScript support
-interface PestData {
-    name: string;
-    symptoms: string[];
-    treatment: string[];
-    severity: string;
-    season: string;
+interface CropPricePage {
+    records: any[];
+    total: number;
 }
 
-interface PestDatabase {
-    [key: string]: PestData[];
-}
+// Identical crop-price queries within the TTL share one upstream fetch; stale pages cover upstream outages
+const cropPriceCache = createCache<CropPricePage>({
+    name: "crop-price",
+    ttlMs: Number(process.env.CROP_PRICE_CACHE_TTL_MS ?? 5 * 60 * 1000),
+    staleMs: Number(process.env.CROP_PRICE_CACHE_STALE_MS ?? 60 * 60 * 1000),
+    maxEntries: Number(process.env.CROP_PRICE_CACHE_MAX_ENTRIES ?? 500)
+});
 
-interface BasePrice {
-    [key: string]: number;
-}
+// Trim and collapse whitespace; case is kept because data.gov.in filters are case-sensitive
+const normalizeFilter = (value?: string) => value?.trim().replace(/\s+/g, " ") || undefined;
+
+/**
+ * Fetch one page of crop price records from data.gov.in; throws on upstream failure so nothing bad is cached
+ */
+const fetchCropPricePage = async (apiKey: string, resourceId: string, query: CropPriceParams): Promise<CropPricePage> => {
+    // Build URL with filters[...] parameters
+    const base = `https://api.data.gov.in/resource/${encodeURIComponent(resourceId)}`;
+    const urlParams = new URLSearchParams();
+    urlParams.set("api-key", apiKey);
+    urlParams.set("format", "json");
+    urlParams.set("limit", String(query.limit));
+    urlParams.set("offset", String(query.offset));
+
+    if (query.state) urlParams.append("filters[State]", query.state);
+    if (query.district) urlParams.append("filters[District]", query.district);
+    if (query.commodity) urlParams.append("filters[Commodity]", query.commodity);
+
+    const url = `${base}?${urlParams.toString()}`;
+
+    // Fetch data
+    const res = await upstreamFetch("datagovin", url, { method: "GET" });
+    const text = res.text;
+
+    if (!res.ok) {
+        throw new Error(`HTTP ${res.status} fetching data.gov.in: ${text}`);
+    }
+
+    // parse JSON (defensive)
+    let json;
+    try {
+        json = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`Invalid JSON response: ${text}`);
+    }
+
+    const records = json.records || [];
+    return { records, total: json.total || records.length };
+};
+
+// Every crop-price response feeds the local price history; a failed write never fails the tool call
+const recordPriceHistory = async (records: CropPriceRecord[]): Promise<IngestSummary | undefined> => {
+    try {
+        return await ingestRecords(records);
+    } catch (err) {
+        console.error(`Price history ingest failed: ${String(err)}`);
+        return undefined;
+    }
+};
+
+// Page size used when walking every page of a query
+const CROP_PRICE_PAGE_SIZE = 1000;
+
+/**
+ * Walk every page of a crop-price query (up to max_records) sequentially and aggregate the normalized records
+ */
+const fetchAllCropPrices = async (
+    loadPage: (limit: number, offset: number) => Promise<CacheResult<CropPricePage>>,
+    params: CropPriceParams,
+    query: { state?: string; district?: string; commodity?: string }
+) => {
+    const records: CropPriceRecord[] = [];
+    const cacheStatuses: Record<string, number> = {};
+    let total = 0;
+    let pages = 0;
+    let partialError: string | undefined;
+
+    while (records.length < params.max_records) {
+        let page;
+        try {
+            page = await loadPage(Math.min(CROP_PRICE_PAGE_SIZE, params.max_records - records.length), records.length);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            if (pages === 0) {
+                return { error: message };
+            }
+            // A failure after the first page still yields statistics over what was fetched
+            partialError = message;
+            break;
+        }
+
+        pages++;
+        cacheStatuses[page.status] = (cacheStatuses[page.status] ?? 0) + 1;
+        total = page.value.total;
+        records.push(...normalizeCropPriceRows(page.value.records, params.include_raw));
+
+        if (page.value.records.length === 0 || records.length >= total) break;
+    }
+
+    await recordPriceHistory(records);
+
+    return {
+        success: true,
+        data: {
+            total,
+            fetched: records.length,
+            pages,
+            truncated: records.length < total,
+            max_records: params.max_records,
+            ...(partialError ? { partial: true, partial_error: partialError } : {}),
+            query,
+            aggregation: aggregatePrices(records),
+            ...(params.include_records ? { records } : {}),
+            cache: { pages: cacheStatuses }
+        }
+    };
+};
 
 /**
  * Crop Price Tool Handler
  */
-const cropPriceHandler = async (params: any) => {
+const cropPriceHandler = async (params: CropPriceParams) => {
     try {
         const API_KEY = process.env.DATAGOVIN_API_KEY;
         const RESOURCE_ID = process.env.DATAGOVIN_RESOURCE_ID ?? "35985678-0d79-46b4-9ed6-6f13308a1d24";
@@ -67,54 +271,45 @@ const cropPriceHandler = async (params: any) => {
             };
         }
 
-        const { state, district, commodity } = params;
-        const limit = params.limit ?? 50;
-        const offset = params.offset ?? 0;
-
-        // Build URL with filters[...] parameters
-        const base = `https://api.data.gov.in/resource/${encodeURIComponent(RESOURCE_ID)}`;
-        const urlParams = new URLSearchParams();
-        urlParams.set("api-key", API_KEY);
-        urlParams.set("format", "json");
-        urlParams.set("limit", String(limit));
-        urlParams.set("offset", String(offset));
-
-        if (state) urlParams.append("filters[State]", state);
-        if (district) urlParams.append("filters[District]", district);
-        if (commodity) urlParams.append("filters[Commodity]", commodity);
+        const state = normalizeFilter(params.state);
+        const district = normalizeFilter(params.district);
+        const commodity = normalizeFilter(params.commodity);
+        const { limit, offset } = params;
 
-        const url = `${base}?${urlParams.toString()}`;
-
-        // Fetch data
-        const res = await fetch(url, { method: "GET" });
-        const text = await res.text();
+        const loadPage = (pageLimit: number, pageOffset: number) => {
+            const cacheKey = JSON.stringify([RESOURCE_ID, state ?? "", district ?? "", commodity ?? "", pageLimit, pageOffset]);
+            return cropPriceCache.getOrLoad(cacheKey, () =>
+                fetchCropPricePage(API_KEY, RESOURCE_ID, { ...params, state, district, commodity, limit: pageLimit, offset: pageOffset })
+            );
+        };
 
-        if (!res.ok) {
-            return {
-                error: `HTTP ${res.status} fetching data.gov.in: ${text}`
-            };
+        if (params.fetch_all) {
+            return await fetchAllCropPrices(loadPage, params, { state, district, commodity });
         }
 
-        // parse JSON (defensive)
-        let json;
+        let page;
         try {
-            json = JSON.parse(text);
+            page = await loadPage(limit, offset);
         } catch (err) {
-            return { error: `Invalid JSON response: ${text}` };
+            return { error: err instanceof Error ? err.message : String(err) };
         }
 
-        // Format response for better readability
-        const records = json.records || [];
-        const total = json.total || records.length;
+        const records = normalizeCropPriceRows(page.value.records, params.include_raw);
+        await recordPriceHistory(records);
 
         return {
             success: true,
             data: {
                 records,
-                total,
+                total: page.value.total,
                 limit,
                 offset,
-                query: { state, district, commodity }
+                query: { state, district, commodity },
+                cache: {
+                    status: page.status,
+                    age_seconds: page.ageSeconds,
+                    ...(page.staleReason ? { stale_reason: page.staleReason } : {})
+                }
             }
         };
     } catch (err) {
@@ -122,83 +317,168 @@ const cropPriceHandler = async (params: any) => {
     }
 };
 
+/**
+ * Pull every current data.gov.in row for a commodity (and optional state/district) into the price history
+ */
+const refreshPriceHistory = async (commodity: string, state?: string, district?: string) => {
+    // data.gov.in filters are case-sensitive; callers pass names already resolved by the gazetteer ("Wheat", "NCT of Delhi")
+    const result: ToolResult = await cropPriceHandler(cropPriceSchema.parse({
+        commodity,
+        ...(state ? { state } : {}),
+        ...(district ? { district } : {}),
+        fetch_all: true
+    }));
+
+    if (result.error) {
+        return { error: result.error };
+    }
+    return {
+        fetched: result.data.fetched,
+        latest_arrival_date: result.data.aggregation.latest_arrival_date
+    };
+};
+
+// Background ingestion for the commodities in PRICE_HISTORY_INGEST_COMMODITIES (comma-separated).
+// Names are resolved through the gazetteer at startup, and an unknown name stops the server.
+const schedulePriceHistoryIngest = () => {
+    const commodities = (process.env.PRICE_HISTORY_INGEST_COMMODITIES ?? "").split(",").map(c => c.trim()).filter(Boolean)
+        .map(name => {
+            const entry = findCommodity(name);
+            if (!entry) {
+                throw new Error(`PRICE_HISTORY_INGEST_COMMODITIES: unknown commodity '${name}'`);
+            }
+            return entry.name;
+        });
+    const stateName = process.env.PRICE_HISTORY_INGEST_STATE?.trim();
+    const state = stateName ? findState(stateName)?.name : undefined;
+    if (stateName && !state) {
+        throw new Error(`PRICE_HISTORY_INGEST_STATE: unknown state '${stateName}'`);
+    }
+    if (commodities.length === 0 || !process.env.DATAGOVIN_API_KEY) return;
+
+    const intervalMs = Number(process.env.PRICE_HISTORY_INGEST_INTERVAL_MS ?? 6 * 60 * 60 * 1000);
+    let running = false;
+
+    const run = async () => {
+        if (running) return;
+        running = true;
+        try {
+            for (const commodity of commodities) {
+                const result = await refreshPriceHistory(commodity, state);
+                if (result.error) {
+                    console.error(`Scheduled price history ingest for ${commodity} failed: ${result.error}`);
+                }
+            }
+        } finally {
+            running = false;
+        }
+    };
+
+    void run();
+    setInterval(run, intervalMs).unref();
+};
+
 /**
  * Soil Health Analyzer Tool Handler
  */
-const soilHealthHandler = async (params: any) => {
+const soilHealthHandler = async (params: SoilHealthParams) => {
     try {
-        const { state, district, soil_type, npk_values, ph_level, organic_content } = params;
+        const { state, district, soil_type, language } = params;
+        const t = translator(language);
+        const parameterNames = (parameters: SoilParameter[]) => parameters.map(p => t(`parameter.${p}` as const)).join(", ");
+
+        const soil = normalizeSoilTest(params, t);
+        const score = scoreSoilTest(soil);
+        const { values } = soil;
+        const measured = score.readings.filter(r => r.status === "measured").map(r => r.parameter);
+        const notProvided = score.readings.filter(r => r.status === "not_provided").map(r => r.parameter);
+        const implausible = score.readings.filter(r => r.status === "implausible").map(r => r.parameter);
 
-        // Simulate soil health analysis (in production, this would connect to government databases)
         const soilAnalysis = {
             location: { state, district },
+            status: score.status,
             soil_parameters: {
                 type: soil_type || "Unknown",
-                ph_level: ph_level || 6.5,
-                nitrogen: npk_values?.nitrogen || 280,
-                phosphorus: npk_values?.phosphorus || 23,
-                potassium: npk_values?.potassium || 280,
-                organic_content: organic_content || 0.75
+                ...Object.fromEntries(score.readings.map(r => [r.parameter === "ph" ? "ph_level" : r.parameter, values[r.parameter] ?? null]))
+            },
+            health_score: score.health_score,
+            parameters: score.readings,
+            data_quality: {
+                measured,
+                not_provided: notProvided,
+                implausible,
+                // Nothing is filled in with defaults; only measured parameters are scored
+                assumed: [] as string[],
+                conversions: soil.conversions,
+                score_basis: score.status === "scored"
+                    ? t("soil.score_basis", { count: score.scored_parameters })
+                    : null
             },
-            health_score: 0,
+            warnings: soil.warnings,
             recommendations: [] as string[],
             suitable_crops: [] as string[]
         };
 
-        // Calculate health score based on parameters
-        let healthScore = 0;
-        const ph = soilAnalysis.soil_parameters.ph_level;
-        const nitrogen = soilAnalysis.soil_parameters.nitrogen;
-        const phosphorus = soilAnalysis.soil_parameters.phosphorus;
-        const potassium = soilAnalysis.soil_parameters.potassium;
-        const organic = soilAnalysis.soil_parameters.organic_content;
-
-        // pH scoring (optimal range 6.0-7.5)
-        if (ph >= 6.0 && ph <= 7.5) healthScore += 25;
-        else if (ph >= 5.5 && ph <= 8.0) healthScore += 15;
-        else healthScore += 5;
-
-        // NPK scoring
-        if (nitrogen >= 280) healthScore += 20;
-        else if (nitrogen >= 200) healthScore += 15;
-        else healthScore += 5;
-
-        if (phosphorus >= 20) healthScore += 20;
-        else if (phosphorus >= 15) healthScore += 15;
-        else healthScore += 5;
-
-        if (potassium >= 280) healthScore += 20;
-        else if (potassium >= 200) healthScore += 15;
-        else healthScore += 5;
-
-        // Organic content scoring
-        if (organic >= 0.75) healthScore += 15;
-        else if (organic >= 0.5) healthScore += 10;
-        else healthScore += 3;
-
-        soilAnalysis.health_score = Math.min(healthScore, 100);
+        if (score.status === "insufficient_data") {
+            soilAnalysis.recommendations = [
+                t("soil.insufficient_data", { missing: parameterNames(score.missing_core) }),
+                t("soil.get_tested")
+            ];
+            return {
+                success: true,
+                data: {
+                    analysis: soilAnalysis,
+                    language,
+                    timestamp: new Date().toISOString(),
+                    source: "Soil Health Card rating bands"
+                }
+            };
+        }
 
-        // Generate recommendations based on analysis
+        // Generate recommendations from the measured values only
         const recommendations: string[] = [];
-        if (ph < 6.0) recommendations.push("Apply lime to increase soil pH");
-        if (ph > 7.5) recommendations.push("Apply organic matter to reduce soil pH");
-        if (nitrogen < 200) recommendations.push("Apply nitrogen-rich fertilizers or compost");
-        if (phosphorus < 15) recommendations.push("Apply phosphorus fertilizers (DAP/SSP)");
-        if (potassium < 200) recommendations.push("Apply potassium fertilizers (MOP)");
-        if (organic < 0.5) recommendations.push("Increase organic matter through compost and crop residues");
+        const below = (parameter: SoilParameter) => {
+            const value = values[parameter];
+            return value !== undefined && parameter !== "ph" && parameter !== "ec" && value < SOIL_THRESHOLDS[parameter].adequate;
+        };
+        const { ph: phBands, ec: ecBands } = SOIL_THRESHOLDS;
+        const { ph, ec, nitrogen, phosphorus, potassium, organic_content: organic } = values;
+
+        if (ph !== undefined && ph < phBands.optimal.min) recommendations.push(t("soil.apply_lime"));
+        if (ph !== undefined && ph > phBands.optimal.max) recommendations.push(t("soil.reduce_ph"));
+        if (below("nitrogen")) recommendations.push(t("soil.nitrogen"));
+        if (below("phosphorus")) recommendations.push(t("soil.phosphorus"));
+        if (below("potassium")) recommendations.push(t("soil.potassium"));
+        if (below("organic_content")) recommendations.push(t("soil.organic"));
+        if (below("zinc")) recommendations.push(t("soil.zinc"));
+        if (below("iron")) recommendations.push(t("soil.iron"));
+        if (below("sulphur")) recommendations.push(t("soil.sulphur"));
+        if (below("boron")) recommendations.push(t("soil.boron"));
+        if (ec !== undefined && ec > ecBands.slightly_saline) {
+            recommendations.push(t("soil.saline"));
+        } else if (ec !== undefined && ec > ecBands.normal) {
+            recommendations.push(t("soil.slightly_saline"));
+        }
+        if (notProvided.length > 0) {
+            recommendations.push(t("soil.not_assessed", { parameters: parameterNames(notProvided) }));
+        }
 
         soilAnalysis.recommendations = recommendations;
 
-        // Suggest suitable crops based on soil conditions
+        // Suggest suitable crops from the measured values; a missing value neither qualifies nor rules out a crop
         const suitableCrops: string[] = [];
-        if (ph >= 6.0 && ph <= 7.5) {
-            if (nitrogen >= 250) suitableCrops.push("Wheat", "Rice", "Maize");
-            if (phosphorus >= 20) suitableCrops.push("Cotton", "Sugarcane");
-            if (potassium >= 250) suitableCrops.push("Potato", "Tomato");
+        if (ec !== undefined && ec > ecBands.slightly_saline) {
+            suitableCrops.push("Barley", "Mustard", "Cotton", "Sugar beet");
+        } else {
+            if (ph !== undefined && ph >= 6.0 && ph <= 7.5) {
+                if (nitrogen !== undefined && nitrogen >= 250) suitableCrops.push("Wheat", "Rice", "Maize");
+                if (phosphorus !== undefined && phosphorus >= 20) suitableCrops.push("Cotton", "Sugarcane");
+                if (potassium !== undefined && potassium >= 250) suitableCrops.push("Potato", "Tomato");
+            }
+
+            if (ph !== undefined && ph >= 5.5 && ph <= 6.5) suitableCrops.push("Tea", "Coffee");
+            if (organic !== undefined && organic >= 0.75) suitableCrops.push("Organic vegetables", "Pulses");
         }
-        
-        if (ph >= 5.5 && ph <= 6.5) suitableCrops.push("Tea", "Coffee");
-        if (organic >= 0.75) suitableCrops.push("Organic vegetables", "Pulses");
 
         soilAnalysis.suitable_crops = [...new Set(suitableCrops)]; // Remove duplicates
 
@@ -206,8 +486,9 @@ const soilHealthHandler = async (params: any) => {
             success: true,
             data: {
                 analysis: soilAnalysis,
+                language,
                 timestamp: new Date().toISOString(),
-                source: "Soil Health Card Scheme simulation"
+                source: "Soil Health Card rating bands"
             }
         };
     } catch (err) {
@@ -216,39 +497,138 @@ const soilHealthHandler = async (params: any) => {
 };
 
 /**
- * Weather Predictor Tool Handler
+ * Fertilizer Plan Tool Handler - STCR targeted-yield doses converted to urea/DAP/SSP/MOP with splits and cost
  */
-const weatherHandler = async (params: any) => {
+const fertilizerPlanHandler = async (params: FertilizerPlanParams) => {
     try {
-        const { location, days = 7, include_farming_alerts = true } = params;
+        const { crop, target_yield, soil_type, state, district, area, area_unit, phosphate_source, fym_tonnes_per_ha, prices, language } = params;
+        const t = translator(language);
+        const reference = referenceText(language);
+
+        const cropKey = crop.trim().toLowerCase();
+        const profile = CROP_FERTILIZER_PROFILES[cropKey];
+        if (!profile) {
+            return { error: `No fertilizer equations for '${crop}'. Supported crops: ${Object.keys(CROP_FERTILIZER_PROFILES).join(", ")}` };
+        }
 
-        // Simulate weather data (in production, this would connect to IMD API)
-        const currentDate = new Date();
-        const forecast = [];
-
-        for (let i = 0; i < days; i++) {
-            const date = new Date(currentDate);
-            date.setDate(date.getDate() + i);
-
-            // Generate realistic weather data for Indian conditions
-            const temp_max = 28 + Math.random() * 10; // 28-38°C
-            const temp_min = temp_max - 8 - Math.random() * 4; // 8-12°C difference
-            const humidity = 60 + Math.random() * 30; // 60-90%
-            const rainfall = Math.random() > 0.7 ? Math.random() * 25 : 0; // 30% chance of rain
-            const wind_speed = 5 + Math.random() * 15; // 5-20 km/h
-
-            forecast.push({
-                date: date.toISOString().split('T')[0],
-                temperature: {
-                    max: Math.round(temp_max),
-                    min: Math.round(temp_min)
+        // Implausible soil test values are dropped, so those nutrients fall back to the general recommendation
+        const soil = normalizeSoilTest(params, t);
+        const { ph: ph_level, organic_content } = soil.values;
+        const notes: string[] = [...soil.warnings, ...soil.conversions];
+        const targetYield = target_yield ?? profile.target_yield.typical;
+        if (target_yield === undefined) {
+            notes.push(t("fertilizer.typical_target", { yield: profile.target_yield.typical }));
+        } else if (target_yield < profile.target_yield.min || target_yield > profile.target_yield.max) {
+            notes.push(t("fertilizer.target_out_of_range", { yield: target_yield, min: profile.target_yield.min, max: profile.target_yield.max }));
+        }
+
+        const requirements = nutrientRequirements(profile, {
+            n: soil.values.nitrogen,
+            p2o5: soil.values.phosphorus,
+            k2o: soil.values.potassium
+        }, targetYield, fym_tonnes_per_ha, t);
+        requirements.forEach(r => r.note && notes.push(r.note));
+
+        const doses = { n: requirements[0].dose, p2o5: requirements[1].dose, k2o: requirements[2].dose };
+        const phosphate = phosphate_source ?? profile.preferred_phosphate;
+        const hectares = area_unit === "acre" ? area * HECTARES_PER_ACRE : area;
+
+        const pricePerKg = (product: ProductDose["product"]) =>
+            (prices?.[product] ?? FERTILIZER_PRODUCTS[product].price_per_bag) / FERTILIZER_PRODUCTS[product].bag_kg;
+        const round1 = (value: number) => Math.round(value * 10) / 10;
+
+        const products = productQuantities(doses, phosphate).map(p => {
+            const fieldKg = p.kg_per_ha * hectares;
+            return {
+                ...p,
+                kg_per_acre: round1(p.kg_per_ha * HECTARES_PER_ACRE),
+                kg_for_field: round1(fieldKg),
+                bags_for_field: Math.ceil(fieldKg / FERTILIZER_PRODUCTS[p.product].bag_kg * 2) / 2,
+                bag_kg: FERTILIZER_PRODUCTS[p.product].bag_kg,
+                cost_for_field: Math.round(fieldKg * pricePerKg(p.product))
+            };
+        });
+
+        const schedule = splitSchedule(profile, doses, phosphate).filter(split => split.products.length > 0).map(split => ({
+            ...split,
+            timing: reference(split.timing),
+            products: split.products.map(p => ({
+                ...p,
+                kg_per_acre: round1(p.kg_per_ha * HECTARES_PER_ACRE),
+                kg_for_field: round1(p.kg_per_ha * hectares)
+            }))
+        }));
+
+        const costPerHa = products.reduce((sum, p) => sum + p.kg_per_ha * pricePerKg(p.product), 0);
+
+        // Soil conditions that change how the fertilizer works
+        const amendments: string[] = [];
+        if (ph_level !== undefined && ph_level < 5.5) {
+            amendments.push(t("fertilizer.acidic"));
+        }
+        if (ph_level !== undefined && ph_level > 8.5) {
+            amendments.push(t("fertilizer.alkaline"));
+        }
+        if (organic_content !== undefined && organic_content < SOIL_THRESHOLDS.organic_content.adequate && fym_tonnes_per_ha === 0) {
+            amendments.push(t("fertilizer.low_organic"));
+        }
+        if (phosphate === "dap" && profile.preferred_phosphate === "ssp") {
+            amendments.push(t("fertilizer.dap_sulphur"));
+        }
+
+        return {
+            success: true,
+            data: {
+                crop: cropKey,
+                location: { state, district },
+                soil_type: soil_type || "Unknown",
+                target_yield: { value: targetYield, unit: "q/ha", basis: target_yield === undefined ? "typical" : "requested" },
+                area: { value: area, unit: area_unit, hectares: Math.round(hectares * 1000) / 1000 },
+                nutrient_requirements: requirements.map(({ note, ...r }) => ({ ...r, unit: "kg/ha" })),
+                nutrient_totals_per_acre: {
+                    n: round1(doses.n * HECTARES_PER_ACRE),
+                    p2o5: round1(doses.p2o5 * HECTARES_PER_ACRE),
+                    k2o: round1(doses.k2o * HECTARES_PER_ACRE)
                 },
-                humidity: Math.round(humidity),
-                rainfall: Math.round(rainfall * 10) / 10,
-                wind_speed: Math.round(wind_speed),
-                conditions: rainfall > 0 ? "Rainy" : humidity > 80 ? "Cloudy" : "Clear"
-            });
+                products,
+                split_schedule: schedule,
+                cost: {
+                    currency: "INR",
+                    per_hectare: Math.round(costPerHa),
+                    per_acre: Math.round(costPerHa * HECTARES_PER_ACRE),
+                    field_total: products.reduce((sum, p) => sum + p.cost_for_field, 0),
+                    prices_per_bag: Object.fromEntries(products.map(p => [p.product, prices?.[p.product] ?? FERTILIZER_PRODUCTS[p.product].price_per_bag]))
+                },
+                soil_amendments: amendments,
+                notes,
+                language,
+                timestamp: new Date().toISOString(),
+                source: "Soil test crop response (STCR) targeted-yield equations; subsidised fertilizer retail prices"
+            }
+        };
+    } catch (err) {
+        return { error: `Fertilizer plan error: ${String(err)}` };
+    }
+};
+
+// Selected once at startup from WEATHER_PROVIDER / WEATHER_API_BASE_URL
+const weatherProvider = createWeatherProvider();
+
+/**
+ * Weather Predictor Tool Handler
+ */
+const weatherHandler = async (params: WeatherParams) => {
+    try {
+        const { location, days, include_farming_alerts, language } = params;
+        const t = translator(language);
+
+        let weather;
+        try {
+            weather = await weatherProvider.getForecast(location, days);
+        } catch (err) {
+            return { error: err instanceof Error ? err.message : String(err) };
         }
+        const forecast = weather.days;
 
         // Generate farming alerts based on weather conditions
         const alerts: any[] = [];
@@ -259,7 +639,7 @@ const weatherHandler = async (params: any) => {
                         date: day.date,
                         type: "irrigation",
                         severity: "info",
-                        message: "Heavy rainfall expected. Skip irrigation for the day."
+                        message: t("weather.heavy_rain")
                     });
                 }
                 
@@ -268,7 +648,7 @@ const weatherHandler = async (params: any) => {
                         date: day.date,
                         type: "pest_risk",
                         severity: "warning",
-                        message: "High humidity and temperature. Monitor for pest activity."
+                        message: t("weather.pest_risk")
                     });
                 }
                 
@@ -277,7 +657,7 @@ const weatherHandler = async (params: any) => {
                         date: day.date,
                         type: "heat_stress",
                         severity: "warning",
-                        message: "High temperature with no rain. Ensure adequate irrigation."
+                        message: t("weather.heat_stress")
                     });
                 }
                 
@@ -286,7 +666,7 @@ const weatherHandler = async (params: any) => {
                         date: day.date,
                         type: "wind",
                         severity: "caution",
-                        message: "Strong winds expected. Secure tall crops and structures."
+                        message: t("weather.wind")
                     });
                 }
             });
@@ -301,13 +681,13 @@ const weatherHandler = async (params: any) => {
                     recommendation: "irrigate",
                     timing: "early_morning",
                     duration: day.temperature.max > 35 ? "extended" : "normal",
-                    reason: `Low rainfall (${day.rainfall}mm) and high temperature (${day.temperature.max}°C)`
+                    reason: t("weather.irrigate_reason", { rainfall: day.rainfall, temperature: day.temperature.max })
                 });
             } else if (day.rainfall > 10) {
                 irrigation_schedule.push({
                     date: day.date,
                     recommendation: "skip",
-                    reason: `Adequate rainfall expected (${day.rainfall}mm)`
+                    reason: t("weather.skip_reason", { rainfall: day.rainfall })
                 });
             }
         });
@@ -316,6 +696,10 @@ const weatherHandler = async (params: any) => {
             success: true,
             data: {
                 location,
+                ...(weather.location.latitude !== undefined ? {
+                    coordinates: { latitude: weather.location.latitude, longitude: weather.location.longitude },
+                    resolved_location: [weather.location.name, weather.location.region].filter(Boolean).join(", ")
+                } : {}),
                 forecast,
                 alerts,
                 irrigation_schedule,
@@ -325,8 +709,10 @@ const weatherHandler = async (params: any) => {
                     high_risk_days: alerts.filter(alert => alert.severity === "warning").length,
                     irrigation_days: irrigation_schedule.filter(day => day.recommendation === "irrigate").length
                 },
+                language,
                 timestamp: new Date().toISOString(),
-                source: "IMD Weather Forecast simulation"
+                provider: weatherProvider.name,
+                source: weatherProvider.source
             }
         };
     } catch (err) {
@@ -334,131 +720,357 @@ const weatherHandler = async (params: any) => {
     }
 };
 
+// Share of applied water that reaches the root zone, by irrigation method
+const APPLICATION_EFFICIENCY = { flood: 0.6, furrow: 0.65, sprinkler: 0.75, drip: 0.9 };
+// Used for radiation and air pressure when the weather provider does not resolve the location
+const DEFAULT_LATITUDE = 23;
+const DEFAULT_ELEVATION_M = 200;
+
 /**
- * Pest Identifier Tool Handler
+ * Irrigation Planner Tool Handler - FAO-56 crop water requirement and root-zone water balance over the forecast
  */
-const pestIdentifierHandler = async (params: any) => {
+const irrigationPlannerHandler = async (params: IrrigationPlannerParams) => {
     try {
-        const { crop, symptoms, image_description, location } = params;
+        const { location, crop, stage, days_after_sowing, soil_type, days, et0_method, irrigation_method, initial_depletion_percent, latitude, language } = params;
+        const t = translator(language);
 
-        // Simulate pest identification (in production, this would use image recognition AI)
-        const pestDatabase: PestDatabase = {
-            "rice": [
-                {
-                    name: "Brown Plant Hopper",
-                    symptoms: ["yellowing leaves", "stunted growth", "hopper burn"],
-                    treatment: ["Use neem oil spray", "Apply imidacloprid", "Maintain proper water levels"],
-                    severity: "high",
-                    season: "kharif"
-                },
-                {
-                    name: "Stem Borer",
-                    symptoms: ["dead hearts", "white ears", "holes in stem"],
-                    treatment: ["Use pheromone traps", "Apply cartap hydrochloride", "Remove affected tillers"],
-                    severity: "medium",
-                    season: "kharif"
-                }
-            ],
-            "wheat": [
-                {
-                    name: "Aphids",
-                    symptoms: ["curled leaves", "sticky honeydew", "yellowing"],
-                    treatment: ["Spray neem oil", "Use ladybird beetles", "Apply dimethoate"],
-                    severity: "medium",
-                    season: "rabi"
-                },
-                {
-                    name: "Rust Disease",
-                    symptoms: ["orange spots", "leaf yellowing", "reduced yield"],
-                    treatment: ["Apply propiconazole", "Use resistant varieties", "Proper field sanitation"],
-                    severity: "high",
-                    season: "rabi"
-                }
-            ],
-            "cotton": [
-                {
-                    name: "Bollworm",
-                    symptoms: ["holes in bolls", "damaged squares", "frass presence"],
-                    treatment: ["Use Bt cotton varieties", "Apply spinosad", "Pheromone traps"],
-                    severity: "high",
-                    season: "kharif"
+        const cropKey = crop.trim().toLowerCase();
+        const profile = CROP_WATER_PROFILES[cropKey];
+        if (!profile) {
+            return { error: `No crop water profile for '${crop}'. Supported crops: ${Object.keys(CROP_WATER_PROFILES).join(", ")}` };
+        }
+
+        const assumptions: string[] = [];
+        const soilText = soil_type?.toLowerCase() ?? "";
+        const soilKey = Object.keys(SOIL_WATER_PROFILES)
+            .sort((a, b) => b.length - a.length)
+            .find(key => soilText.includes(key));
+        if (!soilKey) {
+            const water = SOIL_WATER_PROFILES[DEFAULT_SOIL_WATER_PROFILE].available_water_mm_per_m;
+            assumptions.push(soil_type ? t("irrigation.soil_unknown", { soil: soil_type, water }) : t("irrigation.soil_not_given", { water }));
+        }
+        const soil = SOIL_WATER_PROFILES[soilKey ?? DEFAULT_SOIL_WATER_PROFILE];
+
+        let weather;
+        try {
+            weather = await weatherProvider.getForecast(location, days);
+        } catch (err) {
+            return { error: err instanceof Error ? err.message : String(err) };
+        }
+
+        const siteLatitude = weather.location.latitude ?? latitude;
+        if (siteLatitude === undefined) {
+            assumptions.push(t("irrigation.default_latitude", { latitude: DEFAULT_LATITUDE }));
+        }
+        if (weather.location.elevation === undefined) {
+            assumptions.push(t("irrigation.default_elevation", { elevation: DEFAULT_ELEVATION_M }));
+        }
+        if (days_after_sowing === undefined) {
+            assumptions.push(t("irrigation.no_sowing_date", { stage: t(`water_stage.${stage ?? "mid"}` as const) }));
+        }
+
+        const { days: balance, et0Methods } = waterBalance(weather.days, {
+            profile,
+            soil,
+            site: { latitude: siteLatitude ?? DEFAULT_LATITUDE, elevation: weather.location.elevation ?? DEFAULT_ELEVATION_M },
+            et0Method: et0_method,
+            daysAfterSowing: days_after_sowing,
+            stage,
+            initialDepletion: initial_depletion_percent / 100,
+            applicationEfficiency: APPLICATION_EFFICIENCY[irrigation_method]
+        });
+
+        const sum = (values: number[]) => Math.round(values.reduce((total, v) => total + v, 0) * 10) / 10;
+        const totalEtc = sum(balance.map(d => d.etc));
+        const totalEffectiveRain = sum(balance.map(d => d.effective_rainfall));
+        const totalNet = sum(balance.map(d => d.net_irrigation_mm));
+        const totalGross = sum(balance.map(d => d.gross_irrigation_mm));
+        const irrigationDays = balance.filter(d => d.irrigate);
+        const last = balance[balance.length - 1];
+
+        const recommendations: string[] = [];
+        if (irrigationDays.length > 0) {
+            recommendations.push(t("irrigation.irrigate", {
+                dates: irrigationDays.map(d => d.date).join(", "),
+                gross: irrigationDays[0].gross_irrigation_mm,
+                net: irrigationDays[0].net_irrigation_mm,
+                method: t(`irrigation_method.${irrigation_method}` as const)
+            }));
+        } else {
+            recommendations.push(t("irrigation.not_needed", { days: balance.length, water: last.readily_available_water }));
+        }
+        if (cropKey === "rice") {
+            recommendations.push(t("irrigation.puddled_rice"));
+        }
+        if (totalEffectiveRain > 0) {
+            recommendations.push(t("irrigation.forecast_rain", { rain: totalEffectiveRain }));
+        }
+
+        return {
+            success: true,
+            data: {
+                location,
+                ...(weather.location.latitude !== undefined ? {
+                    coordinates: { latitude: weather.location.latitude, longitude: weather.location.longitude },
+                    resolved_location: [weather.location.name, weather.location.region].filter(Boolean).join(", ")
+                } : {}),
+                crop: cropKey,
+                soil: { type: soilKey ?? DEFAULT_SOIL_WATER_PROFILE, ...soil },
+                irrigation_method,
+                application_efficiency: APPLICATION_EFFICIENCY[irrigation_method],
+                et0_methods: et0Methods,
+                water_balance: balance,
+                summary: {
+                    days: balance.length,
+                    total_etc_mm: totalEtc,
+                    average_etc_mm_per_day: Math.round((totalEtc / balance.length) * 100) / 100,
+                    effective_rainfall_mm: totalEffectiveRain,
+                    net_irrigation_mm: totalNet,
+                    gross_irrigation_mm: totalGross,
+                    // Average daily depth to apply to keep pace with crop water use
+                    recommended_net_mm_per_day: Math.round((Math.max(0, totalEtc - totalEffectiveRain) / balance.length) * 10) / 10,
+                    recommended_gross_mm_per_day: Math.round((Math.max(0, totalEtc - totalEffectiveRain) / balance.length / APPLICATION_EFFICIENCY[irrigation_method]) * 10) / 10,
+                    irrigation_events: irrigationDays.length,
+                    next_irrigation_date: irrigationDays[0]?.date ?? null,
+                    ending_depletion_mm: last.depletion_end
                 },
-                {
-                    name: "Whitefly",
-                    symptoms: ["yellowing leaves", "sooty mold", "leaf curl"],
-                    treatment: ["Yellow sticky traps", "Spray acetamiprid", "Reflective mulch"],
-                    severity: "medium",
-                    season: "kharif"
-                }
-            ]
+                recommendations,
+                assumptions,
+                language,
+                timestamp: new Date().toISOString(),
+                provider: weatherProvider.name,
+                source: `FAO-56 water balance; weather from ${weatherProvider.source}`
+            }
         };
+    } catch (err) {
+        return { error: `Irrigation planning error: ${String(err)}` };
+    }
+};
 
-        const cropPests = pestDatabase[crop?.toLowerCase()] || [];
-        
-        // Match symptoms to identify pest
-        let identifiedPest = null;
-        let confidence = 0;
-
-        if (symptoms) {
-            const symptomsList = symptoms.toLowerCase().split(',').map((s: string) => s.trim());
-            
-            for (const pest of cropPests) {
-                let matches = 0;
-                for (const symptom of symptomsList) {
-                    if (pest.symptoms.some((ps: string) => ps.includes(symptom) || symptom.includes(ps))) {
-                        matches++;
-                    }
-                }
-                
-                const pestConfidence = (matches / Math.max(symptomsList.length, pest.symptoms.length)) * 100;
-                if (pestConfidence > confidence) {
-                    confidence = pestConfidence;
-                    identifiedPest = pest;
-                }
+// Sowing dates further back than this are treated as a typo rather than a standing crop
+const MAX_CROP_AGE_DAYS = 365;
+
+/**
+ * Crop Stage Tool Handler - growing degree days since sowing, current stage, harvest window and stage advisories
+ */
+const cropStageHandler = async (params: CropStageParams) => {
+    try {
+        const { crop, sowing_date, location, variety_class, days, include_daily, language } = params;
+        const t = translator(language);
+        const reference = referenceText(language);
+
+        const cropKey = crop.trim().toLowerCase();
+        const phenology = CROP_PHENOLOGY[cropKey];
+        if (!phenology) {
+            return { error: `No growth stage model for '${crop}'. Supported crops: ${Object.keys(CROP_PHENOLOGY).join(", ")}` };
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        const age = Math.round((Date.parse(today) - Date.parse(sowing_date)) / DAY_MS);
+        if (age < 0) {
+            return { error: `Sowing date ${sowing_date} is in the future` };
+        }
+        if (age > MAX_CROP_AGE_DAYS) {
+            return { error: `Sowing date ${sowing_date} is more than ${MAX_CROP_AGE_DAYS} days ago` };
+        }
+
+        let weather;
+        try {
+            const end = new Date(Date.parse(today) + (days - 1) * DAY_MS).toISOString().slice(0, 10);
+            weather = await weatherProvider.getDailyRange(location, sowing_date, end);
+        } catch (err) {
+            return { error: err instanceof Error ? err.message : String(err) };
+        }
+
+        const estimate = estimateCropStage(weather.days, phenology, { sowingDate: sowing_date, today, gddFactor: VARIETY_GDD_FACTOR[variety_class] });
+        // Stage labels and advisories in the response language
+        const localStage = <S extends { label: string; advisories: string[] }>(entry: S): S =>
+            ({ ...entry, label: reference(entry.label), advisories: entry.advisories.map(reference) });
+        const current = localStage(estimate.current_stage);
+        const next = estimate.next_stage && localStage(estimate.next_stage);
+        const forecast = weather.days.filter(day => day.date >= today);
+
+        // Knowledge base entries for the current and next stage, with the forecast days whose weather favours each
+        const knowledge = findCropKnowledge(await loadPestKnowledge().catch(() => getPestKnowledge()), cropKey);
+        const pest_watch = (knowledge?.entries ?? [])
+            .filter(entry => entry.stages.includes(current.name) || (next && entry.stages.includes(next.name)))
+            .map(entry => ({
+                id: entry.id,
+                name: entry.name,
+                ...(language !== "en" ? { local_name: entry.names[language] ?? entry.name } : {}),
+                type: entry.type,
+                stage: entry.stages.includes(current.name) ? current.name : next!.name,
+                severity: entry.severity,
+                ...(entry.economic_threshold ? { economic_threshold: entry.economic_threshold } : {}),
+                treatments: entry.treatments,
+                favourable_weather_days: forecast.filter(day => weatherFavours(entry, day)).map(day => day.date)
+            }));
+
+        const forecastRain = forecast.reduce((sum, day) => sum + day.rainfall, 0);
+        const advisories = [...current.advisories];
+        if (current.irrigation_critical && forecastRain < 10) {
+            advisories.push(t("crop_stage.moisture_sensitive", { stage: current.label, rain: Math.round(forecastRain) }));
+        }
+        if (next?.expected_date && next.irrigation_critical) {
+            advisories.push(t("crop_stage.critical_next", { stage: next.label, date: next.expected_date }));
+        }
+
+        const assumptions: string[] = [];
+        if (estimate.missing_days > 0) {
+            assumptions.push(t("crop_stage.missing_days", { days: estimate.missing_days }));
+        }
+        assumptions.push(t("crop_stage.projection", { rate: estimate.projection_rate }));
+
+        const { daily, ...stage } = {
+            ...estimate,
+            current_stage: current,
+            next_stage: next,
+            timeline: estimate.timeline.map(entry => ({ ...entry, label: reference(entry.label) }))
+        };
+
+        return {
+            success: true,
+            data: {
+                crop: cropKey,
+                variety_class,
+                sowing_date,
+                location,
+                ...(weather.location.latitude !== undefined ? {
+                    coordinates: { latitude: weather.location.latitude, longitude: weather.location.longitude },
+                    resolved_location: [weather.location.name, weather.location.region].filter(Boolean).join(", ")
+                } : {}),
+                base_temperature: phenology.base_temp_c,
+                upper_temperature: phenology.upper_temp_c,
+                ...stage,
+                advisories,
+                irrigation: {
+                    water_stage: current.water_stage,
+                    critical_now: current.irrigation_critical,
+                    // Arguments for irrigation-planner matching this crop's age
+                    planner_arguments: { location, crop: cropKey, days_after_sowing: estimate.days_after_sowing }
+                },
+                pest_watch,
+                ...(knowledge ? { pest_knowledge_version: knowledge.version } : {}),
+                ...(include_daily ? { daily } : {}),
+                assumptions,
+                language,
+                timestamp: new Date().toISOString(),
+                provider: weatherProvider.name,
+                source: `Growing degree day model; weather from ${weatherProvider.source}`
             }
+        };
+    } catch (err) {
+        return { error: `Crop stage error: ${String(err)}` };
+    }
+};
+
+// Days of recent weather compared with each candidate's favourable conditions
+const DIAGNOSIS_WEATHER_DAYS = 7;
+
+/**
+ * Pest Identifier Tool Handler
+ */
+const pestIdentifierHandler = async (params: PestIdentifierParams) => {
+    try {
+        const { crop, symptoms, image_description, location, language } = params;
+        const t = translator(language);
+        // Knowledge base name in the response language, where the entry has one
+        const localName = (entry: PestEntry) => entry.names[language] ?? entry.name;
+
+        const knowledgeBase = await loadPestKnowledge();
+        const knowledge = findCropKnowledge(knowledgeBase, crop);
+        if (!knowledge) {
+            return { error: `No pest knowledge for '${crop}'. Supported crops: ${Array.from(knowledgeBase.crops.keys()).join(", ")}` };
         }
 
-        // If no specific match, provide general recommendations
-        if (!identifiedPest && cropPests.length > 0) {
-            identifiedPest = cropPests[0]; // Default to first common pest
-            confidence = 30; // Low confidence
+        const today = new Date().toISOString().slice(0, 10);
+        const season = params.season ?? seasonOn(today);
+        const notes: string[] = [];
+        if (!params.season) notes.push(t("pest.season_assumed", { season: t(`season.${season}`) }));
+
+        let weather;
+        if (location) {
+            try {
+                const start = new Date(Date.parse(today) - (DIAGNOSIS_WEATHER_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+                weather = await weatherProvider.getDailyRange(location, start, today);
+            } catch (err) {
+                notes.push(t("pest.weather_unavailable", { location, reason: err instanceof Error ? err.message : String(err) }));
+            }
+        } else {
+            notes.push(t("pest.no_location"));
         }
 
+        const diagnosis = diagnose(knowledge, knowledgeBase.synonyms, {
+            symptoms,
+            ...(image_description ? { image_description } : {}),
+            season,
+            ...(weather ? { weather: weather.days } : {})
+        });
+
+        const top = diagnosis.status === "identified" ? diagnosis.candidates[0] : null;
+        const candidates = diagnosis.candidates.map(({ entry, probability, scores, evidence }) => ({
+            id: entry.id,
+            name: entry.name,
+            ...(language !== "en" ? { local_name: localName(entry) } : {}),
+            type: entry.type,
+            severity: entry.severity,
+            probability,
+            scores,
+            evidence
+        }));
+
         const result = {
-            crop: crop || "Unknown",
+            crop: knowledge.crop,
             location,
-            identification: identifiedPest ? {
-                pest_name: identifiedPest.name,
-                confidence_score: Math.round(confidence),
-                severity: identifiedPest.severity,
-                season: identifiedPest.season
+            season,
+            status: diagnosis.status,
+            identification: top ? {
+                id: top.entry.id,
+                pest_name: top.entry.name,
+                ...(language !== "en" ? { local_name: localName(top.entry) } : {}),
+                type: top.entry.type,
+                ...(top.entry.scientific_name ? { scientific_name: top.entry.scientific_name } : {}),
+                probability: top.probability,
+                confidence: top.probability >= 0.8 ? "high" : "medium",
+                severity: top.entry.severity,
+                stages: top.entry.stages,
+                favourable_weather: top.entry.favourable_weather,
+                ...(top.entry.economic_threshold ? { economic_threshold: top.entry.economic_threshold } : {})
             } : null,
-            treatment_recommendations: identifiedPest ? identifiedPest.treatment : [
-                "Consult local agricultural extension officer",
-                "Take clear photos of affected plants",
-                "Monitor pest population regularly"
-            ],
-            prevention_measures: [
-                "Regular field monitoring",
-                "Crop rotation practices",
-                "Maintain field hygiene",
-                "Use resistant varieties when available",
-                "Integrated Pest Management (IPM)"
-            ],
-            alternative_pests: cropPests.filter((p: PestData) => p !== identifiedPest).slice(0, 2).map((p: PestData) => ({
-                name: p.name,
-                symptoms: p.symptoms,
-                severity: p.severity
-            }))
+            treatments: top ? top.entry.treatments : null,
+            candidates,
+            unexplained_probability: diagnosis.unexplained_probability,
+            ...(top ? {} : {
+                // Symptoms that would separate the leading possibilities
+                check_for: diagnosis.candidates.slice(0, 3).map(c => ({
+                    candidate: localName(c.entry),
+                    symptoms: c.entry.symptoms
+                        .filter(symptom => !c.evidence.matched_symptoms.some(m => m.matched === symptom))
+                        .slice(0, 3)
+                })),
+                next_steps: [t("pest.no_match"), t("pest.check_symptoms"), t("pest.take_photos"), t("pest.consult")]
+            }),
+            prevention_measures: [t("pest.monitoring"), t("pest.rotation"), t("pest.hygiene"), t("pest.resistant_varieties"), t("pest.ipm")],
+            observation: {
+                normalized_symptoms: diagnosis.normalized_symptoms,
+                image_terms: diagnosis.image_terms,
+                weather_days: weather?.days.length ?? 0
+            }
         };
 
+        if (language !== "en") notes.push(t("pest.label_language"));
+
         return {
             success: true,
             data: {
                 analysis: result,
+                knowledge_base: { crop: knowledge.crop, version: knowledge.version, updated: knowledge.updated },
+                notes,
+                language,
                 timestamp: new Date().toISOString(),
-                source: "Agricultural Pest Database simulation",
-                note: "For accurate identification, consult with local agricultural experts"
+                ...(weather ? { weather_provider: weatherProvider.name } : {}),
+                source: "Pest and disease knowledge base (state agricultural university package of practices)",
+                note: t("pest.footnote")
             }
         };
     } catch (err) {
@@ -466,135 +1078,263 @@ const pestIdentifierHandler = async (params: any) => {
     }
 };
 
+interface PricePoint {
+    date: string;
+    price: number;
+    min_price?: number | null;
+    max_price?: number | null;
+    markets?: number;
+    market?: string;
+    volume?: number;
+    quality?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const medianOf = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
 /**
- * Mandi Price Tracker Tool Handler
+ * One point per arrival date: median modal price across the markets reporting that day
  */
-const mandiPriceHandler = async (params: any) => {
-    try {
-        const { commodity, state, district, days_back = 30, include_predictions = true } = params;
+const dailyPriceSeries = (observations: PriceObservation[]): PricePoint[] => {
+    const byDate = new Map<string, PriceObservation[]>();
+    for (const observation of observations) {
+        const group = byDate.get(observation.arrival_date);
+        if (group) group.push(observation);
+        else byDate.set(observation.arrival_date, [observation]);
+    }
 
-        // Simulate mandi price data with trends (in production, this would aggregate from multiple sources)
-        const currentDate = new Date();
-        const priceHistory = [];
-        const basePrice: BasePrice = {
-            "wheat": 2100,
-            "rice": 1800,
-            "cotton": 5500,
-            "maize": 1600,
-            "soybean": 4200,
-            "sugarcane": 350,
-            "onion": 2500,
-            "potato": 1200
-        };
+    return Array.from(byDate.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, day]) => {
+            const mins = day.map(o => o.min_price).filter((p): p is number => p !== null);
+            const maxes = day.map(o => o.max_price).filter((p): p is number => p !== null);
+            return {
+                date,
+                price: Math.round(medianOf(day.map(o => o.modal_price))),
+                min_price: mins.length > 0 ? Math.min(...mins) : null,
+                max_price: maxes.length > 0 ? Math.max(...maxes) : null,
+                markets: new Set(day.map(o => `${o.district_id}|${o.market_id}`)).size
+            };
+        });
+};
 
-        const commodityPrice = basePrice[commodity?.toLowerCase()] || 2000;
+/**
+ * Random walk around the reference base price, used only when no observations are stored
+ */
+const simulatePriceHistory = (commodity: string, district: string | undefined, daysBack: number, currentDate: Date): PricePoint[] => {
+    const priceHistory: PricePoint[] = [];
+    const commodityPrice = BASE_PRICES[commodityKey(commodity)] || DEFAULT_BASE_PRICE;
+
+    for (let i = daysBack; i >= 0; i--) {
+        const date = new Date(currentDate);
+        date.setDate(date.getDate() - i);
+
+        // Add realistic price variations
+        const variation = (Math.random() - 0.5) * 0.2; // ±10% variation
+        const seasonalFactor = Math.sin((date.getMonth() / 12) * 2 * Math.PI) * 0.1; // Seasonal variation
+        const trendFactor = (daysBack - i) / daysBack * 0.05; // Slight upward trend
+
+        const price = commodityPrice * (1 + variation + seasonalFactor + trendFactor);
+
+        priceHistory.push({
+            date: date.toISOString().split('T')[0],
+            price: Math.round(price),
+            market: `${district || 'Local'} Mandi`,
+            volume: Math.round(50 + Math.random() * 200), // Quintals
+            quality: ["FAQ", "Good", "Average"][Math.floor(Math.random() * 3)]
+        });
+    }
 
-        // Generate price history
-        for (let i = days_back; i >= 0; i--) {
-            const date = new Date(currentDate);
-            date.setDate(date.getDate() - i);
+    return priceHistory;
+};
 
-            // Add realistic price variations
-            const variation = (Math.random() - 0.5) * 0.2; // ±10% variation
-            const seasonalFactor = Math.sin((date.getMonth() / 12) * 2 * Math.PI) * 0.1; // Seasonal variation
-            const trendFactor = (days_back - i) / days_back * 0.05; // Slight upward trend
+/**
+ * Mandi Price Tracker Tool Handler
+ */
+const mandiPriceHandler = async (params: MandiPriceParams) => {
+    try {
+        const {
+            commodity, state, district, latitude, longitude, days_back, include_predictions, forecast_days, refresh,
+            quantity_quintals, transport_cost_per_quintal_km, max_distance_km, language
+        } = params;
+        const t = translator(language);
+        const currentDate = new Date();
 
-            const price = commodityPrice * (1 + variation + seasonalFactor + trendFactor);
+        const refreshed = refresh ? await refreshPriceHistory(commodity, state, district) : undefined;
 
-            priceHistory.push({
-                date: date.toISOString().split('T')[0],
-                price: Math.round(price),
-                market: `${district || 'Local'} Mandi`,
-                volume: Math.round(50 + Math.random() * 200), // Quintals
-                quality: ["FAQ", "Good", "Average"][Math.floor(Math.random() * 3)]
-            });
-        }
+        const since = new Date(currentDate.getTime() - days_back * DAY_MS).toISOString().slice(0, 10);
+        const observations = await queryHistory({ commodity, state, district, since });
+        const observed = observations.length > 0;
 
-        // Calculate trends
+        const priceHistory = observed
+            ? dailyPriceSeries(observations)
+            : simulatePriceHistory(commodity, district, days_back, currentDate);
+
+        // Calculate trends over the last 7 data points against the 7 before them
         const recentPrices = priceHistory.slice(-7).map(p => p.price);
         const olderPrices = priceHistory.slice(-14, -7).map(p => p.price);
-        
+
         const recentAvg = recentPrices.reduce((a, b) => a + b, 0) / recentPrices.length;
-        const olderAvg = olderPrices.reduce((a, b) => a + b, 0) / olderPrices.length;
-        
-        const trend = recentAvg > olderAvg ? "increasing" : recentAvg < olderAvg ? "decreasing" : "stable";
-        const trendPercentage = Math.abs(((recentAvg - olderAvg) / olderAvg) * 100);
+        const olderAvg = olderPrices.length > 0 ? olderPrices.reduce((a, b) => a + b, 0) / olderPrices.length : recentAvg;
 
-        // Price predictions (simple trend-based)
-        const predictions = [];
-        if (include_predictions) {
-            const lastPrice = priceHistory[priceHistory.length - 1].price;
-            const trendFactor = trend === "increasing" ? 1.02 : trend === "decreasing" ? 0.98 : 1.0;
+        const trend = olderPrices.length === 0 ? "insufficient_data"
+            : recentAvg > olderAvg ? "increasing" : recentAvg < olderAvg ? "decreasing" : "stable";
+        const trendPercentage = Math.abs(((recentAvg - olderAvg) / olderAvg) * 100);
 
-            for (let i = 1; i <= 7; i++) {
-                const futureDate = new Date(currentDate);
-                futureDate.setDate(futureDate.getDate() + i);
-                
-                const predictedPrice = lastPrice * Math.pow(trendFactor, i) * (1 + (Math.random() - 0.5) * 0.05);
-                
-                predictions.push({
-                    date: futureDate.toISOString().split('T')[0],
-                    predicted_price: Math.round(predictedPrice),
-                    confidence: Math.max(60 - i * 5, 30) // Decreasing confidence over time
-                });
-            }
-        }
+        // Exponential smoothing forecast; the model is picked per series and backtested on its recent days
+        const forecast = include_predictions ? forecastPrices(priceHistory, forecast_days) : null;
 
         // Market recommendations
         const currentPrice = priceHistory[priceHistory.length - 1].price;
         const avgPrice = priceHistory.map(p => p.price).reduce((a, b) => a + b, 0) / priceHistory.length;
-        
+
         const recommendations = [];
         if (currentPrice > avgPrice * 1.1) {
             recommendations.push({
                 action: "sell",
-                reason: `Current price (₹${currentPrice}) is ${Math.round(((currentPrice - avgPrice) / avgPrice) * 100)}% above average`,
+                reason: t("mandi.sell", { price: currentPrice, percent: Math.round(((currentPrice - avgPrice) / avgPrice) * 100) }),
                 urgency: "high"
             });
         } else if (currentPrice < avgPrice * 0.9) {
             recommendations.push({
                 action: "hold",
-                reason: `Current price (₹${currentPrice}) is below average. Wait for better rates`,
+                reason: t("mandi.hold", { price: currentPrice }),
                 urgency: "medium"
             });
         } else {
             recommendations.push({
                 action: "monitor",
-                reason: "Price is near average. Monitor for trend changes",
+                reason: t("mandi.monitor"),
                 urgency: "low"
             });
         }
+        if (!observed) {
+            recommendations.push({
+                action: "verify",
+                reason: t("mandi.verify"),
+                urgency: "high"
+            });
+        }
+
+        // Best markets: latest observed modal price per market (or the simulated price at gazetteer mandis),
+        // ranked by net realisation after transport from the farmer's location
+        const origin = locateOrigin({ latitude, longitude, district, state });
+        const ranking = {
+            origin,
+            quantityQuintals: quantity_quintals,
+            transportCostPerQuintalKm: transport_cost_per_quintal_km,
+            maxDistanceKm: max_distance_km,
+            limit: 5
+        };
+        let bestMarkets;
+        let marketSummary;
+        if (observed) {
+            const latestByMarket = new Map<string, PriceObservation>();
+            for (const observation of observations) {
+                latestByMarket.set(`${observation.state_id}|${observation.district_id}|${observation.market_id}`, observation);
+            }
+
+            // With a known origin, markets in neighbouring districts and states are candidates too
+            const candidates = new Map(latestByMarket);
+            if (origin) {
+                for (const observation of await queryHistory({ commodity, since })) {
+                    candidates.set(`${observation.state_id}|${observation.district_id}|${observation.market_id}`, observation);
+                }
+            }
+            bestMarkets = rankMarkets(
+                Array.from(candidates.values()).map(o => ({ name: o.market, district: o.district, state: o.state, price: o.modal_price, date: o.arrival_date })),
+                ranking
+            );
+
+            const modalPrices = observations.map(o => o.modal_price);
+            marketSummary = {
+                highest_price: Math.max(...modalPrices),
+                lowest_price: Math.min(...modalPrices),
+                average_price: Math.round(modalPrices.reduce((a, b) => a + b, 0) / modalPrices.length),
+                observations: observations.length,
+                markets: latestByMarket.size
+            };
+        } else {
+            const quotes = gazetteerMarkets(currentPrice, origin, max_distance_km, state);
+            bestMarkets = rankMarkets(
+                quotes.length > 0 ? quotes : [{ name: `${district || 'Local'} Mandi`, district, state, price: currentPrice }],
+                ranking
+            );
+
+            marketSummary = {
+                highest_price: Math.max(...priceHistory.map(p => p.price)),
+                lowest_price: Math.min(...priceHistory.map(p => p.price)),
+                average_price: Math.round(avgPrice),
+                total_volume: priceHistory.reduce((sum, p) => sum + (p.volume ?? 0), 0)
+            };
+        }
 
-        // Best markets (simulate multiple mandis)
-        const nearbyMarkets = [
-            { name: `${district || 'Local'} Mandi`, price: currentPrice, distance: 0 },
-            { name: `${state || 'State'} Central Market`, price: Math.round(currentPrice * 1.05), distance: 25 },
-            { name: "Regional Hub Market", price: Math.round(currentPrice * 1.08), distance: 45 }
-        ].sort((a, b) => b.price - a.price);
+        // Simulated quotes share one price, so the ranking is by distance alone and names no market to sell in
+        const bestMarket = bestMarkets[0];
+        if (observed && origin && bestMarket?.distance_km != null) {
+            recommendations.push({
+                action: "market",
+                reason: t("mandi.best_market", {
+                    market: bestMarket.name,
+                    distance: bestMarket.distance_km,
+                    net: bestMarket.net_realisation,
+                    quantity: quantity_quintals,
+                    transport: bestMarket.transport_cost_per_quintal ?? 0
+                }),
+                urgency: "low"
+            });
+        }
 
         return {
             success: true,
             data: {
-                commodity: commodity || "Unknown",
+                commodity: observed ? observations[0].commodity : commodity,
                 location: { state, district },
+                data_source: observed ? "observed" : "simulated",
                 current_price: currentPrice,
                 price_history: priceHistory.slice(-14), // Last 2 weeks
                 trend_analysis: {
                     direction: trend,
                     percentage_change: Math.round(trendPercentage * 100) / 100,
-                    period: "7 days"
+                    period: observed ? "last 7 vs previous 7 observed days" : "7 days"
                 },
-                predictions: predictions,
+                predictions: forecast?.points ?? [],
+                ...(include_predictions ? {
+                    forecast: forecast
+                        ? (({ points, ...summary }) => summary)(forecast)
+                        : { model: null, reason: t("mandi.no_forecast") }
+                } : {}),
                 recommendations: recommendations,
-                best_markets: nearbyMarkets,
-                market_summary: {
-                    highest_price: Math.max(...priceHistory.map(p => p.price)),
-                    lowest_price: Math.min(...priceHistory.map(p => p.price)),
-                    average_price: Math.round(avgPrice),
-                    total_volume: priceHistory.reduce((sum, p) => sum + p.volume, 0)
+                best_markets: bestMarkets,
+                market_ranking: {
+                    origin: origin ?? null,
+                    quantity_quintals,
+                    transport_cost_per_quintal_km,
+                    max_distance_km,
+                    distance: `Estimated road distance: ${ROAD_FACTOR} x the straight-line distance between coordinates`,
+                    basis: observed ? "net_realisation" : "distance_only",
+                    ...(observed ? {} : { basis_note: t("mandi.distance_only") }),
+                    ...(origin ? {} : { note: t("mandi.no_origin") })
                 },
+                market_summary: marketSummary,
+                ...(observed ? {
+                    history: {
+                        first_date: priceHistory[0].date,
+                        last_date: priceHistory[priceHistory.length - 1].date,
+                        days_with_data: priceHistory.length
+                    }
+                } : {}),
+                ...(refreshed ? { refresh: refreshed } : {}),
+                language,
                 timestamp: new Date().toISOString(),
-                source: "Multi-Mandi Price Aggregation simulation"
+                source: observed
+                    ? "data.gov.in observations from the local price history"
+                    : "Simulated (no stored price observations for this commodity and location)"
             }
         };
     } catch (err) {
@@ -602,10 +1342,144 @@ const mandiPriceHandler = async (params: any) => {
     }
 };
 
+/**
+ * Price Anomalies Tool Handler
+ */
+const priceAnomaliesHandler = async (params: PriceAnomaliesParams) => {
+    try {
+        const { commodity, state, district, days_back, baseline_days, z_threshold, refresh, language } = params;
+
+        const refreshed = refresh ? await refreshPriceHistory(commodity, state, district) : undefined;
+
+        const now = Date.now();
+        const from = new Date(now - days_back * DAY_MS).toISOString().slice(0, 10);
+        const since = new Date(now - (days_back + baseline_days) * DAY_MS).toISOString().slice(0, 10);
+        const observations = await queryHistory({ commodity, state, district, since });
+
+        if (observations.length === 0) {
+            return {
+                error: `No stored price observations for ${commodity}${district ? ` in ${district}` : ""}${state ? `, ${state}` : ""} ` +
+                    `since ${since}. Fetch prices with crop-price or call again with refresh: true.` +
+                    (refreshed?.error ? ` Refresh failed: ${refreshed.error}` : "")
+            };
+        }
+
+        const anomalies = detectPriceAnomalies(observations, { from, baselineDays: baseline_days, zThreshold: z_threshold }, translator(language));
+        const scanned = observations.filter(o => o.arrival_date >= from);
+
+        return {
+            success: true,
+            data: {
+                commodity: observations[0].commodity,
+                location: { state, district },
+                window: { from, to: new Date(now).toISOString().slice(0, 10), baseline_days },
+                method: {
+                    statistic: "robust z-score = (price - median) / (1.4826 x MAD)",
+                    z_threshold,
+                    own_baseline: `Each market against its own modal prices over the previous ${baseline_days} days (needs 5+ days)`,
+                    peer_markets: "Each market against other mandis reporting the same day, in its district when 4+ report, otherwise its state"
+                },
+                scanned: {
+                    observations: scanned.length,
+                    markets: new Set(scanned.map(o => `${o.state_id}|${o.district_id}|${o.market_id}`)).size
+                },
+                summary: {
+                    anomalies: anomalies.length,
+                    high_severity: anomalies.filter(a => a.severity === "high").length,
+                    possible_data_entry_errors: anomalies.filter(a => a.likely_cause === "possible_data_entry_error").length,
+                    possible_distress_sales: anomalies.filter(a => a.likely_cause === "possible_distress_sale").length
+                },
+                anomalies,
+                language,
+                ...(refreshed ? { refresh: refreshed } : {}),
+                timestamp: new Date().toISOString(),
+                source: "data.gov.in observations from the local price history"
+            }
+        };
+    } catch (err) {
+        return { error: `Price anomaly detection error: ${String(err)}` };
+    }
+};
+
+/**
+ * Price Alert Tool Handlers
+ */
+const priceAlertCreateHandler = async (params: PriceAlertCreateParams) => {
+    try {
+        const subscription = await createSubscription(params);
+        return {
+            success: true,
+            data: {
+                subscription,
+                signature: "Each webhook POST carries X-Agri-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of \"<t>.<raw body>\" keyed with secret>. " +
+                    "The secret is only shown now; store it to verify deliveries."
+            }
+        };
+    } catch (err) {
+        return { error: `Price alert error: ${String(err)}` };
+    }
+};
+
+const priceAlertListHandler = async (params: PriceAlertListParams) => {
+    try {
+        const subscriptions = (await listSubscriptions())
+            .filter(s => !params.subscription_id || s.id === params.subscription_id);
+
+        if (params.subscription_id && subscriptions.length === 0) {
+            return { error: `Alert subscription '${params.subscription_id}' not found` };
+        }
+
+        return {
+            success: true,
+            data: {
+                subscriptions,
+                ...(params.include_deliveries ? { deliveries: await listDeliveries(params.subscription_id) } : {})
+            }
+        };
+    } catch (err) {
+        return { error: `Price alert error: ${String(err)}` };
+    }
+};
+
+const priceAlertDeleteHandler = async (params: PriceAlertDeleteParams) => {
+    try {
+        if (!(await deleteSubscription(params.id))) {
+            return { error: `Alert subscription '${params.id}' not found` };
+        }
+        return { success: true, data: { id: params.id, deleted: true } };
+    } catch (err) {
+        return { error: `Price alert error: ${String(err)}` };
+    }
+};
+
+/**
+ * Refresh the history for every subscribed commodity/location (when data.gov.in is configured), then evaluate alerts
+ */
+const runAlertEvaluation = async () => {
+    if (process.env.DATAGOVIN_API_KEY) {
+        for (const target of await subscriptionTargets()) {
+            const result = await refreshPriceHistory(target.commodity, target.state, target.district);
+            if (result.error) {
+                console.error(`Price history refresh for ${target.commodity} alerts failed: ${result.error}`);
+            }
+        }
+    }
+    return evaluateAlerts();
+};
+
+const schedulePriceAlertEvaluation = () => {
+    const intervalMs = Number(process.env.ALERT_EVALUATION_INTERVAL_MS ?? 15 * 60 * 1000);
+    if (intervalMs <= 0) return;
+
+    setInterval(() => {
+        runAlertEvaluation().catch(err => console.error(`Price alert evaluation failed: ${String(err)}`));
+    }, intervalMs).unref();
+};
+
 /**
  * EXA Search Tool Handler
  */
-const searchHandler = async (params: any) => {
+const searchHandler = async (params: SearchParams) => {
     try {
         const API_KEY = process.env.EXA_API_KEY;
 
@@ -615,7 +1489,7 @@ const searchHandler = async (params: any) => {
             };
         }
 
-        const { query, num_results = 5, include_domains, exclude_domains, start_crawl_date, end_crawl_date } = params;
+        const { query, num_results, include_domains, exclude_domains, start_crawl_date, end_crawl_date } = params;
 
         // Build EXA API request
         const requestBody: any = {
@@ -632,7 +1506,7 @@ const searchHandler = async (params: any) => {
         if (start_crawl_date) requestBody.start_crawl_date = start_crawl_date;
         if (end_crawl_date) requestBody.end_crawl_date = end_crawl_date;
 
-        const res = await fetch("https://api.exa.ai/search", {
+        const res = await upstreamFetch("exa", "https://api.exa.ai/search", {
             method: "POST",
             headers: {
                 "Content-Type": "application/json",
@@ -641,7 +1515,7 @@ const searchHandler = async (params: any) => {
             body: JSON.stringify(requestBody)
         });
 
-        const text = await res.text();
+        const text = res.text;
 
         if (!res.ok) {
             return {
@@ -676,203 +1550,150 @@ const searchHandler = async (params: any) => {
     } catch (err) {
         return { error: `Server error: ${String(err)}` };
     }
-};
+};
+
+// Store tool handlers
+const toolHandlers = new Map<string, RegisteredTool>();
+
+/**
+ * Register a tool; its zod schema drives both the advertised inputSchema and argument validation
+ */
+const registerTool = <S extends ToolSchema>(
+    definition: { name: string; description: string; schema: S },
+    handler: (params: z.output<S>) => Promise<ToolResult>
+) => {
+    toolHandlers.set(definition.name, {
+        ...definition,
+        handler: (params: unknown) => handler(params as z.output<S>)
+    });
+};
+
+registerTool({
+    name: "crop-price",
+    description: "Fetch crop price data from data.gov.in with state/district/commodity filters",
+    schema: cropPriceSchema
+}, cropPriceHandler);
+
+registerTool({
+    name: "search",
+    description: "Search the web for agricultural information using EXA API",
+    schema: searchSchema
+}, searchHandler);
+
+registerTool({
+    name: "soil-health",
+    description: "Analyze soil health parameters and provide crop recommendations based on NPK, pH, and organic content",
+    schema: soilHealthSchema
+}, soilHealthHandler);
+
+registerTool({
+    name: "fertilizer-plan",
+    description: "Compute soil test-based fertilizer doses (urea, DAP, SSP, MOP) for a crop and target yield, with split timing and cost per acre/hectare",
+    schema: fertilizerPlanSchema
+}, fertilizerPlanHandler);
+
+registerTool({
+    name: "weather",
+    description: "Get farming-specific weather forecast with irrigation and pest risk alerts",
+    schema: weatherSchema
+}, weatherHandler);
+
+registerTool({
+    name: "irrigation-planner",
+    description: "Plan irrigation from FAO-56 crop evapotranspiration, effective rainfall and a soil water balance over the weather forecast",
+    schema: irrigationPlannerSchema
+}, irrigationPlannerHandler);
+
+registerTool({
+    name: "crop-stage",
+    description: "Track a crop's growing degree days since sowing to estimate its growth stage, harvest window and stage-specific irrigation and pest advisories",
+    schema: cropStageSchema
+}, cropStageHandler);
+
+registerTool({
+    name: "pest-identifier",
+    description: "Identify crop pests and diseases based on symptoms and provide treatment recommendations",
+    schema: pestIdentifierSchema
+}, pestIdentifierHandler);
+
+registerTool({
+    name: "mandi-price",
+    description: "Track mandi prices with trends, predictions, and the best markets ranked by net realisation after transport from the farmer's district or coordinates",
+    schema: mandiPriceSchema
+}, mandiPriceHandler);
+
+registerTool({
+    name: "price-anomalies",
+    description: "Flag mandis whose prices deviate sharply from their own baseline or from neighbouring mandis, with robust z-score explanations",
+    schema: priceAnomaliesSchema
+}, priceAnomaliesHandler);
+
+registerTool({
+    name: "price-alert-create",
+    description: "Subscribe a webhook to a price threshold or percentage-move alert for a commodity and location",
+    schema: priceAlertCreateSchema
+}, priceAlertCreateHandler);
+
+registerTool({
+    name: "price-alert-list",
+    description: "List price alert subscriptions and, optionally, their recent webhook deliveries",
+    schema: priceAlertListSchema
+}, priceAlertListHandler);
+
+registerTool({
+    name: "price-alert-delete",
+    description: "Delete a price alert subscription",
+    schema: priceAlertDeleteSchema
+}, priceAlertDeleteHandler);
+
+// MCP Tool Definitions (derived from the registered schemas)
+const mcpTools: MCPTool[] = Array.from(toolHandlers.values()).map(({ name, description, schema }) => ({
+    name,
+    description,
+    inputSchema: toInputSchema(schema)
+}));
+
+/**
+ * Validate arguments against the tool's schema and run its handler, recording metrics per transport
+ */
+const executeTool = async (name: string, args: unknown, transport: Transport): Promise<ToolExecution> => {
+    const startedAt = process.hrtime.bigint();
+    const elapsedSeconds = () => Number(process.hrtime.bigint() - startedAt) / 1e9;
+
+    const tool = toolHandlers.get(name);
+    if (!tool) {
+        recordToolCall(name, transport, "not_found", elapsedSeconds());
+        return { status: "not_found" };
+    }
 
-// Store tool handlers
-const toolHandlers = new Map();
-toolHandlers.set('crop-price', cropPriceHandler);
-toolHandlers.set('search', searchHandler);
-toolHandlers.set('soil-health', soilHealthHandler);
-toolHandlers.set('weather', weatherHandler);
-toolHandlers.set('pest-identifier', pestIdentifierHandler);
-toolHandlers.set('mandi-price', mandiPriceHandler);
-
-// MCP Tool Definitions
-const mcpTools: MCPTool[] = [
-    {
-        name: "crop-price",
-        description: "Fetch crop price data from data.gov.in with state/district/commodity filters",
-        inputSchema: {
-            type: "object",
-            properties: {
-                state: {
-                    type: "string",
-                    description: "State filter (e.g., Punjab, Maharashtra)"
-                },
-                district: {
-                    type: "string", 
-                    description: "District filter (e.g., Ludhiana, Mumbai)"
-                },
-                commodity: {
-                    type: "string",
-                    description: "Commodity filter (e.g., Wheat, Rice, Cotton)"
-                },
-                limit: {
-                    type: "number",
-                    description: "Max records to return (default: 50)",
-                    default: 50
-                },
-                offset: {
-                    type: "number", 
-                    description: "Records to skip (default: 0)",
-                    default: 0
-                }
-            }
-        }
-    },
-    {
-        name: "search",
-        description: "Search the web for agricultural information using EXA API",
-        inputSchema: {
-            type: "object",
-            properties: {
-                query: {
-                    type: "string",
-                    description: "Search query for agricultural information"
-                },
-                num_results: {
-                    type: "number",
-                    description: "Number of results to return (default: 5)",
-                    default: 5
-                },
-                include_domains: {
-                    type: "array",
-                    items: { type: "string" },
-                    description: "Domains to include in search"
-                },
-                exclude_domains: {
-                    type: "array", 
-                    items: { type: "string" },
-                    description: "Domains to exclude from search"
-                }
-            },
-            required: ["query"]
-        }
-    },
-    {
-        name: "soil-health",
-        description: "Analyze soil health parameters and provide crop recommendations based on NPK, pH, and organic content",
-        inputSchema: {
-            type: "object",
-            properties: {
-                state: {
-                    type: "string",
-                    description: "State where soil sample is from"
-                },
-                district: {
-                    type: "string",
-                    description: "District where soil sample is from"
-                },
-                soil_type: {
-                    type: "string",
-                    description: "Type of soil (e.g., Alluvial, Black Cotton, Red, Laterite)"
-                },
-                npk_values: {
-                    type: "object",
-                    properties: {
-                        nitrogen: { type: "number", description: "Nitrogen content (kg/ha)" },
-                        phosphorus: { type: "number", description: "Phosphorus content (kg/ha)" },
-                        potassium: { type: "number", description: "Potassium content (kg/ha)" }
-                    },
-                    description: "NPK values from soil test"
-                },
-                ph_level: {
-                    type: "number",
-                    description: "Soil pH level (0-14 scale)"
-                },
-                organic_content: {
-                    type: "number",
-                    description: "Organic carbon content percentage"
-                }
-            }
-        }
-    },
-    {
-        name: "weather",
-        description: "Get farming-specific weather forecast with irrigation and pest risk alerts",
-        inputSchema: {
-            type: "object",
-            properties: {
-                location: {
-                    type: "string",
-                    description: "Location for weather forecast (city, district, or coordinates)"
-                },
-                days: {
-                    type: "number",
-                    description: "Number of days to forecast (default: 7, max: 14)",
-                    default: 7
-                },
-                include_farming_alerts: {
-                    type: "boolean",
-                    description: "Include farming-specific alerts and recommendations",
-                    default: true
-                }
-            },
-            required: ["location"]
-        }
-    },
-    {
-        name: "pest-identifier",
-        description: "Identify crop pests and diseases based on symptoms and provide treatment recommendations",
-        inputSchema: {
-            type: "object",
-            properties: {
-                crop: {
-                    type: "string",
-                    description: "Type of crop affected (e.g., rice, wheat, cotton, maize)"
-                },
-                symptoms: {
-                    type: "string",
-                    description: "Comma-separated list of observed symptoms (e.g., 'yellowing leaves, holes in stem, stunted growth')"
-                },
-                image_description: {
-                    type: "string",
-                    description: "Description of what is visible in pest/disease images"
-                },
-                location: {
-                    type: "string",
-                    description: "Location where pest/disease is observed"
-                }
-            },
-            required: ["crop", "symptoms"]
-        }
-    },
-    {
-        name: "mandi-price",
-        description: "Track mandi prices with trends, predictions, and market recommendations",
-        inputSchema: {
-            type: "object",
-            properties: {
-                commodity: {
-                    type: "string",
-                    description: "Commodity to track (e.g., wheat, rice, cotton, maize, soybean)"
-                },
-                state: {
-                    type: "string",
-                    description: "State for price tracking"
-                },
-                district: {
-                    type: "string",
-                    description: "District for local mandi prices"
-                },
-                days_back: {
-                    type: "number",
-                    description: "Number of days of historical data (default: 30)",
-                    default: 30
-                },
-                include_predictions: {
-                    type: "boolean",
-                    description: "Include 7-day price predictions",
-                    default: true
-                }
-            },
-            required: ["commodity"]
+    const validation = validateArguments(tool.schema, args);
+    if (!validation.success) {
+        recordToolCall(name, transport, "invalid_params", elapsedSeconds());
+        return { status: "invalid_params", issues: validation.issues };
+    }
+
+    // Free-text place and commodity names are checked once here, so every handler sees canonical names
+    const gazetteer = resolveGazetteerArguments(validation.data);
+    if (!gazetteer.success) {
+        recordToolCall(name, transport, "invalid_params", elapsedSeconds());
+        return { status: "invalid_params", issues: gazetteer.issues };
+    }
+
+    try {
+        const result = await tool.handler(gazetteer.params);
+        if (gazetteer.resolved.length > 0 && result.data && typeof result.data === "object" && !Array.isArray(result.data)) {
+            result.data = { ...result.data, resolved_input: gazetteer.resolved };
         }
+        recordToolCall(name, transport, result.error ? "error" : "success", elapsedSeconds());
+        return { status: "completed", result };
+    } catch (err) {
+        recordToolCall(name, transport, "error", elapsedSeconds());
+        throw err;
     }
-];
+};
 
 // MCP Protocol Handlers
-const handleMCPRequest = async (request: MCPRequest): Promise<MCPResponse> => {
+const handleMCPRequest = async (request: MCPRequest, transport: Transport = "mcp"): Promise<MCPResponse> => {
     try {
         switch (request.method) {
             case "initialize":
@@ -880,9 +1701,11 @@ const handleMCPRequest = async (request: MCPRequest): Promise<MCPResponse> => {
                     jsonrpc: "2.0",
                     id: request.id,
                     result: {
-                        protocolVersion: "2024-11-05",
+                        protocolVersion: negotiateProtocolVersion(request.params?.protocolVersion),
                         capabilities: {
-                            tools: {}
+                            tools: {},
+                            resources: { listChanged: true },
+                            prompts: {}
                         },
                         serverInfo: {
                             name: "agricultural-ai-mcp",
@@ -891,6 +1714,13 @@ const handleMCPRequest = async (request: MCPRequest): Promise<MCPResponse> => {
                     }
                 };
 
+            case "ping":
+                return {
+                    jsonrpc: "2.0",
+                    id: request.id,
+                    result: {}
+                };
+
             case "tools/list":
                 return {
                     jsonrpc: "2.0",
@@ -900,11 +1730,127 @@ const handleMCPRequest = async (request: MCPRequest): Promise<MCPResponse> => {
                     }
                 };
 
+            case "resources/list":
+                return {
+                    jsonrpc: "2.0",
+                    id: request.id,
+                    result: {
+                        resources: listResources()
+                    }
+                };
+
+            case "resources/templates/list":
+                return {
+                    jsonrpc: "2.0",
+                    id: request.id,
+                    result: {
+                        resourceTemplates: listResourceTemplates()
+                    }
+                };
+
+            case "resources/read":
+                const uri = request.params?.uri;
+                if (typeof uri !== "string") {
+                    return {
+                        jsonrpc: "2.0",
+                        id: request.id,
+                        error: {
+                            code: -32602,
+                            message: "Invalid params: 'uri' must be a string"
+                        }
+                    };
+                }
+
+                const contents = readResource(uri);
+                if (!contents) {
+                    return {
+                        jsonrpc: "2.0",
+                        id: request.id,
+                        error: {
+                            code: -32002,
+                            message: `Resource not found: ${uri}`,
+                            data: { uri }
+                        }
+                    };
+                }
+
+                return {
+                    jsonrpc: "2.0",
+                    id: request.id,
+                    result: {
+                        contents
+                    }
+                };
+
+            case "prompts/list":
+                return {
+                    jsonrpc: "2.0",
+                    id: request.id,
+                    result: {
+                        prompts: listPrompts()
+                    }
+                };
+
+            case "prompts/get":
+                const { name: promptName, arguments: promptArgs } = request.params ?? {};
+                if (typeof promptName !== "string") {
+                    return {
+                        jsonrpc: "2.0",
+                        id: request.id,
+                        error: {
+                            code: -32602,
+                            message: "Invalid params: 'name' must be a string"
+                        }
+                    };
+                }
+
+                const prompt = getPrompt(promptName, promptArgs);
+                if (prompt.status === "not_found") {
+                    return {
+                        jsonrpc: "2.0",
+                        id: request.id,
+                        error: {
+                            code: -32602,
+                            message: `Prompt '${promptName}' not found`,
+                            data: { availablePrompts: listPrompts().map(p => p.name) }
+                        }
+                    };
+                }
+
+                if (prompt.status === "invalid_arguments") {
+                    return {
+                        jsonrpc: "2.0",
+                        id: request.id,
+                        error: {
+                            code: -32602,
+                            message: `Missing required arguments: ${prompt.missing.join(", ")}`,
+                            data: { prompt: promptName, missing: prompt.missing }
+                        }
+                    };
+                }
+
+                return {
+                    jsonrpc: "2.0",
+                    id: request.id,
+                    result: prompt.result
+                };
+
             case "tools/call":
-                const { name, arguments: args } = request.params;
-                const handler = toolHandlers.get(name);
+                const { name, arguments: args } = request.params ?? {};
+                if (typeof name !== "string") {
+                    return {
+                        jsonrpc: "2.0",
+                        id: request.id,
+                        error: {
+                            code: -32602,
+                            message: "Invalid params: 'name' must be a string"
+                        }
+                    };
+                }
+
+                const execution = await executeTool(name, args, transport);
                 
-                if (!handler) {
+                if (execution.status === "not_found") {
                     return {
                         jsonrpc: "2.0",
                         id: request.id,
@@ -916,7 +1862,19 @@ const handleMCPRequest = async (request: MCPRequest): Promise<MCPResponse> => {
                     };
                 }
 
-                const result = await handler(args);
+                if (execution.status === "invalid_params") {
+                    return {
+                        jsonrpc: "2.0",
+                        id: request.id,
+                        error: {
+                            code: -32602,
+                            message: "Invalid params",
+                            data: { tool: name, errors: execution.issues }
+                        }
+                    };
+                }
+
+                const result = execution.result;
                 
                 if (result.error) {
                     return {
@@ -964,12 +1922,62 @@ const handleMCPRequest = async (request: MCPRequest): Promise<MCPResponse> => {
     }
 };
 
+// JSON-RPC envelope handling (batches, notifications, Invalid Request) for the /mcp endpoint
+const mcpDispatcher = createMessageDispatcher(request => handleMCPRequest(request, "mcp"));
+
 // Hybrid Server: HTTP + MCP Protocol Support
+const readRequestBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: any) => {
+        body += chunk.toString();
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+});
+
+/**
+ * Re-read the pest knowledge base and tell open MCP sessions when a crop's agri://pests resources changed
+ */
+const reloadPestResources = async () => {
+    const result = await reloadPestKnowledge();
+    if (result.updated.length > 0 || result.removed.length > 0) {
+        broadcastNotification({ jsonrpc: "2.0", method: "notifications/resources/list_changed" });
+    }
+    return result;
+};
+
+/**
+ * Map a tool execution onto an HTTP response: 404 unknown tool, 422 invalid params, otherwise the tool result
+ */
+const writeToolExecution = (res: ServerResponse, toolName: string, execution: ToolExecution, successStatus = 200, errorStatus = 200) => {
+    if (execution.status === "not_found") {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+            error: `Tool '${toolName}' not found`,
+            available_tools: Array.from(toolHandlers.keys())
+        }));
+        return;
+    }
+
+    if (execution.status === "invalid_params") {
+        res.writeHead(422, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+            error: `Invalid params for tool '${toolName}'`,
+            errors: execution.issues
+        }));
+        return;
+    }
+
+    res.writeHead(execution.result.error ? errorStatus : successStatus, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(execution.result));
+};
+
 const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
     // Enable CORS
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Mcp-Session-Id, MCP-Protocol-Version, Last-Event-ID');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
 
     if (req.method === 'OPTIONS') {
         res.writeHead(200);
@@ -977,33 +1985,45 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
         return;
     }
 
-    // MCP Protocol Endpoint (for Docker MCP Gateway)
-    if (req.url === '/mcp' && req.method === 'POST') {
-        let body = '';
-        req.on('data', (chunk: any) => {
-            body += chunk.toString();
-        });
+    // MCP Protocol Endpoint (plain JSON for Docker MCP Gateway, Streamable HTTP for direct clients)
+    if (req.url === '/mcp') {
+        if (!isOriginAllowed(req)) {
+            res.writeHead(403, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Origin not allowed' }));
+            return;
+        }
 
-        req.on('end', async () => {
-            try {
-                const mcpRequest: MCPRequest = JSON.parse(body);
-                const mcpResponse = await handleMCPRequest(mcpRequest);
-                
-                res.writeHead(200, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify(mcpResponse));
-            } catch (error) {
-                const errorResponse: MCPResponse = {
-                    jsonrpc: "2.0",
-                    id: 0,
-                    error: {
-                        code: -32700,
-                        message: `Parse error: ${String(error)}`
+        if (req.method === 'GET') {
+            handleStreamableGet(req, res);
+            return;
+        }
+
+        if (req.method === 'DELETE') {
+            handleStreamableDelete(req, res);
+            return;
+        }
+
+        if (req.method === 'POST') {
+            let body = '';
+            req.on('data', (chunk: any) => {
+                body += chunk.toString();
+            });
+
+            req.on('end', async () => {
+                try {
+                    await handleStreamablePost(req, res, body, mcpDispatcher);
+                } catch (error) {
+                    if (!res.headersSent) {
+                        res.writeHead(500, { 'Content-Type': 'application/json' });
                     }
-                };
-                res.writeHead(400, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify(errorResponse));
-            }
-        });
+                    res.end(JSON.stringify({ error: `Internal error: ${String(error)}` }));
+                }
+            });
+            return;
+        }
+
+        res.writeHead(405, { 'Content-Type': 'application/json', 'Allow': 'GET, POST, DELETE, OPTIONS' });
+        res.end(JSON.stringify({ error: 'Method not allowed' }));
         return;
     }
 
@@ -1011,25 +2031,44 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
     if (req.url === '/health') {
         res.writeHead(200, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({
-            status: 'healthy',
+            status: hasOpenCircuit() ? 'degraded' : 'healthy',
             server: 'agricultural-ai-mcp',
             protocols: ['http', 'mcp'],
-            tools: ['crop-price', 'search', 'soil-health', 'weather', 'pest-identifier', 'mandi-price'],
+            tools: Array.from(toolHandlers.keys()),
             timestamp: new Date().toISOString(),
             environment: {
                 datagovin_key_set: !!process.env.DATAGOVIN_API_KEY,
                 exa_key_set: !!process.env.EXA_API_KEY,
+                weather_provider: weatherProvider.name,
                 port: PORT
             },
+            upstream: getUpstreamStatus(),
+            price_history: await getHistoryStats().catch(err => ({ error: String(err) })),
+            pest_knowledge: getPestKnowledgeStatus(),
             mcp: {
                 endpoint: '/mcp',
-                protocol_version: '2024-11-05',
-                capabilities: ['tools']
+                protocol_version: LATEST_PROTOCOL_VERSION,
+                supported_protocol_versions: SUPPORTED_PROTOCOL_VERSIONS,
+                transports: ['json', 'streamable-http'],
+                capabilities: ['tools', 'resources', 'prompts'],
+                ...getSessionStats()
             }
         }));
         return;
     }
 
+    // Prometheus metrics endpoint
+    if (req.url === '/metrics' && req.method === 'GET') {
+        try {
+            res.writeHead(200, { 'Content-Type': metricsRegistry.contentType });
+            res.end(await metricsRegistry.metrics());
+        } catch (error) {
+            res.writeHead(500, { 'Content-Type': 'text/plain' });
+            res.end(`Error collecting metrics: ${String(error)}`);
+        }
+        return;
+    }
+
     // Root endpoint with API info
     if (req.url === '/') {
         res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -1052,7 +2091,11 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
                         district: 'string (optional) - District filter (e.g., Ludhiana, Mumbai)',
                         commodity: 'string (optional) - Commodity filter (e.g., Wheat, Rice, Cotton)',
                         limit: 'number (optional) - Max records to return (default: 50)',
-                        offset: 'number (optional) - Records to skip (default: 0)'
+                        offset: 'number (optional) - Records to skip (default: 0)',
+                        fetch_all: 'boolean (optional) - Fetch all pages and return aggregated statistics (default: false)',
+                        max_records: 'number (optional) - Hard cap on records for fetch_all (default: 5000, max: 10000)',
+                        include_records: 'boolean (optional) - With fetch_all, also return the normalized records',
+                        include_raw: 'boolean (optional) - Attach the original data.gov.in row to each record as raw (default: false)'
                     }
                 },
                 {
@@ -1081,6 +2124,24 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
                         organic_content: 'number (optional) - Organic carbon percentage'
                     }
                 },
+                {
+                    name: 'fertilizer-plan',
+                    description: 'Soil test-based fertilizer doses with split timing and cost',
+                    endpoint: '/tools/fertilizer-plan',
+                    method: 'POST',
+                    parameters: {
+                        crop: 'string (required) - Crop to fertilize',
+                        target_yield: 'number (optional) - Target yield in q/ha',
+                        npk_values: 'object (optional) - Available N, P, K from soil test (kg/ha)',
+                        ph_level: 'number (optional) - Soil pH level',
+                        organic_content: 'number (optional) - Organic carbon percentage',
+                        area: 'number (optional) - Field area (default: 1)',
+                        area_unit: 'string (optional) - acre or hectare (default: acre)',
+                        phosphate_source: 'string (optional) - dap or ssp',
+                        fym_tonnes_per_ha: 'number (optional) - Farmyard manure applied, t/ha',
+                        prices: 'object (optional) - Local ₹ per bag for urea, dap, ssp, mop'
+                    }
+                },
                 {
                     name: 'weather',
                     description: 'Get farming-specific weather forecast with alerts',
@@ -1092,16 +2153,49 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
                         include_farming_alerts: 'boolean (optional) - Include farming alerts'
                     }
                 },
+                {
+                    name: 'irrigation-planner',
+                    description: 'Plan irrigation from FAO-56 crop water use, effective rain and a soil water balance',
+                    endpoint: '/tools/irrigation-planner',
+                    method: 'POST',
+                    parameters: {
+                        location: 'string (required) - Farm location or lat,lon',
+                        crop: 'string (required) - Crop being irrigated',
+                        stage: 'string (optional) - initial, development, mid or late',
+                        days_after_sowing: 'number (optional) - Days since sowing; overrides stage',
+                        soil_type: 'string (optional) - Soil type (sandy, loam, alluvial, black, clay, ...)',
+                        days: 'number (optional) - Days to plan (default: 7, max: 14)',
+                        et0_method: 'string (optional) - penman_monteith or hargreaves',
+                        irrigation_method: 'string (optional) - flood, furrow, sprinkler or drip',
+                        initial_depletion_percent: 'number (optional) - Current root-zone depletion (default: 0)',
+                        latitude: 'number (optional) - Latitude when the location cannot be geocoded'
+                    }
+                },
+                {
+                    name: 'crop-stage',
+                    description: 'Estimate crop growth stage, harvest window and stage advisories from growing degree days',
+                    endpoint: '/tools/crop-stage',
+                    method: 'POST',
+                    parameters: {
+                        crop: 'string (required) - Crop',
+                        sowing_date: 'string (required) - Sowing (or transplanting) date, yyyy-mm-dd',
+                        location: 'string (required) - Farm location or lat,lon',
+                        variety_class: 'string (optional) - early, medium or late (default: medium)',
+                        days: 'number (optional) - Forecast days for projections (default: 7)',
+                        include_daily: 'boolean (optional) - Include the daily GDD series'
+                    }
+                },
                 {
                     name: 'pest-identifier',
-                    description: 'Identify pests and diseases with treatment recommendations',
+                    description: 'Identify pests, diseases and nutrient deficiencies with chemical, organic and cultural treatments',
                     endpoint: '/tools/pest-identifier',
                     method: 'POST',
                     parameters: {
-                        crop: 'string (required) - Type of crop affected',
+                        crop: 'string (required) - Type of crop affected (any crop in the knowledge base, or an alias such as paddy)',
                         symptoms: 'string (required) - Observed symptoms',
-                        image_description: 'string (optional) - Description of images',
-                        location: 'string (optional) - Location of observation'
+                        image_description: 'string (optional) - Description of images (corroborating evidence)',
+                        location: 'string (optional) - Location of observation (recent weather is scored)',
+                        season: 'string (optional) - kharif, rabi or zaid (default: from today)'
                     }
                 },
                 {
@@ -1112,15 +2206,42 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
                     parameters: {
                         commodity: 'string (required) - Commodity to track',
                         state: 'string (optional) - State for tracking',
-                        district: 'string (optional) - District for local prices',
+                        district: 'string (optional) - District for local prices, and the origin for market distances',
+                        latitude: 'number (optional) - Farm latitude, with longitude the origin for market distances',
+                        longitude: 'number (optional) - Farm longitude',
+                        quantity_quintals: 'number (optional) - Quantity to sell, for net realisation (default: 10)',
+                        transport_cost_per_quintal_km: 'number (optional) - Transport cost in ₹/quintal/km (default: 0.5)',
+                        max_distance_km: 'number (optional) - Only rank markets within this road distance (default: 150)',
                         days_back: 'number (optional) - Historical data days',
-                        include_predictions: 'boolean (optional) - Include predictions'
+                        include_predictions: 'boolean (optional) - Include forecasts with prediction intervals',
+                        forecast_days: 'number (optional) - Forecast horizon in days (default: 7, max: 30)',
+                        refresh: 'boolean (optional) - Pull latest data.gov.in prices into the local history first'
+                    }
+                },
+                {
+                    name: 'price-anomalies',
+                    description: 'Flag mandi prices that deviate from their own baseline or from neighbouring mandis',
+                    endpoint: '/tools/price-anomalies',
+                    method: 'POST',
+                    parameters: {
+                        commodity: 'string (required) - Commodity to scan',
+                        state: 'string (optional) - State to scan',
+                        district: 'string (optional) - District to scan',
+                        days_back: 'number (optional) - Scan arrivals from the last N days (default: 7)',
+                        baseline_days: 'number (optional) - Trailing days for each market baseline (default: 28)',
+                        z_threshold: 'number (optional) - Robust z-score that flags a price (default: 3.5)',
+                        refresh: 'boolean (optional) - Pull latest data.gov.in prices into the local history first'
                     }
                 }
             ],
             usage: {
                 http: 'POST to /tools/{tool-name} with JSON body containing tool parameters',
-                mcp: 'POST to /mcp with MCP protocol JSON-RPC requests'
+                mcp: 'POST to /mcp with MCP protocol JSON-RPC requests; send Accept: application/json, text/event-stream for Streamable HTTP (Mcp-Session-Id, SSE, GET for notifications, DELETE to end the session)',
+                metrics: 'GET /metrics for Prometheus text-format metrics',
+                alerts: 'POST /alerts (price-alert-create params) to subscribe a webhook, GET /alerts?include_deliveries=true to list, DELETE /alerts/{id} to remove, POST /alerts/evaluate to evaluate now',
+                pest_knowledge: 'POST /knowledge/pests/reload (or send SIGHUP) to re-read the pest knowledge base files without restarting; open MCP sessions get notifications/resources/list_changed when a crop is updated or removed',
+                language: `every tool takes language (${LANGUAGE_CODES.join(', ')}; default en); advisory text, price anomaly explanations and alert webhook messages come back in it. crop and commodity accept local names (gehun, kapas, ਕਣਕ, कापूस) and symptoms may be written in Hindi, Punjabi, Marathi, Gujarati or Bengali`,
+                gazetteer: 'state, district and commodity are resolved against a built-in gazetteer of Indian states, districts, mandis and commodities before any tool runs; aliases (Gurugram, Prayagraj, tur, dhan) map to the data.gov.in names, unknown or misspelt names return invalid params with suggestions, and the canonical names come back as resolved_input'
             },
             examples: {
                 'crop-price': {
@@ -1138,20 +2259,40 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
                     method: 'POST',
                     body: { state: 'Punjab', ph_level: 6.5, npk_values: { nitrogen: 280, phosphorus: 23, potassium: 280 } }
                 },
+                'fertilizer-plan': {
+                    url: '/tools/fertilizer-plan',
+                    method: 'POST',
+                    body: { crop: 'wheat', target_yield: 50, npk_values: { nitrogen: 250, phosphorus: 18, potassium: 220 }, area: 2, area_unit: 'acre' }
+                },
                 'weather': {
                     url: '/tools/weather',
                     method: 'POST',
                     body: { location: 'Ludhiana, Punjab', days: 7, include_farming_alerts: true }
                 },
+                'irrigation-planner': {
+                    url: '/tools/irrigation-planner',
+                    method: 'POST',
+                    body: { location: 'Ludhiana, Punjab', crop: 'wheat', days_after_sowing: 60, soil_type: 'alluvial', irrigation_method: 'flood' }
+                },
+                'crop-stage': {
+                    url: '/tools/crop-stage',
+                    method: 'POST',
+                    body: { crop: 'wheat', sowing_date: '2024-11-10', location: 'Ludhiana, Punjab', variety_class: 'medium' }
+                },
                 'pest-identifier': {
                     url: '/tools/pest-identifier',
                     method: 'POST',
-                    body: { crop: 'rice', symptoms: 'yellowing leaves, stunted growth', location: 'Punjab' }
+                    body: { crop: 'rice', symptoms: 'dead hearts, white ears', image_description: 'larva inside the stem', location: 'Ludhiana, Punjab', season: 'kharif' }
                 },
                 'mandi-price': {
                     url: '/tools/mandi-price',
                     method: 'POST',
-                    body: { commodity: 'wheat', state: 'Punjab', district: 'Ludhiana', include_predictions: true }
+                    body: { commodity: 'wheat', state: 'Punjab', district: 'Ludhiana', include_predictions: true, quantity_quintals: 40 }
+                },
+                'price-anomalies': {
+                    url: '/tools/price-anomalies',
+                    method: 'POST',
+                    body: { commodity: 'onion', state: 'Maharashtra', days_back: 7 }
                 }
             }
         }));
@@ -1159,6 +2300,59 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
     }
 
     // Tool endpoints
+    // Price alert subscriptions: GET/POST /alerts, DELETE /alerts/{id}, POST /alerts/evaluate
+    const alertsUrl = new URL(req.url ?? '/', 'http://localhost');
+    if (alertsUrl.pathname === '/alerts' || alertsUrl.pathname.startsWith('/alerts/')) {
+        try {
+            if (alertsUrl.pathname === '/alerts' && req.method === 'GET') {
+                const args = {
+                    include_deliveries: alertsUrl.searchParams.get('include_deliveries') === 'true',
+                    ...(alertsUrl.searchParams.get('subscription_id') ? { subscription_id: alertsUrl.searchParams.get('subscription_id') } : {})
+                };
+                writeToolExecution(res, 'price-alert-list', await executeTool('price-alert-list', args, "http"), 200, 404);
+                return;
+            }
+
+            if (alertsUrl.pathname === '/alerts' && req.method === 'POST') {
+                const args = JSON.parse((await readRequestBody(req)) || '{}');
+                writeToolExecution(res, 'price-alert-create', await executeTool('price-alert-create', args, "http"), 201, 500);
+                return;
+            }
+
+            if (alertsUrl.pathname === '/alerts/evaluate' && req.method === 'POST') {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: true, data: await runAlertEvaluation() }));
+                return;
+            }
+
+            const id = decodeURIComponent(alertsUrl.pathname.slice('/alerts/'.length));
+            if (id && !id.includes('/') && req.method === 'DELETE') {
+                writeToolExecution(res, 'price-alert-delete', await executeTool('price-alert-delete', { id }, "http"), 200, 404);
+                return;
+            }
+
+            res.writeHead(405, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Method not allowed' }));
+        } catch (error) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: `Invalid request: ${error}` }));
+        }
+        return;
+    }
+
+    // Re-read the pest knowledge base; invalid files are reported and their crops keep the loaded version
+    if (req.url === '/knowledge/pests/reload' && req.method === 'POST') {
+        try {
+            const result = await reloadPestResources();
+            res.writeHead(result.ok ? 200 : 422, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: result.ok, data: result }));
+        } catch (error) {
+            res.writeHead(500, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: `Pest knowledge reload failed: ${String(error)}` }));
+        }
+        return;
+    }
+
     if (req.url?.startsWith('/tools/') && req.method === 'POST') {
         const toolName = req.url.split('/tools/')[1];
 
@@ -1170,20 +2364,7 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
         req.on('end', async () => {
             try {
                 const params = JSON.parse(body || '{}');
-                const handler = toolHandlers.get(toolName);
-
-                if (!handler) {
-                    res.writeHead(404, { 'Content-Type': 'application/json' });
-                    res.end(JSON.stringify({
-                        error: `Tool '${toolName}' not found`,
-                        available_tools: Array.from(toolHandlers.keys())
-                    }));
-                    return;
-                }
-
-                const result = await handler(params);
-                res.writeHead(200, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify(result));
+                writeToolExecution(res, toolName, await executeTool(toolName, params, "http"));
             } catch (error) {
                 res.writeHead(400, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ error: `Invalid request: ${error}` }));
@@ -1197,21 +2378,48 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
     res.end(JSON.stringify({ error: 'Not found' }));
 });
 
-// Start HTTP server
-httpServer.listen(PORT, () => {
-    const isProduction = process.env.NODE_ENV === 'production';
-    const baseUrl = isProduction ? 'https://fs-gate.onrender.com' : `http://localhost:${PORT}`;
-
-    console.log(`🚀 Agricultural AI MCP Server running on port ${PORT}`);
-    console.log(`🌾 HTTP: Crop price tool: ${baseUrl}/tools/crop-price`);
-    console.log(`🔍 HTTP: Search tool: ${baseUrl}/tools/search`);
-    console.log(`🤖 MCP: Protocol endpoint: ${baseUrl}/mcp`);
-    console.log(`❤️  Health check: ${baseUrl}/health`);
-    console.log(`📖 API docs: ${baseUrl}/`);
-
-    if (isProduction) {
-        console.log(`🎯 Live with Docker MCP Gateway support! Ready for hackathon!`);
-    } else {
-        console.log(`🎯 Ready for Docker MCP Gateway integration and cloud deployment!`);
-    }
-});
\ No newline at end of file
+// Start in stdio mode for subprocess MCP clients, otherwise serve HTTP
+const useStdio = process.argv.includes('--stdio') || process.env.MCP_TRANSPORT === 'stdio';
+
+schedulePriceHistoryIngest();
+schedulePriceAlertEvaluation();
+
+loadPestKnowledge().catch(err => console.error(`Pest knowledge base failed to load: ${String(err)}`));
+// SIGHUP re-reads the pest knowledge files, e.g. after updating a mounted knowledge volume
+process.on('SIGHUP', () => {
+    reloadPestResources()
+        .then(result => console.error(`Pest knowledge base reloaded: ${result.crops} crops, ${result.entries} entries, ${result.errors.length} error(s)`))
+        .catch(err => console.error(`Pest knowledge reload failed: ${String(err)}`));
+});
+
+// Price history writes are batched, so pending ingests are written before the process stops
+const flushAndExit = () => {
+    flushPriceHistory()
+        .catch(err => console.error(`Price history write failed: ${String(err)}`))
+        .finally(() => process.exit(0));
+};
+process.on('SIGTERM', flushAndExit);
+process.on('SIGINT', flushAndExit);
+
+if (useStdio) {
+    startStdioServer(createMessageDispatcher(request => handleMCPRequest(request, "stdio")), flushPriceHistory);
+} else {
+    httpServer.listen(PORT, () => {
+        const isProduction = process.env.NODE_ENV === 'production';
+        const baseUrl = isProduction ? 'https://fs-gate.onrender.com' : `http://localhost:${PORT}`;
+
+        console.log(`🚀 Agricultural AI MCP Server running on port ${PORT}`);
+        console.log(`🌾 HTTP: Crop price tool: ${baseUrl}/tools/crop-price`);
+        console.log(`🔍 HTTP: Search tool: ${baseUrl}/tools/search`);
+        console.log(`🤖 MCP: Protocol endpoint: ${baseUrl}/mcp`);
+        console.log(`❤️  Health check: ${baseUrl}/health`);
+        console.log(`📈 Metrics: ${baseUrl}/metrics`);
+        console.log(`📖 API docs: ${baseUrl}/`);
+
+        if (isProduction) {
+            console.log(`🎯 Live with Docker MCP Gateway support! Ready for hackathon!`);
+        } else {
+            console.log(`🎯 Ready for Docker MCP Gateway integration and cloud deployment!`);
+        }
+    });
+}
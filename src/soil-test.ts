@@ -0,0 +1,181 @@
+// src/soil-test.ts - Soil test normalization (units, plausibility, measured vs missing) and health scoring
+import { translator, Translate } from "./messages.js";
+import { SoilParameter, SOIL_THRESHOLDS, SOIL_PLAUSIBLE_RANGES } from "./reference-data.js";
+
+export interface SoilTestUnits {
+    npk: "kg/ha" | "ppm";
+    micronutrients: "ppm" | "kg/ha";
+    organic: "%" | "g/kg";
+    ec: "dS/m" | "mS/cm" | "uS/cm";
+}
+
+export interface SoilTestInput {
+    ph_level?: number;
+    npk_values?: { nitrogen?: number; phosphorus?: number; potassium?: number };
+    organic_content?: number;
+    organic_basis?: "organic_carbon" | "organic_matter";
+    micronutrients?: { zinc?: number; iron?: number; sulphur?: number; boron?: number };
+    ec?: number;
+    units: SoilTestUnits;
+}
+
+export interface SoilParameterReading {
+    parameter: SoilParameter;
+    status: "measured" | "not_provided" | "implausible";
+    // Value in the canonical unit, null when not provided
+    value: number | null;
+    unit: string;
+    // What the caller sent, when it differs from the canonical value or unit
+    reported?: { value: number; unit: string };
+    rating?: string;
+    points?: number;
+    max_points: number;
+}
+
+export interface NormalizedSoilTest {
+    // Measured, plausible values in canonical units
+    values: Partial<Record<SoilParameter, number>>;
+    readings: SoilParameterReading[];
+    warnings: string[];
+    conversions: string[];
+}
+
+export interface SoilScore {
+    status: "scored" | "insufficient_data";
+    // Points earned as a percentage of the points available for the measured parameters
+    health_score: number | null;
+    readings: SoilParameterReading[];
+    scored_parameters: number;
+    missing_core: SoilParameter[];
+}
+
+// Soil mass of a 15 cm plough layer is about 2.24 million kg/ha, so 1 ppm = 2.24 kg/ha
+const PPM_TO_KG_HA = 2.24;
+// Van Bemmelen factor: organic matter is about 58% carbon
+const OM_TO_OC = 1 / 1.724;
+// pH, N, P, K and organic carbon carry most of the score; at least this many must be measured to score at all
+const CORE_PARAMETERS: SoilParameter[] = ["ph", "nitrogen", "phosphorus", "potassium", "organic_content"];
+const MIN_CORE_MEASURED = 3;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const maxPoints = (parameter: SoilParameter) => {
+    switch (parameter) {
+        case "ph":
+            return SOIL_THRESHOLDS.ph.points.optimal;
+        case "ec":
+            return SOIL_THRESHOLDS.ec.points.normal;
+        default:
+            return SOIL_THRESHOLDS[parameter].points.good;
+    }
+};
+
+/**
+ * Convert reported values to canonical units and separate measured, missing and implausible parameters.
+ * Nothing is filled in: a parameter that was not sent stays null.
+ */
+export const normalizeSoilTest = (input: SoilTestInput, t: Translate = translator("en")): NormalizedSoilTest => {
+    const { units } = input;
+    const conversions: string[] = [];
+    const warnings: string[] = [];
+    const values: Partial<Record<SoilParameter, number>> = {};
+    const readings: SoilParameterReading[] = [];
+
+    const npkFactor = units.npk === "ppm" ? PPM_TO_KG_HA : 1;
+    const microFactor = units.micronutrients === "kg/ha" ? 1 / PPM_TO_KG_HA : 1;
+    const organicFactor = (units.organic === "g/kg" ? 0.1 : 1) * (input.organic_basis === "organic_matter" ? OM_TO_OC : 1);
+    const ecFactor = units.ec === "uS/cm" ? 0.001 : 1;
+
+    if (units.npk === "ppm" && input.npk_values) conversions.push(t("soil_test.npk_ppm"));
+    if (units.micronutrients === "kg/ha" && input.micronutrients) conversions.push(t("soil_test.micronutrients_kg_ha"));
+    if (input.organic_content !== undefined && input.organic_basis === "organic_matter") {
+        conversions.push(t("soil_test.organic_matter"));
+    }
+    if (input.organic_content !== undefined && units.organic === "g/kg") conversions.push(t("soil_test.organic_g_kg"));
+    if (input.ec !== undefined && units.ec === "uS/cm") conversions.push(t("soil_test.ec_us_cm"));
+
+    const reported: [SoilParameter, number | undefined, number, string][] = [
+        ["ph", input.ph_level, 1, "pH"],
+        ["nitrogen", input.npk_values?.nitrogen, npkFactor, units.npk],
+        ["phosphorus", input.npk_values?.phosphorus, npkFactor, units.npk],
+        ["potassium", input.npk_values?.potassium, npkFactor, units.npk],
+        ["organic_content", input.organic_content, organicFactor, `${units.organic} ${input.organic_basis === "organic_matter" ? "OM" : "OC"}`],
+        ["zinc", input.micronutrients?.zinc, microFactor, units.micronutrients],
+        ["iron", input.micronutrients?.iron, microFactor, units.micronutrients],
+        ["sulphur", input.micronutrients?.sulphur, microFactor, units.micronutrients],
+        ["boron", input.micronutrients?.boron, microFactor, units.micronutrients],
+        ["ec", input.ec, ecFactor, units.ec]
+    ];
+
+    for (const [parameter, raw, factor, rawUnit] of reported) {
+        const unit = SOIL_THRESHOLDS[parameter].unit;
+        if (raw === undefined) {
+            readings.push({ parameter, status: "not_provided", value: null, unit, max_points: maxPoints(parameter) });
+            continue;
+        }
+
+        const value = round(raw * factor, 3);
+        const range = SOIL_PLAUSIBLE_RANGES[parameter];
+        const plausible = value >= range.min && value <= range.max;
+        readings.push({
+            parameter,
+            status: plausible ? "measured" : "implausible",
+            value,
+            unit,
+            ...(factor !== 1 ? { reported: { value: raw, unit: rawUnit } } : {}),
+            max_points: maxPoints(parameter)
+        });
+
+        if (plausible) {
+            values[parameter] = value;
+        } else {
+            warnings.push(t("soil_test.implausible", { parameter: t(`parameter.${parameter}` as const), value, unit, min: range.min, max: range.max }));
+        }
+    }
+
+    return { values, readings, warnings, conversions };
+};
+
+/**
+ * Rate each measured parameter against SOIL_THRESHOLDS and score the soil on the parameters actually measured.
+ * Too few core measurements gives an insufficient_data result rather than a score built on guesses.
+ */
+export const scoreSoilTest = (soil: NormalizedSoilTest): SoilScore => {
+    const readings = soil.readings.map(reading => {
+        const value = soil.values[reading.parameter];
+        if (value === undefined) return reading;
+
+        if (reading.parameter === "ph") {
+            const { ph } = SOIL_THRESHOLDS;
+            const rating = value >= ph.optimal.min && value <= ph.optimal.max ? "optimal"
+                : value >= ph.acceptable.min && value <= ph.acceptable.max ? "acceptable"
+                : "outside";
+            return { ...reading, rating, points: ph.points[rating] };
+        }
+        if (reading.parameter === "ec") {
+            const { ec } = SOIL_THRESHOLDS;
+            const rating = value <= ec.normal ? "normal" : value <= ec.slightly_saline ? "slightly_saline" : "saline";
+            return { ...reading, rating, points: ec.points[rating] };
+        }
+
+        const threshold = SOIL_THRESHOLDS[reading.parameter];
+        const rating = value >= threshold.good ? "good" : value >= threshold.adequate ? "adequate" : "low";
+        return { ...reading, rating, points: threshold.points[rating] };
+    });
+
+    const scored = readings.filter(r => r.points !== undefined);
+    const missingCore = CORE_PARAMETERS.filter(p => soil.values[p] === undefined);
+    if (CORE_PARAMETERS.length - missingCore.length < MIN_CORE_MEASURED) {
+        return { status: "insufficient_data", health_score: null, readings, scored_parameters: scored.length, missing_core: missingCore };
+    }
+
+    const earned = scored.reduce((sum, r) => sum + r.points!, 0);
+    const available = scored.reduce((sum, r) => sum + r.max_points, 0);
+    return {
+        status: "scored",
+        health_score: Math.round((earned / available) * 100),
+        readings,
+        scored_parameters: scored.length,
+        missing_core: missingCore
+    };
+};
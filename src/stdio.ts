@@ -0,0 +1,58 @@
+// src/stdio.ts - stdio transport: newline-delimited JSON-RPC on stdin/stdout for subprocess MCP clients
+import { createInterface } from "readline";
+import { MCPResponse, MessageDispatcher, errorResponse } from "./protocol.js";
+
+const writeMessage = (message: MCPResponse | MCPResponse[]) => {
+    process.stdout.write(JSON.stringify(message) + "\n");
+};
+
+/**
+ * Serve MCP over stdin/stdout until stdin closes, then run beforeExit.
+ * stdout carries protocol messages only, so console output is redirected to stderr.
+ */
+export const startStdioServer = (dispatch: MessageDispatcher, beforeExit: () => Promise<unknown> = async () => undefined) => {
+    console.log = console.error;
+    console.info = console.error;
+    console.debug = console.error;
+
+    const pending = new Set<Promise<void>>();
+    const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+    lines.on("line", (line: string) => {
+        if (!line.trim()) return;
+
+        const task = (async () => {
+            let message: any;
+            try {
+                message = JSON.parse(line);
+            } catch (error) {
+                writeMessage(errorResponse(null, -32700, `Parse error: ${String(error)}`));
+                return;
+            }
+
+            try {
+                const response = await dispatch(message);
+                if (response) {
+                    writeMessage(response);
+                }
+            } catch (error) {
+                writeMessage(errorResponse(message?.id, -32603, `Internal error: ${String(error)}`));
+            }
+        })();
+
+        pending.add(task);
+        task.finally(() => pending.delete(task));
+    });
+
+    // Client went away: finish what is in flight, then exit
+    lines.on("close", async () => {
+        await Promise.allSettled(Array.from(pending));
+        await beforeExit().catch(err => console.error(String(err)));
+        process.exit(0);
+    });
+
+    // A closed stdout means nobody is listening for responses any more
+    process.stdout.on("error", () => process.exit(0));
+
+    console.error("🌾 Agricultural AI MCP Server running on stdio");
+};
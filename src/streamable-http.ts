@@ -0,0 +1,342 @@
+// src/streamable-http.ts - MCP Streamable HTTP transport for /mcp (sessions, SSE responses, resumability)
+import { IncomingMessage, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import { MCPResponse, MCPNotification, MessageDispatcher, SUPPORTED_PROTOCOL_VERSIONS, errorResponse, expectsResponse } from "./protocol.js";
+
+interface StoredEvent {
+    id: string;
+    streamId: string;
+    seq: number;
+    data: string;
+}
+
+interface MCPSession {
+    id: string;
+    lastActivityAt: number;
+    nextSeq: number;
+    // Recent events across all streams of the session, replayed on reconnect via Last-Event-ID
+    events: StoredEvent[];
+    // Live SSE connection per stream; POST responses get their own stream, GET uses the standalone one
+    connections: Map<string, ServerResponse>;
+    completedStreams: Set<string>;
+}
+
+const STANDALONE_STREAM_ID = "standalone";
+const SESSION_IDLE_TTL_MS = Number(process.env.MCP_SESSION_TTL_MS ?? 30 * 60 * 1000);
+const EVENT_BUFFER_SIZE = Number(process.env.MCP_EVENT_BUFFER_SIZE ?? 500);
+const MAX_SESSIONS = Number(process.env.MCP_MAX_SESSIONS ?? 1000);
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+const sessions = new Map<string, MCPSession>();
+
+const headerValue = (req: IncomingMessage, name: string): string | undefined => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+};
+
+const acceptsEventStream = (req: IncomingMessage) =>
+    (headerValue(req, 'accept') ?? '').includes('text/event-stream');
+
+const writeJsonRpcError = (res: ServerResponse, status: number, code: number, message: string, id: unknown = null) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(errorResponse(id, code, message)));
+};
+
+/**
+ * DNS rebinding protection: when MCP_ALLOWED_ORIGINS is set, browser requests from other origins are rejected
+ */
+export const isOriginAllowed = (req: IncomingMessage): boolean => {
+    const allowed = process.env.MCP_ALLOWED_ORIGINS;
+    const origin = headerValue(req, 'origin');
+    if (!allowed || !origin) return true;
+
+    return allowed.split(',').map(o => o.trim()).includes(origin);
+};
+
+const checkProtocolVersionHeader = (req: IncomingMessage, res: ServerResponse): boolean => {
+    const version = headerValue(req, 'mcp-protocol-version');
+    if (version && !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+        writeJsonRpcError(res, 400, -32000, `Bad Request: unsupported MCP-Protocol-Version '${version}' (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`);
+        return false;
+    }
+    return true;
+};
+
+/**
+ * Resolve the session named by Mcp-Session-Id; writes the error response and returns null when it cannot
+ */
+const requireSession = (req: IncomingMessage, res: ServerResponse): MCPSession | null => {
+    const sessionId = headerValue(req, 'mcp-session-id');
+    if (!sessionId) {
+        writeJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+        return null;
+    }
+
+    const session = sessions.get(sessionId);
+    if (!session) {
+        writeJsonRpcError(res, 404, -32001, 'Session not found');
+        return null;
+    }
+
+    session.lastActivityAt = Date.now();
+    return session;
+};
+
+const terminateSession = (session: MCPSession) => {
+    sessions.delete(session.id);
+    for (const connection of session.connections.values()) {
+        connection.end();
+    }
+    session.connections.clear();
+};
+
+/**
+ * New session; at MAX_SESSIONS the least recently active session without an open stream makes room,
+ * and null is returned when every session has one
+ */
+const createSession = (): MCPSession | null => {
+    if (sessions.size >= MAX_SESSIONS) {
+        const idle = Array.from(sessions.values())
+            .filter(candidate => candidate.connections.size === 0)
+            .sort((a, b) => a.lastActivityAt - b.lastActivityAt)[0];
+        if (!idle) return null;
+        terminateSession(idle);
+    }
+
+    const session: MCPSession = {
+        id: randomUUID(),
+        lastActivityAt: Date.now(),
+        nextSeq: 0,
+        events: [],
+        connections: new Map(),
+        completedStreams: new Set()
+    };
+    sessions.set(session.id, session);
+    return session;
+};
+
+const openEventStream = (res: ServerResponse, headers: Record<string, string> = {}) => {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        ...headers
+    });
+    res.flushHeaders();
+
+    // Comment lines keep proxies from closing idle streams; clients ignore them
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEPALIVE_INTERVAL_MS);
+    res.on('close', () => clearInterval(keepAlive));
+};
+
+const writeEvent = (res: ServerResponse, data: string, id?: string) => {
+    res.write(`${id ? `id: ${id}\n` : ''}data: ${data}\n\n`);
+};
+
+const attachConnection = (session: MCPSession, streamId: string, res: ServerResponse) => {
+    session.connections.set(streamId, res);
+    res.on('close', () => {
+        if (session.connections.get(streamId) === res) {
+            session.connections.delete(streamId);
+        }
+    });
+};
+
+/**
+ * Store a message on a session stream (for resumability) and deliver it if the stream is connected
+ */
+const sendOnStream = (session: MCPSession, streamId: string, message: MCPResponse | MCPNotification) => {
+    const seq = session.nextSeq++;
+    const event: StoredEvent = { id: `${streamId}/${seq}`, streamId, seq, data: JSON.stringify(message) };
+
+    session.events.push(event);
+    if (session.events.length > EVENT_BUFFER_SIZE) {
+        session.events.splice(0, session.events.length - EVENT_BUFFER_SIZE);
+        for (const completed of session.completedStreams) {
+            if (!session.events.some(e => e.streamId === completed)) {
+                session.completedStreams.delete(completed);
+            }
+        }
+    }
+
+    const connection = session.connections.get(streamId);
+    if (connection) {
+        writeEvent(connection, event.data, event.id);
+    }
+};
+
+const completeStream = (session: MCPSession, streamId: string) => {
+    session.completedStreams.add(streamId);
+    session.connections.get(streamId)?.end();
+    session.connections.delete(streamId);
+};
+
+const parseEventId = (eventId: string): { streamId: string; seq: number } | null => {
+    const separator = eventId.lastIndexOf('/');
+    const seq = Number(eventId.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(seq)) return null;
+
+    return { streamId: eventId.slice(0, separator), seq };
+};
+
+/**
+ * POST /mcp - a JSON-RPC message or batch; answered as SSE when the client accepts it, plain JSON otherwise
+ */
+export const handleStreamablePost = async (req: IncomingMessage, res: ServerResponse, body: string, dispatch: MessageDispatcher) => {
+    let message: any;
+    try {
+        message = JSON.parse(body);
+    } catch (error) {
+        writeJsonRpcError(res, 400, -32700, `Parse error: ${String(error)}`);
+        return;
+    }
+
+    if (!checkProtocolVersionHeader(req, res)) return;
+
+    let session: MCPSession | undefined;
+    if (headerValue(req, 'mcp-session-id')) {
+        const resolved = requireSession(req, res);
+        if (!resolved) return;
+        session = resolved;
+    }
+
+    // Only notifications and client responses: nothing to answer
+    if (!expectsResponse(message)) {
+        await dispatch(message);
+        res.writeHead(202);
+        res.end();
+        return;
+    }
+
+    const streamable = acceptsEventStream(req);
+    const headers: Record<string, string> = {};
+    let response: MCPResponse | MCPResponse[] | null | undefined;
+
+    // Sessions are only issued to Streamable HTTP clients; plain JSON callers stay stateless
+    if (message?.method === 'initialize' && !Array.isArray(message)) {
+        response = await dispatch(message);
+        if (streamable && response && !Array.isArray(response) && !response.error) {
+            const created = createSession();
+            if (!created) {
+                writeJsonRpcError(res, 503, -32000, 'Service Unavailable: too many open MCP sessions', message.id);
+                return;
+            }
+            session = created;
+            headers['Mcp-Session-Id'] = session.id;
+        }
+    }
+
+    if (!streamable) {
+        response = response ?? await dispatch(message);
+        res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(response));
+        return;
+    }
+
+    const streamId = randomUUID();
+    openEventStream(res, headers);
+    if (session) {
+        attachConnection(session, streamId, res);
+    }
+
+    response = response ?? await dispatch(message);
+    const replies = response === null ? [] : Array.isArray(response) ? response : [response];
+
+    // Each response of a batch goes out as its own event
+    if (session) {
+        for (const reply of replies) {
+            sendOnStream(session, streamId, reply);
+        }
+        completeStream(session, streamId);
+    } else {
+        for (const reply of replies) {
+            writeEvent(res, JSON.stringify(reply));
+        }
+        res.end();
+    }
+};
+
+/**
+ * GET /mcp - standalone SSE stream for server notifications, or resumption of a stream via Last-Event-ID
+ */
+export const handleStreamableGet = (req: IncomingMessage, res: ServerResponse) => {
+    if (!acceptsEventStream(req)) {
+        writeJsonRpcError(res, 406, -32000, 'Not Acceptable: client must accept text/event-stream');
+        return;
+    }
+    if (!checkProtocolVersionHeader(req, res)) return;
+
+    const session = requireSession(req, res);
+    if (!session) return;
+
+    // A new standalone stream starts with the next event; only Last-Event-ID replays what was already sent
+    let streamId = STANDALONE_STREAM_ID;
+    let afterSeq = session.nextSeq - 1;
+
+    const lastEventId = headerValue(req, 'last-event-id');
+    const resumeFrom = lastEventId ? parseEventId(lastEventId) : null;
+    if (resumeFrom) {
+        const knownStream = resumeFrom.streamId === STANDALONE_STREAM_ID
+            || session.completedStreams.has(resumeFrom.streamId)
+            || session.connections.has(resumeFrom.streamId)
+            || session.events.some(event => event.streamId === resumeFrom.streamId);
+        if (knownStream) {
+            streamId = resumeFrom.streamId;
+            afterSeq = resumeFrom.seq;
+        }
+    }
+
+    // Only one live connection per stream, so a message is never delivered twice
+    session.connections.get(streamId)?.end();
+
+    openEventStream(res);
+    for (const event of session.events) {
+        if (event.streamId === streamId && event.seq > afterSeq) {
+            writeEvent(res, event.data, event.id);
+        }
+    }
+
+    if (session.completedStreams.has(streamId)) {
+        res.end();
+        return;
+    }
+
+    attachConnection(session, streamId, res);
+};
+
+/**
+ * DELETE /mcp - explicit session termination by the client
+ */
+export const handleStreamableDelete = (req: IncomingMessage, res: ServerResponse) => {
+    const session = requireSession(req, res);
+    if (!session) return;
+
+    terminateSession(session);
+    res.writeHead(204);
+    res.end();
+};
+
+/**
+ * Queue a notification on every session's standalone stream
+ */
+export const broadcastNotification = (notification: MCPNotification) => {
+    for (const session of sessions.values()) {
+        sendOnStream(session, STANDALONE_STREAM_ID, notification);
+    }
+};
+
+export const getSessionStats = () => ({
+    active_sessions: sessions.size,
+    open_streams: Array.from(sessions.values()).reduce((sum, session) => sum + session.connections.size, 0)
+});
+
+// Expire sessions that have been idle with no open streams
+const sweepTimer = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_TTL_MS;
+    for (const session of sessions.values()) {
+        if (session.connections.size === 0 && session.lastActivityAt < cutoff) {
+            terminateSession(session);
+        }
+    }
+}, 60000);
+sweepTimer.unref();
@@ -0,0 +1,197 @@
+// src/upstream.ts - Shared outbound HTTP client: per-provider timeouts, jittered retries and circuit breakers
+import fetch, { RequestInit, Headers } from "node-fetch";
+import { timeUpstreamCall, recordUpstreamRetry, setCircuitOpen, UpstreamProvider } from "./metrics.js";
+
+export interface UpstreamResponse {
+    status: number;
+    ok: boolean;
+    headers: Headers;
+    text: string;
+}
+
+interface ProviderPolicy {
+    label: string;
+    timeoutMs: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Consecutive failed calls that open the circuit, and how long it stays open before a trial call
+    failureThreshold: number;
+    resetTimeoutMs: number;
+}
+
+interface CircuitState {
+    state: "closed" | "open" | "half_open";
+    consecutiveFailures: number;
+    openedAt: number;
+    lastError?: string;
+}
+
+const envNumber = (name: string, fallback: number): number => {
+    const raw = process.env[name];
+    const value = Number(raw);
+    return raw !== undefined && raw !== "" && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Per-provider settings come from <PREFIX>_TIMEOUT_MS, <PREFIX>_MAX_RETRIES, <PREFIX>_CIRCUIT_THRESHOLD, <PREFIX>_CIRCUIT_RESET_MS
+const providerPolicy = (prefix: string, label: string, defaultTimeoutMs: number): ProviderPolicy => ({
+    label,
+    timeoutMs: envNumber(`${prefix}_TIMEOUT_MS`, defaultTimeoutMs),
+    maxRetries: envNumber(`${prefix}_MAX_RETRIES`, 2),
+    baseDelayMs: envNumber("UPSTREAM_RETRY_BASE_DELAY_MS", 300),
+    maxDelayMs: envNumber("UPSTREAM_RETRY_MAX_DELAY_MS", 5000),
+    failureThreshold: Math.max(1, envNumber(`${prefix}_CIRCUIT_THRESHOLD`, 5)),
+    resetTimeoutMs: envNumber(`${prefix}_CIRCUIT_RESET_MS`, 30000)
+});
+
+const policies: Record<UpstreamProvider, ProviderPolicy> = {
+    datagovin: providerPolicy("DATAGOVIN", "data.gov.in", 15000),
+    exa: providerPolicy("EXA", "EXA", 20000),
+    weather: providerPolicy("WEATHER", "Weather API", 10000)
+};
+
+const circuits = new Map<UpstreamProvider, CircuitState>();
+
+const circuitFor = (provider: UpstreamProvider): CircuitState => {
+    let circuit = circuits.get(provider);
+    if (!circuit) {
+        circuit = { state: "closed", consecutiveFailures: 0, openedAt: 0 };
+        circuits.set(provider, circuit);
+    }
+    return circuit;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Seconds or HTTP-date from a Retry-After header, in milliseconds
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Claim permission to call the provider; throws while the circuit is open.
+ * After the reset timeout one trial call is let through (half-open).
+ */
+const acquireCircuit = (provider: UpstreamProvider, policy: ProviderPolicy) => {
+    const circuit = circuitFor(provider);
+    if (circuit.state === "closed") return;
+
+    const retryAt = circuit.openedAt + policy.resetTimeoutMs;
+    if (circuit.state === "open" && Date.now() >= retryAt) {
+        circuit.state = "half_open";
+        return;
+    }
+
+    throw new Error(`${policy.label} circuit open after ${circuit.consecutiveFailures} consecutive failures; failing fast until ${new Date(retryAt).toISOString()} (last error: ${circuit.lastError})`);
+};
+
+const recordSuccess = (provider: UpstreamProvider) => {
+    const circuit = circuitFor(provider);
+    circuit.state = "closed";
+    circuit.consecutiveFailures = 0;
+    setCircuitOpen(provider, false);
+};
+
+const recordFailure = (provider: UpstreamProvider, policy: ProviderPolicy, error: string) => {
+    const circuit = circuitFor(provider);
+    circuit.consecutiveFailures++;
+    circuit.lastError = error;
+
+    if (circuit.state === "half_open" || circuit.consecutiveFailures >= policy.failureThreshold) {
+        circuit.state = "open";
+        circuit.openedAt = Date.now();
+        setCircuitOpen(provider, true);
+    }
+};
+
+/**
+ * One attempt with a timeout covering both headers and body
+ */
+const attemptFetch = async (provider: UpstreamProvider, policy: ProviderPolicy, url: string, init: RequestInit): Promise<UpstreamResponse> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+
+    try {
+        return await timeUpstreamCall(provider, async () => {
+            const res = await fetch(url, { ...init, signal: controller.signal });
+            return { status: res.status, ok: res.ok, headers: res.headers, text: await res.text() };
+        });
+    } catch (err) {
+        if (controller.signal.aborted) {
+            throw new Error(`${policy.label} request timed out after ${policy.timeoutMs}ms`);
+        }
+        throw err;
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+/**
+ * Call an upstream provider. Network errors, timeouts, 429 and 5xx are retried with full-jitter
+ * exponential backoff (or the provider's Retry-After when it fits within the max delay).
+ * The final response is returned whatever its status; only network failures and open circuits throw.
+ */
+export const upstreamFetch = async (provider: UpstreamProvider, url: string, init: RequestInit = {}): Promise<UpstreamResponse> => {
+    const policy = policies[provider];
+    acquireCircuit(provider, policy);
+
+    for (let attempt = 0; ; attempt++) {
+        let response: UpstreamResponse | undefined;
+        let failure: string;
+
+        try {
+            response = await attemptFetch(provider, policy, url, init);
+            if (!isRetryableStatus(response.status)) {
+                recordSuccess(provider);
+                return response;
+            }
+            failure = `HTTP ${response.status}`;
+        } catch (err) {
+            failure = err instanceof Error ? err.message : String(err);
+        }
+
+        const backoff = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+        const retryAfter = parseRetryAfter(response?.headers.get("retry-after") ?? null);
+        const delay = retryAfter ?? backoff;
+
+        if (attempt >= policy.maxRetries || delay > policy.maxDelayMs) {
+            recordFailure(provider, policy, failure);
+            if (response) return response;
+            throw new Error(`${policy.label} request failed after ${attempt + 1} attempt(s): ${failure}`);
+        }
+
+        recordUpstreamRetry(provider);
+        await sleep(delay);
+    }
+};
+
+/**
+ * Circuit state per provider for /health
+ */
+export const getUpstreamStatus = () => {
+    const status: Record<string, { circuit: CircuitState["state"]; consecutive_failures: number; last_error?: string; retry_at?: string }> = {};
+
+    for (const provider of Object.keys(policies) as UpstreamProvider[]) {
+        const circuit = circuitFor(provider);
+        status[provider] = {
+            circuit: circuit.state,
+            consecutive_failures: circuit.consecutiveFailures,
+            ...(circuit.lastError ? { last_error: circuit.lastError } : {}),
+            ...(circuit.state === "open" ? { retry_at: new Date(circuit.openedAt + policies[provider].resetTimeoutMs).toISOString() } : {})
+        };
+    }
+
+    return status;
+};
+
+export const hasOpenCircuit = () => Array.from(circuits.values()).some(circuit => circuit.state !== "closed");
@@ -0,0 +1,271 @@
+// src/weather.ts - Weather providers: Open-Meteo compatible HTTP API and a deterministic seeded simulation
+import { upstreamFetch } from "./upstream.js";
+import { createCache } from "./cache.js";
+
+export interface WeatherDay {
+    date: string;
+    temperature: {
+        max: number;
+        min: number;
+    };
+    // Daily mean relative humidity, %
+    humidity: number;
+    // mm
+    rainfall: number;
+    // Daily max wind speed, km/h
+    wind_speed: number;
+    conditions: "Rainy" | "Cloudy" | "Clear";
+    // Provider-supplied values when available: shortwave radiation (MJ/m²) and FAO-56 reference ET (mm)
+    solar_radiation?: number;
+    reference_et0?: number;
+}
+
+export interface ResolvedLocation {
+    name: string;
+    latitude?: number;
+    longitude?: number;
+    // Metres above sea level
+    elevation?: number;
+    region?: string;
+}
+
+export interface WeatherForecast {
+    location: ResolvedLocation;
+    days: WeatherDay[];
+}
+
+export interface WeatherProvider {
+    name: "open-meteo" | "simulation";
+    // Human-readable provenance reported in tool responses
+    source: string;
+    getForecast: (location: string, days: number) => Promise<WeatherForecast>;
+    // Daily weather for an inclusive yyyy-mm-dd range that may reach back before today
+    getDailyRange: (location: string, startDate: string, endDate: string) => Promise<WeatherForecast>;
+}
+
+const conditionsFor = (rainfall: number, humidity: number): WeatherDay["conditions"] =>
+    rainfall > 0 ? "Rainy" : humidity > 80 ? "Cloudy" : "Clear";
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+// "30.90,75.85" style locations skip geocoding
+const parseCoordinates = (location: string) => {
+    const match = location.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) return undefined;
+    const [latitude, longitude] = [Number(match[1]), Number(match[2])];
+    return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : undefined;
+};
+
+// Open-Meteo's forecast endpoint serves at most 92 past days; the archive trails real time by a few days
+const FORECAST_PAST_DAYS = 92;
+
+/**
+ * Open-Meteo compatible forecast API; the base URLs are configurable so a mirror or local stub can stand in
+ */
+export const createOpenMeteoProvider = (options: { baseUrl: string; geocodingUrl: string; archiveUrl: string; cacheTtlMs: number }): WeatherProvider => {
+    const geocodeCache = createCache<ResolvedLocation>({ name: "weather-geocode", ttlMs: 7 * 24 * 60 * 60 * 1000, staleMs: 0, maxEntries: 1000 });
+    const forecastCache = createCache<WeatherForecast>({ name: "weather", ttlMs: options.cacheTtlMs, staleMs: 6 * 60 * 60 * 1000, maxEntries: 200 });
+
+    const getJson = async (url: string) => {
+        const res = await upstreamFetch("weather", url, { method: "GET" });
+        if (!res.ok) {
+            throw new Error(`HTTP ${res.status} fetching weather API: ${res.text}`);
+        }
+        try {
+            return JSON.parse(res.text);
+        } catch (err) {
+            throw new Error(`Invalid JSON response from weather API: ${res.text}`);
+        }
+    };
+
+    const geocode = async (location: string): Promise<ResolvedLocation> => {
+        const coordinates = parseCoordinates(location);
+        if (coordinates) return { name: location.trim(), ...coordinates };
+
+        const params = new URLSearchParams({ name: location.trim(), count: "1", language: "en", format: "json", countryCode: "IN" });
+        const json = await getJson(`${options.geocodingUrl}/v1/search?${params.toString()}`);
+        const place = json.results?.[0];
+        if (!place) {
+            throw new Error(`Location '${location}' not found by the geocoding service`);
+        }
+        return { name: place.name, latitude: place.latitude, longitude: place.longitude, region: place.admin1 };
+    };
+
+    const resolve = async (location: string) =>
+        (await geocodeCache.getOrLoad(location.trim().toLowerCase(), () => geocode(location))).value;
+
+    const fetchDaily = async (baseUrl: string, endpoint: string, place: ResolvedLocation, range: Record<string, string>): Promise<WeatherForecast> => {
+        const params = new URLSearchParams({
+            latitude: String(place.latitude),
+            longitude: String(place.longitude),
+            daily: "temperature_2m_max,temperature_2m_min,relative_humidity_2m_mean,precipitation_sum,wind_speed_10m_max," +
+                "shortwave_radiation_sum,et0_fao_evapotranspiration",
+            timezone: "Asia/Kolkata",
+            ...range
+        });
+        const json = await getJson(`${baseUrl}${endpoint}?${params.toString()}`);
+        const daily = json.daily;
+        if (!daily?.time) {
+            throw new Error("Weather API response has no daily forecast");
+        }
+
+        const days: WeatherDay[] = [];
+        daily.time.forEach((date: string, i: number) => {
+            // The archive leaves its most recent days empty until they are reanalysed
+            if (typeof daily.temperature_2m_max[i] !== "number" || typeof daily.temperature_2m_min[i] !== "number") return;
+            const humidity = Math.round(daily.relative_humidity_2m_mean?.[i] ?? 0);
+            const rainfall = round1(daily.precipitation_sum?.[i] ?? 0);
+            days.push({
+                date,
+                temperature: {
+                    max: Math.round(daily.temperature_2m_max[i]),
+                    min: Math.round(daily.temperature_2m_min[i])
+                },
+                humidity,
+                rainfall,
+                wind_speed: Math.round(daily.wind_speed_10m_max?.[i] ?? 0),
+                conditions: conditionsFor(rainfall, humidity),
+                ...(typeof daily.shortwave_radiation_sum?.[i] === "number" ? { solar_radiation: round1(daily.shortwave_radiation_sum[i]) } : {}),
+                ...(typeof daily.et0_fao_evapotranspiration?.[i] === "number" ? { reference_et0: round1(daily.et0_fao_evapotranspiration[i]) } : {})
+            });
+        });
+
+        return {
+            location: typeof json.elevation === "number" ? { ...place, elevation: json.elevation } : place,
+            days
+        };
+    };
+
+    const fetchForecast = async (location: string, days: number) =>
+        fetchDaily(options.baseUrl, "/v1/forecast", await resolve(location), { forecast_days: String(days) });
+
+    /**
+     * The forecast endpoint only reaches back FORECAST_PAST_DAYS; older days come from the archive endpoint
+     */
+    const fetchRange = async (location: string, startDate: string, endDate: string): Promise<WeatherForecast> => {
+        const place = await resolve(location);
+        const oldestForecastDate = addDays(todayIso(), -FORECAST_PAST_DAYS);
+        if (startDate >= oldestForecastDate) {
+            return fetchDaily(options.baseUrl, "/v1/forecast", place, { start_date: startDate, end_date: endDate });
+        }
+
+        const archiveEnd = endDate < oldestForecastDate ? endDate : oldestForecastDate;
+        const archive = await fetchDaily(options.archiveUrl, "/v1/archive", place, { start_date: startDate, end_date: archiveEnd });
+        if (archiveEnd >= endDate) return archive;
+
+        const lastArchived = archive.days[archive.days.length - 1]?.date ?? addDays(startDate, -1);
+        const recent = await fetchDaily(options.baseUrl, "/v1/forecast", place, {
+            start_date: lastArchived < oldestForecastDate ? oldestForecastDate : addDays(lastArchived, 1),
+            end_date: endDate
+        });
+        return { location: recent.location, days: [...archive.days, ...recent.days] };
+    };
+
+    return {
+        name: "open-meteo",
+        source: `Open-Meteo forecast API (${options.baseUrl})`,
+        getForecast: async (location, days) =>
+            (await forecastCache.getOrLoad(JSON.stringify([location.trim().toLowerCase(), days]), () => fetchForecast(location, days))).value,
+        getDailyRange: async (location, startDate, endDate) =>
+            (await forecastCache.getOrLoad(JSON.stringify([location.trim().toLowerCase(), startDate, endDate]), () => fetchRange(location, startDate, endDate))).value
+    };
+};
+
+// FNV-1a: stable 32-bit hash so a location and date always seed the same numbers
+const hash = (text: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// mulberry32 PRNG
+const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) >>> 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Rough north/central Indian climatology by month (Jan..Dec)
+const MONTHLY_MAX_TEMP = [21, 24, 30, 36, 40, 38, 33, 32, 32, 31, 27, 22];
+const MONTHLY_HUMIDITY = [65, 60, 45, 35, 40, 60, 80, 82, 75, 60, 60, 65];
+const MONTHLY_RAIN_CHANCE = [0.08, 0.08, 0.07, 0.05, 0.08, 0.3, 0.55, 0.55, 0.35, 0.1, 0.05, 0.05];
+
+/**
+ * Seasonal simulation seeded by location and date: the same question always gets the same forecast,
+ * and overlapping date ranges agree day by day
+ */
+export const createSimulatedWeatherProvider = (): WeatherProvider => {
+    const simulate = (location: string, startDate: string, days: number): WeatherForecast => {
+        const key = location.trim().toLowerCase().replace(/\s+/g, " ");
+        // Each location runs a little warmer or cooler than the climatology
+        const offset = (seededRandom(hash(key))() - 0.5) * 6;
+
+        const forecast: WeatherDay[] = [];
+        for (let i = 0; i < days; i++) {
+            const isoDate = addDays(startDate, i);
+            const month = new Date(`${isoDate}T00:00:00Z`).getUTCMonth();
+            const random = seededRandom(hash(`${key}|${isoDate}`));
+
+            const temp_max = MONTHLY_MAX_TEMP[month] + offset + (random() - 0.5) * 4;
+            const temp_min = temp_max - 8 - random() * 4; // 8-12°C difference
+            const rainy = random() < MONTHLY_RAIN_CHANCE[month];
+            const rainfall = rainy ? random() * 25 : 0;
+            const humidity = Math.min(98, MONTHLY_HUMIDITY[month] + (random() - 0.5) * 20 + (rainy ? 10 : 0));
+            const wind_speed = 5 + random() * 15; // 5-20 km/h
+
+            forecast.push({
+                date: isoDate,
+                temperature: {
+                    max: Math.round(temp_max),
+                    min: Math.round(temp_min)
+                },
+                humidity: Math.round(humidity),
+                rainfall: round1(rainfall),
+                wind_speed: Math.round(wind_speed),
+                conditions: conditionsFor(round1(rainfall), humidity)
+            });
+        }
+
+        return { location: { name: location.trim() }, days: forecast };
+    };
+
+    return {
+        name: "simulation",
+        source: "Deterministic weather simulation (seasonal climatology seeded by location and date)",
+        getForecast: async (location, days) => simulate(location, todayIso(), days),
+        getDailyRange: async (location, startDate, endDate) =>
+            simulate(location, startDate, Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS) + 1)
+    };
+};
+
+/**
+ * Provider chosen by WEATHER_PROVIDER (open-meteo | simulation); setting WEATHER_API_BASE_URL alone selects open-meteo
+ */
+export const createWeatherProvider = (): WeatherProvider => {
+    const configured = process.env.WEATHER_PROVIDER?.trim().toLowerCase()
+        || (process.env.WEATHER_API_BASE_URL ? "open-meteo" : "simulation");
+
+    if (configured === "open-meteo") {
+        return createOpenMeteoProvider({
+            baseUrl: (process.env.WEATHER_API_BASE_URL ?? "https://api.open-meteo.com").replace(/\/+$/, ""),
+            geocodingUrl: (process.env.WEATHER_GEOCODING_BASE_URL ?? "https://geocoding-api.open-meteo.com").replace(/\/+$/, ""),
+            archiveUrl: (process.env.WEATHER_ARCHIVE_BASE_URL ?? "https://archive-api.open-meteo.com").replace(/\/+$/, ""),
+            cacheTtlMs: Number(process.env.WEATHER_CACHE_TTL_MS ?? 30 * 60 * 1000)
+        });
+    }
+    if (configured !== "simulation") {
+        console.error(`Unknown WEATHER_PROVIDER '${configured}', using the simulation provider`);
+    }
+    return createSimulatedWeatherProvider();
+};
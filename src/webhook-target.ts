@@ -0,0 +1,81 @@
+// src/webhook-target.ts - Keep alert webhooks off loopback, link-local and private networks
+import { lookup, LookupAddress } from "dns";
+import { Agent as HttpAgent } from "http";
+import { Agent as HttpsAgent } from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+
+// Comma-separated host names; a leading dot (".example.com") also allows every subdomain
+const ALLOWED_HOSTS = (process.env.ALERT_WEBHOOK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+const isPrivateAddress = (address: string) => {
+    // IPv4-mapped IPv6 (::ffff:127.0.0.1) reaches the IPv4 host
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+    if (mapped) return PRIVATE_RANGES.check(mapped, "ipv4");
+    const family = isIP(address);
+    return family !== 0 && PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+const hostOf = (url: string) => new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+const isAllowedHost = (host: string) =>
+    ALLOWED_HOSTS.some(allowed => allowed.startsWith(".") ? host.endsWith(allowed) || host === allowed.slice(1) : host === allowed);
+
+/**
+ * Why a webhook URL may not be used, judged from the URL alone; undefined when it may.
+ * With ALERT_WEBHOOK_ALLOWED_HOSTS set only those hosts pass, otherwise any host but localhost and private IP literals.
+ */
+export const webhookUrlProblem = (url: string): string | undefined => {
+    const host = hostOf(url);
+    if (ALLOWED_HOSTS.length > 0) {
+        return isAllowedHost(host) ? undefined : `Webhook host '${host}' is not in ALERT_WEBHOOK_ALLOWED_HOSTS`;
+    }
+    if (host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host)) {
+        return `Webhook host '${host}' is a loopback, link-local or private address`;
+    }
+    return undefined;
+};
+
+export const BLOCKED_ADDRESS_CODE = "EWEBHOOKPRIVATE";
+
+/**
+ * dns.lookup that fails when a name resolves to a private address, so the connection goes to the address that was checked
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, options, (err, address, family) => {
+        if (err) return callback(err, address, family);
+
+        const addresses = typeof address === "string" ? [address] : (address as LookupAddress[]).map(entry => entry.address);
+        const blocked = addresses.find(isPrivateAddress);
+        if (blocked) {
+            const error = Object.assign(new Error(`Webhook host '${hostname}' resolves to private address ${blocked}`), { code: BLOCKED_ADDRESS_CODE });
+            return callback(error, address, family);
+        }
+        callback(null, address, family);
+    });
+};
+
+const guardedAgents = {
+    "http:": new HttpAgent({ lookup: guardedLookup }),
+    "https:": new HttpsAgent({ lookup: guardedLookup })
+};
+
+/**
+ * Agent for a webhook request: without an allowlist, names are only connected to when they resolve to public addresses.
+ * Hosts on the allowlist are trusted as configured.
+ */
+export const webhookAgent = (url: URL) =>
+    ALLOWED_HOSTS.length > 0 ? undefined : guardedAgents[url.protocol === "https:" ? "https:" : "http:"];